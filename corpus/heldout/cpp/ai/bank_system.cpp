@@ -0,0 +1,113 @@
+#include <iomanip>
+#include <iostream>
+#include <stdexcept>
+#include <string>
+#include <unordered_map>
+
+/**
+ * @brief Represents a simple bank account.
+ */
+class Account {
+public:
+    Account(std::string ownerName, double initialBalance)
+        : owner(std::move(ownerName)), balance(initialBalance) {
+        if (initialBalance < 0.0) {
+            throw std::invalid_argument("Initial balance cannot be negative");
+        }
+    }
+
+    /**
+     * @brief Deposits money into the account.
+     * @param amount The amount to deposit. Must be positive.
+     */
+    void deposit(double amount) {
+        if (amount <= 0.0) {
+            throw std::invalid_argument("Deposit amount must be positive");
+        }
+        balance += amount;
+    }
+
+    /**
+     * @brief Withdraws money from the account.
+     * @param amount The amount to withdraw.
+     * @throws std::runtime_error if there are insufficient funds.
+     */
+    void withdraw(double amount) {
+        if (amount <= 0.0) {
+            throw std::invalid_argument("Withdrawal amount must be positive");
+        }
+        if (amount > balance) {
+            throw std::runtime_error("Insufficient funds");
+        }
+        balance -= amount;
+    }
+
+    double getBalance() const { return balance; }
+    const std::string& getOwner() const { return owner; }
+
+private:
+    std::string owner;
+    double balance;
+};
+
+/**
+ * @brief Manages a collection of bank accounts.
+ */
+class Bank {
+public:
+    /**
+     * @brief Opens a new account and returns its account number.
+     */
+    int openAccount(const std::string& ownerName, double initialBalance = 0.0) {
+        int accountNumber = nextAccountNumber++;
+        accounts.emplace(accountNumber, Account(ownerName, initialBalance));
+        return accountNumber;
+    }
+
+    /**
+     * @brief Transfers money between two accounts.
+     * @throws std::out_of_range if either account does not exist.
+     */
+    void transfer(int fromAccountNumber, int toAccountNumber, double amount) {
+        Account& sourceAccount = accounts.at(fromAccountNumber);
+        Account& destinationAccount = accounts.at(toAccountNumber);
+
+        // Withdraw first so that a failure leaves both accounts unchanged
+        sourceAccount.withdraw(amount);
+        destinationAccount.deposit(amount);
+    }
+
+    /**
+     * @brief Prints a summary of all accounts.
+     */
+    void printSummary() const {
+        std::cout << std::fixed << std::setprecision(2);
+        for (const auto& [accountNumber, account] : accounts) {
+            std::cout << "Account #" << accountNumber << " (" << account.getOwner()
+                      << "): $" << account.getBalance() << std::endl;
+        }
+    }
+
+private:
+    std::unordered_map<int, Account> accounts;
+    int nextAccountNumber = 1000;
+};
+
+int main() {
+    Bank bank;
+
+    try {
+        int aliceAccount = bank.openAccount("Alice", 500.0);
+        int bobAccount = bank.openAccount("Bob", 100.0);
+
+        bank.transfer(aliceAccount, bobAccount, 150.0);
+        bank.printSummary();
+
+        // This transfer should fail due to insufficient funds
+        bank.transfer(bobAccount, aliceAccount, 1000.0);
+    } catch (const std::exception& error) {
+        std::cerr << "Error: " << error.what() << std::endl;
+    }
+
+    return 0;
+}
@@ -0,0 +1,94 @@
+#include "config_parser.h"
+
+#include <fstream>
+#include <sstream>
+#include <stdexcept>
+
+namespace {
+
+/**
+ * @brief Trims leading and trailing whitespace from a string.
+ */
+std::string trimWhitespace(const std::string& value) {
+    const std::size_t firstNonSpace = value.find_first_not_of(" \t\r\n");
+    if (firstNonSpace == std::string::npos) {
+        return "";
+    }
+    const std::size_t lastNonSpace = value.find_last_not_of(" \t\r\n");
+    return value.substr(firstNonSpace, lastNonSpace - firstNonSpace + 1);
+}
+
+}  // namespace
+
+/**
+ * @brief Loads and parses an INI-style configuration file.
+ * @param filePath The path to the configuration file.
+ * @throws std::runtime_error if the file cannot be opened or contains invalid syntax.
+ */
+void ConfigParser::load(const std::string& filePath) {
+    std::ifstream inputFile(filePath);
+    if (!inputFile.is_open()) {
+        throw std::runtime_error("Failed to open configuration file: " + filePath);
+    }
+
+    std::string currentSection;
+    std::string line;
+    int lineNumber = 0;
+
+    while (std::getline(inputFile, line)) {
+        ++lineNumber;
+        const std::string trimmedLine = trimWhitespace(line);
+
+        // Skip empty lines and comments
+        if (trimmedLine.empty() || trimmedLine[0] == '#' || trimmedLine[0] == ';') {
+            continue;
+        }
+
+        // Handle section headers such as [database]
+        if (trimmedLine.front() == '[' && trimmedLine.back() == ']') {
+            currentSection = trimWhitespace(trimmedLine.substr(1, trimmedLine.size() - 2));
+            continue;
+        }
+
+        const std::size_t separatorPosition = trimmedLine.find('=');
+        if (separatorPosition == std::string::npos) {
+            std::ostringstream errorMessage;
+            errorMessage << "Invalid syntax on line " << lineNumber << ": " << trimmedLine;
+            throw std::runtime_error(errorMessage.str());
+        }
+
+        const std::string key = trimWhitespace(trimmedLine.substr(0, separatorPosition));
+        const std::string value = trimWhitespace(trimmedLine.substr(separatorPosition + 1));
+        const std::string fullKey = currentSection.empty() ? key : currentSection + "." + key;
+
+        values[fullKey] = value;
+    }
+}
+
+/**
+ * @brief Retrieves a string value for the given key.
+ * @param key The fully qualified key (e.g. "database.host").
+ * @param defaultValue The value to return if the key is not present.
+ * @return The configured value or the default value.
+ */
+std::string ConfigParser::getString(const std::string& key, const std::string& defaultValue) const {
+    const auto iterator = values.find(key);
+    return iterator != values.end() ? iterator->second : defaultValue;
+}
+
+/**
+ * @brief Retrieves an integer value for the given key.
+ * @throws std::invalid_argument if the value cannot be converted to an integer.
+ */
+int ConfigParser::getInt(const std::string& key, int defaultValue) const {
+    const auto iterator = values.find(key);
+    if (iterator == values.end()) {
+        return defaultValue;
+    }
+
+    try {
+        return std::stoi(iterator->second);
+    } catch (const std::exception&) {
+        throw std::invalid_argument("Value for key '" + key + "' is not a valid integer");
+    }
+}
@@ -0,0 +1,111 @@
+#include <algorithm>
+#include <cmath>
+#include <fstream>
+#include <iostream>
+#include <sstream>
+#include <stdexcept>
+#include <string>
+#include <vector>
+
+// Structure to hold summary statistics for a column of numbers
+struct ColumnStatistics {
+    double mean = 0.0;
+    double median = 0.0;
+    double standardDeviation = 0.0;
+    double minimum = 0.0;
+    double maximum = 0.0;
+};
+
+// Function to read a single numeric column from a CSV file
+std::vector<double> readColumn(const std::string& filePath, std::size_t columnIndex) {
+    std::ifstream file(filePath);
+    if (!file.is_open()) {
+        throw std::runtime_error("Failed to open file: " + filePath);
+    }
+
+    std::vector<double> values;
+    std::string line;
+
+    // Skip the header row
+    std::getline(file, line);
+
+    while (std::getline(file, line)) {
+        std::stringstream stream(line);
+        std::string cell;
+        std::size_t currentColumn = 0;
+
+        while (std::getline(stream, cell, ',')) {
+            if (currentColumn == columnIndex) {
+                try {
+                    values.push_back(std::stod(cell));
+                } catch (const std::invalid_argument&) {
+                    std::cerr << "Warning: skipping invalid value '" << cell << "'" << std::endl;
+                }
+                break;
+            }
+            ++currentColumn;
+        }
+    }
+
+    return values;
+}
+
+// Function to calculate summary statistics for a list of values
+ColumnStatistics calculateStatistics(std::vector<double> values) {
+    if (values.empty()) {
+        throw std::invalid_argument("Cannot calculate statistics for an empty column.");
+    }
+
+    ColumnStatistics stats;
+
+    // Sort the values to find the median, minimum and maximum
+    std::sort(values.begin(), values.end());
+    stats.minimum = values.front();
+    stats.maximum = values.back();
+
+    std::size_t middle = values.size() / 2;
+    if (values.size() % 2 == 0) {
+        stats.median = (values[middle - 1] + values[middle]) / 2.0;
+    } else {
+        stats.median = values[middle];
+    }
+
+    // Calculate the mean
+    double sum = 0.0;
+    for (double value : values) {
+        sum += value;
+    }
+    stats.mean = sum / values.size();
+
+    // Calculate the standard deviation
+    double squaredDifferences = 0.0;
+    for (double value : values) {
+        squaredDifferences += std::pow(value - stats.mean, 2);
+    }
+    stats.standardDeviation = std::sqrt(squaredDifferences / values.size());
+
+    return stats;
+}
+
+int main(int argc, char* argv[]) {
+    if (argc != 3) {
+        std::cerr << "Usage: " << argv[0] << " <file.csv> <column-index>" << std::endl;
+        return 1;
+    }
+
+    try {
+        std::vector<double> values = readColumn(argv[1], std::stoul(argv[2]));
+        ColumnStatistics stats = calculateStatistics(values);
+
+        // Print the results in a readable format
+        std::cout << "Mean: " << stats.mean << std::endl;
+        std::cout << "Median: " << stats.median << std::endl;
+        std::cout << "Standard deviation: " << stats.standardDeviation << std::endl;
+        std::cout << "Range: " << stats.minimum << " - " << stats.maximum << std::endl;
+    } catch (const std::exception& e) {
+        std::cerr << "Error: " << e.what() << std::endl;
+        return 1;
+    }
+
+    return 0;
+}
@@ -0,0 +1,104 @@
+#ifndef EVENT_DISPATCHER_HPP
+#define EVENT_DISPATCHER_HPP
+
+#include <algorithm>
+#include <functional>
+#include <mutex>
+#include <string>
+#include <unordered_map>
+#include <vector>
+
+/**
+ * @brief A thread-safe event dispatcher implementing the observer pattern.
+ *
+ * Listeners can subscribe to named events and will be invoked whenever
+ * the corresponding event is emitted. Each subscription returns a unique
+ * identifier that can later be used to unsubscribe.
+ *
+ * @tparam Payload The type of data passed to event listeners.
+ */
+template <typename Payload>
+class EventDispatcher {
+public:
+    using Listener = std::function<void(const Payload&)>;
+    using SubscriptionId = std::size_t;
+
+    /**
+     * @brief Subscribes a listener to the specified event.
+     * @param eventName The name of the event to listen for.
+     * @param listener The callback to invoke when the event is emitted.
+     * @return A unique identifier for the subscription.
+     */
+    SubscriptionId subscribe(const std::string& eventName, Listener listener) {
+        std::lock_guard<std::mutex> lock(mutex_);
+        SubscriptionId id = nextId_++;
+        listeners_[eventName].push_back({id, std::move(listener)});
+        return id;
+    }
+
+    /**
+     * @brief Removes a previously registered listener.
+     * @param eventName The name of the event.
+     * @param id The subscription identifier returned by subscribe().
+     * @return True if the listener was found and removed, false otherwise.
+     */
+    bool unsubscribe(const std::string& eventName, SubscriptionId id) {
+        std::lock_guard<std::mutex> lock(mutex_);
+        auto it = listeners_.find(eventName);
+        if (it == listeners_.end()) {
+            return false;
+        }
+
+        auto& entries = it->second;
+        auto removed = std::remove_if(entries.begin(), entries.end(),
+                                      [id](const Entry& entry) { return entry.id == id; });
+        bool found = removed != entries.end();
+        entries.erase(removed, entries.end());
+        return found;
+    }
+
+    /**
+     * @brief Emits an event, notifying all subscribed listeners.
+     * @param eventName The name of the event to emit.
+     * @param payload The data to pass to each listener.
+     */
+    void emit(const std::string& eventName, const Payload& payload) {
+        std::vector<Entry> snapshot;
+        {
+            // Copy the listeners so callbacks can safely modify subscriptions
+            std::lock_guard<std::mutex> lock(mutex_);
+            auto it = listeners_.find(eventName);
+            if (it == listeners_.end()) {
+                return;
+            }
+            snapshot = it->second;
+        }
+
+        for (const auto& entry : snapshot) {
+            entry.listener(payload);
+        }
+    }
+
+    /**
+     * @brief Returns the number of listeners registered for an event.
+     * @param eventName The name of the event.
+     * @return The listener count.
+     */
+    std::size_t listenerCount(const std::string& eventName) const {
+        std::lock_guard<std::mutex> lock(mutex_);
+        auto it = listeners_.find(eventName);
+        return it == listeners_.end() ? 0 : it->second.size();
+    }
+
+private:
+    struct Entry {
+        SubscriptionId id;
+        Listener listener;
+    };
+
+    mutable std::mutex mutex_;
+    std::unordered_map<std::string, std::vector<Entry>> listeners_;
+    SubscriptionId nextId_ = 1;
+};
+
+#endif // EVENT_DISPATCHER_HPP
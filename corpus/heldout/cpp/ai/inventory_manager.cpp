@@ -0,0 +1,121 @@
+#include <iostream>
+#include <map>
+#include <stdexcept>
+#include <string>
+#include <vector>
+
+/**
+ * @brief Represents a single product stored in the inventory.
+ */
+struct Product {
+    std::string sku;
+    std::string name;
+    double price;
+    int quantity;
+};
+
+/**
+ * @brief Manages a collection of products and their stock levels.
+ *
+ * The InventoryManager class provides methods to add products, update
+ * stock quantities, and generate a simple report of the current inventory.
+ */
+class InventoryManager {
+public:
+    /**
+     * @brief Adds a new product to the inventory.
+     * @param product The product to add.
+     * @throws std::invalid_argument if the SKU already exists or the data is invalid.
+     */
+    void addProduct(const Product& product) {
+        if (product.sku.empty()) {
+            throw std::invalid_argument("Product SKU cannot be empty.");
+        }
+        if (product.price < 0.0) {
+            throw std::invalid_argument("Product price cannot be negative.");
+        }
+        if (products_.count(product.sku) > 0) {
+            throw std::invalid_argument("A product with SKU '" + product.sku + "' already exists.");
+        }
+
+        products_[product.sku] = product;
+    }
+
+    /**
+     * @brief Adjusts the stock level of an existing product.
+     * @param sku The SKU of the product to update.
+     * @param delta The change in quantity (positive to restock, negative to sell).
+     * @throws std::out_of_range if the product does not exist.
+     * @throws std::runtime_error if the resulting quantity would be negative.
+     */
+    void adjustStock(const std::string& sku, int delta) {
+        auto it = products_.find(sku);
+        if (it == products_.end()) {
+            throw std::out_of_range("Product with SKU '" + sku + "' was not found.");
+        }
+
+        int newQuantity = it->second.quantity + delta;
+        if (newQuantity < 0) {
+            throw std::runtime_error("Insufficient stock for product '" + sku + "'.");
+        }
+
+        it->second.quantity = newQuantity;
+    }
+
+    /**
+     * @brief Returns all products whose quantity is below the given threshold.
+     * @param threshold The minimum acceptable stock level.
+     * @return A vector of products that need to be restocked.
+     */
+    std::vector<Product> getLowStockProducts(int threshold) const {
+        std::vector<Product> result;
+        for (const auto& [sku, product] : products_) {
+            if (product.quantity < threshold) {
+                result.push_back(product);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * @brief Calculates the total value of all products in stock.
+     * @return The sum of price multiplied by quantity for every product.
+     */
+    double getTotalValue() const {
+        double total = 0.0;
+        for (const auto& [sku, product] : products_) {
+            total += product.price * product.quantity;
+        }
+        return total;
+    }
+
+private:
+    std::map<std::string, Product> products_;
+};
+
+int main() {
+    InventoryManager inventory;
+
+    try {
+        // Add some sample products to the inventory
+        inventory.addProduct({"A100", "Wireless Mouse", 24.99, 15});
+        inventory.addProduct({"B200", "Mechanical Keyboard", 89.50, 3});
+        inventory.addProduct({"C300", "USB-C Hub", 39.00, 8});
+
+        // Simulate a sale and a restock
+        inventory.adjustStock("A100", -5);
+        inventory.adjustStock("B200", 2);
+
+        std::cout << "Total inventory value: $" << inventory.getTotalValue() << std::endl;
+
+        // Display products that need to be restocked
+        for (const auto& product : inventory.getLowStockProducts(10)) {
+            std::cout << "Low stock: " << product.name << " (" << product.quantity << " left)" << std::endl;
+        }
+    } catch (const std::exception& e) {
+        std::cerr << "Error: " << e.what() << std::endl;
+        return 1;
+    }
+
+    return 0;
+}
@@ -0,0 +1,105 @@
+#pragma once
+
+#include <cstddef>
+#include <memory>
+#include <stdexcept>
+
+/**
+ * @brief A singly linked list implementation using smart pointers.
+ * @tparam T The type of elements stored in the list.
+ */
+template <typename T>
+class LinkedList {
+private:
+    /**
+     * @brief A node in the linked list.
+     */
+    struct Node {
+        T value;
+        std::unique_ptr<Node> next;
+
+        explicit Node(const T& nodeValue) : value(nodeValue), next(nullptr) {}
+    };
+
+    std::unique_ptr<Node> head;
+    std::size_t elementCount = 0;
+
+public:
+    LinkedList() = default;
+
+    /**
+     * @brief Inserts an element at the front of the list.
+     * @param value The value to insert.
+     */
+    void pushFront(const T& value) {
+        auto newNode = std::make_unique<Node>(value);
+        newNode->next = std::move(head);
+        head = std::move(newNode);
+        ++elementCount;
+    }
+
+    /**
+     * @brief Removes the first element of the list.
+     * @throws std::out_of_range if the list is empty.
+     */
+    void popFront() {
+        if (!head) {
+            throw std::out_of_range("Cannot pop from an empty list");
+        }
+        head = std::move(head->next);
+        --elementCount;
+    }
+
+    /**
+     * @brief Returns a reference to the first element.
+     * @throws std::out_of_range if the list is empty.
+     */
+    T& front() {
+        if (!head) {
+            throw std::out_of_range("List is empty");
+        }
+        return head->value;
+    }
+
+    /**
+     * @brief Reverses the order of the elements in place.
+     */
+    void reverse() {
+        std::unique_ptr<Node> previousNode = nullptr;
+        std::unique_ptr<Node> currentNode = std::move(head);
+
+        // Iterate through the list and reverse each link
+        while (currentNode) {
+            std::unique_ptr<Node> nextNode = std::move(currentNode->next);
+            currentNode->next = std::move(previousNode);
+            previousNode = std::move(currentNode);
+            currentNode = std::move(nextNode);
+        }
+
+        head = std::move(previousNode);
+    }
+
+    /**
+     * @brief Checks whether the list contains the given value.
+     * @param value The value to search for.
+     * @return True if the value is found, false otherwise.
+     */
+    bool contains(const T& value) const {
+        for (const Node* node = head.get(); node != nullptr; node = node->next.get()) {
+            if (node->value == value) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @brief Returns the number of elements in the list.
+     */
+    std::size_t size() const { return elementCount; }
+
+    /**
+     * @brief Checks whether the list is empty.
+     */
+    bool empty() const { return elementCount == 0; }
+};
@@ -0,0 +1,92 @@
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Text;
+
+namespace DataImport
+{
+    /// <summary>
+    /// A simple CSV parser that supports quoted fields and custom delimiters.
+    /// </summary>
+    public class CsvReader
+    {
+        private readonly char _delimiter;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="CsvReader"/> class.
+        /// </summary>
+        /// <param name="delimiter">The character used to separate fields. Defaults to a comma.</param>
+        public CsvReader(char delimiter = ',')
+        {
+            _delimiter = delimiter;
+        }
+
+        /// <summary>
+        /// Reads all records from the specified CSV file.
+        /// </summary>
+        /// <param name="filePath">The path to the CSV file.</param>
+        /// <returns>An enumerable of records, where each record is a list of field values.</returns>
+        /// <exception cref="FileNotFoundException">Thrown when the file does not exist.</exception>
+        public IEnumerable<IReadOnlyList<string>> ReadFile(string filePath)
+        {
+            if (!File.Exists(filePath))
+            {
+                throw new FileNotFoundException($"The CSV file '{filePath}' was not found.", filePath);
+            }
+
+            foreach (var line in File.ReadLines(filePath))
+            {
+                // Skip empty lines
+                if (string.IsNullOrWhiteSpace(line))
+                {
+                    continue;
+                }
+
+                yield return ParseLine(line);
+            }
+        }
+
+        /// <summary>
+        /// Parses a single line of CSV text into its individual fields.
+        /// </summary>
+        /// <param name="line">The line to parse.</param>
+        /// <returns>A list of field values.</returns>
+        public IReadOnlyList<string> ParseLine(string line)
+        {
+            var fields = new List<string>();
+            var currentField = new StringBuilder();
+            var isInsideQuotes = false;
+
+            for (var index = 0; index < line.Length; index++)
+            {
+                var character = line[index];
+
+                if (character == '"')
+                {
+                    // Handle escaped quotes ("") inside quoted fields
+                    if (isInsideQuotes && index + 1 < line.Length && line[index + 1] == '"')
+                    {
+                        currentField.Append('"');
+                        index++;
+                    }
+                    else
+                    {
+                        isInsideQuotes = !isInsideQuotes;
+                    }
+                }
+                else if (character == _delimiter && !isInsideQuotes)
+                {
+                    fields.Add(currentField.ToString());
+                    currentField.Clear();
+                }
+                else
+                {
+                    currentField.Append(character);
+                }
+            }
+
+            fields.Add(currentField.ToString());
+            return fields;
+        }
+    }
+}
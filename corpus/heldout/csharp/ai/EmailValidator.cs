@@ -0,0 +1,97 @@
+using System;
+using System.Collections.Generic;
+using System.Text.RegularExpressions;
+
+namespace Validation
+{
+    /// <summary>
+    /// Represents the result of validating an email address.
+    /// </summary>
+    public class ValidationResult
+    {
+        public bool IsValid { get; }
+        public IReadOnlyList<string> Errors { get; }
+
+        public ValidationResult(IReadOnlyList<string> errors)
+        {
+            Errors = errors;
+            IsValid = errors.Count == 0;
+        }
+    }
+
+    /// <summary>
+    /// Validates email addresses using a set of common rules.
+    /// </summary>
+    public static class EmailValidator
+    {
+        private const int MaxLength = 254;
+        private const int MaxLocalPartLength = 64;
+
+        private static readonly Regex EmailPattern = new Regex(
+            @"^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$",
+            RegexOptions.Compiled);
+
+        private static readonly HashSet<string> DisposableDomains = new HashSet<string>(StringComparer.OrdinalIgnoreCase)
+        {
+            "mailinator.com",
+            "tempmail.com",
+            "10minutemail.com"
+        };
+
+        /// <summary>
+        /// Validates the specified email address.
+        /// </summary>
+        /// <param name="email">The email address to validate.</param>
+        /// <returns>A <see cref="ValidationResult"/> describing any validation errors.</returns>
+        public static ValidationResult Validate(string email)
+        {
+            var errors = new List<string>();
+
+            // Check for null or empty input
+            if (string.IsNullOrWhiteSpace(email))
+            {
+                errors.Add("Email address is required.");
+                return new ValidationResult(errors);
+            }
+
+            email = email.Trim();
+
+            // Check the overall length
+            if (email.Length > MaxLength)
+            {
+                errors.Add($"Email address must not exceed {MaxLength} characters.");
+            }
+
+            // Check the format using a regular expression
+            if (!EmailPattern.IsMatch(email))
+            {
+                errors.Add("Email address format is invalid.");
+                return new ValidationResult(errors);
+            }
+
+            var parts = email.Split('@');
+            var localPart = parts[0];
+            var domain = parts[1];
+
+            // Check the length of the local part
+            if (localPart.Length > MaxLocalPartLength)
+            {
+                errors.Add($"The local part must not exceed {MaxLocalPartLength} characters.");
+            }
+
+            // Check for consecutive dots
+            if (email.Contains(".."))
+            {
+                errors.Add("Email address must not contain consecutive dots.");
+            }
+
+            // Check for disposable email providers
+            if (DisposableDomains.Contains(domain))
+            {
+                errors.Add($"Disposable email domains such as '{domain}' are not allowed.");
+            }
+
+            return new ValidationResult(errors);
+        }
+    }
+}
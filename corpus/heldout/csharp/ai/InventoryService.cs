@@ -0,0 +1,100 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+
+namespace Inventory
+{
+    /// <summary>
+    /// Represents a product tracked by the inventory system.
+    /// </summary>
+    public class Product
+    {
+        public string Sku { get; set; }
+        public string Name { get; set; }
+        public decimal Price { get; set; }
+        public int Quantity { get; set; }
+    }
+
+    /// <summary>
+    /// Provides operations for managing products and their stock levels.
+    /// </summary>
+    public class InventoryService
+    {
+        private readonly Dictionary<string, Product> _products = new Dictionary<string, Product>();
+
+        /// <summary>
+        /// Adds a new product to the inventory.
+        /// </summary>
+        /// <param name="product">The product to add.</param>
+        /// <exception cref="ArgumentNullException">Thrown when the product is null.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when a product with the same SKU already exists.</exception>
+        public void AddProduct(Product product)
+        {
+            if (product == null)
+            {
+                throw new ArgumentNullException(nameof(product));
+            }
+
+            if (string.IsNullOrWhiteSpace(product.Sku))
+            {
+                throw new ArgumentException("Product SKU cannot be empty.", nameof(product));
+            }
+
+            if (_products.ContainsKey(product.Sku))
+            {
+                throw new InvalidOperationException($"A product with SKU '{product.Sku}' already exists.");
+            }
+
+            _products[product.Sku] = product;
+        }
+
+        /// <summary>
+        /// Removes the specified quantity of a product from stock.
+        /// </summary>
+        /// <param name="sku">The SKU of the product.</param>
+        /// <param name="quantity">The quantity to remove.</param>
+        /// <exception cref="KeyNotFoundException">Thrown when the product does not exist.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when there is not enough stock.</exception>
+        public void RemoveStock(string sku, int quantity)
+        {
+            if (quantity <= 0)
+            {
+                throw new ArgumentOutOfRangeException(nameof(quantity), "Quantity must be greater than zero.");
+            }
+
+            if (!_products.TryGetValue(sku, out var product))
+            {
+                throw new KeyNotFoundException($"Product with SKU '{sku}' was not found.");
+            }
+
+            if (product.Quantity < quantity)
+            {
+                throw new InvalidOperationException($"Insufficient stock for product '{sku}'. Available: {product.Quantity}, requested: {quantity}.");
+            }
+
+            product.Quantity -= quantity;
+        }
+
+        /// <summary>
+        /// Gets all products whose stock level is below the specified threshold.
+        /// </summary>
+        /// <param name="threshold">The minimum acceptable quantity.</param>
+        /// <returns>A list of products that need to be restocked.</returns>
+        public IReadOnlyList<Product> GetLowStockProducts(int threshold)
+        {
+            return _products.Values
+                .Where(p => p.Quantity < threshold)
+                .OrderBy(p => p.Quantity)
+                .ToList();
+        }
+
+        /// <summary>
+        /// Calculates the total value of all products in stock.
+        /// </summary>
+        /// <returns>The total inventory value.</returns>
+        public decimal GetTotalValue()
+        {
+            return _products.Values.Sum(p => p.Price * p.Quantity);
+        }
+    }
+}
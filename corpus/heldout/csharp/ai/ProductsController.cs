@@ -0,0 +1,95 @@
+using System.Collections.Generic;
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+
+namespace Store.Api.Controllers
+{
+    /// <summary>
+    /// API controller for managing products.
+    /// </summary>
+    [ApiController]
+    [Route("api/[controller]")]
+    public class ProductsController : ControllerBase
+    {
+        private readonly IProductService _productService;
+        private readonly ILogger<ProductsController> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ProductsController"/> class.
+        /// </summary>
+        /// <param name="productService">The product service.</param>
+        /// <param name="logger">The logger.</param>
+        public ProductsController(IProductService productService, ILogger<ProductsController> logger)
+        {
+            _productService = productService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Retrieves all products.
+        /// </summary>
+        /// <returns>A list of all products.</returns>
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<ProductDto>>> GetAll()
+        {
+            var products = await _productService.GetAllAsync();
+            return Ok(products);
+        }
+
+        /// <summary>
+        /// Retrieves a specific product by its ID.
+        /// </summary>
+        /// <param name="id">The product ID.</param>
+        /// <returns>The requested product, or 404 if not found.</returns>
+        [HttpGet("{id:int}")]
+        public async Task<ActionResult<ProductDto>> GetById(int id)
+        {
+            var product = await _productService.GetByIdAsync(id);
+            if (product == null)
+            {
+                _logger.LogWarning("Product with ID {ProductId} was not found", id);
+                return NotFound();
+            }
+
+            return Ok(product);
+        }
+
+        /// <summary>
+        /// Creates a new product.
+        /// </summary>
+        /// <param name="request">The product creation request.</param>
+        /// <returns>The created product.</returns>
+        [HttpPost]
+        public async Task<ActionResult<ProductDto>> Create([FromBody] CreateProductRequest request)
+        {
+            // Validate the incoming request
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ModelState);
+            }
+
+            var createdProduct = await _productService.CreateAsync(request);
+            _logger.LogInformation("Created product {ProductId}", createdProduct.Id);
+
+            return CreatedAtAction(nameof(GetById), new { id = createdProduct.Id }, createdProduct);
+        }
+
+        /// <summary>
+        /// Deletes a product by its ID.
+        /// </summary>
+        /// <param name="id">The product ID.</param>
+        /// <returns>No content if successful, or 404 if not found.</returns>
+        [HttpDelete("{id:int}")]
+        public async Task<IActionResult> Delete(int id)
+        {
+            var wasDeleted = await _productService.DeleteAsync(id);
+            if (!wasDeleted)
+            {
+                return NotFound();
+            }
+
+            return NoContent();
+        }
+    }
+}
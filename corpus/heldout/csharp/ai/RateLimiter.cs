@@ -0,0 +1,85 @@
+using System;
+using System.Collections.Concurrent;
+
+namespace Throttling
+{
+    /// <summary>
+    /// Implements a token bucket rate limiter that can be shared across threads.
+    /// </summary>
+    public class RateLimiter
+    {
+        private readonly int _capacity;
+        private readonly double _refillRatePerSecond;
+        private readonly ConcurrentDictionary<string, TokenBucket> _buckets = new ConcurrentDictionary<string, TokenBucket>();
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="RateLimiter"/> class.
+        /// </summary>
+        /// <param name="capacity">The maximum number of tokens each bucket can hold.</param>
+        /// <param name="refillRatePerSecond">The number of tokens added to each bucket per second.</param>
+        /// <exception cref="ArgumentOutOfRangeException">Thrown when the capacity or refill rate is not positive.</exception>
+        public RateLimiter(int capacity, double refillRatePerSecond)
+        {
+            if (capacity <= 0)
+            {
+                throw new ArgumentOutOfRangeException(nameof(capacity), "Capacity must be greater than zero.");
+            }
+
+            if (refillRatePerSecond <= 0)
+            {
+                throw new ArgumentOutOfRangeException(nameof(refillRatePerSecond), "Refill rate must be greater than zero.");
+            }
+
+            _capacity = capacity;
+            _refillRatePerSecond = refillRatePerSecond;
+        }
+
+        /// <summary>
+        /// Attempts to consume a token for the specified client.
+        /// </summary>
+        /// <param name="clientId">The unique identifier of the client.</param>
+        /// <returns><c>true</c> if the request is allowed; otherwise, <c>false</c>.</returns>
+        public bool TryAcquire(string clientId)
+        {
+            if (string.IsNullOrEmpty(clientId))
+            {
+                throw new ArgumentException("Client ID cannot be null or empty.", nameof(clientId));
+            }
+
+            var bucket = _buckets.GetOrAdd(clientId, _ => new TokenBucket(_capacity, DateTime.UtcNow));
+
+            lock (bucket)
+            {
+                // Refill the bucket based on the time elapsed since the last request
+                var now = DateTime.UtcNow;
+                var elapsedSeconds = (now - bucket.LastRefill).TotalSeconds;
+                bucket.Tokens = Math.Min(_capacity, bucket.Tokens + elapsedSeconds * _refillRatePerSecond);
+                bucket.LastRefill = now;
+
+                // Check whether there is at least one token available
+                if (bucket.Tokens >= 1)
+                {
+                    bucket.Tokens -= 1;
+                    return true;
+                }
+
+                return false;
+            }
+        }
+
+        /// <summary>
+        /// Represents the state of a single client's token bucket.
+        /// </summary>
+        private class TokenBucket
+        {
+            public double Tokens { get; set; }
+            public DateTime LastRefill { get; set; }
+
+            public TokenBucket(double tokens, DateTime lastRefill)
+            {
+                Tokens = tokens;
+                LastRefill = lastRefill;
+            }
+        }
+    }
+}
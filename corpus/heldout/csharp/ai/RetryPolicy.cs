@@ -0,0 +1,69 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace Resilience
+{
+    /// <summary>
+    /// Provides a simple retry mechanism with exponential backoff for asynchronous operations.
+    /// </summary>
+    public class RetryPolicy
+    {
+        private readonly int _maxRetryAttempts;
+        private readonly TimeSpan _initialDelay;
+        private readonly double _backoffMultiplier;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="RetryPolicy"/> class.
+        /// </summary>
+        /// <param name="maxRetryAttempts">The maximum number of retry attempts.</param>
+        /// <param name="initialDelay">The delay before the first retry.</param>
+        /// <param name="backoffMultiplier">The factor by which the delay increases after each attempt.</param>
+        public RetryPolicy(int maxRetryAttempts = 3, TimeSpan? initialDelay = null, double backoffMultiplier = 2.0)
+        {
+            if (maxRetryAttempts < 0)
+            {
+                throw new ArgumentOutOfRangeException(nameof(maxRetryAttempts), "Retry attempts cannot be negative.");
+            }
+
+            _maxRetryAttempts = maxRetryAttempts;
+            _initialDelay = initialDelay ?? TimeSpan.FromMilliseconds(500);
+            _backoffMultiplier = backoffMultiplier;
+        }
+
+        /// <summary>
+        /// Executes the specified operation, retrying on failure.
+        /// </summary>
+        /// <typeparam name="TResult">The type of the operation result.</typeparam>
+        /// <param name="operation">The asynchronous operation to execute.</param>
+        /// <param name="cancellationToken">A token to cancel the operation.</param>
+        /// <returns>The result of the operation.</returns>
+        public async Task<TResult> ExecuteAsync<TResult>(
+            Func<CancellationToken, Task<TResult>> operation,
+            CancellationToken cancellationToken = default)
+        {
+            if (operation == null)
+            {
+                throw new ArgumentNullException(nameof(operation));
+            }
+
+            var currentDelay = _initialDelay;
+
+            for (var attempt = 0; ; attempt++)
+            {
+                try
+                {
+                    return await operation(cancellationToken).ConfigureAwait(false);
+                }
+                catch (Exception exception) when (attempt < _maxRetryAttempts && !(exception is OperationCanceledException))
+                {
+                    // Log the failure and wait before retrying
+                    Console.WriteLine($"Attempt {attempt + 1} failed: {exception.Message}. Retrying in {currentDelay.TotalMilliseconds}ms...");
+
+                    await Task.Delay(currentDelay, cancellationToken).ConfigureAwait(false);
+                    currentDelay = TimeSpan.FromMilliseconds(currentDelay.TotalMilliseconds * _backoffMultiplier);
+                }
+            }
+        }
+    }
+}
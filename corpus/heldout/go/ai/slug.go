@@ -0,0 +1,57 @@
+package textutil
+
+import (
+	"regexp"
+	"strings"
+	"unicode"
+
+	"golang.org/x/text/unicode/norm"
+)
+
+var (
+	// nonAlphanumericPattern matches any sequence of characters that are not letters or digits.
+	nonAlphanumericPattern = regexp.MustCompile(`[^a-z0-9]+`)
+)
+
+// Slugify converts the given string into a URL-friendly slug.
+//
+// The function performs the following steps:
+//   - Normalizes Unicode characters and removes diacritics
+//   - Converts the string to lowercase
+//   - Replaces non-alphanumeric characters with hyphens
+//   - Trims leading and trailing hyphens
+//
+// Example: Slugify("Héllo, Wörld!") returns "hello-world".
+func Slugify(input string) string {
+	// Decompose characters so that accents can be stripped
+	decomposed := norm.NFD.String(input)
+
+	var builder strings.Builder
+	builder.Grow(len(decomposed))
+	for _, character := range decomposed {
+		if unicode.Is(unicode.Mn, character) {
+			continue
+		}
+		builder.WriteRune(character)
+	}
+
+	lowercased := strings.ToLower(builder.String())
+	hyphenated := nonAlphanumericPattern.ReplaceAllString(lowercased, "-")
+
+	return strings.Trim(hyphenated, "-")
+}
+
+// TruncateSlug shortens a slug to the specified maximum length
+// without cutting a word in half.
+func TruncateSlug(slug string, maxLength int) string {
+	if maxLength <= 0 || len(slug) <= maxLength {
+		return slug
+	}
+
+	truncated := slug[:maxLength]
+	if lastHyphenIndex := strings.LastIndex(truncated, "-"); lastHyphenIndex > 0 {
+		truncated = truncated[:lastHyphenIndex]
+	}
+
+	return strings.Trim(truncated, "-")
+}
@@ -0,0 +1,88 @@
+package repository
+
+import (
+	"context"
+	"database/sql"
+	"errors"
+	"fmt"
+	"time"
+)
+
+// ErrUserNotFound is returned when a user does not exist in the database.
+var ErrUserNotFound = errors.New("user not found")
+
+// User represents a user record stored in the database.
+type User struct {
+	ID        int64
+	Email     string
+	FullName  string
+	CreatedAt time.Time
+}
+
+// UserRepository provides access to the users table.
+type UserRepository struct {
+	database *sql.DB
+}
+
+// NewUserRepository creates a new UserRepository using the provided database connection.
+func NewUserRepository(database *sql.DB) *UserRepository {
+	return &UserRepository{database: database}
+}
+
+// GetByID retrieves a user by their unique identifier.
+// It returns ErrUserNotFound if no matching user exists.
+func (repository *UserRepository) GetByID(ctx context.Context, userID int64) (*User, error) {
+	const query = `SELECT id, email, full_name, created_at FROM users WHERE id = $1`
+
+	var user User
+	err := repository.database.QueryRowContext(ctx, query, userID).Scan(
+		&user.ID,
+		&user.Email,
+		&user.FullName,
+		&user.CreatedAt,
+	)
+	if errors.Is(err, sql.ErrNoRows) {
+		return nil, ErrUserNotFound
+	}
+	if err != nil {
+		return nil, fmt.Errorf("failed to query user %d: %w", userID, err)
+	}
+
+	return &user, nil
+}
+
+// Create inserts a new user into the database and returns the generated ID.
+func (repository *UserRepository) Create(ctx context.Context, email string, fullName string) (int64, error) {
+	const query = `INSERT INTO users (email, full_name, created_at) VALUES ($1, $2, $3) RETURNING id`
+
+	// Validate the input before touching the database
+	if email == "" {
+		return 0, errors.New("email must not be empty")
+	}
+
+	var userID int64
+	if err := repository.database.QueryRowContext(ctx, query, email, fullName, time.Now().UTC()).Scan(&userID); err != nil {
+		return 0, fmt.Errorf("failed to insert user: %w", err)
+	}
+
+	return userID, nil
+}
+
+// Delete removes the user with the given ID.
+// It returns ErrUserNotFound if no rows were affected.
+func (repository *UserRepository) Delete(ctx context.Context, userID int64) error {
+	result, err := repository.database.ExecContext(ctx, `DELETE FROM users WHERE id = $1`, userID)
+	if err != nil {
+		return fmt.Errorf("failed to delete user %d: %w", userID, err)
+	}
+
+	affectedRows, err := result.RowsAffected()
+	if err != nil {
+		return fmt.Errorf("failed to determine affected rows: %w", err)
+	}
+	if affectedRows == 0 {
+		return ErrUserNotFound
+	}
+
+	return nil
+}
@@ -0,0 +1,92 @@
+package main
+
+import (
+	"context"
+	"fmt"
+	"log"
+	"sync"
+	"time"
+)
+
+// Job represents a unit of work to be processed by the worker pool.
+type Job struct {
+	ID      int
+	Payload string
+}
+
+// Result holds the outcome of processing a single job.
+type Result struct {
+	JobID    int
+	Output   string
+	Duration time.Duration
+	Err      error
+}
+
+// processJob simulates processing a job and returns the result.
+func processJob(ctx context.Context, job Job) Result {
+	startTime := time.Now()
+
+	select {
+	case <-ctx.Done():
+		return Result{JobID: job.ID, Err: ctx.Err()}
+	case <-time.After(100 * time.Millisecond):
+		// Simulate some work being done
+	}
+
+	return Result{
+		JobID:    job.ID,
+		Output:   fmt.Sprintf("processed %q", job.Payload),
+		Duration: time.Since(startTime),
+	}
+}
+
+// runWorkerPool starts the specified number of workers and distributes jobs among them.
+// It returns a channel that receives the results as they become available.
+func runWorkerPool(ctx context.Context, workerCount int, jobs <-chan Job) <-chan Result {
+	results := make(chan Result)
+	var waitGroup sync.WaitGroup
+
+	for workerID := 1; workerID <= workerCount; workerID++ {
+		waitGroup.Add(1)
+		go func(id int) {
+			defer waitGroup.Done()
+			for job := range jobs {
+				log.Printf("Worker %d started job %d", id, job.ID)
+				results <- processJob(ctx, job)
+			}
+		}(workerID)
+	}
+
+	// Close the results channel once all workers have finished
+	go func() {
+		waitGroup.Wait()
+		close(results)
+	}()
+
+	return results
+}
+
+func main() {
+	ctx, cancel := context.WithTimeout(context.Background(), 5*time.Second)
+	defer cancel()
+
+	const totalJobs = 10
+	jobs := make(chan Job, totalJobs)
+
+	for jobID := 1; jobID <= totalJobs; jobID++ {
+		jobs <- Job{ID: jobID, Payload: fmt.Sprintf("task-%d", jobID)}
+	}
+	close(jobs)
+
+	successCount := 0
+	for result := range runWorkerPool(ctx, 3, jobs) {
+		if result.Err != nil {
+			log.Printf("Job %d failed: %v", result.JobID, result.Err)
+			continue
+		}
+		successCount++
+		log.Printf("Job %d completed in %s: %s", result.JobID, result.Duration, result.Output)
+	}
+
+	log.Printf("Successfully processed %d of %d jobs", successCount, totalJobs)
+}
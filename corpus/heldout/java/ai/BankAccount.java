@@ -0,0 +1,98 @@
+package com.example.banking;
+
+import java.math.BigDecimal;
+import java.util.ArrayList;
+import java.util.Collections;
+import java.util.List;
+import java.util.Objects;
+
+/**
+ * Represents a bank account that supports deposits, withdrawals, and transaction history.
+ */
+public class BankAccount {
+
+    private final String accountNumber;
+    private final String ownerName;
+    private BigDecimal balance;
+    private final List<Transaction> transactionHistory;
+
+    /**
+     * Constructs a new bank account with a zero balance.
+     *
+     * @param accountNumber the unique account number
+     * @param ownerName the name of the account owner
+     */
+    public BankAccount(String accountNumber, String ownerName) {
+        this.accountNumber = Objects.requireNonNull(accountNumber, "Account number must not be null");
+        this.ownerName = Objects.requireNonNull(ownerName, "Owner name must not be null");
+        this.balance = BigDecimal.ZERO;
+        this.transactionHistory = new ArrayList<>();
+    }
+
+    /**
+     * Deposits the specified amount into the account.
+     *
+     * @param amount the amount to deposit
+     * @throws IllegalArgumentException if the amount is not positive
+     */
+    public void deposit(BigDecimal amount) {
+        validateAmount(amount);
+        balance = balance.add(amount);
+        transactionHistory.add(new Transaction(Transaction.Type.DEPOSIT, amount));
+    }
+
+    /**
+     * Withdraws the specified amount from the account.
+     *
+     * @param amount the amount to withdraw
+     * @throws IllegalArgumentException if the amount is not positive
+     * @throws InsufficientFundsException if the balance is too low
+     */
+    public void withdraw(BigDecimal amount) throws InsufficientFundsException {
+        validateAmount(amount);
+
+        // Ensure the account has enough funds before withdrawing
+        if (balance.compareTo(amount) < 0) {
+            throw new InsufficientFundsException(
+                    "Insufficient funds: balance is " + balance + ", requested " + amount);
+        }
+
+        balance = balance.subtract(amount);
+        transactionHistory.add(new Transaction(Transaction.Type.WITHDRAWAL, amount));
+    }
+
+    /**
+     * Returns the current account balance.
+     *
+     * @return the current balance
+     */
+    public BigDecimal getBalance() {
+        return balance;
+    }
+
+    /**
+     * Returns an unmodifiable view of the transaction history.
+     *
+     * @return the list of transactions
+     */
+    public List<Transaction> getTransactionHistory() {
+        return Collections.unmodifiableList(transactionHistory);
+    }
+
+    /**
+     * Validates that the given amount is positive.
+     *
+     * @param amount the amount to validate
+     */
+    private void validateAmount(BigDecimal amount) {
+        if (amount == null || amount.compareTo(BigDecimal.ZERO) <= 0) {
+            throw new IllegalArgumentException("Amount must be greater than zero");
+        }
+    }
+
+    @Override
+    public String toString() {
+        return String.format("BankAccount[accountNumber=%s, owner=%s, balance=%s]",
+                accountNumber, ownerName, balance);
+    }
+}
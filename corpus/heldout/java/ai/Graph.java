@@ -0,0 +1,104 @@
+import java.util.ArrayDeque;
+import java.util.ArrayList;
+import java.util.Collections;
+import java.util.HashMap;
+import java.util.HashSet;
+import java.util.List;
+import java.util.Map;
+import java.util.Queue;
+import java.util.Set;
+
+/**
+ * An undirected graph implementation using an adjacency list.
+ *
+ * @param <T> the type of the vertices
+ */
+public class Graph<T> {
+
+    private final Map<T, Set<T>> adjacencyList = new HashMap<>();
+
+    /**
+     * Adds a vertex to the graph if it does not already exist.
+     *
+     * @param vertex the vertex to add
+     */
+    public void addVertex(T vertex) {
+        adjacencyList.putIfAbsent(vertex, new HashSet<>());
+    }
+
+    /**
+     * Adds an undirected edge between two vertices.
+     *
+     * @param source the first vertex
+     * @param destination the second vertex
+     */
+    public void addEdge(T source, T destination) {
+        addVertex(source);
+        addVertex(destination);
+        adjacencyList.get(source).add(destination);
+        adjacencyList.get(destination).add(source);
+    }
+
+    /**
+     * Finds the shortest path between two vertices using breadth-first search.
+     *
+     * @param start the starting vertex
+     * @param target the target vertex
+     * @return the list of vertices forming the shortest path, or an empty list if no path exists
+     */
+    public List<T> findShortestPath(T start, T target) {
+        if (!adjacencyList.containsKey(start) || !adjacencyList.containsKey(target)) {
+            return Collections.emptyList();
+        }
+
+        Map<T, T> previousVertex = new HashMap<>();
+        Set<T> visitedVertices = new HashSet<>();
+        Queue<T> queue = new ArrayDeque<>();
+
+        queue.add(start);
+        visitedVertices.add(start);
+
+        while (!queue.isEmpty()) {
+            T currentVertex = queue.poll();
+
+            // Stop searching once the target has been reached
+            if (currentVertex.equals(target)) {
+                return reconstructPath(previousVertex, start, target);
+            }
+
+            for (T neighbor : adjacencyList.get(currentVertex)) {
+                if (visitedVertices.add(neighbor)) {
+                    previousVertex.put(neighbor, currentVertex);
+                    queue.add(neighbor);
+                }
+            }
+        }
+
+        return Collections.emptyList();
+    }
+
+    /**
+     * Reconstructs the path from the start vertex to the target vertex.
+     */
+    private List<T> reconstructPath(Map<T, T> previousVertex, T start, T target) {
+        List<T> path = new ArrayList<>();
+        for (T vertex = target; vertex != null; vertex = previousVertex.get(vertex)) {
+            path.add(vertex);
+            if (vertex.equals(start)) {
+                break;
+            }
+        }
+        Collections.reverse(path);
+        return path;
+    }
+
+    public static void main(String[] args) {
+        Graph<String> graph = new Graph<>();
+        graph.addEdge("A", "B");
+        graph.addEdge("B", "C");
+        graph.addEdge("A", "D");
+        graph.addEdge("D", "C");
+
+        System.out.println("Shortest path from A to C: " + graph.findShortestPath("A", "C"));
+    }
+}
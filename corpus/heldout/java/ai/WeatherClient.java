@@ -0,0 +1,84 @@
+package com.example.weather;
+
+import com.fasterxml.jackson.databind.JsonNode;
+import com.fasterxml.jackson.databind.ObjectMapper;
+
+import java.io.IOException;
+import java.net.URI;
+import java.net.URLEncoder;
+import java.net.http.HttpClient;
+import java.net.http.HttpRequest;
+import java.net.http.HttpResponse;
+import java.nio.charset.StandardCharsets;
+import java.time.Duration;
+
+/**
+ * Client for retrieving current weather data from a remote API.
+ */
+public class WeatherClient {
+
+    private static final String BASE_URL = "https://api.example.com/v1/weather";
+    private static final Duration REQUEST_TIMEOUT = Duration.ofSeconds(10);
+
+    private final HttpClient httpClient;
+    private final ObjectMapper objectMapper;
+    private final String apiKey;
+
+    /**
+     * Creates a new WeatherClient.
+     *
+     * @param apiKey the API key used to authenticate requests
+     */
+    public WeatherClient(String apiKey) {
+        if (apiKey == null || apiKey.isBlank()) {
+            throw new IllegalArgumentException("API key must not be null or blank");
+        }
+        this.apiKey = apiKey;
+        this.httpClient = HttpClient.newBuilder()
+                .connectTimeout(REQUEST_TIMEOUT)
+                .build();
+        this.objectMapper = new ObjectMapper();
+    }
+
+    /**
+     * Fetches the current temperature for the specified city.
+     *
+     * @param cityName the name of the city
+     * @return the current temperature in degrees Celsius
+     * @throws WeatherServiceException if the request fails or the response is invalid
+     */
+    public double getCurrentTemperature(String cityName) throws WeatherServiceException {
+        String encodedCity = URLEncoder.encode(cityName, StandardCharsets.UTF_8);
+        URI requestUri = URI.create(BASE_URL + "?city=" + encodedCity + "&units=metric");
+
+        HttpRequest request = HttpRequest.newBuilder(requestUri)
+                .header("Authorization", "Bearer " + apiKey)
+                .header("Accept", "application/json")
+                .timeout(REQUEST_TIMEOUT)
+                .GET()
+                .build();
+
+        try {
+            HttpResponse<String> response = httpClient.send(request, HttpResponse.BodyHandlers.ofString());
+
+            // Handle non-successful HTTP status codes
+            if (response.statusCode() != 200) {
+                throw new WeatherServiceException(
+                        "Unexpected response status: " + response.statusCode());
+            }
+
+            JsonNode rootNode = objectMapper.readTree(response.body());
+            JsonNode temperatureNode = rootNode.path("current").path("temperature");
+            if (temperatureNode.isMissingNode()) {
+                throw new WeatherServiceException("Response did not contain a temperature value");
+            }
+
+            return temperatureNode.asDouble();
+        } catch (IOException exception) {
+            throw new WeatherServiceException("Failed to fetch weather data for " + cityName, exception);
+        } catch (InterruptedException exception) {
+            Thread.currentThread().interrupt();
+            throw new WeatherServiceException("Request was interrupted", exception);
+        }
+    }
+}
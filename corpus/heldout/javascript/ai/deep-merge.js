@@ -0,0 +1,61 @@
+/**
+ * Checks whether the given value is a plain object.
+ *
+ * @param {*} value - The value to check.
+ * @returns {boolean} True if the value is a plain object.
+ */
+function isPlainObject(value) {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Recursively merges the properties of one or more source objects into a new object.
+ *
+ * - Plain objects are merged recursively.
+ * - Arrays are concatenated by default, or replaced if `options.replaceArrays` is true.
+ * - All other values from later sources overwrite earlier ones.
+ *
+ * @param {Object[]} sources - The objects to merge.
+ * @param {Object} [options] - Merge options.
+ * @param {boolean} [options.replaceArrays=false] - Whether arrays should be replaced instead of concatenated.
+ * @returns {Object} A new object containing the merged properties.
+ */
+function deepMerge(sources, options = {}) {
+  const { replaceArrays = false } = options;
+  const result = {};
+
+  for (const source of sources) {
+    if (!isPlainObject(source)) {
+      continue;
+    }
+
+    for (const [key, sourceValue] of Object.entries(source)) {
+      // Guard against prototype pollution
+      if (key === '__proto__' || key === 'constructor' || key === 'prototype') {
+        continue;
+      }
+
+      const existingValue = result[key];
+
+      if (isPlainObject(existingValue) && isPlainObject(sourceValue)) {
+        result[key] = deepMerge([existingValue, sourceValue], options);
+      } else if (Array.isArray(existingValue) && Array.isArray(sourceValue) && !replaceArrays) {
+        result[key] = [...existingValue, ...sourceValue];
+      } else if (isPlainObject(sourceValue)) {
+        result[key] = deepMerge([sourceValue], options);
+      } else if (Array.isArray(sourceValue)) {
+        result[key] = [...sourceValue];
+      } else {
+        result[key] = sourceValue;
+      }
+    }
+  }
+
+  return result;
+}
+
+export { deepMerge, isPlainObject };
@@ -0,0 +1,87 @@
+const express = require('express');
+const { v4: uuidv4 } = require('uuid');
+
+const app = express();
+const PORT = process.env.PORT || 3000;
+
+// Middleware to parse JSON request bodies
+app.use(express.json());
+
+// In-memory storage for todo items
+const todos = new Map();
+
+/**
+ * GET /api/todos
+ * Returns all todo items.
+ */
+app.get('/api/todos', (req, res) => {
+  res.json(Array.from(todos.values()));
+});
+
+/**
+ * POST /api/todos
+ * Creates a new todo item.
+ */
+app.post('/api/todos', (req, res) => {
+  const { title, completed = false } = req.body;
+
+  // Validate the request body
+  if (!title || typeof title !== 'string') {
+    return res.status(400).json({ error: 'Title is required and must be a string.' });
+  }
+
+  const newTodo = {
+    id: uuidv4(),
+    title: title.trim(),
+    completed: Boolean(completed),
+    createdAt: new Date().toISOString(),
+  };
+
+  todos.set(newTodo.id, newTodo);
+  res.status(201).json(newTodo);
+});
+
+/**
+ * PATCH /api/todos/:id
+ * Updates an existing todo item.
+ */
+app.patch('/api/todos/:id', (req, res) => {
+  const existingTodo = todos.get(req.params.id);
+
+  if (!existingTodo) {
+    return res.status(404).json({ error: 'Todo not found.' });
+  }
+
+  const { title, completed } = req.body;
+  const updatedTodo = {
+    ...existingTodo,
+    ...(title !== undefined && { title: String(title).trim() }),
+    ...(completed !== undefined && { completed: Boolean(completed) }),
+  };
+
+  todos.set(updatedTodo.id, updatedTodo);
+  res.json(updatedTodo);
+});
+
+/**
+ * DELETE /api/todos/:id
+ * Deletes a todo item.
+ */
+app.delete('/api/todos/:id', (req, res) => {
+  if (!todos.delete(req.params.id)) {
+    return res.status(404).json({ error: 'Todo not found.' });
+  }
+  res.status(204).send();
+});
+
+// Global error handler
+app.use((err, req, res, next) => {
+  console.error('Unhandled error:', err);
+  res.status(500).json({ error: 'Internal server error.' });
+});
+
+app.listen(PORT, () => {
+  console.log(`Server is running on http://localhost:${PORT}`);
+});
+
+module.exports = app;
@@ -0,0 +1,105 @@
+/**
+ * Form validation utilities for the signup page.
+ */
+
+const VALIDATION_RULES = {
+  username: {
+    required: true,
+    minLength: 3,
+    maxLength: 20,
+    pattern: /^[a-zA-Z0-9_]+$/,
+    message: 'Username may only contain letters, numbers, and underscores.',
+  },
+  email: {
+    required: true,
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    message: 'Please enter a valid email address.',
+  },
+  password: {
+    required: true,
+    minLength: 8,
+    message: 'Password must be at least 8 characters long.',
+  },
+};
+
+/**
+ * Validates a single field value against its rule.
+ *
+ * @param {string} fieldName - The name of the field being validated.
+ * @param {string} value - The value to validate.
+ * @returns {string|null} An error message, or null if the value is valid.
+ */
+function validateField(fieldName, value) {
+  const rule = VALIDATION_RULES[fieldName];
+  if (!rule) {
+    return null;
+  }
+
+  const trimmedValue = (value || '').trim();
+
+  if (rule.required && trimmedValue.length === 0) {
+    return `${fieldName.charAt(0).toUpperCase() + fieldName.slice(1)} is required.`;
+  }
+
+  if (rule.minLength && trimmedValue.length < rule.minLength) {
+    return rule.message;
+  }
+
+  if (rule.maxLength && trimmedValue.length > rule.maxLength) {
+    return `${fieldName} must be at most ${rule.maxLength} characters.`;
+  }
+
+  if (rule.pattern && !rule.pattern.test(trimmedValue)) {
+    return rule.message;
+  }
+
+  return null;
+}
+
+/**
+ * Validates all fields in the given form and displays any error messages.
+ *
+ * @param {HTMLFormElement} formElement - The form to validate.
+ * @returns {boolean} True if the form is valid, otherwise false.
+ */
+function validateForm(formElement) {
+  let isFormValid = true;
+
+  Object.keys(VALIDATION_RULES).forEach((fieldName) => {
+    const inputElement = formElement.elements.namedItem(fieldName);
+    const errorElement = formElement.querySelector(`[data-error-for="${fieldName}"]`);
+
+    if (!inputElement) {
+      return;
+    }
+
+    const errorMessage = validateField(fieldName, inputElement.value);
+
+    // Update the UI to reflect the validation result
+    inputElement.classList.toggle('is-invalid', Boolean(errorMessage));
+    if (errorElement) {
+      errorElement.textContent = errorMessage || '';
+    }
+
+    if (errorMessage) {
+      isFormValid = false;
+    }
+  });
+
+  return isFormValid;
+}
+
+// Attach the validation handler once the DOM is ready
+document.addEventListener('DOMContentLoaded', () => {
+  const signupForm = document.getElementById('signup-form');
+  if (!signupForm) {
+    console.warn('Signup form not found on the page.');
+    return;
+  }
+
+  signupForm.addEventListener('submit', (event) => {
+    if (!validateForm(signupForm)) {
+      event.preventDefault();
+    }
+  });
+});
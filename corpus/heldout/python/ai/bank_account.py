@@ -0,0 +1,115 @@
+from datetime import datetime
+from decimal import Decimal
+from enum import Enum
+from typing import List, Optional
+
+
+class TransactionType(Enum):
+    """Enumeration of supported transaction types."""
+
+    DEPOSIT = "deposit"
+    WITHDRAWAL = "withdrawal"
+
+
+class InsufficientFundsError(Exception):
+    """Raised when a withdrawal exceeds the available balance."""
+
+
+class Transaction:
+    """Represents a single account transaction."""
+
+    def __init__(self, transaction_type: TransactionType, amount: Decimal) -> None:
+        self.transaction_type = transaction_type
+        self.amount = amount
+        self.timestamp = datetime.now()
+
+    def __repr__(self) -> str:
+        return f"Transaction(type={self.transaction_type.value}, amount={self.amount}, timestamp={self.timestamp.isoformat()})"
+
+
+class BankAccount:
+    """
+    A simple bank account supporting deposits and withdrawals.
+
+    Attributes:
+        owner: The name of the account owner.
+        balance: The current account balance.
+    """
+
+    def __init__(self, owner: str, initial_balance: Decimal = Decimal("0.00")) -> None:
+        """
+        Initialize a new bank account.
+
+        Args:
+            owner: The name of the account owner.
+            initial_balance: The starting balance. Defaults to 0.00.
+
+        Raises:
+            ValueError: If the initial balance is negative.
+        """
+        if initial_balance < 0:
+            raise ValueError("Initial balance cannot be negative.")
+
+        self.owner = owner
+        self.balance = initial_balance
+        self._transactions: List[Transaction] = []
+
+    def deposit(self, amount: Decimal) -> Decimal:
+        """
+        Deposit money into the account.
+
+        Args:
+            amount: The amount to deposit.
+
+        Returns:
+            The updated balance.
+        """
+        self._validate_amount(amount)
+        self.balance += amount
+        self._transactions.append(Transaction(TransactionType.DEPOSIT, amount))
+        return self.balance
+
+    def withdraw(self, amount: Decimal) -> Decimal:
+        """
+        Withdraw money from the account.
+
+        Args:
+            amount: The amount to withdraw.
+
+        Returns:
+            The updated balance.
+
+        Raises:
+            InsufficientFundsError: If the amount exceeds the current balance.
+        """
+        self._validate_amount(amount)
+        if amount > self.balance:
+            raise InsufficientFundsError(
+                f"Cannot withdraw {amount}: only {self.balance} available."
+            )
+        self.balance -= amount
+        self._transactions.append(Transaction(TransactionType.WITHDRAWAL, amount))
+        return self.balance
+
+    def get_transactions(self, transaction_type: Optional[TransactionType] = None) -> List[Transaction]:
+        """Return the transaction history, optionally filtered by type."""
+        if transaction_type is None:
+            return list(self._transactions)
+        return [t for t in self._transactions if t.transaction_type == transaction_type]
+
+    @staticmethod
+    def _validate_amount(amount: Decimal) -> None:
+        """Ensure that the given amount is positive."""
+        if amount <= 0:
+            raise ValueError("Amount must be greater than zero.")
+
+    def __str__(self) -> str:
+        return f"BankAccount(owner='{self.owner}', balance={self.balance:.2f})"
+
+
+if __name__ == "__main__":
+    account = BankAccount("Alice", Decimal("100.00"))
+    account.deposit(Decimal("50.00"))
+    account.withdraw(Decimal("30.00"))
+    print(account)
+    print(account.get_transactions())
@@ -0,0 +1,98 @@
+import os
+import sys
+import time
+
+import requests
+
+GITHUB_API_URL = "https://api.github.com"
+DEFAULT_TIMEOUT_SECONDS = 10
+
+
+def fetch_user_repositories(username, token=None):
+    """
+    Fetch all public repositories for a GitHub user, handling pagination.
+
+    Args:
+        username (str): The GitHub username.
+        token (str, optional): A personal access token to increase the rate limit.
+
+    Returns:
+        list: A list of repository dictionaries.
+    """
+    headers = {"Accept": "application/vnd.github+json"}
+    if token:
+        headers["Authorization"] = f"Bearer {token}"
+
+    repositories = []
+    page = 1
+
+    while True:
+        response = requests.get(
+            f"{GITHUB_API_URL}/users/{username}/repos",
+            headers=headers,
+            params={"per_page": 100, "page": page},
+            timeout=DEFAULT_TIMEOUT_SECONDS,
+        )
+
+        # Handle rate limiting by waiting until the limit resets
+        if response.status_code == 403 and response.headers.get("X-RateLimit-Remaining") == "0":
+            reset_timestamp = int(response.headers.get("X-RateLimit-Reset", time.time() + 60))
+            wait_seconds = max(reset_timestamp - int(time.time()), 1)
+            print(f"Rate limit exceeded. Waiting {wait_seconds} seconds...")
+            time.sleep(wait_seconds)
+            continue
+
+        response.raise_for_status()
+        page_repositories = response.json()
+
+        if not page_repositories:
+            break
+
+        repositories.extend(page_repositories)
+        page += 1
+
+    return repositories
+
+
+def summarize_repositories(repositories):
+    """
+    Print a summary of the given repositories sorted by star count.
+
+    Args:
+        repositories (list): A list of repository dictionaries.
+    """
+    sorted_repositories = sorted(repositories, key=lambda repo: repo["stargazers_count"], reverse=True)
+
+    print(f"{'Repository':<40} {'Stars':>8} {'Language':<15}")
+    print("-" * 65)
+    for repository in sorted_repositories:
+        print(
+            f"{repository['name']:<40} "
+            f"{repository['stargazers_count']:>8} "
+            f"{repository.get('language') or 'N/A':<15}"
+        )
+
+
+def main():
+    if len(sys.argv) != 2:
+        print("Usage: python fetch_github_repos.py <username>")
+        sys.exit(1)
+
+    username = sys.argv[1]
+    token = os.environ.get("GITHUB_TOKEN")
+
+    try:
+        repositories = fetch_user_repositories(username, token)
+    except requests.exceptions.RequestException as error:
+        print(f"Error: Failed to fetch repositories for '{username}': {error}")
+        sys.exit(1)
+
+    if not repositories:
+        print(f"No public repositories found for user '{username}'.")
+        return
+
+    summarize_repositories(repositories)
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,109 @@
+#!/usr/bin/env python3
+"""
+File Organizer
+
+Automatically organizes files in a directory into subfolders based on their file extensions.
+"""
+
+import argparse
+import logging
+import shutil
+from pathlib import Path
+from typing import Dict
+
+# Configure logging
+logging.basicConfig(level=logging.INFO, format="%(levelname)s: %(message)s")
+logger = logging.getLogger(__name__)
+
+# Mapping of folder names to the file extensions they should contain
+FILE_CATEGORIES: Dict[str, set] = {
+    "Images": {".jpg", ".jpeg", ".png", ".gif", ".bmp", ".svg"},
+    "Documents": {".pdf", ".docx", ".doc", ".txt", ".md", ".xlsx"},
+    "Audio": {".mp3", ".wav", ".flac", ".aac"},
+    "Videos": {".mp4", ".mkv", ".avi", ".mov"},
+    "Archives": {".zip", ".tar", ".gz", ".rar", ".7z"},
+}
+
+
+def get_category(file_path: Path) -> str:
+    """
+    Determine the category of a file based on its extension.
+
+    Args:
+        file_path: The path of the file.
+
+    Returns:
+        The name of the category folder, or "Other" if no category matches.
+    """
+    extension = file_path.suffix.lower()
+    for category, extensions in FILE_CATEGORIES.items():
+        if extension in extensions:
+            return category
+    return "Other"
+
+
+def organize_directory(target_directory: Path, dry_run: bool = False) -> Dict[str, int]:
+    """
+    Organize all files in the target directory into category subfolders.
+
+    Args:
+        target_directory: The directory to organize.
+        dry_run: If True, only log the planned moves without modifying any files.
+
+    Returns:
+        A dictionary mapping each category to the number of files moved.
+
+    Raises:
+        NotADirectoryError: If the target path is not a directory.
+    """
+    if not target_directory.is_dir():
+        raise NotADirectoryError(f"'{target_directory}' is not a valid directory.")
+
+    moved_counts: Dict[str, int] = {}
+
+    for file_path in target_directory.iterdir():
+        # Skip directories and hidden files
+        if not file_path.is_file() or file_path.name.startswith("."):
+            continue
+
+        category = get_category(file_path)
+        destination_directory = target_directory / category
+        destination_path = destination_directory / file_path.name
+
+        if dry_run:
+            logger.info("[DRY RUN] Would move '%s' -> '%s'", file_path.name, category)
+        else:
+            destination_directory.mkdir(exist_ok=True)
+            try:
+                shutil.move(str(file_path), str(destination_path))
+                logger.info("Moved '%s' -> '%s'", file_path.name, category)
+            except (shutil.Error, OSError) as error:
+                logger.error("Failed to move '%s': %s", file_path.name, error)
+                continue
+
+        moved_counts[category] = moved_counts.get(category, 0) + 1
+
+    return moved_counts
+
+
+def main() -> None:
+    """Entry point for the command-line interface."""
+    parser = argparse.ArgumentParser(description="Organize files into folders by type.")
+    parser.add_argument("directory", type=Path, help="The directory to organize")
+    parser.add_argument("--dry-run", action="store_true", help="Preview changes without moving files")
+    args = parser.parse_args()
+
+    try:
+        results = organize_directory(args.directory, dry_run=args.dry_run)
+    except NotADirectoryError as error:
+        logger.error(error)
+        raise SystemExit(1)
+
+    total_files = sum(results.values())
+    logger.info("Organization complete! %d file(s) processed.", total_files)
+    for category, count in sorted(results.items()):
+        logger.info("  %s: %d", category, count)
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,94 @@
+use std::env;
+use std::error::Error;
+use std::fs::File;
+use std::io::{BufRead, BufReader};
+
+/// Summary statistics for a column of numeric values.
+#[derive(Debug)]
+struct Statistics {
+    count: usize,
+    mean: f64,
+    median: f64,
+    std_dev: f64,
+    min: f64,
+    max: f64,
+}
+
+/// Reads the values of a single numeric column from a CSV file.
+///
+/// The first line is treated as a header and skipped. Values that cannot
+/// be parsed as numbers are ignored with a warning.
+fn read_column(path: &str, column: usize) -> Result<Vec<f64>, Box<dyn Error>> {
+    let file = File::open(path)?;
+    let reader = BufReader::new(file);
+    let mut values = Vec::new();
+
+    for (line_number, line) in reader.lines().enumerate().skip(1) {
+        let line = line?;
+        if let Some(cell) = line.split(',').nth(column) {
+            match cell.trim().parse::<f64>() {
+                Ok(value) => values.push(value),
+                Err(_) => eprintln!("Warning: invalid value '{}' on line {}", cell, line_number + 1),
+            }
+        }
+    }
+
+    Ok(values)
+}
+
+/// Calculates summary statistics for the given values.
+///
+/// Returns `None` if the slice is empty.
+fn calculate_statistics(values: &[f64]) -> Option<Statistics> {
+    if values.is_empty() {
+        return None;
+    }
+
+    // Sort a copy of the values to compute the median
+    let mut sorted = values.to_vec();
+    sorted.sort_by(|a, b| a.partial_cmp(b).unwrap());
+
+    let count = sorted.len();
+    let mean = sorted.iter().sum::<f64>() / count as f64;
+    let median = if count % 2 == 0 {
+        (sorted[count / 2 - 1] + sorted[count / 2]) / 2.0
+    } else {
+        sorted[count / 2]
+    };
+
+    // Calculate the population standard deviation
+    let variance = sorted.iter().map(|value| (value - mean).powi(2)).sum::<f64>() / count as f64;
+
+    Some(Statistics {
+        count,
+        mean,
+        median,
+        std_dev: variance.sqrt(),
+        min: sorted[0],
+        max: sorted[count - 1],
+    })
+}
+
+fn main() -> Result<(), Box<dyn Error>> {
+    let args: Vec<String> = env::args().collect();
+    if args.len() != 3 {
+        eprintln!("Usage: {} <file.csv> <column-index>", args[0]);
+        std::process::exit(1);
+    }
+
+    let column: usize = args[2].parse().map_err(|_| "Column index must be a non-negative integer")?;
+    let values = read_column(&args[1], column)?;
+
+    match calculate_statistics(&values) {
+        Some(stats) => {
+            println!("Count: {}", stats.count);
+            println!("Mean: {:.2}", stats.mean);
+            println!("Median: {:.2}", stats.median);
+            println!("Standard deviation: {:.2}", stats.std_dev);
+            println!("Range: {:.2} - {:.2}", stats.min, stats.max);
+        }
+        None => println!("No numeric values found in column {}", column),
+    }
+
+    Ok(())
+}
@@ -0,0 +1,59 @@
+use std::io::{BufRead, BufReader, Write};
+use std::net::{TcpListener, TcpStream};
+use std::thread;
+
+/// The address the server listens on.
+const SERVER_ADDRESS: &str = "127.0.0.1:8080";
+
+/// Handles a single client connection.
+///
+/// Reads the HTTP request line and responds with a simple HTML page
+/// or a 404 error depending on the requested path.
+fn handle_connection(mut stream: TcpStream) -> std::io::Result<()> {
+    let buffered_reader = BufReader::new(&stream);
+
+    // Read the first line of the HTTP request (e.g. "GET / HTTP/1.1")
+    let request_line = match buffered_reader.lines().next() {
+        Some(line) => line?,
+        None => return Ok(()),
+    };
+
+    let (status_line, body) = match request_line.as_str() {
+        "GET / HTTP/1.1" => ("HTTP/1.1 200 OK", "<h1>Hello, world!</h1>"),
+        "GET /health HTTP/1.1" => ("HTTP/1.1 200 OK", "OK"),
+        _ => ("HTTP/1.1 404 NOT FOUND", "<h1>404 - Page not found</h1>"),
+    };
+
+    let response = format!(
+        "{}\r\nContent-Length: {}\r\nContent-Type: text/html\r\n\r\n{}",
+        status_line,
+        body.len(),
+        body
+    );
+
+    stream.write_all(response.as_bytes())?;
+    stream.flush()
+}
+
+fn main() -> std::io::Result<()> {
+    let listener = TcpListener::bind(SERVER_ADDRESS)?;
+    println!("Server listening on http://{}", SERVER_ADDRESS);
+
+    for incoming_stream in listener.incoming() {
+        match incoming_stream {
+            Ok(stream) => {
+                // Spawn a new thread for each connection
+                thread::spawn(move || {
+                    if let Err(error) = handle_connection(stream) {
+                        eprintln!("Error handling connection: {}", error);
+                    }
+                });
+            }
+            Err(error) => {
+                eprintln!("Failed to accept connection: {}", error);
+            }
+        }
+    }
+
+    Ok(())
+}
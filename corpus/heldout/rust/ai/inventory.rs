@@ -0,0 +1,108 @@
+use std::collections::HashMap;
+use std::fmt;
+
+/// Represents a product stored in the inventory.
+#[derive(Debug, Clone)]
+pub struct Product {
+    pub sku: String,
+    pub name: String,
+    pub price: f64,
+    pub quantity: u32,
+}
+
+/// Errors that can occur when working with the inventory.
+#[derive(Debug, PartialEq)]
+pub enum InventoryError {
+    /// The product with the given SKU already exists.
+    DuplicateSku(String),
+    /// The product with the given SKU could not be found.
+    ProductNotFound(String),
+    /// There is not enough stock to complete the operation.
+    InsufficientStock { sku: String, available: u32, requested: u32 },
+}
+
+impl fmt::Display for InventoryError {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        match self {
+            InventoryError::DuplicateSku(sku) => write!(f, "Product with SKU '{}' already exists", sku),
+            InventoryError::ProductNotFound(sku) => write!(f, "Product with SKU '{}' was not found", sku),
+            InventoryError::InsufficientStock { sku, available, requested } => write!(
+                f,
+                "Insufficient stock for '{}': available {}, requested {}",
+                sku, available, requested
+            ),
+        }
+    }
+}
+
+impl std::error::Error for InventoryError {}
+
+/// Manages a collection of products and their stock levels.
+#[derive(Debug, Default)]
+pub struct Inventory {
+    products: HashMap<String, Product>,
+}
+
+impl Inventory {
+    /// Creates a new, empty inventory.
+    pub fn new() -> Self {
+        Self::default()
+    }
+
+    /// Adds a new product to the inventory.
+    ///
+    /// Returns an error if a product with the same SKU already exists.
+    pub fn add_product(&mut self, product: Product) -> Result<(), InventoryError> {
+        if self.products.contains_key(&product.sku) {
+            return Err(InventoryError::DuplicateSku(product.sku));
+        }
+        self.products.insert(product.sku.clone(), product);
+        Ok(())
+    }
+
+    /// Removes the given quantity of a product from stock.
+    ///
+    /// Returns an error if the product does not exist or there is not enough stock.
+    pub fn remove_stock(&mut self, sku: &str, quantity: u32) -> Result<(), InventoryError> {
+        let product = self
+            .products
+            .get_mut(sku)
+            .ok_or_else(|| InventoryError::ProductNotFound(sku.to_string()))?;
+
+        if product.quantity < quantity {
+            return Err(InventoryError::InsufficientStock {
+                sku: sku.to_string(),
+                available: product.quantity,
+                requested: quantity,
+            });
+        }
+
+        product.quantity -= quantity;
+        Ok(())
+    }
+
+    /// Calculates the total value of all products in stock.
+    pub fn total_value(&self) -> f64 {
+        self.products
+            .values()
+            .map(|product| product.price * product.quantity as f64)
+            .sum()
+    }
+}
+
+fn main() {
+    let mut inventory = Inventory::new();
+
+    // Add some sample products
+    inventory
+        .add_product(Product { sku: "A100".into(), name: "Wireless Mouse".into(), price: 24.99, quantity: 15 })
+        .expect("Failed to add product");
+
+    // Attempt to remove more stock than is available
+    match inventory.remove_stock("A100", 20) {
+        Ok(()) => println!("Stock updated successfully"),
+        Err(e) => eprintln!("Error: {}", e),
+    }
+
+    println!("Total inventory value: ${:.2}", inventory.total_value());
+}
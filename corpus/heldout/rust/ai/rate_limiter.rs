@@ -0,0 +1,102 @@
+use std::collections::HashMap;
+use std::time::{Duration, Instant};
+
+/// A token bucket that tracks the available requests for a single client.
+#[derive(Debug)]
+struct TokenBucket {
+    tokens: f64,
+    last_refill: Instant,
+}
+
+/// A simple token bucket rate limiter.
+///
+/// Each client gets its own bucket that holds up to `capacity` tokens and
+/// is refilled at a constant rate. A request is allowed if at least one
+/// token is available.
+#[derive(Debug)]
+pub struct RateLimiter {
+    capacity: f64,
+    refill_rate: f64,
+    buckets: HashMap<String, TokenBucket>,
+}
+
+impl RateLimiter {
+    /// Creates a new rate limiter.
+    ///
+    /// # Arguments
+    ///
+    /// * `capacity` - The maximum number of tokens per client.
+    /// * `refill_rate` - The number of tokens added per second.
+    ///
+    /// # Panics
+    ///
+    /// Panics if `capacity` or `refill_rate` is not positive.
+    pub fn new(capacity: u32, refill_rate: f64) -> Self {
+        assert!(capacity > 0, "Capacity must be greater than zero");
+        assert!(refill_rate > 0.0, "Refill rate must be greater than zero");
+
+        Self {
+            capacity: capacity as f64,
+            refill_rate,
+            buckets: HashMap::new(),
+        }
+    }
+
+    /// Attempts to acquire a token for the given client.
+    ///
+    /// Returns `true` if the request is allowed, or `false` if the client
+    /// has exceeded its rate limit.
+    pub fn try_acquire(&mut self, client_id: &str) -> bool {
+        let now = Instant::now();
+        let capacity = self.capacity;
+        let bucket = self
+            .buckets
+            .entry(client_id.to_string())
+            .or_insert_with(|| TokenBucket { tokens: capacity, last_refill: now });
+
+        // Refill the bucket based on the elapsed time
+        let elapsed = now.duration_since(bucket.last_refill).as_secs_f64();
+        bucket.tokens = (bucket.tokens + elapsed * self.refill_rate).min(self.capacity);
+        bucket.last_refill = now;
+
+        // Consume a token if one is available
+        if bucket.tokens >= 1.0 {
+            bucket.tokens -= 1.0;
+            true
+        } else {
+            false
+        }
+    }
+
+    /// Returns the estimated time until the client can make another request.
+    pub fn time_until_available(&self, client_id: &str) -> Duration {
+        match self.buckets.get(client_id) {
+            Some(bucket) if bucket.tokens < 1.0 => {
+                let missing = 1.0 - bucket.tokens;
+                Duration::from_secs_f64(missing / self.refill_rate)
+            }
+            _ => Duration::ZERO,
+        }
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn test_allows_requests_up_to_capacity() {
+        let mut limiter = RateLimiter::new(3, 1.0);
+        assert!(limiter.try_acquire("client"));
+        assert!(limiter.try_acquire("client"));
+        assert!(limiter.try_acquire("client"));
+        assert!(!limiter.try_acquire("client"));
+    }
+
+    #[test]
+    fn test_clients_have_separate_buckets() {
+        let mut limiter = RateLimiter::new(1, 1.0);
+        assert!(limiter.try_acquire("alice"));
+        assert!(limiter.try_acquire("bob"));
+    }
+}
@@ -0,0 +1,99 @@
+use std::fmt;
+use std::str::FromStr;
+
+/// Represents a temperature in one of the supported units.
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub enum Temperature {
+    Celsius(f64),
+    Fahrenheit(f64),
+    Kelvin(f64),
+}
+
+/// Errors that can occur when parsing a temperature string.
+#[derive(Debug, PartialEq, Eq)]
+pub enum ParseTemperatureError {
+    /// The input string was empty.
+    EmptyInput,
+    /// The unit suffix was not recognized.
+    InvalidUnit(String),
+    /// The numeric value could not be parsed.
+    InvalidValue(String),
+}
+
+impl fmt::Display for ParseTemperatureError {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        match self {
+            ParseTemperatureError::EmptyInput => write!(f, "input string is empty"),
+            ParseTemperatureError::InvalidUnit(unit) => write!(f, "invalid temperature unit: '{}'", unit),
+            ParseTemperatureError::InvalidValue(value) => write!(f, "invalid temperature value: '{}'", value),
+        }
+    }
+}
+
+impl std::error::Error for ParseTemperatureError {}
+
+impl Temperature {
+    /// Converts the temperature to Celsius.
+    pub fn to_celsius(self) -> f64 {
+        match self {
+            Temperature::Celsius(value) => value,
+            Temperature::Fahrenheit(value) => (value - 32.0) * 5.0 / 9.0,
+            Temperature::Kelvin(value) => value - 273.15,
+        }
+    }
+
+    /// Converts the temperature to Fahrenheit.
+    pub fn to_fahrenheit(self) -> f64 {
+        self.to_celsius() * 9.0 / 5.0 + 32.0
+    }
+
+    /// Converts the temperature to Kelvin.
+    pub fn to_kelvin(self) -> f64 {
+        self.to_celsius() + 273.15
+    }
+}
+
+impl FromStr for Temperature {
+    type Err = ParseTemperatureError;
+
+    /// Parses a temperature string such as "25C", "77F", or "298.15K".
+    fn from_str(input: &str) -> Result<Self, Self::Err> {
+        let trimmed_input = input.trim();
+        if trimmed_input.is_empty() {
+            return Err(ParseTemperatureError::EmptyInput);
+        }
+
+        // Split the input into the numeric value and the unit suffix
+        let (value_part, unit_part) = trimmed_input.split_at(trimmed_input.len() - 1);
+        let value: f64 = value_part
+            .trim()
+            .parse()
+            .map_err(|_| ParseTemperatureError::InvalidValue(value_part.to_string()))?;
+
+        match unit_part.to_ascii_uppercase().as_str() {
+            "C" => Ok(Temperature::Celsius(value)),
+            "F" => Ok(Temperature::Fahrenheit(value)),
+            "K" => Ok(Temperature::Kelvin(value)),
+            other => Err(ParseTemperatureError::InvalidUnit(other.to_string())),
+        }
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn test_parse_and_convert() {
+        let temperature: Temperature = "100C".parse().unwrap();
+        assert!((temperature.to_fahrenheit() - 212.0).abs() < f64::EPSILON);
+    }
+
+    #[test]
+    fn test_invalid_unit() {
+        assert_eq!(
+            "42X".parse::<Temperature>(),
+            Err(ParseTemperatureError::InvalidUnit("X".to_string()))
+        );
+    }
+}
@@ -0,0 +1,102 @@
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::io;
+use std::path::PathBuf;
+
+/// Represents a single todo item.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+struct TodoItem {
+    id: u32,
+    title: String,
+    completed: bool,
+}
+
+/// Manages a list of todo items persisted to a JSON file.
+struct TodoList {
+    items: Vec<TodoItem>,
+    storage_path: PathBuf,
+}
+
+impl TodoList {
+    /// Loads the todo list from the given file, or creates an empty list if the file does not exist.
+    fn load(storage_path: PathBuf) -> io::Result<Self> {
+        let items = if storage_path.exists() {
+            let file_contents = fs::read_to_string(&storage_path)?;
+            serde_json::from_str(&file_contents)
+                .map_err(|error| io::Error::new(io::ErrorKind::InvalidData, error))?
+        } else {
+            Vec::new()
+        };
+
+        Ok(Self { items, storage_path })
+    }
+
+    /// Saves the todo list to disk.
+    fn save(&self) -> io::Result<()> {
+        let serialized = serde_json::to_string_pretty(&self.items)
+            .map_err(|error| io::Error::new(io::ErrorKind::Other, error))?;
+        fs::write(&self.storage_path, serialized)
+    }
+
+    /// Adds a new todo item with the given title and returns its ID.
+    fn add(&mut self, title: &str) -> u32 {
+        let next_id = self.items.iter().map(|item| item.id).max().unwrap_or(0) + 1;
+        self.items.push(TodoItem {
+            id: next_id,
+            title: title.to_string(),
+            completed: false,
+        });
+        next_id
+    }
+
+    /// Marks the todo item with the given ID as completed.
+    ///
+    /// Returns `true` if the item was found, `false` otherwise.
+    fn complete(&mut self, id: u32) -> bool {
+        match self.items.iter_mut().find(|item| item.id == id) {
+            Some(item) => {
+                item.completed = true;
+                true
+            }
+            None => false,
+        }
+    }
+
+    /// Prints all todo items to standard output.
+    fn list(&self) {
+        if self.items.is_empty() {
+            println!("No todo items found.");
+            return;
+        }
+
+        for item in &self.items {
+            let status = if item.completed { "[x]" } else { "[ ]" };
+            println!("{} {:>3}: {}", status, item.id, item.title);
+        }
+    }
+}
+
+fn main() -> io::Result<()> {
+    let arguments: Vec<String> = std::env::args().skip(1).collect();
+    let mut todo_list = TodoList::load(PathBuf::from("todos.json"))?;
+
+    // Parse the command and execute the corresponding action
+    match arguments.first().map(String::as_str) {
+        Some("add") if arguments.len() > 1 => {
+            let title = arguments[1..].join(" ");
+            let id = todo_list.add(&title);
+            println!("Added todo #{}: {}", id, title);
+        }
+        Some("done") => match arguments.get(1).and_then(|value| value.parse::<u32>().ok()) {
+            Some(id) if todo_list.complete(id) => println!("Marked todo #{} as completed.", id),
+            Some(id) => eprintln!("Error: Todo #{} not found.", id),
+            None => eprintln!("Error: Please provide a valid todo ID."),
+        },
+        Some("list") | None => todo_list.list(),
+        Some(command) => {
+            eprintln!("Error: Unknown command '{}'. Use add, done, or list.", command);
+        }
+    }
+
+    todo_list.save()
+}
@@ -0,0 +1,97 @@
+/**
+ * Represents an error returned by the API.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly responseBody?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  authToken?: string;
+  timeoutMilliseconds?: number;
+}
+
+/**
+ * A lightweight wrapper around the Fetch API for making typed JSON requests.
+ */
+export class ApiClient {
+  private readonly baseUrl: string;
+  private readonly authToken?: string;
+  private readonly timeoutMilliseconds: number;
+
+  constructor(options: ApiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.authToken = options.authToken;
+    this.timeoutMilliseconds = options.timeoutMilliseconds ?? 10_000;
+  }
+
+  /**
+   * Sends a GET request to the specified path.
+   * @param path - The request path relative to the base URL
+   * @returns The parsed JSON response
+   */
+  public async get<ResponseType>(path: string): Promise<ResponseType> {
+    return this.request<ResponseType>("GET", path);
+  }
+
+  /**
+   * Sends a POST request with a JSON body.
+   * @param path - The request path relative to the base URL
+   * @param body - The request payload
+   * @returns The parsed JSON response
+   */
+  public async post<ResponseType, BodyType = unknown>(path: string, body: BodyType): Promise<ResponseType> {
+    return this.request<ResponseType>("POST", path, body);
+  }
+
+  /**
+   * Performs an HTTP request with timeout and error handling.
+   */
+  private async request<ResponseType>(method: string, path: string, body?: unknown): Promise<ResponseType> {
+    const abortController = new AbortController();
+    const timeoutId = setTimeout(() => abortController.abort(), this.timeoutMilliseconds);
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+    };
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: abortController.signal,
+      });
+
+      // Attempt to parse the response body regardless of status
+      const responseText = await response.text();
+      const parsedBody = responseText ? JSON.parse(responseText) : undefined;
+
+      if (!response.ok) {
+        throw new ApiError(response.status, `Request failed with status ${response.status}`, parsedBody);
+      }
+
+      return parsedBody as ResponseType;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw new ApiError(408, `Request timed out after ${this.timeoutMilliseconds}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
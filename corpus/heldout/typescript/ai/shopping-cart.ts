@@ -0,0 +1,98 @@
+export interface Product {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface CartItem {
+  product: Product;
+  quantity: number;
+}
+
+export interface Discount {
+  code: string;
+  percentage: number;
+}
+
+/**
+ * Manages the items in a user's shopping cart.
+ */
+export class ShoppingCart {
+  private items: Map<string, CartItem> = new Map();
+  private appliedDiscount: Discount | null = null;
+
+  /**
+   * Adds a product to the cart or increases its quantity if it already exists.
+   * @param product - The product to add
+   * @param quantity - The number of units to add (default: 1)
+   * @throws {Error} If the quantity is not a positive integer
+   */
+  addItem(product: Product, quantity: number = 1): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+
+    const existingItem = this.items.get(product.id);
+    if (existingItem) {
+      existingItem.quantity += quantity;
+    } else {
+      this.items.set(product.id, { product, quantity });
+    }
+  }
+
+  /**
+   * Removes a product from the cart entirely.
+   * @param productId - The ID of the product to remove
+   * @returns True if the product was removed, false otherwise
+   */
+  removeItem(productId: string): boolean {
+    return this.items.delete(productId);
+  }
+
+  /**
+   * Applies a discount code to the cart.
+   * @param discount - The discount to apply
+   */
+  applyDiscount(discount: Discount): void {
+    if (discount.percentage <= 0 || discount.percentage > 100) {
+      throw new Error("Discount percentage must be between 0 and 100");
+    }
+    this.appliedDiscount = discount;
+  }
+
+  /**
+   * Calculates the subtotal before any discounts are applied.
+   */
+  getSubtotal(): number {
+    let subtotal = 0;
+    for (const { product, quantity } of this.items.values()) {
+      subtotal += product.price * quantity;
+    }
+    return subtotal;
+  }
+
+  /**
+   * Calculates the final total, including any applied discount.
+   * The result is rounded to two decimal places.
+   */
+  getTotal(): number {
+    const subtotal = this.getSubtotal();
+    const discountAmount = this.appliedDiscount ? subtotal * (this.appliedDiscount.percentage / 100) : 0;
+    return Math.round((subtotal - discountAmount) * 100) / 100;
+  }
+
+  /**
+   * Returns the total number of units in the cart.
+   */
+  getItemCount(): number {
+    return Array.from(this.items.values()).reduce((count, item) => count + item.quantity, 0);
+  }
+
+  /**
+   * Removes all items and discounts from the cart.
+   */
+  clear(): void {
+    this.items.clear();
+    this.appliedDiscount = null;
+  }
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+
+interface SearchResult {
+  id: string;
+  title: string;
+  description: string;
+}
+
+interface UseDebouncedSearchReturn {
+  results: SearchResult[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook that performs a debounced search request.
+ *
+ * @param query - The search query entered by the user
+ * @param delay - The debounce delay in milliseconds (default: 300)
+ * @returns An object containing the search results, loading state, and error message
+ */
+export function useDebouncedSearch(query: string, delay: number = 300): UseDebouncedSearchReturn {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Reset the state when the query is empty
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Search request failed with status ${response.status}`);
+        }
+
+        const data: SearchResult[] = await response.json();
+        setResults(data);
+      } catch (err) {
+        // Ignore errors caused by aborting the request
+        if (err instanceof Error && err.name !== "AbortError") {
+          setError(err.message);
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    }, delay);
+
+    // Cleanup function to cancel the pending request and timer
+    return () => {
+      clearTimeout(timeoutId);
+      abortController.abort();
+    };
+  }, [query, delay]);
+
+  return { results, isLoading, error };
+}
@@ -0,0 +1,118 @@
+#include <chrono>
+#include <ctime>
+#include <fstream>
+#include <iomanip>
+#include <iostream>
+#include <mutex>
+#include <sstream>
+#include <string>
+
+/**
+ * @brief Enumeration of the supported log levels.
+ */
+enum class LogLevel {
+    Debug,
+    Info,
+    Warning,
+    Error
+};
+
+/**
+ * @brief A simple thread-safe logger that writes messages to the console and a file.
+ *
+ * Messages below the configured minimum level are ignored. Each message is
+ * prefixed with a timestamp and its log level.
+ */
+class Logger {
+public:
+    /**
+     * @brief Constructs a new Logger instance.
+     * @param filePath The path of the log file to write to.
+     * @param minimumLevel The minimum level of messages to record.
+     * @throws std::runtime_error if the log file cannot be opened.
+     */
+    explicit Logger(const std::string& filePath, LogLevel minimumLevel = LogLevel::Info)
+        : minimumLevel_(minimumLevel) {
+        file_.open(filePath, std::ios::app);
+        if (!file_.is_open()) {
+            throw std::runtime_error("Failed to open log file: " + filePath);
+        }
+    }
+
+    /**
+     * @brief Logs a message with the specified level.
+     * @param level The severity level of the message.
+     * @param message The message to log.
+     */
+    void log(LogLevel level, const std::string& message) {
+        if (level < minimumLevel_) {
+            return;
+        }
+
+        std::string formattedMessage = "[" + getTimestamp() + "] [" + levelToString(level) + "] " + message;
+
+        // Lock the mutex to ensure thread-safe access to the outputs
+        std::lock_guard<std::mutex> lock(mutex_);
+        std::cout << formattedMessage << std::endl;
+        file_ << formattedMessage << std::endl;
+    }
+
+    void debug(const std::string& message) { log(LogLevel::Debug, message); }
+    void info(const std::string& message) { log(LogLevel::Info, message); }
+    void warning(const std::string& message) { log(LogLevel::Warning, message); }
+    void error(const std::string& message) { log(LogLevel::Error, message); }
+
+private:
+    /**
+     * @brief Converts a log level to its string representation.
+     * @param level The log level to convert.
+     * @return The name of the log level.
+     */
+    static std::string levelToString(LogLevel level) {
+        switch (level) {
+            case LogLevel::Debug:
+                return "DEBUG";
+            case LogLevel::Info:
+                return "INFO";
+            case LogLevel::Warning:
+                return "WARNING";
+            case LogLevel::Error:
+                return "ERROR";
+            default:
+                return "UNKNOWN";
+        }
+    }
+
+    /**
+     * @brief Returns the current local time formatted as a string.
+     * @return The formatted timestamp.
+     */
+    static std::string getTimestamp() {
+        auto now = std::chrono::system_clock::now();
+        std::time_t currentTime = std::chrono::system_clock::to_time_t(now);
+
+        std::ostringstream stream;
+        stream << std::put_time(std::localtime(&currentTime), "%Y-%m-%d %H:%M:%S");
+        return stream.str();
+    }
+
+    LogLevel minimumLevel_;
+    std::ofstream file_;
+    std::mutex mutex_;
+};
+
+int main() {
+    try {
+        Logger logger("application.log", LogLevel::Debug);
+
+        logger.info("Application started successfully.");
+        logger.debug("Loading configuration settings...");
+        logger.warning("Configuration file not found, using default values.");
+        logger.error("Failed to connect to the database.");
+    } catch (const std::exception& e) {
+        std::cerr << "Error: " << e.what() << std::endl;
+        return 1;
+    }
+
+    return 0;
+}
@@ -0,0 +1,100 @@
+#include <iostream>
+#include <stdexcept>
+#include <vector>
+
+/**
+ * @brief A simple dense matrix class supporting basic arithmetic operations.
+ */
+class Matrix {
+public:
+    /**
+     * @brief Constructs a matrix with the given dimensions, initialized to zero.
+     * @param rowCount The number of rows.
+     * @param columnCount The number of columns.
+     */
+    Matrix(std::size_t rowCount, std::size_t columnCount)
+        : rows(rowCount), columns(columnCount), data(rowCount * columnCount, 0.0) {}
+
+    /**
+     * @brief Accesses the element at the specified position.
+     * @throws std::out_of_range if the indices are invalid.
+     */
+    double& at(std::size_t row, std::size_t column) {
+        if (row >= rows || column >= columns) {
+            throw std::out_of_range("Matrix index out of range");
+        }
+        return data[row * columns + column];
+    }
+
+    const double& at(std::size_t row, std::size_t column) const {
+        if (row >= rows || column >= columns) {
+            throw std::out_of_range("Matrix index out of range");
+        }
+        return data[row * columns + column];
+    }
+
+    /**
+     * @brief Multiplies this matrix by another matrix.
+     * @param other The right-hand side matrix.
+     * @return The resulting product matrix.
+     * @throws std::invalid_argument if the dimensions are incompatible.
+     */
+    Matrix multiply(const Matrix& other) const {
+        if (columns != other.rows) {
+            throw std::invalid_argument("Incompatible matrix dimensions for multiplication");
+        }
+
+        Matrix result(rows, other.columns);
+        for (std::size_t i = 0; i < rows; ++i) {
+            for (std::size_t j = 0; j < other.columns; ++j) {
+                double sum = 0.0;
+                for (std::size_t k = 0; k < columns; ++k) {
+                    sum += at(i, k) * other.at(k, j);
+                }
+                result.at(i, j) = sum;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * @brief Prints the matrix to the given output stream.
+     */
+    void print(std::ostream& outputStream = std::cout) const {
+        for (std::size_t i = 0; i < rows; ++i) {
+            for (std::size_t j = 0; j < columns; ++j) {
+                outputStream << at(i, j) << (j + 1 < columns ? " " : "");
+            }
+            outputStream << '\n';
+        }
+    }
+
+private:
+    std::size_t rows;
+    std::size_t columns;
+    std::vector<double> data;
+};
+
+int main() {
+    try {
+        Matrix firstMatrix(2, 3);
+        Matrix secondMatrix(3, 2);
+
+        // Initialize the matrices with sample values
+        for (std::size_t i = 0; i < 2; ++i) {
+            for (std::size_t j = 0; j < 3; ++j) {
+                firstMatrix.at(i, j) = static_cast<double>(i + j);
+                secondMatrix.at(j, i) = static_cast<double>(i * j + 1);
+            }
+        }
+
+        Matrix productMatrix = firstMatrix.multiply(secondMatrix);
+        std::cout << "Product matrix:" << std::endl;
+        productMatrix.print();
+    } catch (const std::exception& exception) {
+        std::cerr << "Error: " << exception.what() << std::endl;
+        return 1;
+    }
+
+    return 0;
+}
@@ -0,0 +1,116 @@
+#ifndef PRIORITY_QUEUE_HPP
+#define PRIORITY_QUEUE_HPP
+
+#include <functional>
+#include <stdexcept>
+#include <utility>
+#include <vector>
+
+/**
+ * @brief A generic binary heap-based priority queue.
+ *
+ * Elements are ordered according to the provided comparator. By default,
+ * the largest element is always at the top of the queue.
+ *
+ * @tparam T The type of elements stored in the queue.
+ * @tparam Compare The comparator used to order the elements.
+ */
+template <typename T, typename Compare = std::less<T>>
+class PriorityQueue {
+public:
+    /**
+     * @brief Inserts a new element into the priority queue.
+     * @param value The value to insert.
+     */
+    void push(const T& value) {
+        heap_.push_back(value);
+        siftUp(heap_.size() - 1);
+    }
+
+    /**
+     * @brief Removes and returns the top element of the queue.
+     * @return The element with the highest priority.
+     * @throws std::out_of_range if the queue is empty.
+     */
+    T pop() {
+        if (empty()) {
+            throw std::out_of_range("Cannot pop from an empty priority queue.");
+        }
+
+        T top = std::move(heap_.front());
+        heap_.front() = std::move(heap_.back());
+        heap_.pop_back();
+
+        if (!empty()) {
+            siftDown(0);
+        }
+
+        return top;
+    }
+
+    /**
+     * @brief Returns a reference to the top element without removing it.
+     * @return The element with the highest priority.
+     * @throws std::out_of_range if the queue is empty.
+     */
+    const T& top() const {
+        if (empty()) {
+            throw std::out_of_range("Cannot access the top of an empty priority queue.");
+        }
+        return heap_.front();
+    }
+
+    /**
+     * @brief Checks whether the queue is empty.
+     * @return True if the queue contains no elements, false otherwise.
+     */
+    bool empty() const { return heap_.empty(); }
+
+    /**
+     * @brief Returns the number of elements in the queue.
+     * @return The size of the queue.
+     */
+    std::size_t size() const { return heap_.size(); }
+
+private:
+    // Moves the element at the given index up until the heap property is restored
+    void siftUp(std::size_t index) {
+        while (index > 0) {
+            std::size_t parent = (index - 1) / 2;
+            if (!compare_(heap_[parent], heap_[index])) {
+                break;
+            }
+            std::swap(heap_[parent], heap_[index]);
+            index = parent;
+        }
+    }
+
+    // Moves the element at the given index down until the heap property is restored
+    void siftDown(std::size_t index) {
+        const std::size_t count = heap_.size();
+
+        while (true) {
+            std::size_t left = 2 * index + 1;
+            std::size_t right = 2 * index + 2;
+            std::size_t largest = index;
+
+            if (left < count && compare_(heap_[largest], heap_[left])) {
+                largest = left;
+            }
+            if (right < count && compare_(heap_[largest], heap_[right])) {
+                largest = right;
+            }
+            if (largest == index) {
+                break;
+            }
+
+            std::swap(heap_[index], heap_[largest]);
+            index = largest;
+        }
+    }
+
+    std::vector<T> heap_;
+    Compare compare_;
+};
+
+#endif // PRIORITY_QUEUE_HPP
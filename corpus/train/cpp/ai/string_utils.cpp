@@ -0,0 +1,81 @@
+#include <algorithm>
+#include <cctype>
+#include <sstream>
+#include <string>
+#include <vector>
+
+namespace string_utils {
+
+/**
+ * @brief Removes leading and trailing whitespace from a string.
+ * @param input The string to trim.
+ * @return A new string without surrounding whitespace.
+ */
+std::string trim(const std::string& input) {
+    const auto isNotSpace = [](unsigned char character) { return !std::isspace(character); };
+
+    auto start = std::find_if(input.begin(), input.end(), isNotSpace);
+    auto end = std::find_if(input.rbegin(), input.rend(), isNotSpace).base();
+
+    return (start < end) ? std::string(start, end) : std::string();
+}
+
+/**
+ * @brief Splits a string into tokens using the specified delimiter.
+ * @param input The string to split.
+ * @param delimiter The character used to separate tokens.
+ * @return A vector containing the resulting tokens.
+ */
+std::vector<std::string> split(const std::string& input, char delimiter) {
+    std::vector<std::string> tokens;
+    std::stringstream stream(input);
+    std::string token;
+
+    while (std::getline(stream, token, delimiter)) {
+        tokens.push_back(token);
+    }
+
+    return tokens;
+}
+
+/**
+ * @brief Converts all characters in a string to lowercase.
+ * @param input The string to convert.
+ * @return The lowercase version of the input string.
+ */
+std::string toLower(std::string input) {
+    std::transform(input.begin(), input.end(), input.begin(),
+                   [](unsigned char character) { return std::tolower(character); });
+    return input;
+}
+
+/**
+ * @brief Checks whether a string starts with the given prefix.
+ * @param input The string to check.
+ * @param prefix The prefix to look for.
+ * @return True if the input starts with the prefix, false otherwise.
+ */
+bool startsWith(const std::string& input, const std::string& prefix) {
+    return input.size() >= prefix.size() && input.compare(0, prefix.size(), prefix) == 0;
+}
+
+/**
+ * @brief Joins a collection of strings using the specified separator.
+ * @param parts The strings to join.
+ * @param separator The separator inserted between each part.
+ * @return The joined string.
+ */
+std::string join(const std::vector<std::string>& parts, const std::string& separator) {
+    std::ostringstream result;
+
+    for (std::size_t index = 0; index < parts.size(); ++index) {
+        if (index > 0) {
+            result << separator;
+        }
+        result << parts[index];
+    }
+
+    return result.str();
+}
+
+}  // namespace string_utils
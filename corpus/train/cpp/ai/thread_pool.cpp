@@ -0,0 +1,85 @@
+#include "thread_pool.h"
+
+#include <iostream>
+#include <stdexcept>
+
+/**
+ * @brief Constructs a thread pool with the specified number of worker threads.
+ * @param threadCount The number of worker threads to create.
+ */
+ThreadPool::ThreadPool(std::size_t threadCount) : isStopping(false) {
+    if (threadCount == 0) {
+        throw std::invalid_argument("Thread count must be greater than zero");
+    }
+
+    workers.reserve(threadCount);
+    for (std::size_t i = 0; i < threadCount; ++i) {
+        workers.emplace_back([this] { workerLoop(); });
+    }
+}
+
+/**
+ * @brief Destructor that signals all workers to stop and waits for them to finish.
+ */
+ThreadPool::~ThreadPool() {
+    {
+        std::unique_lock<std::mutex> lock(queueMutex);
+        isStopping = true;
+    }
+
+    // Wake up all worker threads so they can exit
+    condition.notify_all();
+
+    for (std::thread& worker : workers) {
+        if (worker.joinable()) {
+            worker.join();
+        }
+    }
+}
+
+/**
+ * @brief Adds a new task to the queue.
+ * @param task The task to execute.
+ * @throws std::runtime_error if the pool has been stopped.
+ */
+void ThreadPool::enqueue(std::function<void()> task) {
+    {
+        std::unique_lock<std::mutex> lock(queueMutex);
+        if (isStopping) {
+            throw std::runtime_error("Cannot enqueue task on a stopped ThreadPool");
+        }
+        tasks.push(std::move(task));
+    }
+    condition.notify_one();
+}
+
+/**
+ * @brief The main loop executed by each worker thread.
+ *
+ * Waits for tasks to become available and executes them until the pool is stopped.
+ */
+void ThreadPool::workerLoop() {
+    while (true) {
+        std::function<void()> task;
+
+        {
+            std::unique_lock<std::mutex> lock(queueMutex);
+            condition.wait(lock, [this] { return isStopping || !tasks.empty(); });
+
+            // Exit once the pool is stopping and no tasks remain
+            if (isStopping && tasks.empty()) {
+                return;
+            }
+
+            task = std::move(tasks.front());
+            tasks.pop();
+        }
+
+        try {
+            task();
+        } catch (const std::exception& exception) {
+            // Log the error and continue processing other tasks
+            std::cerr << "Error: Task threw an exception: " << exception.what() << std::endl;
+        }
+    }
+}
@@ -0,0 +1,97 @@
+#include <algorithm>
+#include <cctype>
+#include <fstream>
+#include <iostream>
+#include <string>
+#include <unordered_map>
+#include <vector>
+
+// Function to convert a word to lowercase and remove punctuation
+std::string normalizeWord(const std::string& word) {
+    std::string result;
+    result.reserve(word.size());
+
+    for (char character : word) {
+        if (std::isalnum(static_cast<unsigned char>(character))) {
+            result += static_cast<char>(std::tolower(static_cast<unsigned char>(character)));
+        }
+    }
+
+    return result;
+}
+
+// Function to count the occurrences of each word in a file
+std::unordered_map<std::string, int> countWords(const std::string& filePath) {
+    std::ifstream file(filePath);
+    if (!file.is_open()) {
+        throw std::runtime_error("Could not open file: " + filePath);
+    }
+
+    std::unordered_map<std::string, int> wordCounts;
+    std::string word;
+
+    // Read the file word by word
+    while (file >> word) {
+        std::string normalized = normalizeWord(word);
+        if (!normalized.empty()) {
+            wordCounts[normalized]++;
+        }
+    }
+
+    return wordCounts;
+}
+
+// Function to get the most frequent words sorted by count
+std::vector<std::pair<std::string, int>> getTopWords(
+    const std::unordered_map<std::string, int>& wordCounts, std::size_t limit) {
+    std::vector<std::pair<std::string, int>> sortedWords(wordCounts.begin(), wordCounts.end());
+
+    // Sort by frequency in descending order, then alphabetically
+    std::sort(sortedWords.begin(), sortedWords.end(), [](const auto& a, const auto& b) {
+        if (a.second != b.second) {
+            return a.second > b.second;
+        }
+        return a.first < b.first;
+    });
+
+    if (sortedWords.size() > limit) {
+        sortedWords.resize(limit);
+    }
+
+    return sortedWords;
+}
+
+int main(int argc, char* argv[]) {
+    // Validate command-line arguments
+    if (argc < 2) {
+        std::cerr << "Usage: " << argv[0] << " <file-path> [top-n]" << std::endl;
+        return 1;
+    }
+
+    std::string filePath = argv[1];
+    std::size_t topN = 10;
+
+    if (argc >= 3) {
+        try {
+            topN = std::stoul(argv[2]);
+        } catch (const std::exception&) {
+            std::cerr << "Error: top-n must be a positive integer." << std::endl;
+            return 1;
+        }
+    }
+
+    try {
+        auto wordCounts = countWords(filePath);
+        auto topWords = getTopWords(wordCounts, topN);
+
+        std::cout << "Top " << topWords.size() << " most frequent words:" << std::endl;
+        for (const auto& [word, count] : topWords) {
+            std::cout << word << ": " << count << std::endl;
+        }
+    } catch (const std::exception& e) {
+        std::cerr << "Error: " << e.what() << std::endl;
+        return 1;
+    }
+
+    return 0;
+}
@@ -0,0 +1,101 @@
+using System;
+using System.IO;
+using System.Text;
+
+namespace Logging
+{
+    /// <summary>
+    /// Defines the severity levels for log messages.
+    /// </summary>
+    public enum LogLevel
+    {
+        Debug,
+        Information,
+        Warning,
+        Error
+    }
+
+    /// <summary>
+    /// A simple thread-safe logger that writes messages to a file.
+    /// </summary>
+    public sealed class FileLogger : IDisposable
+    {
+        private readonly StreamWriter _writer;
+        private readonly LogLevel _minimumLevel;
+        private readonly object _syncRoot = new object();
+        private bool _disposed;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="FileLogger"/> class.
+        /// </summary>
+        /// <param name="filePath">The path of the log file.</param>
+        /// <param name="minimumLevel">The minimum level of messages to write.</param>
+        public FileLogger(string filePath, LogLevel minimumLevel = LogLevel.Information)
+        {
+            if (string.IsNullOrWhiteSpace(filePath))
+            {
+                throw new ArgumentException("File path must not be null or empty.", nameof(filePath));
+            }
+
+            // Ensure the target directory exists before opening the file
+            var directory = Path.GetDirectoryName(filePath);
+            if (!string.IsNullOrEmpty(directory))
+            {
+                Directory.CreateDirectory(directory);
+            }
+
+            _writer = new StreamWriter(filePath, append: true, Encoding.UTF8) { AutoFlush = true };
+            _minimumLevel = minimumLevel;
+        }
+
+        /// <summary>
+        /// Writes a message with the specified severity level.
+        /// </summary>
+        /// <param name="level">The severity level of the message.</param>
+        /// <param name="message">The message to write.</param>
+        public void Log(LogLevel level, string message)
+        {
+            if (level < _minimumLevel)
+            {
+                return;
+            }
+
+            var formattedMessage = $"{DateTime.UtcNow:yyyy-MM-dd HH:mm:ss.fff} [{level.ToString().ToUpperInvariant()}] {message}";
+
+            lock (_syncRoot)
+            {
+                if (_disposed)
+                {
+                    throw new ObjectDisposedException(nameof(FileLogger));
+                }
+
+                _writer.WriteLine(formattedMessage);
+            }
+        }
+
+        /// <summary>
+        /// Writes an error message along with exception details.
+        /// </summary>
+        public void LogError(string message, Exception exception)
+        {
+            Log(LogLevel.Error, $"{message}{Environment.NewLine}{exception}");
+        }
+
+        /// <summary>
+        /// Releases the resources used by the logger.
+        /// </summary>
+        public void Dispose()
+        {
+            lock (_syncRoot)
+            {
+                if (_disposed)
+                {
+                    return;
+                }
+
+                _writer.Dispose();
+                _disposed = true;
+            }
+        }
+    }
+}
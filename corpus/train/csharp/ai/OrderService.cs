@@ -0,0 +1,94 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+
+namespace Shop.Services
+{
+    /// <summary>
+    /// Provides operations for creating and managing customer orders.
+    /// </summary>
+    public class OrderService : IOrderService
+    {
+        private readonly IOrderRepository _orderRepository;
+        private readonly IInventoryService _inventoryService;
+        private readonly ILogger<OrderService> _logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="OrderService"/> class.
+        /// </summary>
+        /// <param name="orderRepository">The repository used to persist orders.</param>
+        /// <param name="inventoryService">The service used to check stock levels.</param>
+        /// <param name="logger">The logger instance.</param>
+        public OrderService(
+            IOrderRepository orderRepository,
+            IInventoryService inventoryService,
+            ILogger<OrderService> logger)
+        {
+            _orderRepository = orderRepository ?? throw new ArgumentNullException(nameof(orderRepository));
+            _inventoryService = inventoryService ?? throw new ArgumentNullException(nameof(inventoryService));
+            _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        }
+
+        /// <summary>
+        /// Creates a new order for the specified customer.
+        /// </summary>
+        /// <param name="customerId">The identifier of the customer placing the order.</param>
+        /// <param name="items">The items to include in the order.</param>
+        /// <returns>The newly created order.</returns>
+        /// <exception cref="ArgumentException">Thrown when the order contains no items.</exception>
+        /// <exception cref="InvalidOperationException">Thrown when an item is out of stock.</exception>
+        public async Task<Order> CreateOrderAsync(Guid customerId, IReadOnlyCollection<OrderItem> items)
+        {
+            if (items == null || items.Count == 0)
+            {
+                throw new ArgumentException("An order must contain at least one item.", nameof(items));
+            }
+
+            // Verify that every item is available before creating the order
+            foreach (var item in items)
+            {
+                var isAvailable = await _inventoryService.IsInStockAsync(item.ProductId, item.Quantity);
+                if (!isAvailable)
+                {
+                    throw new InvalidOperationException($"Product {item.ProductId} is out of stock.");
+                }
+            }
+
+            var order = new Order
+            {
+                Id = Guid.NewGuid(),
+                CustomerId = customerId,
+                Items = items.ToList(),
+                TotalAmount = items.Sum(item => item.UnitPrice * item.Quantity),
+                CreatedAt = DateTime.UtcNow,
+                Status = OrderStatus.Pending
+            };
+
+            try
+            {
+                await _orderRepository.AddAsync(order);
+                _logger.LogInformation("Created order {OrderId} for customer {CustomerId}", order.Id, customerId);
+            }
+            catch (Exception exception)
+            {
+                _logger.LogError(exception, "Failed to create order for customer {CustomerId}", customerId);
+                throw;
+            }
+
+            return order;
+        }
+
+        /// <summary>
+        /// Retrieves all orders placed by the specified customer.
+        /// </summary>
+        /// <param name="customerId">The identifier of the customer.</param>
+        /// <returns>A list of the customer's orders, ordered by creation date.</returns>
+        public async Task<IReadOnlyList<Order>> GetOrdersForCustomerAsync(Guid customerId)
+        {
+            var orders = await _orderRepository.GetByCustomerIdAsync(customerId);
+            return orders.OrderByDescending(order => order.CreatedAt).ToList();
+        }
+    }
+}
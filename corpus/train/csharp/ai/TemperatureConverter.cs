@@ -0,0 +1,73 @@
+using System;
+
+namespace Utilities
+{
+    /// <summary>
+    /// Represents the supported temperature scales.
+    /// </summary>
+    public enum TemperatureScale
+    {
+        Celsius,
+        Fahrenheit,
+        Kelvin
+    }
+
+    /// <summary>
+    /// Provides methods for converting temperatures between different scales.
+    /// </summary>
+    public static class TemperatureConverter
+    {
+        private const double AbsoluteZeroCelsius = -273.15;
+
+        /// <summary>
+        /// Converts a temperature value from one scale to another.
+        /// </summary>
+        /// <param name="value">The temperature value to convert.</param>
+        /// <param name="fromScale">The scale of the input value.</param>
+        /// <param name="toScale">The scale to convert to.</param>
+        /// <returns>The converted temperature value.</returns>
+        /// <exception cref="ArgumentOutOfRangeException">
+        /// Thrown when the value is below absolute zero.
+        /// </exception>
+        public static double Convert(double value, TemperatureScale fromScale, TemperatureScale toScale)
+        {
+            // Normalize the input to Celsius first
+            double celsiusValue = ToCelsius(value, fromScale);
+
+            if (celsiusValue < AbsoluteZeroCelsius)
+            {
+                throw new ArgumentOutOfRangeException(nameof(value), "Temperature cannot be below absolute zero.");
+            }
+
+            return FromCelsius(celsiusValue, toScale);
+        }
+
+        /// <summary>
+        /// Converts a value in the given scale to Celsius.
+        /// </summary>
+        private static double ToCelsius(double value, TemperatureScale scale)
+        {
+            return scale switch
+            {
+                TemperatureScale.Celsius => value,
+                TemperatureScale.Fahrenheit => (value - 32) * 5 / 9,
+                TemperatureScale.Kelvin => value + AbsoluteZeroCelsius,
+                _ => throw new ArgumentException($"Unsupported temperature scale: {scale}", nameof(scale))
+            };
+        }
+
+        /// <summary>
+        /// Converts a Celsius value to the given scale.
+        /// </summary>
+        private static double FromCelsius(double celsiusValue, TemperatureScale scale)
+        {
+            return scale switch
+            {
+                TemperatureScale.Celsius => celsiusValue,
+                TemperatureScale.Fahrenheit => celsiusValue * 9 / 5 + 32,
+                TemperatureScale.Kelvin => celsiusValue - AbsoluteZeroCelsius,
+                _ => throw new ArgumentException($"Unsupported temperature scale: {scale}", nameof(scale))
+            };
+        }
+    }
+}
@@ -0,0 +1,45 @@
+package config
+
+import (
+	"encoding/json"
+	"fmt"
+	"os"
+)
+
+// Config represents the application configuration.
+type Config struct {
+	ServerAddress string `json:"server_address"`
+	DatabaseURL   string `json:"database_url"`
+	MaxConnections int   `json:"max_connections"`
+}
+
+// LoadConfig reads and parses the configuration file at the given path.
+// It returns an error if the file cannot be read or contains invalid JSON.
+func LoadConfig(configFilePath string) (*Config, error) {
+	fileContents, err := os.ReadFile(configFilePath)
+	if err != nil {
+		return nil, fmt.Errorf("failed to read config file: %w", err)
+	}
+
+	var applicationConfig Config
+	if err := json.Unmarshal(fileContents, &applicationConfig); err != nil {
+		return nil, fmt.Errorf("failed to parse config file: %w", err)
+	}
+
+	if err := applicationConfig.Validate(); err != nil {
+		return nil, fmt.Errorf("invalid configuration: %w", err)
+	}
+
+	return &applicationConfig, nil
+}
+
+// Validate ensures that all required configuration fields are present.
+func (c *Config) Validate() error {
+	if c.ServerAddress == "" {
+		return fmt.Errorf("server_address is required")
+	}
+	if c.MaxConnections <= 0 {
+		return fmt.Errorf("max_connections must be positive, got %d", c.MaxConnections)
+	}
+	return nil
+}
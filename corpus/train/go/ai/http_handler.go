@@ -0,0 +1,33 @@
+package api
+
+import (
+	"encoding/json"
+	"fmt"
+	"net/http"
+)
+
+// HealthResponse represents the response body of the health endpoint.
+type HealthResponse struct {
+	Status  string `json:"status"`
+	Version string `json:"version"`
+}
+
+// HealthHandler handles requests to the health check endpoint.
+// It responds with the current service status and version.
+func HealthHandler(serviceVersion string) http.HandlerFunc {
+	return func(responseWriter http.ResponseWriter, request *http.Request) {
+		// Only allow GET requests for the health endpoint
+		if request.Method != http.MethodGet {
+			http.Error(responseWriter, "Method not allowed", http.StatusMethodNotAllowed)
+			return
+		}
+
+		healthResponse := HealthResponse{Status: "ok", Version: serviceVersion}
+
+		responseWriter.Header().Set("Content-Type", "application/json")
+		if err := json.NewEncoder(responseWriter).Encode(healthResponse); err != nil {
+			http.Error(responseWriter, fmt.Sprintf("failed to encode response: %v", err), http.StatusInternalServerError)
+			return
+		}
+	}
+}
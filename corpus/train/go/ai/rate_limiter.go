@@ -0,0 +1,75 @@
+package ratelimit
+
+import (
+	"errors"
+	"sync"
+	"time"
+)
+
+// ErrRateLimitExceeded is returned when a client has exhausted its request budget.
+var ErrRateLimitExceeded = errors.New("rate limit exceeded")
+
+// TokenBucket implements a thread-safe token bucket rate limiter.
+// Tokens are replenished at a fixed rate up to the configured capacity.
+type TokenBucket struct {
+	mutex          sync.Mutex
+	capacity       float64
+	availableTokens float64
+	refillRate     float64
+	lastRefillTime time.Time
+}
+
+// NewTokenBucket creates a new TokenBucket with the given capacity and refill rate.
+// The refill rate is expressed in tokens per second.
+func NewTokenBucket(capacity int, refillRatePerSecond float64) (*TokenBucket, error) {
+	if capacity <= 0 {
+		return nil, errors.New("capacity must be greater than zero")
+	}
+	if refillRatePerSecond <= 0 {
+		return nil, errors.New("refill rate must be greater than zero")
+	}
+
+	return &TokenBucket{
+		capacity:        float64(capacity),
+		availableTokens: float64(capacity),
+		refillRate:      refillRatePerSecond,
+		lastRefillTime:  time.Now(),
+	}, nil
+}
+
+// Allow reports whether a single request may proceed.
+// It consumes one token if one is available.
+func (bucket *TokenBucket) Allow() bool {
+	return bucket.AllowN(1) == nil
+}
+
+// AllowN attempts to consume the specified number of tokens.
+// It returns ErrRateLimitExceeded if not enough tokens are available.
+func (bucket *TokenBucket) AllowN(requestedTokens int) error {
+	bucket.mutex.Lock()
+	defer bucket.mutex.Unlock()
+
+	// Refill the bucket based on the time elapsed since the last refill
+	bucket.refill()
+
+	if bucket.availableTokens < float64(requestedTokens) {
+		return ErrRateLimitExceeded
+	}
+
+	bucket.availableTokens -= float64(requestedTokens)
+	return nil
+}
+
+// refill adds tokens to the bucket based on the elapsed time.
+// The caller must hold the mutex.
+func (bucket *TokenBucket) refill() {
+	currentTime := time.Now()
+	elapsedSeconds := currentTime.Sub(bucket.lastRefillTime).Seconds()
+
+	bucket.availableTokens += elapsedSeconds * bucket.refillRate
+	if bucket.availableTokens > bucket.capacity {
+		bucket.availableTokens = bucket.capacity
+	}
+
+	bucket.lastRefillTime = currentTime
+}
@@ -0,0 +1,25 @@
+package cache
+
+import "sync"
+
+// dumb map cache, no eviction. fine for now
+type C struct {
+	mu sync.Mutex
+	m  map[string][]byte
+}
+
+func New() *C { return &C{m: map[string][]byte{}} }
+
+func (c *C) Get(k string) ([]byte, bool) {
+	c.mu.Lock()
+	defer c.mu.Unlock()
+	v, ok := c.m[k]
+	return v, ok
+}
+
+func (c *C) Put(k string, v []byte) {
+	c.mu.Lock()
+	c.m[k] = v
+	c.mu.Unlock()
+	// TODO: ttl
+}
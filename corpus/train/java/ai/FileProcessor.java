@@ -0,0 +1,44 @@
+package com.example.io;
+
+import java.io.IOException;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import java.util.List;
+import java.util.stream.Collectors;
+
+/**
+ * Processes text files and extracts non-empty lines.
+ */
+public class FileProcessor {
+
+    /**
+     * Reads all non-empty lines from the specified file.
+     *
+     * @param filePath the path of the file to read
+     * @return a list containing the trimmed non-empty lines
+     * @throws FileProcessingException if the file cannot be read
+     */
+    public List<String> readNonEmptyLines(Path filePath) throws FileProcessingException {
+        if (filePath == null) {
+            throw new IllegalArgumentException("File path must not be null");
+        }
+
+        try {
+            return Files.readAllLines(filePath).stream()
+                    .map(String::trim)
+                    .filter(line -> !line.isEmpty())
+                    .collect(Collectors.toList());
+        } catch (IOException exception) {
+            throw new FileProcessingException("Failed to read file: " + filePath, exception);
+        }
+    }
+
+    /**
+     * Exception thrown when a file cannot be processed.
+     */
+    public static class FileProcessingException extends Exception {
+        public FileProcessingException(String message, Throwable cause) {
+            super(message, cause);
+        }
+    }
+}
@@ -0,0 +1,76 @@
+package com.example.cache;
+
+import java.util.LinkedHashMap;
+import java.util.Map;
+import java.util.Optional;
+
+/**
+ * A simple thread-safe Least Recently Used (LRU) cache implementation.
+ *
+ * <p>When the cache reaches its maximum capacity, the least recently accessed
+ * entry is automatically evicted.</p>
+ *
+ * @param <K> the type of keys maintained by this cache
+ * @param <V> the type of cached values
+ */
+public class LruCache<K, V> {
+
+    private final int maximumCapacity;
+    private final Map<K, V> cacheEntries;
+
+    /**
+     * Creates a new LRU cache with the specified maximum capacity.
+     *
+     * @param maximumCapacity the maximum number of entries the cache can hold
+     * @throws IllegalArgumentException if the capacity is not positive
+     */
+    public LruCache(int maximumCapacity) {
+        if (maximumCapacity <= 0) {
+            throw new IllegalArgumentException("Maximum capacity must be greater than zero");
+        }
+        this.maximumCapacity = maximumCapacity;
+        // Use access order so that reads move entries to the end of the list
+        this.cacheEntries = new LinkedHashMap<K, V>(16, 0.75f, true) {
+            @Override
+            protected boolean removeEldestEntry(Map.Entry<K, V> eldestEntry) {
+                return size() > LruCache.this.maximumCapacity;
+            }
+        };
+    }
+
+    /**
+     * Retrieves the value associated with the given key.
+     *
+     * @param key the key whose associated value is to be returned
+     * @return an Optional containing the value, or an empty Optional if not present
+     */
+    public synchronized Optional<V> get(K key) {
+        return Optional.ofNullable(cacheEntries.get(key));
+    }
+
+    /**
+     * Stores a value in the cache, evicting the least recently used entry if necessary.
+     *
+     * @param key the key with which the value is to be associated
+     * @param value the value to be cached
+     */
+    public synchronized void put(K key, V value) {
+        cacheEntries.put(key, value);
+    }
+
+    /**
+     * Returns the current number of entries in the cache.
+     *
+     * @return the number of cached entries
+     */
+    public synchronized int size() {
+        return cacheEntries.size();
+    }
+
+    /**
+     * Removes all entries from the cache.
+     */
+    public synchronized void clear() {
+        cacheEntries.clear();
+    }
+}
@@ -0,0 +1,53 @@
+package com.example.validation;
+
+import java.util.ArrayList;
+import java.util.List;
+import java.util.regex.Pattern;
+
+/**
+ * Validates user registration data.
+ *
+ * <p>This class provides comprehensive validation for user input fields.</p>
+ */
+public class UserValidator {
+
+    private static final Pattern EMAIL_PATTERN = Pattern.compile("^[\\w.+-]+@[\\w-]+\\.[\\w.]+$");
+    private static final int MINIMUM_PASSWORD_LENGTH = 8;
+
+    /**
+     * Validates the provided user registration details.
+     *
+     * @param emailAddress the email address to validate
+     * @param password the password to validate
+     * @return a list of validation error messages, empty if valid
+     * @throws IllegalArgumentException if any argument is null
+     */
+    public List<String> validateRegistration(String emailAddress, String password) {
+        if (emailAddress == null || password == null) {
+            throw new IllegalArgumentException("Email address and password must not be null");
+        }
+
+        List<String> validationErrors = new ArrayList<>();
+
+        // Validate the email address format
+        if (!EMAIL_PATTERN.matcher(emailAddress).matches()) {
+            validationErrors.add("Invalid email address format: " + emailAddress);
+        }
+
+        // Validate the password length requirement
+        if (password.length() < MINIMUM_PASSWORD_LENGTH) {
+            validationErrors.add("Password must be at least " + MINIMUM_PASSWORD_LENGTH + " characters long");
+        }
+
+        return validationErrors;
+    }
+
+    /**
+     * Gets the minimum password length.
+     *
+     * @return the minimum password length
+     */
+    public int getMinimumPasswordLength() {
+        return MINIMUM_PASSWORD_LENGTH;
+    }
+}
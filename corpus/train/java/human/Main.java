@@ -0,0 +1,15 @@
+import java.util.*;
+
+public class Main {
+    public static void main(String[] args) {
+        Scanner sc = new Scanner(System.in);
+        int n = sc.nextInt();
+        int[] a = new int[n];
+        for (int i = 0; i < n; i++) a[i] = sc.nextInt();
+        Arrays.sort(a);
+        long s = 0;
+        for (int x : a) s += x;
+        System.out.println(s + " " + a[n / 2]);
+        // System.out.println(Arrays.toString(a));
+    }
+}
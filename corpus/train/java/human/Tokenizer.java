@@ -0,0 +1,29 @@
+package util;
+
+import java.util.ArrayList;
+import java.util.List;
+
+// splits on whitespace but keeps "quoted strings" together
+public class Tokenizer {
+    public static List<String> split(String s) {
+        List<String> out = new ArrayList<>();
+        StringBuilder cur = new StringBuilder();
+        boolean q = false;
+        for (char c : s.toCharArray()) {
+            if (c == '"') { q = !q; continue; }
+            if (Character.isWhitespace(c) && !q) {
+                if (cur.length() > 0) { out.add(cur.toString()); cur.setLength(0); }
+            } else cur.append(c);
+        }
+        if (cur.length() > 0) out.add(cur.toString());
+        return out;
+    }
+
+    public static void main(String[] a) {
+        try {
+            System.out.println(split("foo \"bar baz\" qux"));
+        } catch (Exception e) {
+            e.printStackTrace();
+        }
+    }
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Calculates summary statistics for a list of numbers.
+ * This utility provides a comprehensive overview of the dataset.
+ */
+
+// ---------------------------------------------------------------
+// Input validation
+// ---------------------------------------------------------------
+
+const args = process.argv.slice(2);
+
+if (args.length === 0) {
+  console.error("Usage: calculate-statistics <number> [number...]");
+  process.exit(1);
+}
+
+const numericValues = args.map((argument) => Number(argument));
+
+if (numericValues.some((value) => isNaN(value))) {
+  console.error("Error: All arguments must be valid numbers");
+  process.exit(1);
+}
+
+// ---------------------------------------------------------------
+// Statistics calculation
+// ---------------------------------------------------------------
+
+/**
+ * Computes the arithmetic mean of the provided values.
+ * @param {number[]} values - The values to average
+ * @returns {number} The mean value
+ */
+function calculateMean(values) {
+  const totalSum = values.reduce((accumulator, value) => accumulator + value, 0);
+  return totalSum / values.length;
+}
+
+/**
+ * Computes the median of the provided values.
+ * @param {number[]} values - The values to analyze
+ * @returns {number} The median value
+ */
+function calculateMedian(values) {
+  const sortedValues = [...values].sort((first, second) => first - second);
+  const middleIndex = Math.floor(sortedValues.length / 2);
+  return sortedValues.length % 2 === 0
+    ? (sortedValues[middleIndex - 1] + sortedValues[middleIndex]) / 2
+    : sortedValues[middleIndex];
+}
+
+console.log(`Result: mean=${calculateMean(numericValues)}`);
+console.log(`Result: median=${calculateMedian(numericValues)}`);
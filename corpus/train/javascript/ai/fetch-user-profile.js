@@ -0,0 +1,35 @@
+/**
+ * Fetches a user profile from the API and normalizes the response.
+ * @param {string} userId - The unique identifier of the user
+ * @returns {Promise<Object>} The normalized user profile
+ */
+async function fetchUserProfile(userId) {
+  // Step 1: Validate the input parameters
+  if (!userId || typeof userId !== "string") {
+    throw new Error("Error: userId must be a non-empty string");
+  }
+
+  try {
+    // Step 2: Send the request to the API
+    const response = await fetch(`/api/users/${encodeURIComponent(userId)}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch user profile: ${response.status}`);
+    }
+
+    // Step 3: Parse and normalize the response payload
+    const userProfileData = await response.json();
+
+    return {
+      id: userProfileData.id,
+      displayName: userProfileData.display_name,
+      emailAddress: userProfileData.email,
+      createdAt: new Date(userProfileData.created_at),
+    };
+  } catch (error) {
+    console.error("Error fetching user profile:", error);
+    throw error;
+  }
+}
+
+module.exports = { fetchUserProfile };
@@ -0,0 +1,63 @@
+/**
+ * Utility for formatting dates as human-readable relative time strings.
+ */
+
+const TIME_UNITS = [
+  { unit: 'year', seconds: 31536000 },
+  { unit: 'month', seconds: 2592000 },
+  { unit: 'week', seconds: 604800 },
+  { unit: 'day', seconds: 86400 },
+  { unit: 'hour', seconds: 3600 },
+  { unit: 'minute', seconds: 60 },
+  { unit: 'second', seconds: 1 },
+];
+
+/**
+ * Formats a date relative to the current time (e.g. "3 hours ago" or "in 2 days").
+ *
+ * @param {Date|string|number} date - The date to format.
+ * @param {Object} [options] - Optional formatting settings.
+ * @param {string} [options.locale='en'] - The locale to use for formatting.
+ * @param {Date} [options.now=new Date()] - The reference point in time.
+ * @returns {string} The formatted relative time string.
+ * @throws {TypeError} If the provided date is invalid.
+ */
+function formatRelativeTime(date, options = {}) {
+  const { locale = 'en', now = new Date() } = options;
+  const targetDate = date instanceof Date ? date : new Date(date);
+
+  // Validate the input date
+  if (Number.isNaN(targetDate.getTime())) {
+    throw new TypeError(`Invalid date provided: ${date}`);
+  }
+
+  const elapsedSeconds = Math.round((targetDate.getTime() - now.getTime()) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+
+  // Find the largest unit that fits the elapsed time
+  for (const { unit, seconds } of TIME_UNITS) {
+    if (Math.abs(elapsedSeconds) >= seconds || unit === 'second') {
+      const value = Math.round(elapsedSeconds / seconds);
+      return formatter.format(value, unit);
+    }
+  }
+
+  return formatter.format(0, 'second');
+}
+
+/**
+ * Checks whether the given date falls on the current day.
+ *
+ * @param {Date} date - The date to check.
+ * @returns {boolean} True if the date is today, otherwise false.
+ */
+function isToday(date) {
+  const currentDate = new Date();
+  return (
+    date.getFullYear() === currentDate.getFullYear() &&
+    date.getMonth() === currentDate.getMonth() &&
+    date.getDate() === currentDate.getDate()
+  );
+}
+
+module.exports = { formatRelativeTime, isToday };
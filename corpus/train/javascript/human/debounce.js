@@ -0,0 +1,16 @@
+// debounce w/ leading edge, stolen from the old utils file
+function debounce(fn, ms, lead) {
+  let t
+  return function (...a) {
+    const now = lead && !t
+    clearTimeout(t)
+    t = setTimeout(() => {
+      t = null
+      if (!lead) fn.apply(this, a)
+    }, ms)
+    if (now) fn.apply(this, a)
+  }
+}
+
+// TODO: cancel()?
+module.exports = debounce
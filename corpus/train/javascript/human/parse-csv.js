@@ -0,0 +1,19 @@
+const fs = require('fs')
+
+// quick and dirty csv -> objects, doesn't handle quoted commas yet
+function parse(txt) {
+  const rows = txt.trim().split('\n')
+  const hdr = rows.shift().split(',')
+  return rows.map(r => {
+    const cols = r.split(',')
+    let o = {}
+    hdr.forEach((h, i) => o[h] = cols[i])
+    return o
+  })
+}
+
+const f = process.argv[2]
+const data = parse(fs.readFileSync(f, 'utf8'))
+console.log(data.length, 'rows')
+console.log(data[0]) // sanity check
+// FIXME numbers come out as strings
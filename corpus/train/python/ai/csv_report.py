@@ -0,0 +1,93 @@
+"""Generate a summary report from a CSV file of sales transactions."""
+
+import csv
+import logging
+from dataclasses import dataclass, field
+from pathlib import Path
+from typing import Dict, List
+
+logging.basicConfig(level=logging.INFO, format="%(asctime)s - %(levelname)s - %(message)s")
+logger = logging.getLogger(__name__)
+
+
+@dataclass
+class SalesSummary:
+    """Aggregated statistics for a set of sales transactions."""
+
+    total_revenue: float = 0.0
+    transaction_count: int = 0
+    revenue_by_region: Dict[str, float] = field(default_factory=dict)
+
+    @property
+    def average_transaction_value(self) -> float:
+        """Calculate the average value of a single transaction."""
+        if self.transaction_count == 0:
+            return 0.0
+        return self.total_revenue / self.transaction_count
+
+
+def load_transactions(file_path: Path) -> List[Dict[str, str]]:
+    """
+    Load sales transactions from a CSV file.
+
+    Args:
+        file_path: Path to the CSV file.
+
+    Returns:
+        A list of rows, each represented as a dictionary.
+
+    Raises:
+        FileNotFoundError: If the file does not exist.
+    """
+    if not file_path.exists():
+        raise FileNotFoundError(f"Input file not found: {file_path}")
+
+    with file_path.open(newline="", encoding="utf-8") as csv_file:
+        return list(csv.DictReader(csv_file))
+
+
+def summarize_transactions(transactions: List[Dict[str, str]]) -> SalesSummary:
+    """
+    Build a summary of the given transactions.
+
+    Rows with missing or malformed amounts are skipped and logged.
+    """
+    summary = SalesSummary()
+
+    for row_number, transaction in enumerate(transactions, start=1):
+        try:
+            amount = float(transaction["amount"])
+        except (KeyError, ValueError) as error:
+            logger.warning("Skipping row %d due to invalid amount: %s", row_number, error)
+            continue
+
+        region = transaction.get("region", "Unknown").strip() or "Unknown"
+        summary.total_revenue += amount
+        summary.transaction_count += 1
+        summary.revenue_by_region[region] = summary.revenue_by_region.get(region, 0.0) + amount
+
+    return summary
+
+
+def print_report(summary: SalesSummary) -> None:
+    """Print a formatted report to standard output."""
+    print("=" * 40)
+    print("Sales Summary Report")
+    print("=" * 40)
+    print(f"Total revenue:       ${summary.total_revenue:,.2f}")
+    print(f"Transactions:        {summary.transaction_count}")
+    print(f"Average transaction: ${summary.average_transaction_value:,.2f}")
+    print("\nRevenue by region:")
+    for region, revenue in sorted(summary.revenue_by_region.items(), key=lambda item: item[1], reverse=True):
+        print(f"  - {region}: ${revenue:,.2f}")
+
+
+if __name__ == "__main__":
+    import sys
+
+    if len(sys.argv) != 2:
+        print("Usage: python csv_report.py <transactions.csv>")
+        sys.exit(1)
+
+    report_summary = summarize_transactions(load_transactions(Path(sys.argv[1])))
+    print_report(report_summary)
@@ -0,0 +1,59 @@
+"""
+Inventory management module.
+
+This module provides functionality for tracking product stock levels.
+"""
+
+from typing import Dict, List, Optional
+
+
+class InventoryManager:
+    """
+    Manages the inventory of products.
+
+    Attributes:
+        stock_levels: A dictionary mapping product identifiers to quantities.
+    """
+
+    def __init__(self) -> None:
+        """Initialize an empty inventory."""
+        self.stock_levels: Dict[str, int] = {}
+
+    def add_stock(self, product_id: str, quantity: int) -> None:
+        """
+        Add stock for the specified product.
+
+        Args:
+            product_id: The unique identifier of the product.
+            quantity: The number of units to add.
+
+        Raises:
+            ValueError: If the quantity is not positive.
+        """
+        if quantity <= 0:
+            raise ValueError(f"Invalid quantity: {quantity}. Quantity must be positive.")
+        self.stock_levels[product_id] = self.stock_levels.get(product_id, 0) + quantity
+
+    def get_stock(self, product_id: str) -> Optional[int]:
+        """
+        Retrieve the current stock level for a product.
+
+        Args:
+            product_id: The unique identifier of the product.
+
+        Returns:
+            The quantity in stock, or None if the product is unknown.
+        """
+        return self.stock_levels.get(product_id)
+
+    def list_low_stock(self, threshold: int = 5) -> List[str]:
+        """
+        List products whose stock is below the given threshold.
+
+        Args:
+            threshold: The stock level below which a product is considered low.
+
+        Returns:
+            A list of product identifiers with low stock.
+        """
+        return [product_id for product_id, quantity in self.stock_levels.items() if quantity < threshold]
@@ -0,0 +1,60 @@
+#!/usr/bin/env python3
+"""
+Word frequency analyzer.
+
+This script counts the occurrences of each word in a text file.
+"""
+
+import argparse
+import re
+from collections import Counter
+from typing import List, Tuple
+
+
+def count_word_frequencies(text_content: str) -> Counter:
+    """
+    Count the frequency of each word in the provided text.
+
+    Args:
+        text_content: The text to analyze.
+
+    Returns:
+        A Counter mapping each word to its frequency.
+    """
+    normalized_words = re.findall(r"[a-z']+", text_content.lower())
+    return Counter(normalized_words)
+
+
+def get_most_common_words(word_counts: Counter, limit: int) -> List[Tuple[str, int]]:
+    """
+    Retrieve the most common words.
+
+    Args:
+        word_counts: The word frequency counter.
+        limit: The maximum number of words to return.
+
+    Returns:
+        A list of (word, count) tuples sorted by frequency.
+    """
+    return word_counts.most_common(limit)
+
+
+def main() -> None:
+    """Parse command-line arguments and print the word frequencies."""
+    parser = argparse.ArgumentParser(description="Count word frequencies in a text file.")
+    parser.add_argument("file_path", help="Path to the text file to analyze")
+    parser.add_argument("--limit", type=int, default=10, help="Number of words to display")
+    arguments = parser.parse_args()
+
+    try:
+        with open(arguments.file_path, "r", encoding="utf-8") as input_file:
+            text_content = input_file.read()
+    except FileNotFoundError:
+        raise FileNotFoundError(f"Error: The file '{arguments.file_path}' was not found.")
+
+    for word, frequency in get_most_common_words(count_word_frequencies(text_content), arguments.limit):
+        print(f"{word}: {frequency}")
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,18 @@
+import functools
+
+@functools.lru_cache(None)
+def fib(n):
+    if n < 2: return n
+    return fib(n-1) + fib(n-2)
+
+def fib_iter(n):
+    a, b = 0, 1
+    for _ in range(n):
+        a, b = b, a+b
+    return a
+
+# quick check, should match
+for i in range(20):
+    assert fib(i) == fib_iter(i), i
+print(fib(90))
+import pdb; pdb.set_trace()
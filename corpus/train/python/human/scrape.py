@@ -0,0 +1,18 @@
+import requests, sys
+from bs4 import BeautifulSoup
+
+# grabs all the links off a page. used for the sitemap thing
+url = sys.argv[1]
+r = requests.get(url)
+s = BeautifulSoup(r.text, 'html.parser')
+
+seen = set()
+for a in s.find_all('a'):
+    h = a.get('href')
+    if not h or h.startswith('#'): continue
+    if h in seen: continue
+    seen.add(h)
+    print(h)
+
+# print(len(seen))
+# TODO relative urls
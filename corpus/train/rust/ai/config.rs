@@ -0,0 +1,84 @@
+use serde::Deserialize;
+use std::fs;
+use std::path::Path;
+use thiserror::Error;
+
+/// Errors that can occur while loading the application configuration.
+#[derive(Debug, Error)]
+pub enum ConfigError {
+    /// The configuration file could not be read.
+    #[error("failed to read config file: {0}")]
+    Io(#[from] std::io::Error),
+
+    /// The configuration file contains invalid TOML.
+    #[error("failed to parse config file: {0}")]
+    Parse(#[from] toml::de::Error),
+
+    /// A configuration value failed validation.
+    #[error("invalid configuration: {0}")]
+    Validation(String),
+}
+
+/// Represents the application configuration.
+#[derive(Debug, Clone, Deserialize)]
+pub struct AppConfig {
+    /// The address the server binds to.
+    pub server_address: String,
+    /// The maximum number of worker threads.
+    pub worker_threads: usize,
+    /// The log level (e.g. "info", "debug").
+    #[serde(default = "default_log_level")]
+    pub log_level: String,
+}
+
+/// Returns the default log level.
+fn default_log_level() -> String {
+    "info".to_string()
+}
+
+impl AppConfig {
+    /// Loads the configuration from the specified TOML file.
+    ///
+    /// # Errors
+    ///
+    /// Returns a `ConfigError` if the file cannot be read, parsed, or validated.
+    pub fn from_file<P: AsRef<Path>>(config_path: P) -> Result<Self, ConfigError> {
+        let file_contents = fs::read_to_string(config_path)?;
+        let config: AppConfig = toml::from_str(&file_contents)?;
+        config.validate()?;
+        Ok(config)
+    }
+
+    /// Validates the configuration values.
+    fn validate(&self) -> Result<(), ConfigError> {
+        if self.server_address.trim().is_empty() {
+            return Err(ConfigError::Validation(
+                "server_address must not be empty".to_string(),
+            ));
+        }
+
+        if self.worker_threads == 0 {
+            return Err(ConfigError::Validation(
+                "worker_threads must be greater than zero".to_string(),
+            ));
+        }
+
+        Ok(())
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn test_validate_rejects_zero_worker_threads() {
+        let config = AppConfig {
+            server_address: "127.0.0.1:8080".to_string(),
+            worker_threads: 0,
+            log_level: default_log_level(),
+        };
+
+        assert!(config.validate().is_err());
+    }
+}
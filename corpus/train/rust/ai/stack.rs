@@ -0,0 +1,94 @@
+//! A generic bounded stack implementation.
+
+use std::fmt;
+
+/// An error returned when an operation on the stack fails.
+#[derive(Debug, PartialEq, Eq)]
+pub enum StackError {
+    /// The stack has reached its maximum capacity.
+    Overflow,
+    /// The stack contains no elements.
+    Underflow,
+}
+
+impl fmt::Display for StackError {
+    fn fmt(&self, formatter: &mut fmt::Formatter<'_>) -> fmt::Result {
+        match self {
+            StackError::Overflow => write!(formatter, "stack overflow: capacity exceeded"),
+            StackError::Underflow => write!(formatter, "stack underflow: stack is empty"),
+        }
+    }
+}
+
+impl std::error::Error for StackError {}
+
+/// A stack with a fixed maximum capacity.
+#[derive(Debug, Clone)]
+pub struct BoundedStack<T> {
+    elements: Vec<T>,
+    capacity: usize,
+}
+
+impl<T> BoundedStack<T> {
+    /// Creates a new, empty `BoundedStack` with the specified capacity.
+    pub fn new(capacity: usize) -> Self {
+        Self {
+            elements: Vec::with_capacity(capacity),
+            capacity,
+        }
+    }
+
+    /// Pushes an element onto the top of the stack.
+    ///
+    /// Returns `StackError::Overflow` if the stack is full.
+    pub fn push(&mut self, element: T) -> Result<(), StackError> {
+        if self.is_full() {
+            return Err(StackError::Overflow);
+        }
+        self.elements.push(element);
+        Ok(())
+    }
+
+    /// Removes and returns the element at the top of the stack.
+    ///
+    /// Returns `StackError::Underflow` if the stack is empty.
+    pub fn pop(&mut self) -> Result<T, StackError> {
+        self.elements.pop().ok_or(StackError::Underflow)
+    }
+
+    /// Returns a reference to the top element without removing it.
+    pub fn peek(&self) -> Option<&T> {
+        self.elements.last()
+    }
+
+    /// Returns the number of elements currently in the stack.
+    pub fn len(&self) -> usize {
+        self.elements.len()
+    }
+
+    /// Returns `true` if the stack contains no elements.
+    pub fn is_empty(&self) -> bool {
+        self.elements.is_empty()
+    }
+
+    /// Returns `true` if the stack has reached its capacity.
+    pub fn is_full(&self) -> bool {
+        self.elements.len() >= self.capacity
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn test_push_and_pop() {
+        let mut stack = BoundedStack::new(2);
+        assert!(stack.push(1).is_ok());
+        assert!(stack.push(2).is_ok());
+        assert_eq!(stack.push(3), Err(StackError::Overflow));
+        assert_eq!(stack.pop(), Ok(2));
+        assert_eq!(stack.pop(), Ok(1));
+        assert_eq!(stack.pop(), Err(StackError::Underflow));
+    }
+}
@@ -0,0 +1,72 @@
+use std::collections::HashMap;
+use std::env;
+use std::fs::File;
+use std::io::{self, BufRead, BufReader};
+use std::process;
+
+/// Counts the occurrences of each word in the given reader.
+///
+/// Words are normalized to lowercase and stripped of surrounding punctuation.
+fn count_words<R: BufRead>(reader: R) -> io::Result<HashMap<String, usize>> {
+    let mut word_counts: HashMap<String, usize> = HashMap::new();
+
+    for line in reader.lines() {
+        let line = line?;
+        for raw_word in line.split_whitespace() {
+            // Normalize the word by trimming punctuation and converting to lowercase
+            let normalized_word = raw_word
+                .trim_matches(|character: char| !character.is_alphanumeric())
+                .to_lowercase();
+
+            if !normalized_word.is_empty() {
+                *word_counts.entry(normalized_word).or_insert(0) += 1;
+            }
+        }
+    }
+
+    Ok(word_counts)
+}
+
+/// Returns the `limit` most frequent words, sorted by descending count.
+fn top_words(word_counts: &HashMap<String, usize>, limit: usize) -> Vec<(&String, &usize)> {
+    let mut sorted_words: Vec<(&String, &usize)> = word_counts.iter().collect();
+    sorted_words.sort_by(|a, b| b.1.cmp(a.1).then_with(|| a.0.cmp(b.0)));
+    sorted_words.into_iter().take(limit).collect()
+}
+
+fn main() {
+    let arguments: Vec<String> = env::args().collect();
+
+    if arguments.len() < 2 {
+        eprintln!("Usage: {} <file_path> [limit]", arguments[0]);
+        process::exit(1);
+    }
+
+    let file_path = &arguments[1];
+    let limit = arguments
+        .get(2)
+        .and_then(|value| value.parse::<usize>().ok())
+        .unwrap_or(10);
+
+    // Open the file and handle any errors gracefully
+    let file = match File::open(file_path) {
+        Ok(file) => file,
+        Err(error) => {
+            eprintln!("Error: Unable to open file '{}': {}", file_path, error);
+            process::exit(1);
+        }
+    };
+
+    match count_words(BufReader::new(file)) {
+        Ok(word_counts) => {
+            println!("Top {} words in '{}':", limit, file_path);
+            for (word, count) in top_words(&word_counts, limit) {
+                println!("{:>20}: {}", word, count);
+            }
+        }
+        Err(error) => {
+            eprintln!("Error: Failed to read file: {}", error);
+            process::exit(1);
+        }
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * A strongly typed event emitter.
+ *
+ * @example
+ * ```ts
+ * const emitter = new TypedEventEmitter<{ message: string }>();
+ * emitter.on("message", (text) => console.log(text));
+ * emitter.emit("message", "Hello, world!");
+ * ```
+ */
+type EventMap = Record<string, unknown>;
+type EventListener<Payload> = (payload: Payload) => void;
+
+export class TypedEventEmitter<Events extends EventMap> {
+  private readonly listeners: {
+    [EventName in keyof Events]?: Set<EventListener<Events[EventName]>>;
+  } = {};
+
+  /**
+   * Registers a listener for the specified event.
+   * @param eventName - The name of the event to listen for
+   * @param listener - The callback to invoke when the event is emitted
+   * @returns A function that removes the listener when called
+   */
+  public on<EventName extends keyof Events>(
+    eventName: EventName,
+    listener: EventListener<Events[EventName]>
+  ): () => void {
+    if (!this.listeners[eventName]) {
+      this.listeners[eventName] = new Set();
+    }
+    this.listeners[eventName]!.add(listener);
+
+    // Return an unsubscribe function for convenience
+    return () => this.off(eventName, listener);
+  }
+
+  /**
+   * Registers a listener that is invoked at most once.
+   * @param eventName - The name of the event to listen for
+   * @param listener - The callback to invoke
+   */
+  public once<EventName extends keyof Events>(
+    eventName: EventName,
+    listener: EventListener<Events[EventName]>
+  ): void {
+    const wrappedListener: EventListener<Events[EventName]> = (payload) => {
+      this.off(eventName, wrappedListener);
+      listener(payload);
+    };
+    this.on(eventName, wrappedListener);
+  }
+
+  /**
+   * Removes a previously registered listener.
+   * @param eventName - The name of the event
+   * @param listener - The listener to remove
+   */
+  public off<EventName extends keyof Events>(
+    eventName: EventName,
+    listener: EventListener<Events[EventName]>
+  ): void {
+    this.listeners[eventName]?.delete(listener);
+  }
+
+  /**
+   * Emits an event, invoking all registered listeners with the given payload.
+   * @param eventName - The name of the event to emit
+   * @param payload - The data to pass to each listener
+   */
+  public emit<EventName extends keyof Events>(eventName: EventName, payload: Events[EventName]): void {
+    const eventListeners = this.listeners[eventName];
+    if (!eventListeners) {
+      return;
+    }
+
+    // Copy the listeners so that removals during emission are handled safely
+    for (const listener of [...eventListeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in listener for event "${String(eventName)}":`, error);
+      }
+    }
+  }
+}
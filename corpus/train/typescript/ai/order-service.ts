@@ -0,0 +1,66 @@
+/**
+ * Represents a single item within a customer order.
+ */
+interface OrderItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Represents the result of an order validation.
+ */
+interface ValidationResult {
+  isValid: boolean;
+  errorMessages: string[];
+}
+
+/**
+ * Service responsible for validating and pricing customer orders.
+ */
+export class OrderService {
+  private readonly taxRate: number;
+
+  constructor(taxRate: number) {
+    if (taxRate < 0 || taxRate > 1) {
+      throw new Error("Error: taxRate must be between 0 and 1");
+    }
+    this.taxRate = taxRate;
+  }
+
+  /**
+   * Validates the provided order items.
+   * @param orderItems - The items to validate
+   * @returns A validation result containing any error messages
+   */
+  public validateOrderItems(orderItems: OrderItem[]): ValidationResult {
+    const errorMessages: string[] = [];
+
+    // Ensure that the order contains at least one item
+    if (orderItems.length === 0) {
+      errorMessages.push("Order must contain at least one item");
+    }
+
+    // Validate each individual order item
+    for (const orderItem of orderItems) {
+      if (orderItem.quantity <= 0) {
+        errorMessages.push(`Invalid quantity for product ${orderItem.productId}`);
+      }
+    }
+
+    return { isValid: errorMessages.length === 0, errorMessages };
+  }
+
+  /**
+   * Calculates the total price of the order including tax.
+   * @param orderItems - The items to price
+   * @returns The total price including tax
+   */
+  public calculateOrderTotal(orderItems: OrderItem[]): number {
+    const subtotalAmount = orderItems.reduce(
+      (runningTotal, orderItem) => runningTotal + orderItem.quantity * orderItem.unitPrice,
+      0
+    );
+    return subtotalAmount * (1 + this.taxRate);
+  }
+}
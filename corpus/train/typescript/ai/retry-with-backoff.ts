@@ -0,0 +1,47 @@
+/**
+ * Configuration options for the retry mechanism.
+ */
+export interface RetryOptions {
+  maximumAttempts: number;
+  initialDelayMilliseconds: number;
+  backoffMultiplier: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maximumAttempts: 3,
+  initialDelayMilliseconds: 500,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Executes an asynchronous operation with exponential backoff.
+ * @param operation - The asynchronous operation to execute
+ * @param retryOptions - Optional retry configuration
+ * @returns The result of the operation
+ * @throws The last encountered error if all attempts fail
+ */
+export async function retryWithBackoff<ResultType>(
+  operation: () => Promise<ResultType>,
+  retryOptions: Partial<RetryOptions> = {}
+): Promise<ResultType> {
+  const resolvedOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  let lastEncounteredError: unknown;
+
+  for (let attemptNumber = 1; attemptNumber <= resolvedOptions.maximumAttempts; attemptNumber++) {
+    try {
+      // Attempt to execute the operation
+      return await operation();
+    } catch (error) {
+      lastEncounteredError = error;
+      console.error(`Error: Attempt ${attemptNumber} failed:`, error);
+
+      // Calculate the delay before the next attempt
+      const delayMilliseconds =
+        resolvedOptions.initialDelayMilliseconds *
+        Math.pow(resolvedOptions.backoffMultiplier, attemptNumber - 1);
+      await new Promise((resolve) => setTimeout(resolve, delayMilliseconds));
+    }
+  }
+
+  throw lastEncounteredError;
+}
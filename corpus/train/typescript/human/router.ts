@@ -0,0 +1,24 @@
+type Handler = (params: Record<string, string>) => void
+
+const routes: [RegExp, string[], Handler][] = []
+
+// tiny hash router, good enough for the admin page
+export function on(path: string, h: Handler) {
+  const keys: string[] = []
+  const re = new RegExp('^' + path.replace(/:(\w+)/g, (_, k) => { keys.push(k); return '([^/]+)' }) + '$')
+  routes.push([re, keys, h])
+}
+
+export function go() {
+  const p = location.hash.slice(1) || '/'
+  for (const [re, keys, h] of routes) {
+    const m = p.match(re)
+    if (!m) continue
+    const params: Record<string, string> = {}
+    keys.forEach((k, i) => (params[k] = m[i + 1]))
+    return h(params)
+  }
+  console.log('no route for', p) // hmm, 404 page?
+}
+
+window.addEventListener('hashchange', go)
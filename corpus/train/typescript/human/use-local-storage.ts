@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+
+// same api as useState but persisted. json only
+export function useLocalStorage<T>(key: string, init: T) {
+  const [val, setVal] = useState<T>(() => {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) : init
+  })
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(val))
+  }, [key, val])
+
+  return [val, setVal] as const
+}
+
+// TODO sync across tabs via the storage event
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { stripLicenseHeader } from "./corpus";
+
+describe("stripLicenseHeader", () => {
+  it("drops leading comment blocks up to the last license notice", () => {
+    const code = [
+      "// run",
+      "",
+      "// Copyright 2009 The Go Authors. All rights reserved.",
+      "// Use of this source code is governed by a BSD-style",
+      "// license that can be found in the LICENSE file.",
+      "",
+      "// Package main tests channels.",
+      "package main",
+    ].join("\n");
+
+    expect(stripLicenseHeader(code, "go")).toBe(
+      "// Package main tests channels.\npackage main"
+    );
+  });
+
+  it("handles block comments and hash comments", () => {
+    const block = "/*\n * Licensed under the Apache License.\n */\n\nint x;";
+    const hash = "# SPDX-License-Identifier: PSF-2.0\n\nimport os";
+
+    expect(stripLicenseHeader(block, "cpp")).toBe("int x;");
+    expect(stripLicenseHeader(hash, "python")).toBe("import os");
+  });
+
+  it("keeps a block comment with blank lines in it together", () => {
+    const code = [
+      "/*",
+      "  Copyright 2008 Adobe Systems Incorporated",
+      "",
+      "  Revision history:",
+      "    January 2008 mtc Version for Adobe Source Library",
+      "*/",
+      "",
+      "#include <algorithm>",
+    ].join("\n");
+
+    expect(stripLicenseHeader(code, "cpp")).toBe("#include <algorithm>");
+  });
+
+  it("leaves files without a license header alone", () => {
+    const code = "// Parses the config file\nconst x = 1;\n// license key below\n";
+
+    expect(stripLicenseHeader(code, "javascript")).toBe(code);
+  });
+});
@@ -0,0 +1,61 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import type { LabeledSource } from "../src/lib/calibration";
+import { maskLine, tokenizeLines } from "../src/lib/lexer";
+
+const LICENSE_HEADER = /copyright|licen[sc]e|spdx/i;
+
+// Reads a labeled corpus laid out as <dir>/<language>/{ai,human}/<file>
+export function loadCorpus(dir: string): LabeledSource[] {
+  const sources: LabeledSource[] = [];
+
+  for (const language of readdirSync(dir)) {
+    for (const label of ["ai", "human"]) {
+      const labelDir = join(dir, language, label);
+      if (!existsSync(labelDir)) continue;
+
+      for (const fileName of readdirSync(labelDir)) {
+        const path = join(labelDir, fileName);
+        sources.push({
+          path: relative(dir, path),
+          code: stripLicenseHeader(readFileSync(path, "utf8"), language),
+          language,
+          isAI: label === "ai",
+        });
+      }
+    }
+  }
+
+  return sources;
+}
+
+// Third-party samples keep their license headers on disk (see
+// corpus/SOURCES.md), but boilerplate copied verbatim across projects says
+// nothing about who wrote the code, so it is dropped before scoring. Removes
+// the leading comment blocks up to the last one mentioning a copyright or
+// license, plus the blank lines after it.
+export function stripLicenseHeader(code: string, language: string): string {
+  // Padding empty lines makes the lexer mark the ones inside a block comment
+  // as comment, so only blank lines between comments separate blocks
+  const lines = code.split("\n").map((line) => line || " ");
+  const tokens = tokenizeLines(lines.join("\n"), language);
+  const isBlank = (i: number) =>
+    lines[i].trim() === "" && tokens[i].every((token) => token.kind !== "comment");
+  const isComment = (i: number) =>
+    maskLine(lines[i], tokens[i], "code", language).trim() === "";
+
+  let end = 0;
+  let i = 0;
+  while (i < lines.length) {
+    while (i < lines.length && isBlank(i)) i++;
+    if (i === lines.length || !isComment(i)) break;
+
+    const start = i;
+    while (i < lines.length && !isBlank(i) && isComment(i)) i++;
+    if (LICENSE_HEADER.test(lines.slice(start, i).join("\n"))) end = i;
+  }
+
+  if (end === 0) return code;
+  while (end < lines.length && isBlank(end)) end++;
+  return code.split("\n").slice(end).join("\n");
+}
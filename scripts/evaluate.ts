@@ -0,0 +1,85 @@
+// Scores the held-out corpus and fails when accuracy drops below the
+// checked-in thresholds.
+//
+//   npm run evaluate              # corpus/heldout/ and its thresholds.json
+//   npm run evaluate -- <dir>     # another corpus with the same layout
+//
+// Corpus layout: <dir>/<language>/{ai,human}/<file>
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { checkThresholds, evaluateCorpus } from "../src/lib/evaluation";
+import type {
+  ClassificationMetrics,
+  EvaluationThresholds,
+} from "../src/lib/evaluation";
+import { loadCorpus } from "./corpus";
+
+const corpusDir = process.argv[2] || "corpus/heldout";
+const thresholdsPath = join(corpusDir, "thresholds.json");
+
+function formatMetric(value: number): string {
+  return Number.isNaN(value) ? "  n/a" : value.toFixed(3);
+}
+
+function metricsRow(label: string, metrics: ClassificationMetrics) {
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } =
+    metrics.confusionMatrix;
+  return {
+    set: label,
+    files: metrics.sampleCount,
+    accuracy: formatMetric(metrics.accuracy),
+    precision: formatMetric(metrics.precision),
+    recall: formatMetric(metrics.recall),
+    specificity: formatMetric(metrics.specificity),
+    f1: formatMetric(metrics.f1),
+    rocAuc: formatMetric(metrics.rocAuc),
+    "TP/FP/TN/FN": `${truePositives}/${falsePositives}/${trueNegatives}/${falseNegatives}`,
+  };
+}
+
+async function main() {
+  const sources = loadCorpus(corpusDir);
+  if (sources.length === 0) {
+    throw new Error(`No labeled files found in ${corpusDir}`);
+  }
+
+  const report = await evaluateCorpus(sources);
+
+  console.table(
+    report.files.map((file) => ({
+      file: file.path,
+      label: file.isAI ? "ai" : "human",
+      score: file.score.toFixed(3),
+      correct: file.predictedAI === file.isAI ? "yes" : "NO",
+    }))
+  );
+  console.table([
+    ...Object.entries(report.byLanguage).map(([language, metrics]) =>
+      metricsRow(language, metrics)
+    ),
+    metricsRow("overall", report.overall),
+  ]);
+
+  if (!existsSync(thresholdsPath)) {
+    console.log(`No ${thresholdsPath}; skipping the regression check.`);
+    return;
+  }
+
+  const thresholds: EvaluationThresholds = JSON.parse(
+    readFileSync(thresholdsPath, "utf8")
+  );
+  const failures = checkThresholds(report, thresholds);
+  if (failures.length > 0) {
+    console.error("Detector accuracy regressed:");
+    for (const failure of failures) console.error(`  - ${failure}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`All thresholds in ${thresholdsPath} met.`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
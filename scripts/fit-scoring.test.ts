@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectCalibrationSamples,
+  computeCalibrationReport,
+} from "../src/lib/calibration";
+import trainedScoringModel from "../src/lib/models/scoring.json";
+import { DEFAULT_SCORING_MODEL } from "../src/lib/scoringModel";
+import type { ScoringModel } from "../src/lib/scoringModel";
+import { loadCorpus } from "./corpus";
+
+// The checked-in output of `npm run fit:scoring`, measured on files it was
+// not fitted on
+describe("the fitted scoring model", () => {
+  it("is better calibrated on corpus/heldout than the plain rule weights", async () => {
+    const heldout = loadCorpus("corpus/heldout");
+    const reportFor = async (scoringModel: ScoringModel) =>
+      computeCalibrationReport(
+        await collectCalibrationSamples(heldout, { scoringModel })
+      );
+
+    const fitted = await reportFor(trainedScoringModel);
+    const defaults = await reportFor(DEFAULT_SCORING_MODEL);
+
+    expect(fitted.brierScore).toBeLessThan(defaults.brierScore);
+    expect(fitted.expectedCalibrationError).toBeLessThan(
+      defaults.expectedCalibrationError
+    );
+  }, 60_000);
+});
@@ -0,0 +1,146 @@
+// Refits the scoring model's bias, per-rule coefficients and Platt scaling on
+// the train split, prints its calibration on the held-out split and writes
+// the model that analyzeCode loads by default.
+//
+//   npm run fit:scoring                        # corpus/train/ and corpus/heldout/
+//   npm run fit:scoring -- <train> <heldout>   # other corpora, same layout
+//
+// Corpus layout: <dir>/<language>/{ai,human}/<file>
+import { writeFileSync } from "node:fs";
+import type { LabeledSource } from "../src/lib/calibration";
+import {
+  collectCalibrationSamples,
+  computeCalibrationReport,
+} from "../src/lib/calibration";
+import type {
+  CalibrationReport,
+  CalibrationSample,
+} from "../src/lib/calibration";
+import { trainNgramModel } from "../src/lib/ngramModel";
+import {
+  DEFAULT_SCORING_MODEL,
+  fitPlattScaling,
+  fitScoringModel,
+} from "../src/lib/scoringModel";
+import type { ScoringModel } from "../src/lib/scoringModel";
+import { loadCorpus } from "./corpus";
+
+const trainDir = process.argv[2] || "corpus/train";
+const heldoutDir = process.argv[3] || "corpus/heldout";
+const modelPath = "src/lib/models/scoring.json";
+
+// The shipped n-gram model has seen every train file, so its reasons there
+// are overconfident and would earn too large a coefficient. Score each half
+// of the train split with an n-gram model trained on the other half instead.
+// Fitting the coefficients on one half and predicting the other likewise
+// gives the out-of-fold predictions the Platt scaling is fitted on.
+async function crossFit(sources: LabeledSource[]): Promise<ScoringModel> {
+  const folds: LabeledSource[][] = [[], []];
+  sources.forEach((source, i) => folds[i % 2].push(source));
+  const ngramModels = folds.map((_, i) => trainNgramModel(folds[1 - i]));
+
+  const samples: CalibrationSample[][] = [];
+  for (const [i, fold] of folds.entries()) {
+    samples.push(
+      await collectCalibrationSamples(fold, {
+        scoringModel: DEFAULT_SCORING_MODEL,
+        ngramModel: ngramModels[i],
+      })
+    );
+  }
+
+  const outOfFold: CalibrationSample[] = [];
+  for (const [i, fold] of folds.entries()) {
+    outOfFold.push(
+      ...(await collectCalibrationSamples(fold, {
+        scoringModel: fitScoringModel(samples[1 - i], DEFAULT_SCORING_MODEL),
+        ngramModel: ngramModels[i],
+      }))
+    );
+  }
+
+  return {
+    ...fitScoringModel(samples.flat(), DEFAULT_SCORING_MODEL),
+    calibration: fitPlattScaling(outOfFold),
+  };
+}
+
+function roundModel(model: ScoringModel): ScoringModel {
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  return {
+    bias: round(model.bias),
+    weightScale: model.weightScale,
+    coefficients: Object.fromEntries(
+      Object.entries(model.coefficients)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([ruleId, coefficient]) => [ruleId, round(coefficient)])
+    ),
+    calibration: model.calibration && {
+      slope: round(model.calibration.slope),
+      intercept: round(model.calibration.intercept),
+    },
+  };
+}
+
+function summaryRow(label: string, report: CalibrationReport) {
+  return {
+    model: label,
+    lines: report.sampleCount,
+    brier: report.brierScore.toFixed(4),
+    ece: report.expectedCalibrationError.toFixed(4),
+  };
+}
+
+async function main() {
+  const trainSources = loadCorpus(trainDir);
+  const heldoutSources = loadCorpus(heldoutDir);
+  const aiFiles = trainSources.filter((source) => source.isAI).length;
+  if (aiFiles === 0 || aiFiles === trainSources.length) {
+    throw new Error(`${trainDir} needs both AI and human files to fit on`);
+  }
+  if (heldoutSources.length === 0) {
+    throw new Error(`No labeled files found in ${heldoutDir}`);
+  }
+
+  const model = roundModel(await crossFit(trainSources));
+
+  const before = computeCalibrationReport(
+    await collectCalibrationSamples(heldoutSources, {
+      scoringModel: DEFAULT_SCORING_MODEL,
+    })
+  );
+  const uncalibrated = computeCalibrationReport(
+    await collectCalibrationSamples(heldoutSources, {
+      scoringModel: { ...model, calibration: undefined },
+    })
+  );
+  const after = computeCalibrationReport(
+    await collectCalibrationSamples(heldoutSources, { scoringModel: model })
+  );
+
+  console.log(`Reliability of the fitted model on ${heldoutDir}:`);
+  console.table(
+    after.bins.map((bin) => ({
+      predicted: `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`,
+      lines: bin.count,
+      meanPredicted: bin.count ? bin.meanPredicted.toFixed(3) : "",
+      observedAI: bin.count ? bin.observedRate.toFixed(3) : "",
+    }))
+  );
+  console.table([
+    summaryRow("rule weights", before),
+    summaryRow("fitted", uncalibrated),
+    summaryRow("fitted + Platt", after),
+  ]);
+
+  writeFileSync(modelPath, JSON.stringify(model, null, 2) + "\n");
+  console.log(
+    `Fitted ${Object.keys(model.coefficients).length} rule coefficients on ` +
+      `${trainSources.length} files -> ${modelPath}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,37 @@
+// Retrains the n-gram detector from a labeled corpus and writes the model
+// that analyzeCode loads by default.
+//
+//   npm run train:ngram              # corpus/train/ -> src/lib/models/ngram.json
+//   npm run train:ngram -- <dir>     # another corpus with the same layout
+//
+// Corpus layout: <dir>/<language>/{ai,human}/<file>
+import { writeFileSync } from "node:fs";
+import { trainNgramModel } from "../src/lib/ngramModel";
+import { loadCorpus } from "./corpus";
+
+const corpusDir = process.argv[2] || "corpus/train";
+const modelPath = "src/lib/models/ngram.json";
+
+function main() {
+  const sources = loadCorpus(corpusDir);
+  const aiFiles = sources.filter((source) => source.isAI).length;
+  if (aiFiles === 0 || aiFiles === sources.length) {
+    throw new Error(`${corpusDir} needs both AI and human files to train on`);
+  }
+
+  const model = trainNgramModel(sources);
+  writeFileSync(modelPath, JSON.stringify(model) + "\n");
+
+  console.log(
+    `Trained a ${model.order}-gram model on ${aiFiles} AI and ` +
+      `${sources.length - aiFiles} human files ` +
+      `(${model.vocabularySize} token types) -> ${modelPath}`
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import type { ChangeEvent, ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -8,11 +9,27 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Brain, User, Zap, AlertTriangle, CheckCircle, Github, FileCode, Eye, Heart, Calendar, Clock, GitCommit, TrendingUp, Users, Activity, BarChart3 } from "lucide-react";
-import { analyzeCode } from "@/lib/aiDetection";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Brain, User, Zap, AlertTriangle, CheckCircle, Github, FileCode, Eye, Heart, Calendar, Clock, GitCommit, TrendingUp, Users, Activity, BarChart3, Braces, ChevronRight, ShieldAlert, Eraser, Copy, Download, PackageX, Bot, FileText, NotebookPen, Upload, FileDiff, GitPullRequest } from "lucide-react";
+import { analyzeCode, hasReason, isAssistantArtifact } from "@/lib/aiDetection";
 import { analyzeGitHubRepository } from "@/lib/githubAnalyzer";
-import type { AnalysisResult } from "@/lib/aiDetection";
-import type { RepositoryAnalysis, FileAnalysis } from "@/lib/githubAnalyzer";
+import { detectLanguage } from "@/lib/languageDetection";
+import { sanitizeText } from "@/lib/sanitizer";
+import type { SanitizeChange, SanitizedLine } from "@/lib/sanitizer";
+import { useToast } from "@/hooks/use-toast";
+import type { AnalysisResult, AssistantArtifact, CodeBlock, DetectionReason, LineAnalysis, ReasonPolarity, Verdict } from "@/lib/aiDetection";
+import type { RepositoryAnalysis, FileAnalysis, DocumentAnalysis, NotebookFileAnalysis, PullRequestAnalysis } from "@/lib/githubAnalyzer";
+import type { LanguageDetection } from "@/lib/languageDetection";
+import { PLATFORM_EVIDENCE_LABELS } from "@/lib/platformFingerprints";
+import type { DetectedPlatform } from "@/lib/platformFingerprints";
+import { analyzeDiff } from "@/lib/diffAnalysis";
+import type { DiffAnalysis, DiffFileAnalysis, DiffLineAnalysis } from "@/lib/diffAnalysis";
+import { analyzeNotebook, isNotebookFile } from "@/lib/notebookAnalysis";
+import type { CellAnalysis, NotebookAnalysis } from "@/lib/notebookAnalysis";
+import { analyzeProse } from "@/lib/proseAnalysis";
+import type { ProseAnalysis, ProseSentence } from "@/lib/proseAnalysis";
+import { formatCodePoint, UNICODE_CATEGORY_LABELS } from "@/lib/unicodeForensics";
+import type { UnicodeFinding, UnicodeSeverity } from "@/lib/unicodeForensics";
 
 const SUPPORTED_LANGUAGES = [
   { value: "javascript", label: "JavaScript" },
@@ -25,17 +42,114 @@ const SUPPORTED_LANGUAGES = [
   { value: "csharp", label: "C#" },
   { value: "go", label: "Go" },
   { value: "rust", label: "Rust" },
+  { value: "php", label: "PHP" },
+  { value: "ruby", label: "Ruby" },
+  { value: "bash", label: "Bash" },
+  { value: "sql", label: "SQL" },
+  { value: "html", label: "HTML" },
+  { value: "css", label: "CSS" },
+  { value: "json", label: "JSON" },
+  { value: "yaml", label: "YAML" },
+  { value: "markdown", label: "Markdown" },
+  { value: "dockerfile", label: "Dockerfile" },
+  { value: "makefile", label: "Makefile" },
 ];
 
+const HIGHLIGHT_CLASSES: Record<ReasonPolarity, string> = {
+  ai: "bg-ai/25 rounded-sm",
+  human: "bg-human/25 rounded-sm",
+  neutral: "",
+};
+
+const VERDICT_BADGE_CLASSES: Record<Verdict, string> = {
+  ai: "border-ai text-ai",
+  human: "border-human text-human",
+  uncertain: "border-neutral text-neutral",
+};
+
+const VERDICT_ROW_CLASSES: Record<Verdict, string> = {
+  ai: "border-ai/30 bg-ai/5",
+  human: "border-human/30 bg-human/5",
+  uncertain: "border-neutral/30 bg-neutral/5",
+};
+
+const UNICODE_SEVERITY_CLASSES: Record<UnicodeSeverity, string> = {
+  high: "border-destructive text-destructive",
+  medium: "border-ai text-ai",
+  low: "border-neutral text-neutral",
+};
+
+// Shows the characters a sanitized line lost as labelled markers, e.g. [U+200B]
+const renderRemovedCharacters = (line: SanitizedLine, changes: SanitizeChange[]) => {
+  const findings = changes
+    .map(({ finding }) => finding)
+    .filter((finding) => finding.line === line.line)
+    .sort((a, b) => a.column - b.column);
+
+  const parts: ReactNode[] = [];
+  let start = 0;
+  for (const finding of findings) {
+    parts.push(line.before.slice(start, finding.column - 1));
+    parts.push(
+      <mark key={finding.column} title={finding.name} className="bg-destructive/20 text-destructive rounded-sm px-0.5">
+        [{formatCodePoint(finding.codePoint)}]
+      </mark>
+    );
+    start = finding.column;
+  }
+  parts.push(line.before.slice(start));
+  return parts;
+};
+
+// Wraps the characters matched by each reason so the offending text stands out
+const renderHighlightedContent = (content: string, reasons: DetectionReason[]) => {
+  const marks: ReasonPolarity[] = new Array(content.length).fill("neutral");
+  for (const reason of reasons) {
+    if (reason.polarity === "neutral") continue;
+    for (const span of reason.spans) {
+      for (let col = span.start; col < Math.min(span.end, content.length); col++) {
+        // AI evidence wins where spans overlap
+        if (marks[col] !== "ai") marks[col] = reason.polarity;
+      }
+    }
+  }
+
+  const segments: { text: string; polarity: ReasonPolarity }[] = [];
+  let start = 0;
+  for (let col = 1; col <= content.length; col++) {
+    if (col === content.length || marks[col] !== marks[start]) {
+      segments.push({ text: content.slice(start, col), polarity: marks[start] });
+      start = col;
+    }
+  }
+
+  return segments.map((segment, idx) =>
+    segment.polarity === "neutral" ? (
+      <span key={idx}>{segment.text}</span>
+    ) : (
+      <mark key={idx} className={`${HIGHLIGHT_CLASSES[segment.polarity]} text-inherit`}>
+        {segment.text}
+      </mark>
+    )
+  );
+};
+
 export function CodeAnalyzer() {
-  const [mode, setMode] = useState<"code" | "github">("code");
+  const [mode, setMode] = useState<"code" | "github" | "diff">("code");
   const [code, setCode] = useState("");
+  const [diffText, setDiffText] = useState("");
   const [githubUrl, setGithubUrl] = useState("");
   const [language, setLanguage] = useState("javascript");
+  const [detectedLanguage, setDetectedLanguage] = useState<LanguageDetection | null>(null);
+  const [languagePickedManually, setLanguagePickedManually] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [proseAnalysis, setProseAnalysis] = useState<ProseAnalysis | null>(null);
+  const [notebookAnalysis, setNotebookAnalysis] = useState<{ name: string; analysis: NotebookAnalysis } | null>(null);
+  const [diffAnalysis, setDiffAnalysis] = useState<DiffAnalysis | null>(null);
   const [repoAnalysis, setRepoAnalysis] = useState<RepositoryAnalysis | null>(null);
   const [progress, setProgress] = useState({ current: 0, total: 0, file: "" });
+  const { toast } = useToast();
 
   const getAIConfidenceLevel = (aiPercentage: number) => {
     if (aiPercentage > 30) return { label: "Strong AI Usage", color: "bg-red-500", description: "Code likely AI-generated" };
@@ -46,236 +160,947 @@ export function CodeAnalyzer() {
     return { label: "Human Code", color: "bg-emerald-600", description: "Likely human-written" };
   };
 
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    if (!value.trim()) {
+      setDetectedLanguage(null);
+      setLanguagePickedManually(false);
+      return;
+    }
+
+    const detection = detectLanguage(value);
+    const isSupported = SUPPORTED_LANGUAGES.some((lang) => lang.value === detection.language);
+    setDetectedLanguage(isSupported ? detection : null);
+    // Keep following the detector until the user picks a language themselves
+    if (isSupported && !languagePickedManually) {
+      setLanguage(detection.language);
+    }
+  };
+
+  // Only one kind of result is shown at a time
+  const clearResults = () => {
+    setAnalysis(null);
+    setProseAnalysis(null);
+    setNotebookAnalysis(null);
+    setDiffAnalysis(null);
+    setRepoAnalysis(null);
+  };
+
+  // Notebooks are analyzed right away; any other file is loaded into the
+  // editor with its language detected from the file name and content
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      if (isNotebookFile(file.name)) {
+        setIsAnalyzing(true);
+        const result = await analyzeNotebook(content);
+        clearResults();
+        setNotebookAnalysis({ name: file.name, analysis: result });
+        return;
+      }
+
+      setCode(content);
+      const detection = detectLanguage(content, file.name);
+      const isSupported = SUPPORTED_LANGUAGES.some((lang) => lang.value === detection.language);
+      setDetectedLanguage(isSupported ? detection : null);
+      if (isSupported) {
+        setLanguage(detection.language);
+        setLanguagePickedManually(false);
+      }
+    } catch (error) {
+      console.error("Upload failed:", error);
+      toast({
+        title: `Could not analyze ${file.name}`,
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    setLanguagePickedManually(true);
+  };
+
   const handleAnalyze = async () => {
     if (mode === "code" && !code.trim()) return;
     if (mode === "github" && !githubUrl.trim()) return;
+    if (mode === "diff" && !diffText.trim()) return;
     
     setIsAnalyzing(true);
     setProgress({ current: 0, total: 0, file: "" });
     
     try {
-      if (mode === "code") {
+      if (mode === "code" && language === "markdown") {
+        // Documentation is judged as prose, not run through the code rules
+        clearResults();
+        setProseAnalysis(analyzeProse(code));
+      } else if (mode === "code") {
         const result = await analyzeCode(code, language);
+        clearResults();
         setAnalysis(result);
-        setRepoAnalysis(null);
+      } else if (mode === "diff") {
+        const result = await analyzeDiff(diffText);
+        clearResults();
+        setDiffAnalysis(result);
       } else {
         const result = await analyzeGitHubRepository(
           githubUrl,
           (current, total, file) => setProgress({ current, total, file })
         );
+        clearResults();
         setRepoAnalysis(result);
-        setAnalysis(null);
       }
     } catch (error) {
       console.error("Analysis failed:", error);
+      toast({
+        title: "Analysis failed",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
     } finally {
       setIsAnalyzing(false);
     }
   };
 
-  const getLineIndicator = (lineAnalysis: any) => {
-    if (lineAnalysis.isAI) {
+  const getLineIndicator = (lineAnalysis: Pick<LineAnalysis, "verdict" | "confidence">) => {
+    if (lineAnalysis.verdict === "ai") {
       return <Brain className="w-4 h-4 text-ai" />;
-    } else if (lineAnalysis.confidence > 0.7) {
+    } else if (lineAnalysis.verdict === "human" && lineAnalysis.confidence > 0.7) {
       return <User className="w-4 h-4 text-human" />;
     }
     return <AlertTriangle className="w-4 h-4 text-neutral" />;
   };
 
-  const getConfidenceBadge = (confidence: number, isAI: boolean) => {
+  const getConfidenceBadge = (confidence: number, verdict: Verdict) => {
     const percentage = Math.round(confidence * 100);
     return (
       <Badge 
         variant="outline" 
-        className={`${isAI ? 'border-ai text-ai' : 'border-human text-human'} text-xs`}
+        className={`${VERDICT_BADGE_CLASSES[verdict]} text-xs`}
       >
         {percentage}%
       </Badge>
     );
   };
 
-  const FileCodeDialog = ({ file }: { file: FileAnalysis }) => (
+  const renderLineRow = (lineAnalysis: LineAnalysis, lineNumber: number) => (
+    <div
+      key={lineNumber}
+      className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${VERDICT_ROW_CLASSES[lineAnalysis.verdict]}`}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs text-muted-foreground w-8">
+            {lineNumber}
+          </span>
+          {getLineIndicator(lineAnalysis)}
+          {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.verdict)}
+        </div>
+        
+        <div className="flex-1 min-w-0">
+          <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
+            {renderHighlightedContent(lineAnalysis.content, lineAnalysis.reasons)}
+          </pre>
+          
+          {lineAnalysis.reasons.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {lineAnalysis.reasons.map((reason, idx) => (
+                <div
+                  key={idx}
+                  title={reason.ruleId}
+                  className={
+                    isAssistantArtifact(reason)
+                      ? "text-xs font-medium text-destructive bg-destructive/10 border border-destructive/30 px-2 py-1 rounded"
+                      : "text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
+                  }
+                >
+                  {reason.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  // One function or class with its verdict; expands to the evidence and lines
+  const renderBlockRow = (block: CodeBlock, analysis: AnalysisResult) => (
+    <Collapsible key={`${block.startLine}-${block.name}`} style={{ marginLeft: `${block.depth * 1.5}rem` }}>
+      <CollapsibleTrigger asChild>
+        <button
+          className={`group w-full p-3 rounded-lg border text-left transition-all hover:bg-muted/50 ${VERDICT_ROW_CLASSES[block.verdict]}`}
+        >
+          <div className="flex items-center gap-3">
+            <ChevronRight className="w-4 h-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+            <Braces className="w-4 h-4 text-muted-foreground" />
+            <span className="font-mono text-sm font-medium truncate">{block.name}</span>
+            <Badge variant="secondary" className="text-xs">{block.kind}</Badge>
+            <span className="text-xs text-muted-foreground">
+              Lines {block.startLine}-{block.endLine}
+            </span>
+            <div className="ml-auto">
+              {getConfidenceBadge(block.confidence, block.verdict)}
+            </div>
+          </div>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-2">
+        {block.evidence.length > 0 && (
+          <div className="space-y-1">
+            {block.evidence.map((evidence) => (
+              <div
+                key={evidence.ruleId}
+                title={evidence.ruleId}
+                className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
+              >
+                {evidence.message} ({evidence.lines.length} {evidence.lines.length === 1 ? "line" : "lines"})
+              </div>
+            ))}
+          </div>
+        )}
+        {analysis.lineAnalysis
+          .slice(block.startLine - 1, block.endLine)
+          .map((lineAnalysis, index) => renderLineRow(lineAnalysis, block.startLine + index))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+
+  // All / AI / Human / Uncertain / per-function views of a line-by-line analysis
+  const LineAnalysisTabs = ({ analysis, listClassName }: { analysis: AnalysisResult; listClassName: string }) => {
+    const numberedLines = analysis.lineAnalysis.map((lineAnalysis, index) => ({ lineAnalysis, lineNumber: index + 1 }));
+    const linesWithVerdict = (verdict: Verdict) =>
+      numberedLines.filter(({ lineAnalysis }) => lineAnalysis.verdict === verdict && lineAnalysis.content.trim());
+
+    return (
+      <Tabs defaultValue="all" className="w-full">
+        <TabsList className="grid w-full grid-cols-5">
+          <TabsTrigger value="all" className="flex items-center gap-2">
+            <CheckCircle className="w-4 h-4" />
+            All Lines ({analysis.totalLines})
+          </TabsTrigger>
+          <TabsTrigger value="ai" className="flex items-center gap-2">
+            <Brain className="w-4 h-4" />
+            AI Only ({analysis.aiLines})
+          </TabsTrigger>
+          <TabsTrigger value="human" className="flex items-center gap-2">
+            <User className="w-4 h-4" />
+            Human Only ({analysis.humanLines})
+          </TabsTrigger>
+          <TabsTrigger value="uncertain" className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Uncertain ({analysis.uncertainLines})
+          </TabsTrigger>
+          <TabsTrigger value="blocks" className="flex items-center gap-2">
+            <Braces className="w-4 h-4" />
+            Functions ({analysis.blocks.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="all" className="mt-4">
+          <div className={`space-y-2 ${listClassName} overflow-y-auto`}>
+            {numberedLines.map(({ lineAnalysis, lineNumber }) => renderLineRow(lineAnalysis, lineNumber))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="ai" className="mt-4">
+          <div className={`space-y-2 ${listClassName} overflow-y-auto`}>
+            {linesWithVerdict("ai")
+              .sort(({ lineAnalysis: a }, { lineAnalysis: b }) => {
+                // Priority 1: Assistant artifacts (chat phrasing, fences, placeholders)
+                const aHasArtifact = a.reasons.some(isAssistantArtifact);
+                const bHasArtifact = b.reasons.some(isAssistantArtifact);
+                if (aHasArtifact && !bHasArtifact) return -1;
+                if (!aHasArtifact && bHasArtifact) return 1;
+
+                // Priority 2: Invisible characters
+                const aHasInvisible = hasReason(a.reasons, 'core/invisible-unicode');
+                const bHasInvisible = hasReason(b.reasons, 'core/invisible-unicode');
+                if (aHasInvisible && !bHasInvisible) return -1;
+                if (!aHasInvisible && bHasInvisible) return 1;
+                
+                // Priority 3: Emojis
+                const aHasEmoji = hasReason(a.reasons, 'core/emoji');
+                const bHasEmoji = hasReason(b.reasons, 'core/emoji');
+                if (aHasEmoji && !bHasEmoji) return -1;
+                if (!aHasEmoji && bHasEmoji) return 1;
+                
+                // Priority 4: Sort by confidence (highest first)
+                return b.confidence - a.confidence;
+              })
+              .map(({ lineAnalysis, lineNumber }) => renderLineRow(lineAnalysis, lineNumber))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="human" className="mt-4">
+          <div className={`space-y-2 ${listClassName} overflow-y-auto`}>
+            {linesWithVerdict("human").map(({ lineAnalysis, lineNumber }) => renderLineRow(lineAnalysis, lineNumber))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="uncertain" className="mt-4">
+          <div className={`space-y-2 ${listClassName} overflow-y-auto`}>
+            {linesWithVerdict("uncertain").map(({ lineAnalysis, lineNumber }) => renderLineRow(lineAnalysis, lineNumber))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="blocks" className="mt-4">
+          <div className={`space-y-2 ${listClassName} overflow-y-auto`}>
+            {analysis.blocks.length > 0 ? (
+              analysis.blocks.map((block) => renderBlockRow(block, analysis))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No functions or classes found
+              </p>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+    );
+  };
+
+  // Leftovers of an assistant's chat answer; the strongest evidence there is, so
+  // shown above everything else and hidden when there are none
+  const AssistantArtifactsCard = ({ artifacts }: { artifacts: { artifact: AssistantArtifact; path?: string }[] }) => {
+    if (artifacts.length === 0) return null;
+
+    return (
+      <Card className="border-destructive/50 bg-destructive/5">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="w-5 h-5" />
+            Assistant Artifacts ({artifacts.length})
+          </CardTitle>
+          <CardDescription>
+            Chat phrasing, Markdown fences, elided code and placeholders left over from an AI assistant's answer
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {artifacts.map(({ artifact, path }, index) => (
+              <div key={index} className="p-3 rounded-lg border border-destructive/30 bg-card/50">
+                <div className="flex items-center gap-3">
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {path ? `${path}:` : "Line "}{artifact.line}
+                  </span>
+                  <pre className="flex-1 min-w-0 text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
+                    {artifact.content.trim()}
+                  </pre>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {artifact.reasons.map((reason) => (
+                    <Badge key={reason.ruleId} variant="outline" title={reason.ruleId} className="border-destructive text-destructive text-xs">
+                      {reason.message}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // One heading, list item or sentence of prose; document-wide reasons are
+  // listed once above the sentences instead of on every row
+  const renderSentenceRow = (sentence: ProseSentence, index: number, analysis: ProseAnalysis) => (
+    <div
+      key={index}
+      className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${VERDICT_ROW_CLASSES[sentence.verdict]}`}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xs text-muted-foreground w-8">
+            {sentence.line}
+          </span>
+          {getLineIndicator(sentence)}
+          {getConfidenceBadge(sentence.confidence, sentence.verdict)}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm break-words ${sentence.kind === "heading" ? "font-semibold" : ""}`}>
+            {renderHighlightedContent(sentence.text, sentence.reasons)}
+          </p>
+          <div className="mt-2 space-y-1">
+            {sentence.reasons
+              .filter((reason) => !hasReason(analysis.documentReasons, reason.ruleId))
+              .map((reason, idx) => (
+                <div key={idx} title={reason.ruleId} className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded">
+                  {reason.message}
+                </div>
+              ))}
+          </div>
+        </div>
+
+        <Badge variant="secondary" className="text-xs">{sentence.kind}</Badge>
+      </div>
+    </div>
+  );
+
+  // Sentence counts, document-wide reasons and every sentence of a prose file
+  const ProseResults = ({ analysis }: { analysis: ProseAnalysis }) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <span className="text-muted-foreground">AI Sentences:</span>
+          <div className="font-medium text-ai">{analysis.aiSentences} ({Math.round(analysis.aiPercentage)}%)</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Human Sentences:</span>
+          <div className="font-medium text-human">{analysis.humanSentences} ({Math.round(analysis.humanPercentage)}%)</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Uncertain:</span>
+          <div className="font-medium text-neutral">{analysis.uncertainSentences} ({Math.round(analysis.uncertainPercentage)}%)</div>
+        </div>
+      </div>
+
+      {analysis.documentReasons.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {analysis.documentReasons.map((reason) => (
+            <Badge key={reason.ruleId} variant="outline" title={reason.ruleId} className={`${VERDICT_BADGE_CLASSES.ai} text-xs`}>
+              {reason.message}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {analysis.sentences.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No prose found
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-[500px] overflow-y-auto">
+          {analysis.sentences.map((sentence, index) => renderSentenceRow(sentence, index, analysis))}
+        </div>
+      )}
+    </div>
+  );
+
+  // A line of a diff hunk with its old and new line numbers; only added lines
+  // carry a verdict
+  const renderDiffLine = (line: DiffLineAnalysis, index: number) => {
+    const numbers = (
+      <span className="flex shrink-0 gap-1 font-mono text-xs text-muted-foreground">
+        <span className="w-8 text-right">{line.oldLine ?? ""}</span>
+        <span className="w-8 text-right">{line.newLine ?? ""}</span>
+      </span>
+    );
+
+    if (!line.analysis) {
+      return (
+        <div
+          key={index}
+          className={`flex items-start gap-3 px-3 py-1 rounded ${line.kind === "removed" ? "bg-destructive/5" : ""}`}
+        >
+          {numbers}
+          <pre className="flex-1 min-w-0 text-sm font-mono text-muted-foreground whitespace-pre-wrap break-all">
+            {line.kind === "removed" ? "-" : " "}{line.content}
+          </pre>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={index}
+        className={`p-2 rounded-lg border ${VERDICT_ROW_CLASSES[line.analysis.verdict]}`}
+      >
+        <div className="flex items-start gap-3">
+          {numbers}
+          {getLineIndicator(line.analysis)}
+          {getConfidenceBadge(line.analysis.confidence, line.analysis.verdict)}
+          <div className="flex-1 min-w-0">
+            <pre className="text-sm font-mono whitespace-pre-wrap break-all">
+              +{renderHighlightedContent(line.content, line.analysis.reasons)}
+            </pre>
+            {line.analysis.reasons.length > 0 && (
+              <div className="mt-1 space-y-1">
+                {line.analysis.reasons.map((reason, idx) => (
+                  <div key={idx} title={reason.ruleId} className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded">
+                    {reason.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // A changed file with its hunks, as in the diff mode and pull request report
+  const renderDiffFile = (file: DiffFileAnalysis) => (
+    <div key={file.path} className="space-y-3">
+      <div className="flex items-center gap-2">
+        <FileCode className="w-4 h-4 text-muted-foreground" />
+        <span className="font-mono text-sm font-medium">{file.path}</span>
+        <Badge variant="outline" className="text-xs">{file.language}</Badge>
+        <span className="text-xs text-muted-foreground">+{file.addedLines}</span>
+        <Badge variant="outline" className={`${VERDICT_BADGE_CLASSES.ai} ml-auto text-xs`}>
+          AI: {Math.round(file.aiPercentage)}%
+        </Badge>
+      </div>
+      {file.hunks.map((hunk) => (
+        <div key={hunk.header + hunk.oldStart} className="space-y-1 rounded-lg border border-code-border p-2">
+          <div className="font-mono text-xs text-primary bg-muted/30 px-2 py-1 rounded">
+            {hunk.header}
+          </div>
+          {hunk.lines.map(renderDiffLine)}
+        </div>
+      ))}
+    </div>
+  );
+
+  // What a pull request adds: its description, each commit's share of the
+  // added lines and the changed files hunk by hunk
+  const PullRequestCard = ({ pullRequest }: { pullRequest: PullRequestAnalysis }) => (
+    <Card className="border-code-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitPullRequest className="w-5 h-5 text-primary" />
+          #{pullRequest.number} {pullRequest.title}
+          <Badge variant="outline" className="text-xs capitalize">
+            {pullRequest.state}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {pullRequest.author} wants to merge <code>{pullRequest.headRef}</code> into{" "}
+          <code>{pullRequest.baseRef}</code> at{" "}
+          <a href={pullRequest.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+            {pullRequest.headSha.substring(0, 7)}
+          </a>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Title</h4>
+          <div
+            className={`p-4 rounded-lg border ${
+              pullRequest.titleAnalysis.isAI ? "border-ai/30 bg-ai/5" : "border-human/30 bg-human/5"
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              <div className="flex items-center gap-2">
+                {pullRequest.titleAnalysis.isAI ? (
+                  <Brain className="w-4 h-4 text-ai" />
+                ) : (
+                  <User className="w-4 h-4 text-human" />
+                )}
+                {getConfidenceBadge(pullRequest.titleAnalysis.confidence, pullRequest.titleAnalysis.isAI ? "ai" : "human")}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="font-mono text-sm break-words">
+                  {renderHighlightedContent(pullRequest.title, pullRequest.titleAnalysis.reasons)}
+                </div>
+                {pullRequest.titleAnalysis.reasons.map((reason, idx) => (
+                  <div key={idx} title={reason.ruleId} className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded">
+                    {reason.message}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Description</h4>
+          {pullRequest.bodyAnalysis ? (
+            <ProseResults analysis={pullRequest.bodyAnalysis} />
+          ) : (
+            <p className="text-sm text-muted-foreground">No description</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Commits ({pullRequest.commits.length})</h4>
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {pullRequest.commits.map((commit) => (
+              <div key={commit.sha} className="p-3 rounded-lg border border-code-border bg-card/50">
+                <div className="flex items-center gap-2">
+                  {commit.isAI ? (
+                    <Brain className="w-4 h-4 text-ai" />
+                  ) : (
+                    <User className="w-4 h-4 text-human" />
+                  )}
+                  <span className="flex-1 min-w-0 truncate font-mono text-sm" title={commit.message}>
+                    {commit.message.split("\n")[0]}
+                  </span>
+                  <a
+                    href={commit.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-xs text-primary hover:underline"
+                  >
+                    {commit.sha.substring(0, 7)}
+                  </a>
+                </div>
+                <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                  <span>{commit.author.name}</span>
+                  {commit.diff ? (
+                    <>
+                      <span>
+                        AI lines: {commit.diff.aiLines}/{commit.diff.addedLines}
+                      </span>
+                      <Progress value={commit.diff.aiPercentage} className="h-2 flex-1" />
+                      <span className="font-medium text-ai">{Math.round(commit.diff.aiPercentage)}%</span>
+                    </>
+                  ) : (
+                    <span>No analyzeable added lines</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h4 className="text-sm font-medium">Changed Files ({pullRequest.files.length} scored)</h4>
+          {pullRequest.files.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No analyzeable code was added
+            </p>
+          ) : (
+            <div className="space-y-6 max-h-[800px] overflow-y-auto">
+              {pullRequest.files.map(renderDiffFile)}
+            </div>
+          )}
+          {pullRequest.skippedFiles.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              Not scored (no patch, excluded, docs or notebooks):{" "}
+              <span className="font-mono">{pullRequest.skippedFiles.join(", ")}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // One notebook cell; expands to its lines (code) or sentences (markdown)
+  const renderCellRow = (cell: CellAnalysis) => (
+    <Collapsible key={cell.index}>
+      <CollapsibleTrigger asChild>
+        <button className="group w-full p-3 rounded-lg border border-code-border bg-card/50 text-left transition-all hover:bg-muted/50">
+          <div className="flex items-center gap-3">
+            <ChevronRight className="w-4 h-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+            <span className="text-sm font-medium">Cell {cell.index + 1}</span>
+            <Badge variant="secondary" className="text-xs">{cell.cellType}</Badge>
+            {cell.cellType === "code" && (
+              <span className="font-mono text-xs text-muted-foreground">
+                In [{cell.executionCount ?? " "}]
+              </span>
+            )}
+            <span className="text-xs text-muted-foreground truncate">
+              {cell.source.trim().split("\n")[0]}
+            </span>
+            <Badge variant="outline" className={`${VERDICT_BADGE_CLASSES.ai} ml-auto text-xs`}>
+              AI: {Math.round(cell.analysis.aiPercentage)}%
+            </Badge>
+          </div>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 ml-6 space-y-2">
+        {cell.cellType === "code" ? (
+          cell.analysis.lineAnalysis
+            .map((line, index) => ({ line, lineNumber: index + 1 }))
+            .filter(({ line }) => line.content.trim())
+            .map(({ line, lineNumber }) => renderLineRow(line, lineNumber))
+        ) : (
+          <ProseResults analysis={cell.analysis} />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+
+  // Code line totals and every cell of a notebook
+  const NotebookResults = ({ analysis }: { analysis: NotebookAnalysis }) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-4 text-sm">
+        <div>
+          <span className="text-muted-foreground">Code Lines:</span>
+          <div className="font-medium">{analysis.totalLines}</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">AI Lines:</span>
+          <div className="font-medium text-ai">{analysis.aiLines} ({Math.round(analysis.aiPercentage)}%)</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Human Lines:</span>
+          <div className="font-medium text-human">{analysis.humanLines} ({Math.round(analysis.humanPercentage)}%)</div>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Uncertain:</span>
+          <div className="font-medium text-neutral">{analysis.uncertainLines} ({Math.round(analysis.uncertainPercentage)}%)</div>
+        </div>
+      </div>
+
+      {analysis.cells.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No code or markdown cells found
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-[500px] overflow-y-auto">
+          {analysis.cells.map(renderCellRow)}
+        </div>
+      )}
+    </div>
+  );
+
+  const NotebookDialog = ({ notebook }: { notebook: NotebookFileAnalysis }) => (
     <Dialog>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="flex items-center gap-2">
           <Eye className="w-4 h-4" />
-          View Code
+          View Cells
         </Button>
       </DialogTrigger>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <FileCode className="w-5 h-5" />
-            {file.path}
+            <NotebookPen className="w-5 h-5" />
+            {notebook.path}
           </DialogTitle>
           <DialogDescription>
-            Line-by-line AI detection analysis
+            Cell-by-cell analysis: code cells as {notebook.analysis.language}, markdown cells as prose
           </DialogDescription>
         </DialogHeader>
-        
-        <div className="overflow-hidden">
-          <Tabs defaultValue="all" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="all" className="flex items-center gap-2">
-                <CheckCircle className="w-4 h-4" />
-                All Lines ({file.analysis.totalLines})
-              </TabsTrigger>
-              <TabsTrigger value="ai" className="flex items-center gap-2">
-                <Brain className="w-4 h-4" />
-                AI Only ({file.analysis.aiLines})
-              </TabsTrigger>
-              <TabsTrigger value="human" className="flex items-center gap-2">
-                <User className="w-4 h-4" />
-                Human Only ({file.analysis.humanLines})
-              </TabsTrigger>
-            </TabsList>
+        <NotebookResults analysis={notebook.analysis} />
+      </DialogContent>
+    </Dialog>
+  );
 
-            <TabsContent value="all" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis.map((lineAnalysis, index) => (
-                  <div
-                    key={index}
-                    className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${
-                      lineAnalysis.isAI ? 'border-ai/30 bg-ai/5' : 'border-human/30 bg-human/5'
-                    }`}
-                  >
-                    <div className="flex items-start gap-3">
-                      <div className="flex items-center gap-2 min-w-0">
-                        <span className="text-xs text-muted-foreground w-8">
-                          {index + 1}
-                        </span>
-                        {getLineIndicator(lineAnalysis)}
-                        {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                          {lineAnalysis.content}
-                        </pre>
-                        
-                        {lineAnalysis.reasons.length > 0 && (
-                          <div className="mt-2 space-y-1">
-                            {lineAnalysis.reasons.map((reason, idx) => (
-                              <div
-                                key={idx}
-                                className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                              >
-                                {reason}
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
+  const DocumentDialog = ({ document }: { document: DocumentAnalysis }) => (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          View Sentences
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            {document.path}
+          </DialogTitle>
+          <DialogDescription>
+            Sentence-by-sentence prose analysis
+          </DialogDescription>
+        </DialogHeader>
+        <ProseResults analysis={document.analysis} />
+      </DialogContent>
+    </Dialog>
+  );
+
+  // AI coding platforms the repository shows traces of, with what gave each away
+  const PlatformFingerprintsCard = ({ platforms }: { platforms: DetectedPlatform[] }) => {
+    if (platforms.length === 0) return null;
+
+    return (
+      <Card className="border-code-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bot className="w-5 h-5 text-primary" />
+            AI Platforms ({platforms.length})
+          </CardTitle>
+          <CardDescription>
+            Coding platforms and agents recognised from config files, packages, generated markers and commits
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {platforms.map((platform) => (
+              <div key={platform.id} className="p-3 rounded-lg border border-code-border bg-card/50">
+                <div className="font-medium text-sm mb-2">{platform.name}</div>
+                <div className="space-y-1">
+                  {platform.evidence.map((evidence, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2 text-xs">
+                      <Badge variant="outline" className="text-xs">
+                        {PLATFORM_EVIDENCE_LABELS[evidence.kind]}
+                      </Badge>
+                      <code className="bg-muted px-2 py-0.5 rounded break-all">{evidence.detail}</code>
+                      {evidence.source && (
+                        <span className="font-mono text-muted-foreground">{evidence.source}</span>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            </TabsContent>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
 
-            <TabsContent value="ai" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis
-                  .filter(line => line.isAI)
-                  .sort((a, b) => {
-                    // Priority 1: Invisible characters (highest weight)
-                    const aHasInvisible = a.reasons.some(r => r.includes('invisible Unicode'));
-                    const bHasInvisible = b.reasons.some(r => r.includes('invisible Unicode'));
-                    if (aHasInvisible && !bHasInvisible) return -1;
-                    if (!aHasInvisible && bHasInvisible) return 1;
-                    
-                    // Priority 2: Emojis (second highest weight)
-                    const aHasEmoji = a.reasons.some(r => r.includes('emojis'));
-                    const bHasEmoji = b.reasons.some(r => r.includes('emojis'));
-                    if (aHasEmoji && !bHasEmoji) return -1;
-                    if (!aHasEmoji && bHasEmoji) return 1;
-                    
-                    // Priority 3: Sort by confidence (highest first)
-                    return b.confidence - a.confidence;
-                  })
-                  .map((lineAnalysis, index) => {
-                  const originalIndex = file.analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                  return (
-                    <div
-                      key={originalIndex}
-                      className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-ai/30 bg-ai/5"
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-xs text-muted-foreground w-8">
-                            {originalIndex + 1}
-                          </span>
-                          {getLineIndicator(lineAnalysis)}
-                          {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                        </div>
-                        
-                        <div className="flex-1 min-w-0">
-                          <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                            {lineAnalysis.content}
-                          </pre>
-                          
-                          {lineAnalysis.reasons.length > 0 && (
-                            <div className="mt-2 space-y-1">
-                              {lineAnalysis.reasons.map((reason, idx) => (
-                                <div
-                                  key={idx}
-                                  className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                >
-                                  {reason}
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
+  // Suspicious Unicode characters, optionally tagged with the file they were found in
+  const UnicodeFindingsCard = ({ findings }: { findings: { finding: UnicodeFinding; path?: string }[] }) => (
+    <Card className="border-code-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-primary" />
+          Unicode Findings ({findings.length})
+        </CardTitle>
+        <CardDescription>
+          Invisible, bidirectional, look-alike and typographic characters with their exact position
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {findings.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No suspicious Unicode characters found
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {findings.map(({ finding, path }, index) => (
+              <div
+                key={index}
+                className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-code-border bg-card/50 text-sm"
+              >
+                <Badge variant="outline" className={`${UNICODE_SEVERITY_CLASSES[finding.severity]} text-xs`}>
+                  {finding.severity}
+                </Badge>
+                <span className="font-medium">{UNICODE_CATEGORY_LABELS[finding.category]}</span>
+                <code className="text-xs bg-muted px-2 py-1 rounded">
+                  {formatCodePoint(finding.codePoint)} {finding.name}
+                </code>
+                {finding.identifier && (
+                  <span className="text-xs text-muted-foreground">
+                    in <code className="font-mono">{finding.identifier}</code>, looks like "{finding.lookalike}"
+                  </span>
+                )}
+                <span className="ml-auto font-mono text-xs text-muted-foreground">
+                  {path ? `${path}:` : "Line "}{finding.line}:{finding.column}
+                </span>
               </div>
-            </TabsContent>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 
-            <TabsContent value="human" className="mt-4">
-              <div className="space-y-2 max-h-[500px] overflow-y-auto">
-                {file.analysis.lineAnalysis.filter(line => !line.isAI).map((lineAnalysis, index) => {
-                  const originalIndex = file.analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                  return (
-                    <div
-                      key={originalIndex}
-                      className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-human/30 bg-human/5"
-                    >
-                      <div className="flex items-start gap-3">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <span className="text-xs text-muted-foreground w-8">
-                            {originalIndex + 1}
-                          </span>
-                          {getLineIndicator(lineAnalysis)}
-                          {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                        </div>
-                        
-                        <div className="flex-1 min-w-0">
-                          <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                            {lineAnalysis.content}
-                          </pre>
-                          
-                          {lineAnalysis.reasons.length > 0 && (
-                            <div className="mt-2 space-y-1">
-                              {lineAnalysis.reasons.map((reason, idx) => (
-                                <div
-                                  key={idx}
-                                  className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                >
-                                  {reason}
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
+  // Strips or replaces the invisible, bidi and typographic characters in content,
+  // with a diff and copy/download of the result; hidden when there is nothing to clean
+  const SanitizeDialog = ({
+    analysis,
+    fileName,
+    language,
+  }: {
+    analysis: AnalysisResult;
+    fileName: string;
+    language: string;
+  }) => {
+    const content = analysis.lineAnalysis.map((line) => line.content).join("\n");
+    const result = sanitizeText(content, analysis.unicodeFindings, { language });
+    if (result.changes.length === 0) return null;
+
+    const handleCopy = async () => {
+      try {
+        await navigator.clipboard.writeText(result.text);
+        toast({ title: "Copied", description: "Sanitized content copied to the clipboard" });
+      } catch (error) {
+        console.error("Copy failed:", error);
+        toast({ title: "Copy failed", description: "The clipboard is not available", variant: "destructive" });
+      }
+    };
+
+    const handleDownload = () => {
+      const url = URL.createObjectURL(new Blob([result.text], { type: "text/plain;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    };
+
+    return (
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <Eraser className="w-4 h-4" />
+            Clean ({result.changes.length})
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Eraser className="w-5 h-5" />
+              Sanitize {fileName}
+            </DialogTitle>
+            <DialogDescription>
+              {result.changes.length} character{result.changes.length === 1 ? "" : "s"} on {result.lines.length} line{result.lines.length === 1 ? "" : "s"} will be removed or replaced with plain ASCII
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-[450px] overflow-y-auto">
+            {result.lines.map((line) => (
+              <div key={line.line} className="rounded-lg border border-code-border text-sm font-mono">
+                <div className="flex gap-3 px-3 py-1 bg-ai/5">
+                  <span className="text-xs text-muted-foreground w-8">{line.line}</span>
+                  <span className="text-ai">-</span>
+                  <pre className="whitespace-pre-wrap break-all">{renderRemovedCharacters(line, result.changes)}</pre>
+                </div>
+                <div className="flex gap-3 px-3 py-1 bg-human/5">
+                  <span className="text-xs text-muted-foreground w-8">{line.line}</span>
+                  <span className="text-human">+</span>
+                  <pre className="whitespace-pre-wrap break-all">{line.after}</pre>
+                </div>
               </div>
-            </TabsContent>
-          </Tabs>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleCopy} className="flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+            <Button onClick={handleDownload} className="flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Download
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  const FileCodeDialog = ({ file }: { file: FileAnalysis }) => (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          View Code
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileCode className="w-5 h-5" />
+            {file.path}
+          </DialogTitle>
+          <div className="flex items-center justify-between gap-2">
+            <DialogDescription>
+              Line-by-line AI detection analysis
+            </DialogDescription>
+            <SanitizeDialog
+              analysis={file.analysis}
+              fileName={file.path.split("/").pop() || file.path}
+              language={file.language}
+            />
+          </div>
+        </DialogHeader>
+        
+        <div className="overflow-hidden">
+          <LineAnalysisTabs analysis={file.analysis} listClassName="max-h-[500px]" />
         </div>
       </DialogContent>
     </Dialog>
@@ -294,8 +1119,8 @@ export function CodeAnalyzer() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Tabs value={mode} onValueChange={(value) => setMode(value as "code" | "github")}>
-            <TabsList className="grid w-full grid-cols-2">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "code" | "github" | "diff")}>
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="code" className="flex items-center gap-2">
                 <FileCode className="w-4 h-4" />
                 Code Snippet
@@ -304,13 +1129,17 @@ export function CodeAnalyzer() {
                 <Github className="w-4 h-4" />
                 GitHub Repository
               </TabsTrigger>
+              <TabsTrigger value="diff" className="flex items-center gap-2">
+                <FileDiff className="w-4 h-4" />
+                Diff / Patch
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="code" className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Programming Language</label>
-                  <Select value={language} onValueChange={setLanguage}>
+                  <Select value={language} onValueChange={handleLanguageChange}>
                     <SelectTrigger className="bg-code-bg border-code-border">
                       <SelectValue />
                     </SelectTrigger>
@@ -322,6 +1151,24 @@ export function CodeAnalyzer() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {detectedLanguage && (
+                    <p className="text-xs text-muted-foreground">
+                      Detected: {SUPPORTED_LANGUAGES.find((lang) => lang.value === detectedLanguage.language)?.label}{" "}
+                      ({Math.round(detectedLanguage.confidence * 100)}% confidence)
+                      {languagePickedManually && detectedLanguage.language !== language && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setLanguage(detectedLanguage.language);
+                            setLanguagePickedManually(false);
+                          }}
+                          className="ml-2 underline hover:text-foreground"
+                        >
+                          Use detected
+                        </button>
+                      )}
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-end">
                   <Button 
@@ -335,11 +1182,20 @@ export function CodeAnalyzer() {
               </div>
               
               <div className="space-y-2">
-                <label className="text-sm font-medium">Code Input</label>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium">Code Input</label>
+                  <Button variant="outline" size="sm" asChild>
+                    <label className={`flex items-center gap-2 ${isAnalyzing ? "pointer-events-none opacity-50" : "cursor-pointer"}`}>
+                      <Upload className="w-4 h-4" />
+                      Upload File
+                      <input type="file" className="hidden" onChange={handleFileUpload} disabled={isAnalyzing} />
+                    </label>
+                  </Button>
+                </div>
                 <Textarea
                   value={code}
-                  onChange={(e) => setCode(e.target.value)}
-                  placeholder="Paste your code here..."
+                  onChange={(e) => handleCodeChange(e.target.value)}
+                  placeholder="Paste your code here, or upload a file or Jupyter notebook (.ipynb)..."
                   className="min-h-[300px] font-mono text-sm bg-code-bg border-code-border"
                 />
               </div>
@@ -355,7 +1211,9 @@ export function CodeAnalyzer() {
                   className="bg-code-bg border-code-border"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Enter a public GitHub repository URL to analyze all code files
+                  Enter a public GitHub repository URL to analyze all code files, a tree URL
+                  (https://github.com/owner/repository/tree/main/src) to analyze one ref and folder, or a pull
+                  request URL (https://github.com/owner/repository/pull/123) to analyze only what it adds
                 </p>
               </div>
               
@@ -382,6 +1240,29 @@ export function CodeAnalyzer() {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="diff" className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Unified Diff</label>
+                <Textarea
+                  value={diffText}
+                  onChange={(e) => setDiffText(e.target.value)}
+                  placeholder="Paste the output of git diff or a .patch file..."
+                  className="min-h-[300px] font-mono text-sm bg-code-bg border-code-border"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Each hunk is analyzed with its context lines, but only the added (+) lines are scored
+                </p>
+              </div>
+
+              <Button
+                onClick={handleAnalyze}
+                disabled={!diffText.trim() || isAnalyzing}
+                className="w-full"
+              >
+                {isAnalyzing ? "Analyzing..." : "Analyze Diff"}
+              </Button>
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -392,22 +1273,48 @@ export function CodeAnalyzer() {
           <Card className="border-code-border">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <Github className="w-5 h-5 text-primary" />
-                Repository Analysis
+                {repoAnalysis.pullRequest ? (
+                  <GitPullRequest className="w-5 h-5 text-primary" />
+                ) : (
+                  <Github className="w-5 h-5 text-primary" />
+                )}
+                {repoAnalysis.pullRequest ? "Pull Request Analysis" : "Repository Analysis"}
                 {repoAnalysis.isForked && (
                   <Badge variant="outline" className="border-orange-500 text-orange-600 bg-orange-50">
                     Fork Detected
                   </Badge>
                 )}
-                {repoAnalysis.hasLovableLabel && (
-                  <Badge className="bg-gradient-to-r from-pink-500 to-purple-600 text-white">
-                    <Heart className="w-3 h-3 mr-1" />
-                    Lovable
-                  </Badge>
+                {repoAnalysis.platforms.map((platform) =>
+                  platform.id === "lovable" ? (
+                    <Badge key={platform.id} className="bg-gradient-to-r from-pink-500 to-purple-600 text-white">
+                      <Heart className="w-3 h-3 mr-1" />
+                      {platform.name}
+                    </Badge>
+                  ) : (
+                    <Badge key={platform.id} variant="outline" className="border-ai text-ai">
+                      <Bot className="w-3 h-3 mr-1" />
+                      {platform.name}
+                    </Badge>
+                  )
                 )}
               </CardTitle>
               <CardDescription className="space-y-1">
                 <div>{repoAnalysis.repositoryUrl}</div>
+                {repoAnalysis.scope && (
+                  <div className="text-sm">
+                    <code>{repoAnalysis.scope.ref}</code> at <code>{repoAnalysis.scope.sha}</code>
+                    {repoAnalysis.scope.path && (
+                      <>
+                        , folder <code>{repoAnalysis.scope.path}</code>
+                      </>
+                    )}
+                  </div>
+                )}
+                {!repoAnalysis.listingComplete && (
+                  <div className="text-sm text-orange-600">
+                    ⚠️ The file listing was incomplete; some files may not have been analyzed
+                  </div>
+                )}
                 {repoAnalysis.isForked && repoAnalysis.originalRepositoryUrl && (
                   <div className="text-sm text-orange-600">
                     ⚠️ Analyzed original repository (not fork) for accurate timeline data
@@ -447,16 +1354,18 @@ export function CodeAnalyzer() {
                 
                 <div className="space-y-2">
                   <div className="text-sm">
-                    <span className="font-medium">Total Files:</span> {repoAnalysis.totalFiles}
+                    <span className="font-medium">{repoAnalysis.pullRequest ? "Changed Files:" : "Total Files:"}</span> {repoAnalysis.totalFiles}
                   </div>
                   <div className="text-sm">
                     <span className="font-medium">Analyzed Files:</span> {repoAnalysis.analyzedFiles}
                   </div>
+                  {!repoAnalysis.pullRequest && !repoAnalysis.scope && (
+                    <div className="text-sm">
+                      <span className="font-medium">Branches Scanned:</span> {repoAnalysis.totalBranches}
+                    </div>
+                  )}
                   <div className="text-sm">
-                    <span className="font-medium">Branches Scanned:</span> {repoAnalysis.totalBranches}
-                  </div>
-                  <div className="text-sm">
-                    <span className="font-medium">Total Lines:</span> {repoAnalysis.overallStats.totalLines}
+                    <span className="font-medium">{repoAnalysis.pullRequest ? "Added Lines:" : "Total Lines:"}</span> {repoAnalysis.overallStats.totalLines}
                   </div>
                   <div className="text-sm">
                     <span className="font-medium">AI Lines:</span> {repoAnalysis.overallStats.aiLines}
@@ -464,6 +1373,9 @@ export function CodeAnalyzer() {
                   <div className="text-sm">
                     <span className="font-medium">Human Lines:</span> {repoAnalysis.overallStats.humanLines}
                   </div>
+                  <div className="text-sm">
+                    <span className="font-medium">Uncertain Lines:</span> {repoAnalysis.overallStats.uncertainLines} ({Math.round(repoAnalysis.overallStats.uncertainPercentage)}%)
+                  </div>
                   <div className="text-sm">
                     <span className="font-medium">Overall Confidence:</span> {Math.round(repoAnalysis.overallStats.overallConfidence * 100)}%
                   </div>
@@ -482,6 +1394,16 @@ export function CodeAnalyzer() {
             </CardContent>
           </Card>
 
+          {repoAnalysis.pullRequest && <PullRequestCard pullRequest={repoAnalysis.pullRequest} />}
+
+          <PlatformFingerprintsCard platforms={repoAnalysis.platforms} />
+
+          <AssistantArtifactsCard
+            artifacts={repoAnalysis.files.flatMap((file) =>
+              file.analysis.assistantArtifacts.map((artifact) => ({ artifact, path: file.path }))
+            )}
+          />
+
           {/* Commit History Analysis */}
           {repoAnalysis.commitAnalysis && (
             <div className="space-y-6">
@@ -752,12 +1674,12 @@ export function CodeAnalyzer() {
                                 ) : (
                                   <User className="w-4 h-4 text-human" />
                                 )}
-                                {getConfidenceBadge(commit.confidence, commit.isAI)}
+                                {getConfidenceBadge(commit.confidence, commit.isAI ? "ai" : "human")}
                               </div>
                               
                               <div className="flex-1 min-w-0">
                                 <div className="font-mono text-sm mb-2 break-words">
-                                  {commit.message}
+                                  {renderHighlightedContent(commit.message, commit.reasons)}
                                 </div>
                                 
                                 <div className="flex items-center gap-4 text-xs text-muted-foreground mb-2">
@@ -780,9 +1702,10 @@ export function CodeAnalyzer() {
                                     {commit.reasons.map((reason, idx) => (
                                       <div
                                         key={idx}
+                                        title={reason.ruleId}
                                         className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
                                       >
-                                        {reason}
+                                        {reason.message}
                                       </div>
                                     ))}
                                   </div>
@@ -800,14 +1723,14 @@ export function CodeAnalyzer() {
                           .filter(commit => commit.isAI)
                           .sort((a, b) => {
                             // Priority 1: Invisible characters (highest weight)
-                            const aHasInvisible = a.reasons.some(r => r.includes('invisible Unicode'));
-                            const bHasInvisible = b.reasons.some(r => r.includes('invisible Unicode'));
+                            const aHasInvisible = hasReason(a.reasons, 'commit/invisible-unicode');
+                            const bHasInvisible = hasReason(b.reasons, 'commit/invisible-unicode');
                             if (aHasInvisible && !bHasInvisible) return -1;
                             if (!aHasInvisible && bHasInvisible) return 1;
                             
                             // Priority 2: Emojis (second highest weight)
-                            const aHasEmoji = a.reasons.some(r => r.includes('emojis'));
-                            const bHasEmoji = b.reasons.some(r => r.includes('emojis'));
+                            const aHasEmoji = hasReason(a.reasons, 'commit/emoji');
+                            const bHasEmoji = hasReason(b.reasons, 'commit/emoji');
                             if (aHasEmoji && !bHasEmoji) return -1;
                             if (!aHasEmoji && bHasEmoji) return 1;
                             
@@ -823,12 +1746,12 @@ export function CodeAnalyzer() {
                             <div className="flex items-start gap-3">
                               <div className="flex items-center gap-2 min-w-0">
                                 <Brain className="w-4 h-4 text-ai" />
-                                {getConfidenceBadge(commit.confidence, commit.isAI)}
+                                {getConfidenceBadge(commit.confidence, commit.isAI ? "ai" : "human")}
                               </div>
                               
                               <div className="flex-1 min-w-0">
                                 <div className="font-mono text-sm mb-2 break-words">
-                                  {commit.message}
+                                  {renderHighlightedContent(commit.message, commit.reasons)}
                                 </div>
                                 
                                 <div className="flex items-center gap-4 text-xs text-muted-foreground mb-2">
@@ -851,9 +1774,10 @@ export function CodeAnalyzer() {
                                     {commit.reasons.map((reason, idx) => (
                                       <div
                                         key={idx}
+                                        title={reason.ruleId}
                                         className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
                                       >
-                                        {reason}
+                                        {reason.message}
                                       </div>
                                     ))}
                                   </div>
@@ -878,12 +1802,12 @@ export function CodeAnalyzer() {
                             <div className="flex items-start gap-3">
                               <div className="flex items-center gap-2 min-w-0">
                                 <User className="w-4 h-4 text-human" />
-                                {getConfidenceBadge(commit.confidence, commit.isAI)}
+                                {getConfidenceBadge(commit.confidence, commit.isAI ? "ai" : "human")}
                               </div>
                               
                               <div className="flex-1 min-w-0">
                                 <div className="font-mono text-sm mb-2 break-words">
-                                  {commit.message}
+                                  {renderHighlightedContent(commit.message, commit.reasons)}
                                 </div>
                                 
                                 <div className="flex items-center gap-4 text-xs text-muted-foreground mb-2">
@@ -906,9 +1830,10 @@ export function CodeAnalyzer() {
                                     {commit.reasons.map((reason, idx) => (
                                       <div
                                         key={idx}
+                                        title={reason.ruleId}
                                         className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
                                       >
-                                        {reason}
+                                        {reason.message}
                                       </div>
                                     ))}
                                   </div>
@@ -925,87 +1850,305 @@ export function CodeAnalyzer() {
             </div>
           )}
 
-          {/* File-by-file Analysis */}
-          <Card className="border-code-border">
-            <CardHeader>
-              <CardTitle>File Analysis</CardTitle>
-              <CardDescription>
-                Analysis results for each file in the repository
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3 max-h-[600px] overflow-y-auto">
-                {repoAnalysis.files.map((file, index) => (
-                  <div
-                    key={index}
-                    className="p-4 rounded-lg border border-code-border bg-card/50 hover:bg-card transition-colors"
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        <FileCode className="w-4 h-4 text-muted-foreground" />
-                        <span className="font-mono text-sm font-medium">{file.path}</span>
-                        <Badge variant="outline" className="text-xs">
-                          {file.language}
-                        </Badge>
+          {/* A pull request's files are shown in its own card */}
+          {!repoAnalysis.pullRequest && (
+            <>
+              <UnicodeFindingsCard
+                findings={repoAnalysis.files.flatMap((file) =>
+                  file.analysis.unicodeFindings.map((finding) => ({ finding, path: file.path }))
+                )}
+              />
+
+              {/* File-by-file Analysis */}
+              <Card className="border-code-border">
+                <CardHeader>
+                  <CardTitle>File Analysis</CardTitle>
+                  <CardDescription>
+                    Analysis results for each file in the repository
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3 max-h-[600px] overflow-y-auto">
+                    {repoAnalysis.files.map((file, index) => (
+                      <div
+                        key={index}
+                        className="p-4 rounded-lg border border-code-border bg-card/50 hover:bg-card transition-colors"
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <FileCode className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-mono text-sm font-medium">{file.path}</span>
+                            <Badge variant="outline" className="text-xs">
+                              {file.language}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <FileCodeDialog file={file} />
+                            <Badge 
+                              className={`${getAIConfidenceLevel(file.analysis.aiPercentage).color} text-white text-xs`}
+                            >
+                              {getAIConfidenceLevel(file.analysis.aiPercentage).label}
+                            </Badge>
+                            {getConfidenceBadge(file.analysis.overallConfidence, file.analysis.aiLines > file.analysis.humanLines ? "ai" : "human")}
+                          </div>
+                        </div>
+                    
+                        <div className="grid grid-cols-4 gap-4 text-sm">
+                          <div>
+                            <span className="text-muted-foreground">Total Lines:</span>
+                            <div className="font-medium">{file.analysis.totalLines}</div>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">AI Lines:</span>
+                            <div className="font-medium text-ai">{file.analysis.aiLines}</div>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">Human Lines:</span>
+                            <div className="font-medium text-human">{file.analysis.humanLines}</div>
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">Uncertain:</span>
+                            <div className="font-medium text-neutral">{file.analysis.uncertainLines}</div>
+                          </div>
+                        </div>
+                    
+                        <div className="mt-3 space-y-2">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-ai">AI: {Math.round(file.analysis.aiPercentage)}%</span>
+                            <span className="text-neutral">Uncertain: {Math.round(file.analysis.uncertainPercentage)}%</span>
+                            <span className="text-human">Human: {Math.round(file.analysis.humanPercentage)}%</span>
+                          </div>
+                          <div className="flex gap-1 h-2 bg-muted rounded-full overflow-hidden">
+                            <div 
+                              className="bg-ai transition-all" 
+                              style={{ width: `${file.analysis.aiPercentage}%` }}
+                            />
+                            <div 
+                              className="bg-neutral transition-all" 
+                              style={{ width: `${file.analysis.uncertainPercentage}%` }}
+                            />
+                            <div 
+                              className="bg-human transition-all" 
+                              style={{ width: `${file.analysis.humanPercentage}%` }}
+                            />
+                          </div>
+                        </div>
+
+                        {file.undeclaredImports.length > 0 && (
+                          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                            <span
+                              className="flex items-center gap-1 text-destructive"
+                              title={`Not declared in ${repoAnalysis.dependencyManifests.join(", ")}`}
+                            >
+                              <PackageX className="w-3 h-3" />
+                              Undeclared imports:
+                            </span>
+                            {file.undeclaredImports.map((reference) => (
+                              <Badge
+                                key={reference.packageName}
+                                variant="outline"
+                                title={`Line ${reference.line}: ${reference.module}`}
+                                className="border-destructive text-destructive font-mono text-xs"
+                              >
+                                {reference.packageName}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {/* Jupyter notebooks, per cell */}
+          {repoAnalysis.notebooks.length > 0 && (
+            <Card className="border-code-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <NotebookPen className="w-5 h-5 text-primary" />
+                  Notebooks
+                </CardTitle>
+                <CardDescription>
+                  Jupyter notebooks analyzed cell by cell; code cells count towards the repository statistics
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                  {repoAnalysis.notebooks.map((notebook) => (
+                    <div
+                      key={notebook.path}
+                      className="flex items-center justify-between gap-2 p-4 rounded-lg border border-code-border bg-card/50 hover:bg-card transition-colors"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <NotebookPen className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-mono text-sm font-medium truncate">{notebook.path}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {notebook.analysis.cells.length} cells
+                        </span>
                       </div>
                       <div className="flex items-center gap-2">
-                        <FileCodeDialog file={file} />
-                        <Badge 
-                          className={`${getAIConfidenceLevel(file.analysis.aiPercentage).color} text-white text-xs`}
+                        <NotebookDialog notebook={notebook} />
+                        <Badge
+                          className={`${getAIConfidenceLevel(notebook.analysis.aiPercentage).color} text-white text-xs`}
                         >
-                          {getAIConfidenceLevel(file.analysis.aiPercentage).label}
+                          {getAIConfidenceLevel(notebook.analysis.aiPercentage).label}
                         </Badge>
-                        {getConfidenceBadge(file.analysis.overallConfidence, file.analysis.aiLines > file.analysis.humanLines)}
                       </div>
                     </div>
-                    
-                    <div className="grid grid-cols-3 gap-4 text-sm">
-                      <div>
-                        <span className="text-muted-foreground">Total Lines:</span>
-                        <div className="font-medium">{file.analysis.totalLines}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">AI Lines:</span>
-                        <div className="font-medium text-ai">{file.analysis.aiLines}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Human Lines:</span>
-                        <div className="font-medium text-human">{file.analysis.humanLines}</div>
-                      </div>
-                    </div>
-                    
-                    <div className="mt-3 space-y-2">
-                      <div className="flex items-center justify-between text-xs">
-                        <span className="text-ai">AI: {Math.round(file.analysis.aiPercentage)}%</span>
-                        <span className="text-human">Human: {Math.round(file.analysis.humanPercentage)}%</span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Documentation, reported apart from the code */}
+          {repoAnalysis.documents.length > 0 && (
+            <Card className="border-code-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-primary" />
+                  Documentation Analysis
+                </CardTitle>
+                <CardDescription>
+                  README and docs files judged sentence by sentence; not counted in the code statistics
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Sentences:</span>
+                    <div className="font-medium">{repoAnalysis.documentStats.totalSentences}</div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">AI:</span>
+                    <div className="font-medium text-ai">{Math.round(repoAnalysis.documentStats.aiPercentage)}%</div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Human:</span>
+                    <div className="font-medium text-human">{Math.round(repoAnalysis.documentStats.humanPercentage)}%</div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Uncertain:</span>
+                    <div className="font-medium text-neutral">{Math.round(repoAnalysis.documentStats.uncertainPercentage)}%</div>
+                  </div>
+                </div>
+
+                <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                  {repoAnalysis.documents.map((document) => (
+                    <div
+                      key={document.path}
+                      className="flex items-center justify-between gap-2 p-4 rounded-lg border border-code-border bg-card/50 hover:bg-card transition-colors"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <FileText className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-mono text-sm font-medium truncate">{document.path}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {document.analysis.totalSentences} sentences
+                        </span>
                       </div>
-                      <div className="flex gap-1 h-2 bg-muted rounded-full overflow-hidden">
-                        <div 
-                          className="bg-ai transition-all" 
-                          style={{ width: `${file.analysis.aiPercentage}%` }}
-                        />
-                        <div 
-                          className="bg-human transition-all" 
-                          style={{ width: `${file.analysis.humanPercentage}%` }}
-                        />
+                      <div className="flex items-center gap-2">
+                        <DocumentDialog document={document} />
+                        <Badge variant="outline" className={`${VERDICT_BADGE_CLASSES.ai} text-xs`}>
+                          AI: {Math.round(document.analysis.aiPercentage)}%
+                        </Badge>
                       </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
+      {diffAnalysis && (
+        <Card className="border-code-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileDiff className="w-5 h-5 text-primary" />
+              Diff Analysis
+            </CardTitle>
+            <CardDescription>
+              Added lines only, grouped by file and hunk with the line numbers from the diff
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-4 gap-4 text-sm">
+              <div>
+                <span className="text-muted-foreground">Added Lines:</span>
+                <div className="font-medium">{diffAnalysis.addedLines}</div>
+              </div>
+              <div>
+                <span className="text-muted-foreground">AI Lines:</span>
+                <div className="font-medium text-ai">{diffAnalysis.aiLines} ({Math.round(diffAnalysis.aiPercentage)}%)</div>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Human Lines:</span>
+                <div className="font-medium text-human">{diffAnalysis.humanLines} ({Math.round(diffAnalysis.humanPercentage)}%)</div>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Uncertain:</span>
+                <div className="font-medium text-neutral">{diffAnalysis.uncertainLines} ({Math.round(diffAnalysis.uncertainPercentage)}%)</div>
+              </div>
+            </div>
+
+            {diffAnalysis.files.map(renderDiffFile)}
+          </CardContent>
+        </Card>
+      )}
+
+      {notebookAnalysis && (
+        <Card className="border-code-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <NotebookPen className="w-5 h-5 text-primary" />
+              {notebookAnalysis.name}
+            </CardTitle>
+            <CardDescription>
+              Cell-by-cell analysis: code cells as {notebookAnalysis.analysis.language}, markdown cells as prose
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NotebookResults analysis={notebookAnalysis.analysis} />
+          </CardContent>
+        </Card>
+      )}
+
+      {proseAnalysis && (
+        <Card className="border-code-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5 text-primary" />
+              Documentation Analysis
+            </CardTitle>
+            <CardDescription>
+              Markdown is judged sentence by sentence on vocabulary and structure instead of the code rules
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProseResults analysis={proseAnalysis} />
+          </CardContent>
+        </Card>
+      )}
+
       {analysis && (
         <div className="space-y-6">
+          <AssistantArtifactsCard
+            artifacts={analysis.assistantArtifacts.map((artifact) => ({ artifact }))}
+          />
+
           {/* Overall Statistics */}
           <Card className="border-code-border">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="w-5 h-5 text-primary" />
                 Analysis Results
+                <div className="ml-auto">
+                  <SanitizeDialog analysis={analysis} fileName="sanitized-snippet.txt" language={language} />
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -1048,6 +2191,9 @@ export function CodeAnalyzer() {
                   <div className="text-sm">
                     <span className="font-medium">Human Lines:</span> {analysis.humanLines}
                   </div>
+                  <div className="text-sm">
+                    <span className="font-medium">Uncertain Lines:</span> {analysis.uncertainLines} ({Math.round(analysis.uncertainPercentage)}%)
+                  </div>
                   <div className="text-sm">
                     <span className="font-medium">Overall Confidence:</span> {Math.round(analysis.overallConfidence * 100)}%
                   </div>
@@ -1066,6 +2212,10 @@ export function CodeAnalyzer() {
             </CardContent>
           </Card>
 
+          <UnicodeFindingsCard
+            findings={analysis.unicodeFindings.map((finding) => ({ finding }))}
+          />
+
           {/* Line-by-line Analysis */}
           <Card className="border-code-border">
             <CardHeader>
@@ -1075,168 +2225,7 @@ export function CodeAnalyzer() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Tabs defaultValue="all" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="all" className="flex items-center gap-2">
-                    <CheckCircle className="w-4 h-4" />
-                    All Lines ({analysis.totalLines})
-                  </TabsTrigger>
-                  <TabsTrigger value="ai" className="flex items-center gap-2">
-                    <Brain className="w-4 h-4" />
-                    AI Only ({analysis.aiLines})
-                  </TabsTrigger>
-                  <TabsTrigger value="human" className="flex items-center gap-2">
-                    <User className="w-4 h-4" />
-                    Human Only ({analysis.humanLines})
-                  </TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="all" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis.map((lineAnalysis, index) => (
-                      <div
-                        key={index}
-                        className={`p-3 rounded-lg border transition-all hover:bg-muted/50 ${
-                          lineAnalysis.isAI ? 'border-ai/30 bg-ai/5' : 'border-human/30 bg-human/5'
-                        }`}
-                      >
-                        <div className="flex items-start gap-3">
-                          <div className="flex items-center gap-2 min-w-0">
-                            <span className="text-xs text-muted-foreground w-8">
-                              {index + 1}
-                            </span>
-                            {getLineIndicator(lineAnalysis)}
-                            {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                          </div>
-                          
-                          <div className="flex-1 min-w-0">
-                            <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                              {lineAnalysis.content}
-                            </pre>
-                            
-                            {lineAnalysis.reasons.length > 0 && (
-                              <div className="mt-2 space-y-1">
-                                {lineAnalysis.reasons.map((reason, idx) => (
-                                  <div
-                                    key={idx}
-                                    className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                  >
-                                    {reason}
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="ai" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis
-                      .filter(line => line.isAI)
-                      .sort((a, b) => {
-                        // Priority 1: Invisible characters (highest weight)
-                        const aHasInvisible = a.reasons.some(r => r.includes('invisible Unicode'));
-                        const bHasInvisible = b.reasons.some(r => r.includes('invisible Unicode'));
-                        if (aHasInvisible && !bHasInvisible) return -1;
-                        if (!aHasInvisible && bHasInvisible) return 1;
-                        
-                        // Priority 2: Emojis (second highest weight)
-                        const aHasEmoji = a.reasons.some(r => r.includes('emojis'));
-                        const bHasEmoji = b.reasons.some(r => r.includes('emojis'));
-                        if (aHasEmoji && !bHasEmoji) return -1;
-                        if (!aHasEmoji && bHasEmoji) return 1;
-                        
-                        // Priority 3: Sort by confidence (highest first)
-                        return b.confidence - a.confidence;
-                      })
-                      .map((lineAnalysis, index) => {
-                      const originalIndex = analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                      return (
-                        <div
-                          key={originalIndex}
-                          className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-ai/30 bg-ai/5"
-                        >
-                          <div className="flex items-start gap-3">
-                            <div className="flex items-center gap-2 min-w-0">
-                              <span className="text-xs text-muted-foreground w-8">
-                                {originalIndex + 1}
-                              </span>
-                              {getLineIndicator(lineAnalysis)}
-                              {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                            </div>
-                            
-                            <div className="flex-1 min-w-0">
-                              <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                                {lineAnalysis.content}
-                              </pre>
-                              
-                              {lineAnalysis.reasons.length > 0 && (
-                                <div className="mt-2 space-y-1">
-                                  {lineAnalysis.reasons.map((reason, idx) => (
-                                    <div
-                                      key={idx}
-                                      className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                    >
-                                      {reason}
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="human" className="mt-4">
-                  <div className="space-y-2 max-h-[600px] overflow-y-auto">
-                    {analysis.lineAnalysis.filter(line => !line.isAI).map((lineAnalysis, index) => {
-                      const originalIndex = analysis.lineAnalysis.findIndex(line => line === lineAnalysis);
-                      return (
-                        <div
-                          key={originalIndex}
-                          className="p-3 rounded-lg border transition-all hover:bg-muted/50 border-human/30 bg-human/5"
-                        >
-                          <div className="flex items-start gap-3">
-                            <div className="flex items-center gap-2 min-w-0">
-                              <span className="text-xs text-muted-foreground w-8">
-                                {originalIndex + 1}
-                              </span>
-                              {getLineIndicator(lineAnalysis)}
-                              {getConfidenceBadge(lineAnalysis.confidence, lineAnalysis.isAI)}
-                            </div>
-                            
-                            <div className="flex-1 min-w-0">
-                              <pre className="text-sm font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                                {lineAnalysis.content}
-                              </pre>
-                              
-                              {lineAnalysis.reasons.length > 0 && (
-                                <div className="mt-2 space-y-1">
-                                  {lineAnalysis.reasons.map((reason, idx) => (
-                                    <div
-                                      key={idx}
-                                      className="text-xs text-muted-foreground bg-muted/30 px-2 py-1 rounded"
-                                    >
-                                      {reason}
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </TabsContent>
-              </Tabs>
+              <LineAnalysisTabs analysis={analysis} listClassName="max-h-[600px]" />
             </CardContent>
           </Card>
         </div>
@@ -1,235 +1,123 @@
+import { findCodeBlocks } from "./codeBlocks";
+import type { BlockRange } from "./codeBlocks";
+import { maskLine, tokenizeLines } from "./lexer";
+import type { LineToken } from "./lexer";
+import trainedNgramModel from "./models/ngram.json";
+import trainedScoringModel from "./models/scoring.json";
+import { ngramReasonsByLine } from "./ngramModel";
+import type { NgramModel } from "./ngramModel";
+import { getActiveRules, getRule } from "./ruleRegistry";
+import type { RuleTarget } from "./ruleRegistry";
+import { calibrateProbability, scoreReasons } from "./scoringModel";
+import type { ScoringModel } from "./scoringModel";
+import { DEFAULT_SEQUENCE_MODEL, smoothSequence } from "./sequenceModel";
+import type { Segment, SequenceModel } from "./sequenceModel";
+import { analyzeStylometry, styleReasonsByLine } from "./stylometry";
+import type { StylometryReport } from "./stylometry";
+import { findUnicodeFindings } from "./unicodeForensics";
+import type { UnicodeFinding } from "./unicodeForensics";
+
+export type ReasonPolarity = "ai" | "human" | "neutral";
+
+// Column range within LineAnalysis.content, end exclusive
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+export interface DetectionReason {
+  ruleId: string;
+  message: string;
+  polarity: ReasonPolarity;
+  // Score contributed to the line (0 for contextual and neutral reasons)
+  weight: number;
+  spans: MatchSpan[];
+}
+
+export type Verdict = "ai" | "human" | "uncertain";
+
 export interface LineAnalysis {
   content: string;
-  isAI: boolean;
+  verdict: Verdict;
+  // Calibrated probability that the line is AI-generated, after smoothing
+  // across neighbouring lines
+  aiProbability: number;
+  // Probability of the verdict's side, max(aiProbability, 1 - aiProbability)
+  confidence: number;
+  reasons: DetectionReason[];
+}
+
+// A rule that fired somewhere inside a block, with the lines it fired on
+export interface BlockEvidence {
+  ruleId: string;
+  message: string;
+  polarity: ReasonPolarity;
+  lines: number[];
+}
+
+// A function, method or class with a verdict for the block as a whole
+export interface CodeBlock extends BlockRange {
+  verdict: Verdict;
+  // Mean AI probability of the block's non-empty lines
+  aiProbability: number;
   confidence: number;
-  reasons: string[];
+  evidence: BlockEvidence[];
+}
+
+// A line carrying leftovers of an assistant's chat answer
+export interface AssistantArtifact {
+  // 1-based
+  line: number;
+  content: string;
+  // The assistant-artifact reasons that fired on the line
+  reasons: DetectionReason[];
 }
 
 export interface AnalysisResult {
   totalLines: number;
   aiLines: number;
   humanLines: number;
+  uncertainLines: number;
   aiPercentage: number;
   humanPercentage: number;
+  uncertainPercentage: number;
   overallConfidence: number;
   lineAnalysis: LineAnalysis[];
+  // AI and human regions found by the sequence model
+  segments: Segment[];
+  // Functions, methods and classes, outermost first
+  blocks: CodeBlock[];
+  // Style feature vectors for the whole file and per window of lines
+  style: StylometryReport;
+  // Suspicious Unicode characters (invisible, bidi, homoglyphs, ...)
+  unicodeFindings: UnicodeFinding[];
+  // Chat phrasing, fences, elided bodies and placeholders left in the code
+  assistantArtifacts: AssistantArtifact[];
 }
 
-interface DetectionPattern {
-  pattern: RegExp;
-  weight: number;
-  reason: string;
-  aiIndicator: boolean;
+export interface AnalysisOptions {
+  // Lines whose AI probability is within this distance of 0.5 are "uncertain"
+  uncertaintyMargin?: number;
+  // Defaults to the model fitted on corpus/train/ (see
+  // scripts/fit-scoring.ts)
+  scoringModel?: ScoringModel;
+  sequenceModel?: SequenceModel;
+  // Token n-gram detector; defaults to the model trained on corpus/train/ (see
+  // scripts/train-ngram.ts), null turns it off
+  ngramModel?: NgramModel | null;
+  // Wait 1-3s before answering, as the UI expects; turn off for batch runs
+  simulateDelay?: boolean;
 }
 
-// AI detection patterns based on real AI vs human coding characteristics
-const AI_PATTERNS: DetectionPattern[] = [
-  // CRITICAL: Invisible/untypable Unicode characters (impossible to type by humans)
-  {
-    pattern: /[\u200B\u200C\u200D\uFEFF\u2060\u180E\u2061\u2062\u2063\u2064]/,
-    weight: 1.0,
-    reason:
-      "Contains invisible Unicode characters (untypable by humans) - definitive AI signature",
-    aiIndicator: true,
-  },
-
-  // HIGH CONFIDENCE: Emoji usage in code (AI commonly adds emojis)
-  {
-    pattern:
-      /[\u{1F300}-\u{1F9FF}\u{1F600}-\u{1F64F}\u{1F680}-\u{1F6FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/u,
-    weight: 0.9,
-    reason: "Contains emojis in code - strong AI indicator",
-    aiIndicator: true,
-  },
-
-  // ChatGPT signature: Sectioned comments with dashes
-  {
-    pattern: /\/\/\s*---\s*.*\s*---\s*$/gm,
-    weight: 0.9,
-    reason: "Section-based comments with dashes — signature of AI structure",
-    aiIndicator: true,
-  },
-
-  // ChatGPT signature: Perfect formatting comment
-  {
-    pattern: /\/\/\s*Generated with.*ChatGPT|\/\/.*AI Code Style Guide/gi,
-    weight: 1.0,
-    reason: "Explicit AI generation comment",
-    aiIndicator: true,
-  },
-
-  // Step-by-step comments (very common in AI code)
-  {
-    pattern: /\/\/\s*Step\s*\d+:|\/\/\s*\d+\./gi,
-    weight: 0.8,
-    reason: "Contains step-by-step comments typical of AI explanations",
-    aiIndicator: true,
-  },
-
-  // Overly descriptive comments explaining obvious code
-  {
-    pattern:
-      /\/\/\s*(Get|Parse|Check|Validate|Perform|Display|Calculate|Initialize|Handle|Process).*$/gm,
-    weight: 0.6,
-    reason: "Contains verbose explanatory comments typical of AI generation",
-    aiIndicator: true,
-  },
-
-  // Generic error messages with examples
-  {
-    pattern: /(Usage:|Example:|Error:).*$/gm,
-    weight: 0.7,
-    reason: "Contains structured error messages with examples",
-    aiIndicator: true,
-  },
-
-  // ChatGPT signature: try/catch in CLI/sync contexts
-  {
-    pattern:
-      /try\s*{[\s\S]*?catch\s*\([^)]*\)\s*{[\s\S]*?(console\.(error|log)|process\.exit)/g,
-    weight: 0.6,
-    reason:
-      "try/catch with console output in CLI context — typical ChatGPT pattern",
-    aiIndicator: true,
-  },
-
-  // Perfect input validation patterns (enhanced)
-  {
-    pattern:
-      /(process\.exit\(1\)|isNaN\(|\.length\s*[!=]=|args\.length|Missing\s+(argument|parameter))/g,
-    weight: 0.7,
-    reason:
-      "Contains comprehensive input validation typical of AI first-draft code",
-    aiIndicator: true,
-  },
-
-  // ChatGPT signature: Polite error handling with usage examples
-  {
-    pattern: /(Usage:\s*|Example:\s*|Please\s+(provide|ensure|check))/gi,
-    weight: 0.8,
-    reason: "Polite, structured error messages with usage examples",
-    aiIndicator: true,
-  },
-
-  // Overly descriptive variable names
-  {
-    pattern:
-      /\b(commandLineArguments|userInput|calculationResult|operatorSymbol)\b/gi,
-    weight: 0.6,
-    reason: "Uses overly descriptive variable names",
-    aiIndicator: true,
-  },
-
-  // Perfect switch/case structure with all cases
-  {
-    pattern: /switch\s*\([^)]+\)\s*{[\s\S]*default:\s*[\s\S]*}/g,
-    weight: 0.4,
-    reason: "Contains comprehensive switch statement with default case",
-    aiIndicator: true,
-  },
-
-  // AI-style shebang and perfect formatting
-  {
-    pattern: /^#!/,
-    weight: 0.3,
-    reason: "Includes shebang line typical of AI-generated scripts",
-    aiIndicator: true,
-  },
-
-  // Human indicators
-
-  // Debug console logs left in code
-  {
-    pattern: /console\.log\((?!.*Result:|.*Error:|.*Usage:)/g,
-    weight: 0.6,
-    reason: "Contains debug console.log statements",
-    aiIndicator: false,
-  },
-
-  // TODO/FIXME comments (humans leave these)
-  {
-    pattern: /(TODO|FIXME|HACK|XXX):/gi,
-    weight: 0.7,
-    reason: "Contains TODO/FIXME comments indicating human planning",
-    aiIndicator: false,
-  },
-
-  // Terse or minimal comments
-  {
-    pattern: /\/\/\s*[a-z][^.]*$/gm,
-    weight: 0.3,
-    reason: "Contains short, terse comments typical of human code",
-    aiIndicator: false,
-  },
-  //get api for users
-
-  // Abbreviated variable names
-  {
-    pattern:
-      /\b(btn|txt|img|nav|auth|cfg|opts|params|ctx|req|res|db|api|temp|tmp|val|str|num|arr|obj)\b/gi,
-    weight: 0.4,
-    reason: "Uses abbreviated variable names common in human code",
-    aiIndicator: false,
-  },
-
-  // Inconsistent spacing or formatting
-  {
-    pattern: /\s{3,}(?!\s*\/\/)|[;}]\s*[;}]|\t\s+|\s+\t/g,
-    weight: 0.5,
-    reason: "Has inconsistent spacing typical of human editing",
-    aiIndicator: false,
-  },
+interface LineScoringContext {
+  model: ScoringModel;
+  uncertaintyMargin: number;
+  structureScore: number;
+}
 
-  // Quick and dirty solutions (missing error handling)
-  {
-    pattern: /\[[^\]]*\]\.map\(|\.filter\(|\.reduce\(/g,
-    weight: 0.2,
-    reason: "Uses functional programming without extensive validation",
-    aiIndicator: false,
-  },
-];
-
-// Language-specific patterns
-const LANGUAGE_PATTERNS: Record<string, DetectionPattern[]> = {
-  javascript: [
-    {
-      pattern: /console\.log\([^)]*\)/g,
-      weight: 0.2,
-      reason: "Contains debug console.log statements",
-      aiIndicator: false,
-    },
-    {
-      pattern: /function\s+\w+\s*\([^)]*\)\s*{/g,
-      weight: 0.1,
-      reason: "Uses function declarations",
-      aiIndicator: true,
-    },
-  ],
-  python: [
-    {
-      pattern: /print\([^)]*\)/g,
-      weight: 0.2,
-      reason: "Contains debug print statements",
-      aiIndicator: false,
-    },
-    {
-      pattern: /def\s+\w+\s*\([^)]*\):/g,
-      weight: 0.1,
-      reason: "Uses function definitions",
-      aiIndicator: true,
-    },
-  ],
-  typescript: [
-    {
-      pattern: /:\s*(string|number|boolean|any|unknown|void|never)\b/g,
-      weight: 0.2,
-      reason: "Contains explicit type annotations",
-      aiIndicator: true,
-    },
-  ],
-};
+export const DEFAULT_UNCERTAINTY_MARGIN = 0.1;
 
-function analyzeCodeStructure(code: string): number {
+function analyzeCodeStructure(code: string, tokens: LineToken[][]): number {
   // Analyze overall code structure for AI patterns
   let aiScore = 0;
 
@@ -284,7 +172,9 @@ function analyzeCodeStructure(code: string): number {
   }
 
   // Check for overly comprehensive documentation
-  const commentLines = code.match(/\/\*[\s\S]*?\*\/|\/\/.*$/gm) || [];
+  const commentLines = tokens.filter((lineTokens) =>
+    lineTokens.some((token) => token.kind === "comment")
+  );
   const commentRatio = commentLines.length / lines.length;
   if (commentRatio > 0.3) {
     aiScore += 0.2;
@@ -313,48 +203,253 @@ function analyzeCodeStructure(code: string): number {
   return Math.min(aiScore, 1);
 }
 
+// Finds every match of a pattern in text, shifting columns by offset
+export function findMatchSpans(
+  pattern: RegExp,
+  text: string,
+  offset: number = 0
+): MatchSpan[] {
+  const flags = pattern.flags.includes("g")
+    ? pattern.flags
+    : pattern.flags + "g";
+  const globalPattern = new RegExp(pattern.source, flags);
+  const spans: MatchSpan[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = globalPattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      globalPattern.lastIndex++;
+      continue;
+    }
+    spans.push({
+      start: match.index + offset,
+      end: match.index + match[0].length + offset,
+    });
+  }
+
+  return spans;
+}
+
+// Shrinks a span so it starts and ends on non-blank characters
+function trimSpan(text: string, span: MatchSpan): MatchSpan {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+export function hasReason(reasons: DetectionReason[], ruleId: string): boolean {
+  return reasons.some((reason) => reason.ruleId === ruleId);
+}
+
+export function isAssistantArtifact(reason: DetectionReason): boolean {
+  return getRule(reason.ruleId)?.category === "assistant-artifact";
+}
+
+// Runs the file-scope rules over the whole code and maps each match back onto
+// every non-empty line it covers, with spans relative to that line
+function applyFileRules(
+  code: string,
+  language: string,
+  tokens: LineToken[][]
+): DetectionReason[][] {
+  const lines = code.split("\n");
+  // Same offsets as code, so block matches map back onto the lines
+  const maskedCode = lines
+    .map((line, i) => maskLine(line, tokens[i] || [], "code", language))
+    .join("\n");
+  const lineStarts: number[] = [];
+  let position = 0;
+  for (const line of lines) {
+    lineStarts.push(position);
+    position += line.length + 1;
+  }
+
+  const lineReasons: DetectionReason[][] = lines.map(() => []);
+
+  for (const rule of getActiveRules(language, "file")) {
+    const spansByLine = new Map<number, MatchSpan[]>();
+
+    const matches = rule.bodyPattern
+      ? findBlockSpans(rule.pattern, rule.bodyPattern, maskedCode)
+      : findMatchSpans(rule.pattern, code);
+    for (const match of matches) {
+      for (
+        let i = lineIndexAt(lineStarts, match.start);
+        i < lines.length && lineStarts[i] < match.end;
+        i++
+      ) {
+        if (!lines[i].trim()) continue;
+
+        const span = {
+          start: Math.max(match.start - lineStarts[i], 0),
+          end: Math.min(match.end - lineStarts[i], lines[i].length),
+        };
+        spansByLine.set(i, [...(spansByLine.get(i) || []), span]);
+      }
+    }
+
+    for (const [i, spans] of spansByLine) {
+      lineReasons[i].push({
+        ruleId: rule.id,
+        message: rule.description,
+        polarity: rule.aiIndicator ? "ai" : "human",
+        weight: rule.weight,
+        spans,
+      });
+    }
+  }
+
+  return lineReasons;
+}
+
+// Blocks whose header matches the pattern and whose body, up to the matching
+// closing brace, matches bodyPattern; each span runs from the header to that
+// brace. Unclosed blocks are skipped.
+function findBlockSpans(
+  pattern: RegExp,
+  bodyPattern: RegExp,
+  maskedCode: string
+): MatchSpan[] {
+  return findMatchSpans(pattern, maskedCode).flatMap((header) => {
+    const close = closingBraceIndex(maskedCode, header.end - 1);
+    if (close === null) return [];
+    const body = maskedCode.slice(header.end, close);
+    return findMatchSpans(bodyPattern, body).length > 0
+      ? [{ start: header.start, end: close + 1 }]
+      : [];
+  });
+}
+
+// Index of the brace closing the one at openIndex, or null if it never closes
+function closingBraceIndex(text: string, openIndex: number): number | null {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === "{") {
+      depth++;
+    } else if (text[i] === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return null;
+}
+
+// Index of the line containing the given character offset
+function lineIndexAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
 function analyzeLine(
   line: string,
   lineNumber: number,
-  language: string
+  language: string,
+  tokens: LineToken[],
+  sharedReasons: DetectionReason[],
+  context: LineScoringContext
 ): LineAnalysis {
   const content = line.trim();
+  const offset = line.length - line.trimStart().length;
+
+  // Text each rule target sees; masked views keep the original columns
+  const targetText: Partial<Record<RuleTarget, string>> = {};
+  const textFor = (target: RuleTarget) => {
+    if (targetText[target] === undefined) {
+      targetText[target] =
+        target === "all" ? content : maskLine(line, tokens, target, language);
+    }
+    return targetText[target];
+  };
+
   let aiScore = 0;
   let humanScore = 0;
-  const reasons: string[] = [];
+  const reasons: DetectionReason[] = [];
+
+  const addReason = (
+    ruleId: string,
+    message: string,
+    aiIndicator: boolean,
+    weight: number,
+    spans: MatchSpan[]
+  ) => {
+    if (aiIndicator) {
+      aiScore += weight;
+    } else {
+      humanScore += weight;
+    }
+    reasons.push({
+      ruleId,
+      message,
+      polarity: aiIndicator ? "ai" : "human",
+      weight,
+      spans,
+    });
+  };
 
   // Skip empty lines
   if (!content) {
     return {
       content: line,
-      isAI: false,
+      verdict: "uncertain",
+      aiProbability: 0.5,
       confidence: 0.5,
-      reasons: ["Empty line - neutral"],
+      reasons: [
+        {
+          ruleId: "heuristic/empty-line",
+          message: "Empty line - neutral",
+          polarity: "neutral",
+          weight: 0,
+          spans: [],
+        },
+      ],
     };
   }
 
-  // Apply general patterns
-  for (const pattern of AI_PATTERNS) {
-    if (pattern.pattern.test(content)) {
-      if (pattern.aiIndicator) {
-        aiScore += pattern.weight;
-      } else {
-        humanScore += pattern.weight;
-      }
-      reasons.push(pattern.reason);
-    }
+  const wholeLine: MatchSpan[] = [
+    { start: offset, end: offset + content.length },
+  ];
+
+  // Matches of file-scope rules that cover this line, and the style and
+  // n-gram signals of its region
+  for (const reason of sharedReasons) {
+    addReason(
+      reason.ruleId,
+      reason.message,
+      reason.polarity === "ai",
+      reason.weight,
+      reason.spans
+    );
   }
 
-  // Apply language-specific patterns
-  const langPatterns = LANGUAGE_PATTERNS[language] || [];
-  for (const pattern of langPatterns) {
-    if (pattern.pattern.test(content)) {
-      if (pattern.aiIndicator) {
-        aiScore += pattern.weight;
-      } else {
-        humanScore += pattern.weight;
-      }
-      reasons.push(pattern.reason);
+  // Apply every registered rule that is enabled for this language, scoped
+  // to the code, comment or string text it targets
+  for (const rule of getActiveRules(language)) {
+    const target = rule.target ?? "all";
+    const text = textFor(target);
+    const spans =
+      target === "all"
+        ? findMatchSpans(rule.pattern, text, offset)
+        : findMatchSpans(rule.pattern, text).map((span) =>
+            trimSpan(text, span)
+          );
+    if (spans.length > 0) {
+      addReason(
+        rule.id,
+        rule.description,
+        rule.aiIndicator,
+        rule.weight,
+        spans
+      );
     }
   }
 
@@ -362,11 +457,21 @@ function analyzeLine(
 
   // Line length analysis
   if (content.length > 120) {
-    aiScore += 0.2;
-    reasons.push("Very long line length typical of AI generation");
+    addReason(
+      "heuristic/long-line",
+      "Very long line length typical of AI generation",
+      true,
+      0.2,
+      wholeLine
+    );
   } else if (content.length < 20 && !content.match(/[{}();,]/)) {
-    humanScore += 0.1;
-    reasons.push("Short, concise line suggests human writing");
+    addReason(
+      "heuristic/short-line",
+      "Short, concise line suggests human writing",
+      false,
+      0.1,
+      wholeLine
+    );
   }
 
   // // Check for perfect syntax
@@ -379,31 +484,65 @@ function analyzeLine(
   // }
 
   // Check for creative/quirky naming
-  if (content.match(/\b(foo|bar|baz|qux|quirky|magic|hack|wtf)\b/i)) {
-    humanScore += 0.3;
-    reasons.push("Uses creative or placeholder naming typical of humans");
+  const creativeSpans = findMatchSpans(
+    /\b(foo|bar|baz|qux|quirky|magic|hack|wtf)\b/i,
+    content,
+    offset
+  );
+  if (creativeSpans.length > 0) {
+    addReason(
+      "heuristic/creative-naming",
+      "Uses creative or placeholder naming typical of humans",
+      false,
+      0.3,
+      creativeSpans
+    );
   }
 
-  // Calculate final scores
-  const totalScore = aiScore + humanScore;
-  let confidence =
-    totalScore > 0 ? Math.max(aiScore, humanScore) / totalScore : 0.5;
-  confidence = Math.min(Math.max(confidence, 0.1), 0.95); // Clamp between 10% and 95%
+  // A file that is AI-like as a whole reinforces lines already leaning AI
+  if (context.structureScore > 0.5 && aiScore > humanScore) {
+    addReason(
+      "heuristic/file-structure",
+      "File-wide structure (uniform indentation, upfront validation) typical of AI",
+      true,
+      0.1,
+      []
+    );
+  }
 
-  const isAI = aiScore > humanScore;
+  // Calculate final scores
+  const aiProbability = scoreReasons(context.model, reasons);
+  const confidence = Math.max(aiProbability, 1 - aiProbability);
+  const verdict = verdictFor(aiProbability, context.uncertaintyMargin);
 
   if (reasons.length === 0) {
-    reasons.push("No significant patterns detected - neutral classification");
+    reasons.push({
+      ruleId: "heuristic/no-signal",
+      message: "No significant patterns detected - neutral classification",
+      polarity: "neutral",
+      weight: 0,
+      spans: [],
+    });
   }
 
   return {
     content: line,
-    isAI,
+    verdict,
+    aiProbability,
     confidence,
     reasons,
   };
 }
 
+// Lines whose probability is too close to 0.5 are left undecided
+export function verdictFor(
+  aiProbability: number,
+  uncertaintyMargin: number
+): Verdict {
+  if (Math.abs(aiProbability - 0.5) < uncertaintyMargin) return "uncertain";
+  return aiProbability > 0.5 ? "ai" : "human";
+}
+
 function isCreativeHumanCode(line: string): boolean {
   const content = line.trim();
 
@@ -421,104 +560,229 @@ function isCreativeHumanCode(line: string): boolean {
   return creativePatterns.some((pattern) => pattern.test(content));
 }
 
-function applyContextualAnalysis(lineAnalysis: LineAnalysis[]): void {
-  // Apply sandwiching rule: if a line is between AI lines, mark it as AI unless it's clearly creative human code
-  for (let i = 1; i < lineAnalysis.length - 1; i++) {
-    const currentLine = lineAnalysis[i];
-    const prevLine = lineAnalysis[i - 1];
-    const nextLine = lineAnalysis[i + 1];
-
-    // Skip empty lines
-    if (!currentLine.content.trim()) continue;
-
-    // If current line is human but surrounded by AI lines
-    if (!currentLine.isAI && prevLine.isAI && nextLine.isAI) {
-      // Check if it's genuinely creative human code
-      if (!isCreativeHumanCode(currentLine.content)) {
-        currentLine.isAI = true;
-        currentLine.confidence = Math.max(currentLine.confidence, 0.7);
-        currentLine.reasons.push(
-          "Line sandwiched between AI-generated code blocks"
-        );
-      }
+const REGION_REASONS: Record<Verdict, Omit<DetectionReason, "spans">> = {
+  ai: {
+    ruleId: "context/ai-region",
+    message: "Part of a surrounding AI-generated region",
+    polarity: "ai",
+    weight: 0,
+  },
+  human: {
+    ruleId: "context/human-region",
+    message: "Part of a surrounding human-written region",
+    polarity: "human",
+    weight: 0,
+  },
+  uncertain: {
+    ruleId: "context/conflicting-region",
+    message: "Own evidence conflicts with the surrounding region",
+    polarity: "neutral",
+    weight: 0,
+  },
+};
+
+// Re-scores every line with the sequence model so weak lines follow the
+// region around them, and returns the region boundaries
+function applySequenceSmoothing(
+  lineAnalysis: LineAnalysis[],
+  model: SequenceModel,
+  uncertaintyMargin: number
+): Segment[] {
+  const { posteriors, segments } = smoothSequence(
+    lineAnalysis.map((line) =>
+      line.content.trim() ? line.aiProbability : null
+    ),
+    model
+  );
+
+  lineAnalysis.forEach((line, i) => {
+    const posterior = posteriors[i];
+    if (posterior === null) return;
+
+    // Strong evidence of its own outweighs the neighbours
+    if (line.confidence >= model.anchorConfidence) return;
+
+    const verdict = verdictFor(posterior, uncertaintyMargin);
+
+    // Clearly creative human code is never pulled into an AI region
+    if (
+      verdict === "ai" &&
+      line.verdict !== "ai" &&
+      isCreativeHumanCode(line.content)
+    ) {
+      return;
+    }
+
+    if (verdict !== line.verdict) {
+      line.reasons.push({ ...REGION_REASONS[verdict], spans: [] });
     }
+    line.verdict = verdict;
+    line.aiProbability = posterior;
+    line.confidence = Math.max(posterior, 1 - posterior);
+  });
+
+  return segments;
+}
+
+function applyCalibration(
+  lineAnalysis: LineAnalysis[],
+  model: ScoringModel,
+  uncertaintyMargin: number
+): void {
+  for (const line of lineAnalysis) {
+    if (!line.content.trim()) continue;
+
+    line.aiProbability = calibrateProbability(model, line.aiProbability);
+    line.confidence = Math.max(line.aiProbability, 1 - line.aiProbability);
+    line.verdict = verdictFor(line.aiProbability, uncertaintyMargin);
   }
+}
 
-  // Apply block analysis: look for consecutive AI patterns
-  let consecutiveAICount = 0;
-  for (let i = 0; i < lineAnalysis.length; i++) {
-    const line = lineAnalysis[i];
+function scoreBlock(
+  range: BlockRange,
+  lineAnalysis: LineAnalysis[],
+  uncertaintyMargin: number
+): CodeBlock {
+  const lines = lineAnalysis
+    .slice(range.startLine - 1, range.endLine)
+    .map((line, i) => ({ line, lineNumber: range.startLine + i }))
+    .filter(({ line }) => line.content.trim());
+
+  const aiProbability =
+    lines.length > 0
+      ? lines.reduce((sum, { line }) => sum + line.aiProbability, 0) /
+        lines.length
+      : 0.5;
 
-    if (!line.content.trim()) {
-      consecutiveAICount = 0;
-      continue;
-    }
+  const evidence = new Map<string, BlockEvidence>();
+  for (const { line, lineNumber } of lines) {
+    for (const reason of line.reasons) {
+      // Contextual and neutral reasons explain lines, not blocks
+      if (reason.polarity === "neutral" || reason.weight === 0) continue;
 
-    if (line.isAI) {
-      consecutiveAICount++;
-    } else {
-      // If we have a human line after many AI lines, check if it's likely part of the AI block
-      if (consecutiveAICount >= 3 && !isCreativeHumanCode(line.content)) {
-        // Look ahead to see if AI pattern continues
-        let aiContinues = false;
-        for (let j = i + 1; j < Math.min(i + 3, lineAnalysis.length); j++) {
-          if (lineAnalysis[j].content.trim() && lineAnalysis[j].isAI) {
-            aiContinues = true;
-            break;
-          }
-        }
-
-        if (aiContinues) {
-          line.isAI = true;
-          line.confidence = Math.max(line.confidence, 0.6);
-          line.reasons.push("Part of extended AI-generated code block");
-        }
+      const entry = evidence.get(reason.ruleId);
+      if (entry) {
+        if (!entry.lines.includes(lineNumber)) entry.lines.push(lineNumber);
+      } else {
+        evidence.set(reason.ruleId, {
+          ruleId: reason.ruleId,
+          message: reason.message,
+          polarity: reason.polarity,
+          lines: [lineNumber],
+        });
       }
-      consecutiveAICount = 0;
     }
   }
+
+  return {
+    ...range,
+    verdict: verdictFor(aiProbability, uncertaintyMargin),
+    aiProbability,
+    confidence: Math.max(aiProbability, 1 - aiProbability),
+    evidence: [...evidence.values()].sort(
+      (a, b) => b.lines.length - a.lines.length
+    ),
+  };
+}
+
+function findAssistantArtifacts(
+  lineAnalysis: LineAnalysis[]
+): AssistantArtifact[] {
+  return lineAnalysis.flatMap((line, index) => {
+    const reasons = line.reasons.filter(isAssistantArtifact);
+    return reasons.length > 0
+      ? [{ line: index + 1, content: line.content, reasons }]
+      : [];
+  });
 }
 
 export async function analyzeCode(
   code: string,
-  language: string
+  language: string,
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
+  const {
+    uncertaintyMargin = DEFAULT_UNCERTAINTY_MARGIN,
+    scoringModel = trainedScoringModel,
+    sequenceModel = DEFAULT_SEQUENCE_MODEL,
+    ngramModel = trainedNgramModel,
+    simulateDelay = true,
+  } = options;
+
   // Simulate processing delay for realism
-  await new Promise((resolve) =>
-    setTimeout(resolve, 1000 + Math.random() * 2000)
-  );
+  if (simulateDelay) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, 1000 + Math.random() * 2000)
+    );
+  }
 
   const lines = code.split("\n");
   const lineAnalysis: LineAnalysis[] = [];
 
+  // Classify code, comments and strings for every line
+  const tokens = tokenizeLines(code, language);
+
   // Analyze overall structure
-  const structureScore = analyzeCodeStructure(code);
+  const structureScore = analyzeCodeStructure(code, tokens);
+
+  // Evaluate rules that span multiple lines
+  const fileReasons = applyFileRules(code, language, tokens);
+
+  // Judge each region's style (naming, paragraph rhythm) as a whole
+  const style = analyzeStylometry(code, language, tokens);
+  const styleReasons = styleReasonsByLine(style, lines.length);
+
+  // Compare the token sequences against the AI and human n-gram models
+  const ngramReasons = ngramModel
+    ? ngramReasonsByLine(ngramModel, lines, tokens)
+    : lines.map(() => []);
+
+  const context: LineScoringContext = {
+    model: scoringModel,
+    uncertaintyMargin,
+    structureScore,
+  };
 
   // Analyze each line
   for (let i = 0; i < lines.length; i++) {
-    const analysis = analyzeLine(lines[i], i + 1, language);
+    lineAnalysis.push(
+      analyzeLine(
+        lines[i],
+        i + 1,
+        language,
+        tokens[i],
+        [...fileReasons[i], ...styleReasons[i], ...ngramReasons[i]],
+        context
+      )
+    );
+  }
 
-    // Adjust confidence based on overall structure
-    if (structureScore > 0.5) {
-      if (analysis.isAI) {
-        analysis.confidence = Math.min(analysis.confidence + 0.1, 0.95);
-      }
-    }
+  // Smooth verdicts across neighbouring lines
+  const segments = applySequenceSmoothing(
+    lineAnalysis,
+    sequenceModel,
+    uncertaintyMargin
+  );
 
-    lineAnalysis.push(analysis);
-  }
+  // Correct the overconfidence of the final probabilities
+  applyCalibration(lineAnalysis, scoringModel, uncertaintyMargin);
 
-  // Apply contextual analysis to improve accuracy
-  applyContextualAnalysis(lineAnalysis);
+  // Classify each function, method and class as a whole
+  const blocks = (await findCodeBlocks(code, language, tokens)).map((range) =>
+    scoreBlock(range, lineAnalysis, uncertaintyMargin)
+  );
 
   // Calculate statistics
   const nonEmptyLines = lineAnalysis.filter((l) => l.content.trim());
-  const aiLines = nonEmptyLines.filter((l) => l.isAI).length;
-  const humanLines = nonEmptyLines.length - aiLines;
+  const aiLines = nonEmptyLines.filter((l) => l.verdict === "ai").length;
+  const humanLines = nonEmptyLines.filter((l) => l.verdict === "human").length;
+  const uncertainLines = nonEmptyLines.length - aiLines - humanLines;
   const totalLines = nonEmptyLines.length;
 
   const aiPercentage = totalLines > 0 ? (aiLines / totalLines) * 100 : 0;
   const humanPercentage = totalLines > 0 ? (humanLines / totalLines) * 100 : 0;
+  const uncertainPercentage =
+    totalLines > 0 ? (uncertainLines / totalLines) * 100 : 0;
 
   // Calculate overall confidence as weighted average
   const overallConfidence =
@@ -531,9 +795,16 @@ export async function analyzeCode(
     totalLines,
     aiLines,
     humanLines,
+    uncertainLines,
     aiPercentage,
     humanPercentage,
+    uncertainPercentage,
     overallConfidence,
     lineAnalysis,
+    segments,
+    blocks,
+    style,
+    unicodeFindings: findUnicodeFindings(code),
+    assistantArtifacts: findAssistantArtifacts(lineAnalysis),
   };
 }
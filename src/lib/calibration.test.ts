@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectCalibrationSamples,
+  computeCalibrationReport,
+} from "./calibration";
+import type { CalibrationSample } from "./calibration";
+
+function sample(aiProbability: number, isAI: boolean): CalibrationSample {
+  return { aiProbability, isAI, reasons: [] };
+}
+
+describe("computeCalibrationReport", () => {
+  it("is zero for an empty sample set", () => {
+    const report = computeCalibrationReport([], 4);
+
+    expect(report.sampleCount).toBe(0);
+    expect(report.brierScore).toBe(0);
+    expect(report.expectedCalibrationError).toBe(0);
+    expect(report.bins).toHaveLength(4);
+  });
+
+  it("computes the Brier score as the mean squared error", () => {
+    const report = computeCalibrationReport([sample(0.8, true), sample(0.4, false)]);
+
+    expect(report.brierScore).toBeCloseTo((0.2 ** 2 + 0.4 ** 2) / 2);
+  });
+
+  it("bins samples and compares predicted with observed rates", () => {
+    const report = computeCalibrationReport(
+      [sample(0.1, false), sample(0.2, true), sample(0.9, true), sample(1, true)],
+      2
+    );
+    const [low, high] = report.bins;
+
+    expect(low).toMatchObject({ lower: 0, upper: 0.5, count: 2, observedRate: 0.5 });
+    expect(low.meanPredicted).toBeCloseTo(0.15);
+    // A probability of exactly 1 falls in the last bin
+    expect(high).toMatchObject({ count: 2, meanPredicted: 0.95, observedRate: 1 });
+    expect(report.expectedCalibrationError).toBeCloseTo((2 * 0.35 + 2 * 0.05) / 4);
+  });
+
+  it("keeps empty bins so the reliability curve stays regular", () => {
+    const report = computeCalibrationReport([sample(0.05, false)], 10);
+
+    expect(report.bins.map((bin) => bin.count)).toEqual([1, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe("collectCalibrationSamples", () => {
+  it("yields one sample per non-blank line, labeled by its file", async () => {
+    const samples = await collectCalibrationSamples(
+      [
+        { code: "x = 1\n\ny = 2", language: "python", isAI: true },
+        { code: "z = 3", language: "python", isAI: false },
+      ],
+      { ngramModel: null }
+    );
+
+    expect(samples.map((s) => s.isAI)).toEqual([true, true, false]);
+    for (const s of samples) {
+      expect(s.aiProbability).toBeGreaterThanOrEqual(0);
+      expect(s.aiProbability).toBeLessThanOrEqual(1);
+    }
+  });
+});
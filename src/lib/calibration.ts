@@ -0,0 +1,102 @@
+import { analyzeCode } from "./aiDetection";
+import type { AnalysisOptions, DetectionReason } from "./aiDetection";
+
+// A file whose origin is known, e.g. from a labeled corpus
+export interface LabeledSource {
+  path?: string;
+  code: string;
+  language: string;
+  isAI: boolean;
+}
+
+// One scored line; the label is inherited from its file
+export interface CalibrationSample {
+  aiProbability: number;
+  isAI: boolean;
+  reasons: DetectionReason[];
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  // Mean predicted AI probability of the samples in the bin
+  meanPredicted: number;
+  // Fraction of those samples that really are AI
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  sampleCount: number;
+  // Mean squared error of the predicted probabilities (0 is perfect)
+  brierScore: number;
+  // Count-weighted mean gap between predicted and observed rates
+  expectedCalibrationError: number;
+  // Reliability curve; empty bins are kept so the x-axis stays regular
+  bins: ReliabilityBin[];
+}
+
+export async function collectCalibrationSamples(
+  sources: LabeledSource[],
+  options: AnalysisOptions = {}
+): Promise<CalibrationSample[]> {
+  const samples: CalibrationSample[] = [];
+
+  for (const source of sources) {
+    const analysis = await analyzeCode(source.code, source.language, {
+      simulateDelay: false,
+      ...options,
+    });
+    for (const line of analysis.lineAnalysis) {
+      if (!line.content.trim()) continue;
+      samples.push({
+        aiProbability: line.aiProbability,
+        isAI: source.isAI,
+        reasons: line.reasons,
+      });
+    }
+  }
+
+  return samples;
+}
+
+export function computeCalibrationReport(
+  samples: CalibrationSample[],
+  binCount: number = 10
+): CalibrationReport {
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanPredicted: 0,
+    observedRate: 0,
+  }));
+
+  let squaredError = 0;
+  for (const sample of samples) {
+    const outcome = sample.isAI ? 1 : 0;
+    squaredError += (sample.aiProbability - outcome) ** 2;
+
+    const bin =
+      bins[Math.min(Math.floor(sample.aiProbability * binCount), binCount - 1)];
+    bin.count++;
+    bin.meanPredicted += sample.aiProbability;
+    bin.observedRate += outcome;
+  }
+
+  let calibrationGap = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanPredicted /= bin.count;
+    bin.observedRate /= bin.count;
+    calibrationGap += bin.count * Math.abs(bin.meanPredicted - bin.observedRate);
+  }
+
+  return {
+    sampleCount: samples.length,
+    brierScore: samples.length > 0 ? squaredError / samples.length : 0,
+    expectedCalibrationError:
+      samples.length > 0 ? calibrationGap / samples.length : 0,
+    bins,
+  };
+}
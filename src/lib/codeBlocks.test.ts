@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { findCodeBlocks } from "./codeBlocks";
+import type { BlockRange } from "./codeBlocks";
+import { tokenizeLines } from "./lexer";
+
+function blocksOf(code: string, language: string): Promise<BlockRange[]> {
+  return findCodeBlocks(code, language, tokenizeLines(code, language));
+}
+
+// Each block as [name, kind, startLine, endLine, depth]
+function summarize(blocks: BlockRange[]) {
+  return blocks.map(({ name, kind, startLine, endLine, depth }) => [
+    name,
+    kind,
+    startLine,
+    endLine,
+    depth,
+  ]);
+}
+
+describe("findCodeBlocks", () => {
+  it("finds TypeScript classes, methods and arrow functions with their JSDoc", async () => {
+    const code = [
+      "/** Adds. */",
+      "export const add = (a: number, b: number) => a + b;",
+      "",
+      "class Counter {",
+      "  count = 0;",
+      "  increment() {",
+      "    this.count++;",
+      "  }",
+      "}",
+    ].join("\n");
+
+    expect(summarize(await blocksOf(code, "typescript"))).toEqual([
+      ["add", "function", 1, 2, 0],
+      ["Counter", "class", 4, 9, 0],
+      ["increment", "method", 6, 8, 1],
+    ]);
+  });
+
+  it("uses indentation for Python and keeps decorators and comments", async () => {
+    const code = [
+      "class Shape:",
+      "    # Area in square units",
+      "    @property",
+      "    def area(self):",
+      "",
+      "        return 0",
+      "",
+      "def main():",
+      "    pass",
+    ].join("\n");
+
+    expect(summarize(await blocksOf(code, "python"))).toEqual([
+      ["Shape", "class", 1, 6, 0],
+      ["area", "method", 2, 6, 1],
+      ["main", "function", 8, 9, 0],
+    ]);
+  });
+
+  it("matches braces for Go and ignores braces inside strings", async () => {
+    const code = [
+      "type Server struct {",
+      "  name string",
+      "}",
+      "",
+      "func (s *Server) Start() error {",
+      '  fmt.Println("{")',
+      "  return nil",
+      "}",
+    ].join("\n");
+
+    expect(summarize(await blocksOf(code, "go"))).toEqual([
+      ["Server", "class", 1, 3, 0],
+      ["Start", "function", 5, 8, 0],
+    ]);
+  });
+
+  it("does not take control statements or bodiless declarations for functions", async () => {
+    const code = [
+      "public class Main {",
+      "  @Override",
+      "  public String toString() {",
+      "    if (ready) {",
+      '      return "ok";',
+      "    }",
+      '    return "";',
+      "  }",
+      "  abstract void run();",
+      "}",
+    ].join("\n");
+
+    expect(summarize(await blocksOf(code, "java"))).toEqual([
+      ["Main", "class", 1, 10, 0],
+      ["toString", "method", 2, 8, 1],
+    ]);
+  });
+
+  it("finds nothing in a language it has no rules for", async () => {
+    expect(await blocksOf("function f() {\n}", "haskell")).toEqual([]);
+  });
+});
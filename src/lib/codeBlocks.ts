@@ -0,0 +1,359 @@
+import { maskLine } from "./lexer";
+import type { LineToken } from "./lexer";
+import type { Node as SyntaxNode } from "typescript";
+
+export type BlockKind = "class" | "function" | "method";
+
+// A declaration found in the source; line numbers are 1-based and inclusive
+// and cover leading doc comments, decorators and annotations
+export interface BlockRange {
+  name: string;
+  kind: BlockKind;
+  startLine: number;
+  endLine: number;
+  // Nesting level, 0 for top-level declarations
+  depth: number;
+}
+
+type RawBlock = Omit<BlockRange, "depth">;
+
+interface BraceHeader {
+  pattern: RegExp;
+  kind: BlockKind;
+}
+
+const SCRIPT_KINDS: Record<string, string> = {
+  javascript: "JS",
+  jsx: "JSX",
+  typescript: "TS",
+  tsx: "TSX",
+};
+
+const CLASS_HEADER: BraceHeader = {
+  pattern:
+    /\b(?:class|interface|struct|enum|trait|record|object|protocol)\s+([A-Za-z_]\w*)/,
+  kind: "class",
+};
+
+// Return type (and modifiers) followed by a name and an opening parenthesis,
+// e.g. "public static int parse(" or "std::string Foo::name("
+const C_FAMILY_FUNCTION: BraceHeader = {
+  pattern: /^\s*(?:[\w<>[\],.?*&:~]+\s+)+?([A-Za-z_~][\w:~]*)\s*\(/,
+  kind: "function",
+};
+
+const BRACE_HEADERS: Record<string, BraceHeader[]> = {
+  go: [
+    {
+      pattern: /^\s*type\s+([A-Za-z_]\w*)\s+(?:struct|interface)\b/,
+      kind: "class",
+    },
+    {
+      pattern: /^\s*func\s*(?:\([^)]*\)\s*)?([A-Za-z_]\w*)\s*[([]/,
+      kind: "function",
+    },
+  ],
+  rust: [
+    {
+      pattern:
+        /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait)\s+([A-Za-z_]\w*)/,
+      kind: "class",
+    },
+    {
+      pattern: /^\s*impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([A-Za-z_]\w*)/,
+      kind: "class",
+    },
+    { pattern: /\bfn\s+([A-Za-z_]\w*)/, kind: "function" },
+  ],
+  swift: [
+    CLASS_HEADER,
+    { pattern: /\bfunc\s+([A-Za-z_]\w*)/, kind: "function" },
+  ],
+  kotlin: [
+    CLASS_HEADER,
+    { pattern: /\bfun\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/, kind: "function" },
+  ],
+  scala: [
+    CLASS_HEADER,
+    { pattern: /\bdef\s+([A-Za-z_]\w*)/, kind: "function" },
+  ],
+  php: [
+    CLASS_HEADER,
+    { pattern: /\bfunction\s+([A-Za-z_]\w*)/, kind: "function" },
+  ],
+  java: [CLASS_HEADER, C_FAMILY_FUNCTION],
+  csharp: [CLASS_HEADER, C_FAMILY_FUNCTION],
+  cpp: [CLASS_HEADER, C_FAMILY_FUNCTION],
+  c: [CLASS_HEADER, C_FAMILY_FUNCTION],
+};
+
+// Words the C-family function header would otherwise take for a name
+const CONTROL_KEYWORDS = new Set([
+  "if",
+  "for",
+  "foreach",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "new",
+  "else",
+  "using",
+  "lock",
+  "sizeof",
+  "do",
+  "try",
+  "throw",
+  "await",
+]);
+
+// How far below a header the opening brace may appear (multi-line signatures)
+const MAX_HEADER_LINES = 4;
+
+// Finds the classes, functions and methods declared in the code. JS and TS are
+// parsed with the TypeScript compiler; Python uses indentation and other
+// languages brace matching on the lexer's code-only view of each line.
+export async function findCodeBlocks(
+  code: string,
+  language: string,
+  tokens: LineToken[][]
+): Promise<BlockRange[]> {
+  const lines = code.split("\n");
+  const codeLines = lines.map((line, i) =>
+    maskLine(line, tokens[i] || [], "code", language)
+  );
+
+  let blocks: RawBlock[] = [];
+  if (language in SCRIPT_KINDS) {
+    blocks = await findScriptBlocks(code, language);
+  } else if (language === "python") {
+    blocks = findIndentedBlocks(lines, codeLines);
+  } else if (language in BRACE_HEADERS) {
+    blocks = findBraceBlocks(lines, codeLines, BRACE_HEADERS[language]);
+  }
+
+  return nestBlocks(blocks);
+}
+
+async function findScriptBlocks(
+  code: string,
+  language: string
+): Promise<RawBlock[]> {
+  // Loaded on demand; the compiler is only needed for JS/TS analysis
+  const { default: ts } = await import("typescript");
+
+  const sourceFile = ts.createSourceFile(
+    `snippet.${language === "javascript" ? "js" : language}`,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind[SCRIPT_KINDS[language] as keyof typeof ts.ScriptKind]
+  );
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const blocks: RawBlock[] = [];
+  // The outer node supplies the start (with its JSDoc) when the function
+  // itself is only the initializer of a declaration
+  const add = (
+    name: string,
+    kind: BlockKind,
+    node: SyntaxNode,
+    outer = node
+  ) => {
+    blocks.push({
+      name,
+      kind,
+      startLine: lineOf(outer.getStart(sourceFile, true)),
+      endLine: lineOf(node.getEnd()),
+    });
+  };
+
+  const visit = (node: SyntaxNode) => {
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      add(node.name?.text ?? "(anonymous class)", "class", node);
+    } else if (ts.isFunctionDeclaration(node)) {
+      add(node.name?.text ?? "default", "function", node);
+    } else if (
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)
+    ) {
+      add(node.name.getText(sourceFile), "method", node);
+    } else if (ts.isConstructorDeclaration(node)) {
+      add("constructor", "method", node);
+    } else if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      const parent = node.parent;
+      if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        const statement = parent.parent.parent;
+        add(
+          parent.name.text,
+          "function",
+          node,
+          ts.isVariableStatement(statement) ? statement : parent
+        );
+      } else if (
+        ts.isPropertyAssignment(parent) ||
+        ts.isPropertyDeclaration(parent)
+      ) {
+        add(parent.name.getText(sourceFile), "method", node, parent);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return blocks;
+}
+
+function findIndentedBlocks(lines: string[], codeLines: string[]): RawBlock[] {
+  const blocks: RawBlock[] = [];
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  codeLines.forEach((codeLine, i) => {
+    const match = codeLine.match(/^(\s*)(?:async\s+)?(def|class)\s+(\w+)/);
+    if (!match) return;
+
+    // The body is every following line indented deeper than the header;
+    // blank and comment-only lines don't end it
+    const indent = match[1].length;
+    let endLine = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (!codeLines[j].trim()) continue;
+      if (indentOf(lines[j]) <= indent) break;
+      endLine = j;
+    }
+
+    let startLine = i;
+    while (
+      startLine > 0 &&
+      /^\s*@/.test(codeLines[startLine - 1]) &&
+      indentOf(lines[startLine - 1]) === indent
+    ) {
+      startLine--;
+    }
+
+    blocks.push({
+      name: match[3],
+      kind: match[2] === "class" ? "class" : "function",
+      startLine: withLeadingComments(lines, codeLines, startLine) + 1,
+      endLine: endLine + 1,
+    });
+  });
+
+  return blocks;
+}
+
+function findBraceBlocks(
+  lines: string[],
+  codeLines: string[],
+  headers: BraceHeader[]
+): RawBlock[] {
+  const blocks: RawBlock[] = [];
+
+  codeLines.forEach((codeLine, i) => {
+    let name = "";
+    let kind: BlockKind = "function";
+    for (const header of headers) {
+      const match = codeLine.match(header.pattern);
+      if (match && !CONTROL_KEYWORDS.has(match[1])) {
+        name = match[1];
+        kind = header.kind;
+        break;
+      }
+    }
+    if (!name) return;
+
+    const endLine = findClosingBrace(codeLines, i);
+    if (endLine === null) return;
+
+    // Annotations and attributes above the header belong to the block
+    let startLine = i;
+    while (
+      startLine > 0 &&
+      /^\s*(?:@\w|#\[|\[\w)/.test(codeLines[startLine - 1])
+    ) {
+      startLine--;
+    }
+
+    blocks.push({
+      name,
+      kind,
+      startLine: withLeadingComments(lines, codeLines, startLine) + 1,
+      endLine: endLine + 1,
+    });
+  });
+
+  return blocks;
+}
+
+// Index of the line closing the body that opens on or just below the header,
+// or null for a declaration without a body
+function findClosingBrace(codeLines: string[], headerIndex: number) {
+  let depth = 0;
+  let opened = false;
+
+  for (let j = headerIndex; j < codeLines.length; j++) {
+    for (const char of codeLines[j]) {
+      if (char === ";" && !opened) return null;
+      if (char === "{") {
+        depth++;
+        opened = true;
+      } else if (char === "}" && opened) {
+        depth--;
+        if (depth === 0) return j;
+      }
+    }
+    if (!opened && j - headerIndex >= MAX_HEADER_LINES) return null;
+  }
+
+  return null;
+}
+
+// Moves a block start up over the comment-only lines directly above it
+function withLeadingComments(
+  lines: string[],
+  codeLines: string[],
+  startLine: number
+): number {
+  while (
+    startLine > 0 &&
+    lines[startLine - 1].trim() &&
+    !codeLines[startLine - 1].trim()
+  ) {
+    startLine--;
+  }
+  return startLine;
+}
+
+// Orders blocks outermost first and records how deeply each is nested;
+// functions directly inside a class become methods
+function nestBlocks(blocks: RawBlock[]): BlockRange[] {
+  const sorted = [...blocks].sort(
+    (a, b) => a.startLine - b.startLine || b.endLine - a.endLine
+  );
+  const nested: BlockRange[] = [];
+  const stack: BlockRange[] = [];
+
+  for (const block of sorted) {
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].endLine < block.startLine
+    ) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    const range: BlockRange = {
+      ...block,
+      kind:
+        block.kind === "function" && parent?.kind === "class"
+          ? "method"
+          : block.kind,
+      depth: stack.length,
+    };
+    nested.push(range);
+    stack.push(range);
+  }
+
+  return nested;
+}
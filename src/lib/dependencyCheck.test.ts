@@ -0,0 +1,298 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  extractImports,
+  findUndeclaredImports,
+  isDependencyManifest,
+  parseManifest,
+} from "./dependencyCheck";
+import type { DependencyManifest, ProjectContext } from "./dependencyCheck";
+
+function project(
+  manifests: [string, string][],
+  filePaths: string[] = []
+): ProjectContext {
+  return {
+    manifests: manifests
+      .map(([path, content]) => parseManifest(path, content))
+      .filter((manifest): manifest is DependencyManifest => manifest !== null),
+    filePaths,
+  };
+}
+
+describe("isDependencyManifest", () => {
+  it("recognises manifests by file name outside node_modules", () => {
+    expect(isDependencyManifest("api/Cargo.toml")).toBe(true);
+    expect(isDependencyManifest("go.mod")).toBe(true);
+    expect(isDependencyManifest("node_modules/x/package.json")).toBe(false);
+    expect(isDependencyManifest("src/index.ts")).toBe(false);
+  });
+
+  it("does not mistake object prototype keys for manifest names", () => {
+    expect(isDependencyManifest("src/constructor")).toBe(false);
+    expect(isDependencyManifest("__proto__")).toBe(false);
+    expect(parseManifest("lib/toString", "")).toBeNull();
+  });
+});
+
+describe("parseManifest", () => {
+  it("reads package.json dependencies and the typings packages declare", () => {
+    const manifest = parseManifest(
+      "package.json",
+      JSON.stringify({
+        name: "web",
+        dependencies: { react: "^18" },
+        devDependencies: { "@types/node": "^20", "@types/babel__core": "^7" },
+      })
+    );
+
+    expect(manifest).toEqual({
+      path: "package.json",
+      ecosystem: "npm",
+      dependencies: ["react", "@types/node", "@types/babel__core", "node", "@babel/core"],
+      localNames: ["web"],
+    });
+  });
+
+  it("normalizes requirements.txt names and skips options and URLs", () => {
+    const manifest = parseManifest(
+      "requirements.txt",
+      [
+        "# pinned",
+        "Flask_SQLAlchemy>=3.0",
+        "requests[socks]==2.31 ; python_version >= '3.8'",
+        "-r dev.txt",
+        "https://example.com/pkg.whl",
+      ].join("\n")
+    );
+
+    expect(manifest?.dependencies).toEqual(["flask-sqlalchemy", "requests"]);
+  });
+
+  it("reads PEP 621 and Poetry dependencies from pyproject.toml", () => {
+    const manifest = parseManifest(
+      "pyproject.toml",
+      [
+        "[project]",
+        'name = "My_Tool"',
+        "dependencies = [",
+        '  "httpx>=0.27",',
+        '  "rich",',
+        "]",
+        "",
+        "[tool.poetry.dependencies]",
+        'python = "^3.11"',
+        'pydantic = "^2"',
+      ].join("\n")
+    );
+
+    expect(manifest).toMatchObject({
+      ecosystem: "pip",
+      dependencies: ["httpx", "rich", "pydantic"],
+      localNames: ["my-tool"],
+    });
+  });
+
+  it("reads go.mod requirements in and outside require blocks", () => {
+    const manifest = parseManifest(
+      "go.mod",
+      [
+        "module github.com/acme/svc",
+        "",
+        "require github.com/pkg/errors v0.9.1",
+        "require (",
+        "  golang.org/x/sync v0.7.0 // indirect",
+        ")",
+      ].join("\n")
+    );
+
+    expect(manifest).toMatchObject({
+      dependencies: ["github.com/pkg/errors", "golang.org/x/sync"],
+      localNames: ["github.com/acme/svc"],
+    });
+  });
+
+  it("reads Cargo.toml dependency tables as crate names", () => {
+    const manifest = parseManifest(
+      "Cargo.toml",
+      [
+        "[package]",
+        'name = "my-crate"',
+        "[dependencies]",
+        'serde-json = "1"',
+        "[dev-dependencies.tokio]",
+        'version = "1"',
+      ].join("\n")
+    );
+
+    expect(manifest).toMatchObject({
+      ecosystem: "cargo",
+      dependencies: ["serde_json", "tokio"],
+      localNames: ["my_crate"],
+    });
+  });
+
+  it("returns null for unknown files and unreadable content", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(parseManifest("README.md", "")).toBeNull();
+    expect(parseManifest("package.json", "{ not json")).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe("extractImports", () => {
+  it("finds ES, CommonJS and dynamic imports but not commented-out ones", () => {
+    const code = [
+      'import debounce from "lodash/debounce";',
+      'const { z } = require("zod");',
+      '// import old from "old-lib";',
+      'const icons = await import("@scope/icons/arrow");',
+    ].join("\n");
+
+    expect(extractImports(code, "typescript")).toEqual([
+      { module: "lodash/debounce", packageName: "lodash", line: 1 },
+      { module: "zod", packageName: "zod", line: 2 },
+      { module: "@scope/icons/arrow", packageName: "@scope/icons", line: 4 },
+    ]);
+  });
+
+  it("ignores imports written inside strings and template literals", () => {
+    const code = [
+      'const snippet = "import fake from \'not-a-dep\'";',
+      "const template = `",
+      'import other from "other-fake";',
+      "`;",
+      'export { x } from "real-dep";',
+    ].join("\n");
+
+    expect(extractImports(code, "javascript")).toEqual([
+      { module: "real-dep", packageName: "real-dep", line: 5 },
+    ]);
+  });
+
+  it("ignores Go imports inside raw strings", () => {
+    const code = [
+      'import "fmt"',
+      "const src = `package main",
+      'import "example.com/fake"',
+      "`",
+    ].join("\n");
+
+    expect(extractImports(code, "go").map((r) => r.module)).toEqual(["fmt"]);
+  });
+
+  it("splits Python import lists and keeps the top-level package", () => {
+    expect(
+      extractImports("import os.path, numpy as np\nfrom a.b import c", "python").map(
+        (reference) => reference.packageName
+      )
+    ).toEqual(["os", "numpy", "a"]);
+  });
+});
+
+describe("findUndeclaredImports", () => {
+  it("reports undeclared packages once, skipping builtins and local modules", () => {
+    const code = [
+      'import fs from "node:fs";',
+      'import path from "path";',
+      'import React from "react";',
+      'import { helper } from "./helper";',
+      'import { Button } from "@/components/button";',
+      'import { magic } from "super-magic-utils";',
+      'import { more } from "super-magic-utils/more";',
+    ].join("\n");
+    const context = project([
+      ["package.json", JSON.stringify({ dependencies: { react: "^18" } })],
+    ]);
+
+    expect(findUndeclaredImports(code, "typescript", context)).toEqual([
+      {
+        module: "super-magic-utils",
+        packageName: "super-magic-utils",
+        line: 6,
+        ecosystem: "npm",
+      },
+    ]);
+  });
+
+  it("maps Python import names to their distribution names", () => {
+    const code = "import yaml\nimport requests\nimport utils\nimport fakepkg";
+    const context = project(
+      [["requirements.txt", "PyYAML\nrequests"]],
+      ["app/utils.py"]
+    );
+
+    expect(
+      findUndeclaredImports(code, "python", context).map((r) => r.packageName)
+    ).toEqual(["fakepkg"]);
+  });
+
+  it("knows the whole Python standard library", () => {
+    const code = [
+      "import distutils.core",
+      "import __main__",
+      "import imp, cgi, pydoc",
+      "import msvcrt",
+      "import posix",
+    ].join("\n");
+    const context = project([["requirements.txt", "requests"]]);
+
+    expect(findUndeclaredImports(code, "python", context)).toEqual([]);
+  });
+
+  it("lets a Go module requirement cover its subpackages", () => {
+    const code = [
+      "import (",
+      '  "fmt"',
+      '  "golang.org/x/sync/errgroup"',
+      '  "github.com/acme/svc/internal/db"',
+      '  "github.com/made/up"',
+      ")",
+    ].join("\n");
+    const context = project([
+      ["go.mod", "module github.com/acme/svc\nrequire golang.org/x/sync v0.7.0"],
+    ]);
+
+    expect(
+      findUndeclaredImports(code, "go", context).map((r) => r.packageName)
+    ).toEqual(["github.com/made/up"]);
+  });
+
+  it("treats names a Rust file brings into scope as local", () => {
+    const code = [
+      "use std::cmp::Ordering;",
+      "use Ordering::*;",
+      "use serde::{Deserialize, Serialize as Ser};",
+      "use Ser::Thing;",
+      "enum Color { Red }",
+      "use Color::Red;",
+      "mod inner { pub fn a() {} }",
+      "use inner::a;",
+      "use self::inner::a as b;",
+      "use made_up::Widget;",
+    ].join("\n");
+    const context = project([
+      ["Cargo.toml", '[dependencies]\nserde = "1"'],
+    ]);
+
+    expect(
+      findUndeclaredImports(code, "rust", context).map((r) => r.packageName)
+    ).toEqual(["made_up"]);
+  });
+
+  it("still reports a crate imported by a bare use", () => {
+    const context = project([["Cargo.toml", "[dependencies]"]]);
+
+    expect(
+      findUndeclaredImports("use rand;", "rust", context).map((r) => r.packageName)
+    ).toEqual(["rand"]);
+  });
+
+  it("skips files whose ecosystem has no manifest in the repository", () => {
+    const context = project([["go.mod", "module example.com/x"]]);
+
+    expect(findUndeclaredImports('import "anything";', "javascript", context)).toEqual([]);
+    expect(findUndeclaredImports("import anything", "ruby", context)).toEqual([]);
+  });
+});
@@ -0,0 +1,560 @@
+import { maskLine, tokenizeLines } from "./lexer";
+
+// Compares the packages a file imports with the dependencies its repository
+// declares. An import that is neither declared, part of the standard
+// library, nor a local module is a typical sign of a hallucinated package.
+
+export type Ecosystem = "npm" | "pip" | "go" | "cargo";
+
+export interface DependencyManifest {
+  path: string;
+  ecosystem: Ecosystem;
+  // Declared package names, normalized for the ecosystem
+  dependencies: string[];
+  // Names the project itself publishes (package name, Go module path),
+  // which its own files may import
+  localNames: string[];
+}
+
+export interface ImportReference {
+  // Specifier as written, e.g. "lodash/debounce" or "os.path"
+  module: string;
+  // Package it belongs to, e.g. "lodash" or "os"
+  packageName: string;
+  // 1-based
+  line: number;
+}
+
+export interface UndeclaredImport extends ImportReference {
+  ecosystem: Ecosystem;
+}
+
+// What the repository provides besides its manifests
+export interface ProjectContext {
+  manifests: DependencyManifest[];
+  // Every file path in the repository, used to recognise local modules
+  filePaths: string[];
+}
+
+const LANGUAGE_ECOSYSTEMS: Record<string, Ecosystem> = {
+  javascript: "npm",
+  jsx: "npm",
+  typescript: "npm",
+  tsx: "npm",
+  python: "pip",
+  go: "go",
+  rust: "cargo",
+};
+
+const NODE_BUILTINS = new Set(
+  `assert async_hooks buffer child_process cluster console constants crypto
+  dgram diagnostics_channel dns domain events fs http http2 https inspector
+  module net os path perf_hooks process punycode querystring readline repl
+  stream string_decoder sys test timers tls trace_events tty url util v8 vm
+  wasi worker_threads zlib`.split(/\s+/)
+);
+
+// sys.stdlib_module_names of CPython 3.11, which still ships the modules
+// later versions removed, plus __main__
+const PYTHON_STDLIB = new Set(
+  `_abc abc aifc _aix_support antigravity argparse array _ast ast
+  asynchat _asyncio asyncio asyncore atexit audioop base64 bdb binascii
+  _bisect bisect _blake2 _bootsubprocess builtins _bz2 bz2 calendar cgi
+  cgitb chunk cmath cmd code _codecs codecs _codecs_cn _codecs_hk
+  _codecs_iso2022 _codecs_jp _codecs_kr _codecs_tw codeop _collections
+  collections _collections_abc colorsys _compat_pickle compileall
+  _compression concurrent configparser contextlib _contextvars
+  contextvars copy copyreg cProfile _crypt crypt _csv csv _ctypes ctypes
+  _curses curses _curses_panel dataclasses _datetime datetime _dbm dbm
+  _decimal decimal difflib dis distutils doctest _elementtree email
+  encodings ensurepip enum errno faulthandler fcntl filecmp fileinput
+  fnmatch fractions _frozen_importlib _frozen_importlib_external ftplib
+  _functools functools __future__ gc _gdbm genericpath getopt getpass
+  gettext glob graphlib grp gzip _hashlib hashlib _heapq heapq hmac html
+  http idlelib imaplib imghdr _imp imp importlib inspect _io io
+  ipaddress itertools _json json keyword lib2to3 linecache _locale
+  locale logging _lsprof _lzma lzma mailbox mailcap __main__ _markupbase
+  marshal math _md5 mimetypes mmap modulefinder _msi msilib msvcrt
+  _multibytecodec _multiprocessing multiprocessing netrc nis nntplib nt
+  ntpath nturl2path numbers _opcode opcode _operator operator optparse
+  os ossaudiodev _osx_support _overlapped pathlib pdb _pickle pickle
+  pickletools pipes pkgutil platform plistlib poplib posix posixpath
+  _posixshmem _posixsubprocess pprint profile pstats pty pwd _py_abc
+  py_compile pyclbr _pydecimal pydoc pydoc_data pyexpat _pyio _queue
+  queue quopri _random random re readline reprlib resource rlcompleter
+  runpy sched _scproxy secrets select selectors _sha1 _sha256 _sha3
+  _sha512 shelve shlex shutil _signal signal site _sitebuiltins smtpd
+  smtplib sndhdr _socket socket socketserver spwd _sqlite3 sqlite3 _sre
+  sre_compile sre_constants sre_parse _ssl ssl _stat stat _statistics
+  statistics _string string stringprep _strptime _struct struct
+  subprocess sunau _symtable symtable sys sysconfig syslog tabnanny
+  tarfile telnetlib tempfile termios textwrap this _thread threading
+  _threading_local time timeit _tkinter tkinter token _tokenize tokenize
+  tomllib trace traceback _tracemalloc tracemalloc tty turtle turtledemo
+  types _typing typing unicodedata unittest urllib uu _uuid uuid venv
+  _warnings warnings wave _weakref weakref _weakrefset webbrowser
+  _winapi winreg winsound wsgiref xdrlib xml xmlrpc zipapp zipfile
+  zipimport zlib _zoneinfo zoneinfo`.split(/\s+/)
+);
+
+// Import names whose distribution is published under another name
+const PYTHON_DISTRIBUTIONS: Record<string, string> = {
+  yaml: "pyyaml",
+  cv2: "opencv-python",
+  pil: "pillow",
+  sklearn: "scikit-learn",
+  bs4: "beautifulsoup4",
+  dateutil: "python-dateutil",
+  dotenv: "python-dotenv",
+  jwt: "pyjwt",
+  magic: "python-magic",
+  serial: "pyserial",
+  usb: "pyusb",
+  crypto: "pycryptodome",
+  attr: "attrs",
+  google: "protobuf",
+  skimage: "scikit-image",
+  multipart: "python-multipart",
+  jose: "python-jose",
+  docx: "python-docx",
+  git: "gitpython",
+  psycopg2: "psycopg2-binary",
+  mysqldb: "mysqlclient",
+};
+
+// Paths of the crate itself and of the language's built-in crates
+const RUST_BUILTINS = new Set([
+  "crate",
+  "self",
+  "super",
+  "std",
+  "core",
+  "alloc",
+  "proc_macro",
+  "test",
+  "Self",
+]);
+
+const MANIFEST_PARSERS = new Map<
+  string,
+  (content: string) => Omit<DependencyManifest, "path">
+>([
+  ["package.json", parsePackageJson],
+  ["requirements.txt", parseRequirementsTxt],
+  ["pyproject.toml", parsePyprojectToml],
+  ["go.mod", parseGoMod],
+  ["cargo.toml", parseCargoToml],
+]);
+
+export function isDependencyManifest(path: string): boolean {
+  const fileName = (path.split("/").pop() || "").toLowerCase();
+  return MANIFEST_PARSERS.has(fileName) && !path.includes("node_modules/");
+}
+
+// Parses a manifest by its file name; null for other files or unreadable
+// content
+export function parseManifest(
+  path: string,
+  content: string
+): DependencyManifest | null {
+  const parse = MANIFEST_PARSERS.get(
+    (path.split("/").pop() || "").toLowerCase()
+  );
+  if (!parse) return null;
+  try {
+    return { path, ...parse(content) };
+  } catch (error) {
+    console.warn(`Failed to parse ${path}:`, error);
+    return null;
+  }
+}
+
+// PEP 503 name normalization: case-insensitive, runs of -_. are equivalent
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+function parsePackageJson(content: string) {
+  const manifest = JSON.parse(content);
+  const dependencies = [
+    "dependencies",
+    "devDependencies",
+    "peerDependencies",
+    "optionalDependencies",
+  ].flatMap((field) => Object.keys(manifest[field] || {}));
+
+  // "@types/foo" and "@types/scope__name" declare typings for foo and @scope/name
+  const typed = dependencies
+    .filter((name) => name.startsWith("@types/"))
+    .map((name) => {
+      const target = name.slice("@types/".length);
+      return target.includes("__") ? `@${target.replace("__", "/")}` : target;
+    });
+
+  return {
+    ecosystem: "npm" as const,
+    dependencies: [...dependencies, ...typed],
+    localNames: typeof manifest.name === "string" ? [manifest.name] : [],
+  };
+}
+
+// "requests[socks]>=2.0 ; python_version < '3.8'" -> "requests"
+function requirementName(requirement: string): string | null {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+  return match ? normalizePythonName(match[1]) : null;
+}
+
+function parseRequirementsTxt(content: string) {
+  const dependencies = content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    // Options (-r, -e, --index-url) and direct URLs name no package
+    .filter((line) => line && !line.startsWith("-") && !line.includes("://"))
+    .map(requirementName)
+    .filter((name): name is string => name !== null);
+
+  return { ecosystem: "pip" as const, dependencies, localNames: [] };
+}
+
+// Minimal TOML reading: the [section] each line belongs to, plus the quoted
+// strings of arrays, which is all the dependency tables need
+function tomlSections(content: string): { section: string; line: string }[] {
+  let section = "";
+  return content.split("\n").flatMap((raw) => {
+    const line = raw.replace(/(^|\s)#.*$/, "").trim();
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      section = header[1].trim();
+      return [];
+    }
+    return line ? [{ section, line }] : [];
+  });
+}
+
+function tomlKey(line: string): string | null {
+  return line.match(/^["']?([A-Za-z0-9._-]+)["']?\s*=/)?.[1] ?? null;
+}
+
+function tomlString(content: string, section: string, key: string) {
+  const entry = tomlSections(content).find(
+    (entry) => entry.section === section && tomlKey(entry.line) === key
+  );
+  return entry?.line.match(/=\s*["']([^"']+)["']/)?.[1] ?? null;
+}
+
+function parsePyprojectToml(content: string) {
+  const dependencies: string[] = [];
+  let inArray = false;
+
+  for (const { section, line } of tomlSections(content)) {
+    // PEP 621: [project] dependencies = [...] and optional-dependencies
+    const isProjectArray =
+      (section === "project" && /^dependencies\s*=/.test(line)) ||
+      section === "project.optional-dependencies" ||
+      section === "dependency-groups";
+    if (isProjectArray || inArray) {
+      for (const match of line.matchAll(/["']([^"']+)["']/g)) {
+        const name = requirementName(match[1]);
+        if (name) dependencies.push(name);
+      }
+      if (line.includes("[") && !line.includes("]")) inArray = true;
+      if (line.includes("]")) inArray = false;
+      continue;
+    }
+
+    // Poetry: one key per dependency
+    if (/^tool\.poetry\.(?:dev-)?dependencies$|^tool\.poetry\.group\.[^.]+\.dependencies$/.test(section)) {
+      const key = tomlKey(line);
+      if (key && key !== "python") dependencies.push(normalizePythonName(key));
+    }
+  }
+
+  const name =
+    tomlString(content, "project", "name") ??
+    tomlString(content, "tool.poetry", "name");
+  return {
+    ecosystem: "pip" as const,
+    dependencies,
+    localNames: name ? [normalizePythonName(name)] : [],
+  };
+}
+
+function parseGoMod(content: string) {
+  const dependencies: string[] = [];
+  let modulePath: string | null = null;
+  let inRequire = false;
+
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/\/\/.*$/, "").trim();
+    const module = line.match(/^module\s+(\S+)/);
+    if (module) modulePath = module[1];
+
+    if (/^require\s*\($/.test(line)) {
+      inRequire = true;
+    } else if (inRequire && line === ")") {
+      inRequire = false;
+    } else {
+      const requirement = inRequire
+        ? line.match(/^(\S+)\s+\S+/)
+        : line.match(/^require\s+(\S+)\s+\S+/);
+      if (requirement) dependencies.push(requirement[1]);
+    }
+  }
+
+  return {
+    ecosystem: "go" as const,
+    dependencies,
+    localNames: modulePath ? [modulePath] : [],
+  };
+}
+
+function parseCargoToml(content: string) {
+  const dependencies: string[] = [];
+  const crateName = (name: string) => name.replace(/-/g, "_");
+
+  for (const { section, line } of tomlSections(content)) {
+    // [dependencies], [dev-dependencies], [target.'cfg(...)'.dependencies], ...
+    if (/(?:^|\.)(?:dev-|build-)?dependencies$/.test(section)) {
+      const key = tomlKey(line);
+      if (key) dependencies.push(crateName(key));
+    }
+  }
+  // [dependencies.serde] style tables
+  for (const match of content.matchAll(
+    /^\s*\[(?:[^\]]*\.)?(?:dev-|build-)?dependencies\.([A-Za-z0-9_-]+)\]/gm
+  )) {
+    dependencies.push(crateName(match[1]));
+  }
+
+  const name = tomlString(content, "package", "name");
+  return {
+    ecosystem: "cargo" as const,
+    dependencies,
+    localNames: name ? [crateName(name)] : [],
+  };
+}
+
+// Code an import specifier string may follow
+const SPECIFIER_PREFIXES: Partial<Record<Ecosystem, RegExp>> = {
+  npm: /(?:\bfrom|^\s*import|\b(?:require|import)\s*\()\s*$/,
+  go: /^\s*(?:import\s+)?(?:[\w.]+\s+)?$/,
+};
+
+// Blanks comments and strings so imports quoted or commented out are
+// ignored, keeping the strings that are the specifier of an import
+function importCode(code: string, language: string): string[] {
+  const tokens = tokenizeLines(code, language);
+  const specifierPrefix = SPECIFIER_PREFIXES[LANGUAGE_ECOSYSTEMS[language]];
+  return code.split("\n").map((line, i) => {
+    const lineTokens = tokens[i] || [];
+    let result = maskLine(line, lineTokens, "code", language);
+    for (const token of lineTokens) {
+      // A string continued from the previous line starts without a quote
+      if (
+        token.kind === "string" &&
+        /["'`]/.test(line[token.start]) &&
+        specifierPrefix?.test(result.slice(0, token.start))
+      ) {
+        result =
+          result.slice(0, token.start) +
+          line.slice(token.start, token.end) +
+          result.slice(token.end);
+      }
+    }
+    return result;
+  });
+}
+
+// Names a Rust file brings into scope itself: its modules and types, and the
+// items its use declarations import (Ordering in "use std::cmp::Ordering"),
+// so paths starting with them ("use Ordering::*") are not crates
+function rustLocalNames(lines: string[]): Set<string> {
+  const code = lines.join("\n");
+  const names = new Set<string>();
+  for (const match of code.matchAll(
+    /\b(?:mod|enum|struct|union|trait|type)\s+(\w+)/g
+  )) {
+    names.add(match[1]);
+  }
+  for (const declaration of code.matchAll(/\buse\s+([^;]+);/g)) {
+    for (const match of declaration[1].matchAll(
+      /(?:::|[{,]\s*)(\w+)\s*(?=[,}]|$)|\bas\s+(\w+)/g
+    )) {
+      names.add(match[1] ?? match[2]);
+    }
+  }
+  return names;
+}
+
+function scriptPackageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+export function extractImports(
+  code: string,
+  language: string
+): ImportReference[] {
+  const lines = importCode(code, language);
+  const imports: ImportReference[] = [];
+  const add = (module: string, packageName: string, index: number) =>
+    imports.push({ module, packageName, line: index + 1 });
+
+  const ecosystem = LANGUAGE_ECOSYSTEMS[language];
+  let inGoImportBlock = false;
+
+  lines.forEach((line, index) => {
+    if (ecosystem === "npm") {
+      for (const match of line.matchAll(
+        /\bfrom\s*["']([^"']+)["']|^\s*import\s*["']([^"']+)["']|\b(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g
+      )) {
+        const specifier = match[1] ?? match[2] ?? match[3];
+        add(specifier, scriptPackageName(specifier), index);
+      }
+    } else if (ecosystem === "pip") {
+      const fromImport = line.match(/^\s*from\s+([\w.]+)\s+import\b/);
+      const plainImport = line.match(/^\s*import\s+([\w.,\s]+?)\s*(?:#|$)/);
+      const modules = fromImport
+        ? [fromImport[1]]
+        : plainImport
+          ? plainImport[1].split(",").map((part) => part.trim().split(/\s+/)[0])
+          : [];
+      for (const module of modules) {
+        if (module) add(module, module.split(".")[0], index);
+      }
+    } else if (ecosystem === "go") {
+      if (/^\s*import\s*\(\s*$/.test(line)) {
+        inGoImportBlock = true;
+        return;
+      }
+      if (inGoImportBlock && /^\s*\)/.test(line)) {
+        inGoImportBlock = false;
+        return;
+      }
+      const match = inGoImportBlock
+        ? line.match(/^\s*(?:[\w.]+\s+)?"([^"]+)"/)
+        : line.match(/^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/);
+      if (match) add(match[1], match[1], index);
+    } else if (ecosystem === "cargo") {
+      const match =
+        line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(?:::)?(\w+(?:::\w+)*)/) ||
+        line.match(/^\s*extern\s+crate\s+(\w+)/);
+      if (match) add(match[1], match[1].split("::")[0], index);
+    }
+  });
+
+  return imports;
+}
+
+// File and directory names (without extensions) anywhere in the repository;
+// a bare import of one of them is a local module
+function localModuleNames(filePaths: string[]): Set<string> {
+  const names = new Set<string>();
+  for (const path of filePaths) {
+    for (const segment of path.split("/")) {
+      names.add(segment.replace(/\.[^.]*$/, ""));
+    }
+  }
+  return names;
+}
+
+function isBuiltinOrLocal(
+  reference: ImportReference,
+  ecosystem: Ecosystem,
+  localModules: Set<string>
+): boolean {
+  const { module, packageName } = reference;
+  switch (ecosystem) {
+    case "npm":
+      return (
+        module.startsWith(".") ||
+        module.startsWith("/") ||
+        // Path aliases (@/components, ~/lib, #internal) and protocol imports
+        // (node:fs, https://...)
+        /^(?:@\/|~\/|#)/.test(module) ||
+        module.includes(":") ||
+        NODE_BUILTINS.has(packageName) ||
+        localModules.has(packageName)
+      );
+    case "pip":
+      return (
+        module.startsWith(".") ||
+        PYTHON_STDLIB.has(packageName) ||
+        localModules.has(packageName)
+      );
+    case "go":
+      // Standard library paths have no domain in their first element
+      return !packageName.split("/")[0].includes(".") || packageName === "C";
+    case "cargo":
+      return RUST_BUILTINS.has(packageName) || localModules.has(packageName);
+  }
+}
+
+function isDeclared(
+  packageName: string,
+  ecosystem: Ecosystem,
+  declared: Set<string>
+): boolean {
+  switch (ecosystem) {
+    case "pip": {
+      const name = normalizePythonName(packageName);
+      return (
+        declared.has(name) ||
+        declared.has(PYTHON_DISTRIBUTIONS[packageName.toLowerCase()] ?? "") ||
+        declared.has(`python-${name}`) ||
+        declared.has(`py${name}`)
+      );
+    }
+    case "go":
+      // A required module covers every package below its path
+      return [...declared].some(
+        (path) => packageName === path || packageName.startsWith(`${path}/`)
+      );
+    default:
+      return declared.has(packageName);
+  }
+}
+
+// Imports in the file that no manifest of its ecosystem accounts for. Files
+// whose ecosystem has no manifest in the repository are not checked.
+export function findUndeclaredImports(
+  code: string,
+  language: string,
+  project: ProjectContext
+): UndeclaredImport[] {
+  const ecosystem = LANGUAGE_ECOSYSTEMS[language];
+  if (!ecosystem) return [];
+
+  const manifests = project.manifests.filter(
+    (manifest) => manifest.ecosystem === ecosystem
+  );
+  if (manifests.length === 0) return [];
+
+  const declared = new Set(
+    manifests.flatMap((manifest) => [
+      ...manifest.dependencies,
+      ...manifest.localNames,
+    ])
+  );
+  const localModules = localModuleNames(project.filePaths);
+  if (ecosystem === "cargo") {
+    for (const name of rustLocalNames(importCode(code, language))) {
+      localModules.add(name);
+    }
+  }
+
+  const seen = new Set<string>();
+  return extractImports(code, language)
+    .filter(
+      (reference) =>
+        !isBuiltinOrLocal(reference, ecosystem, localModules) &&
+        !isDeclared(reference.packageName, ecosystem, declared)
+    )
+    .filter((reference) => {
+      // Report each package once, at its first import
+      if (seen.has(reference.packageName)) return false;
+      seen.add(reference.packageName);
+      return true;
+    })
+    .map((reference) => ({ ...reference, ecosystem }));
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDiff, parseUnifiedDiff } from "./diffAnalysis";
+
+const GIT_DIFF = [
+  "diff --git a/src/app.py b/src/app.py",
+  "index 83db48f..bf269f4 100644",
+  "--- a/src/app.py",
+  "+++ b/src/app.py",
+  "@@ -1,3 +1,4 @@ def main():",
+  " import os",
+  "-x = 1",
+  "+x = 2",
+  "+y = 3",
+  "",
+  "diff --git a/old.txt b/old.txt",
+  "deleted file mode 100644",
+  "--- a/old.txt",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-gone",
+  "\\ No newline at end of file",
+].join("\n");
+
+describe("parseUnifiedDiff", () => {
+  it("reads files, hunk headers and line numbers on both sides", () => {
+    const [app, old] = parseUnifiedDiff(GIT_DIFF);
+
+    expect(app).toMatchObject({ oldPath: "src/app.py", newPath: "src/app.py", path: "src/app.py" });
+    expect(app.hunks).toHaveLength(1);
+    expect(app.hunks[0]).toMatchObject({
+      header: "@@ -1,3 +1,4 @@ def main():",
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 4,
+    });
+    expect(app.hunks[0].lines).toEqual([
+      { kind: "context", content: "import os", oldLine: 1, newLine: 1 },
+      { kind: "removed", content: "x = 1", oldLine: 2, newLine: null },
+      { kind: "added", content: "x = 2", oldLine: null, newLine: 2 },
+      { kind: "added", content: "y = 3", oldLine: null, newLine: 3 },
+      // An empty context line whose leading space was stripped
+      { kind: "context", content: "", oldLine: 3, newLine: 4 },
+    ]);
+
+    expect(old).toMatchObject({ oldPath: "old.txt", newPath: null, path: "old.txt" });
+    expect(old.hunks[0].lines).toEqual([
+      { kind: "removed", content: "gone", oldLine: 1, newLine: null },
+    ]);
+  });
+
+  it("reads plain diffs without git headers and CRLF line endings", () => {
+    const diff = [
+      "--- /dev/null\t2024-01-01",
+      "+++ b/new.js\t2024-01-02",
+      "@@ -0,0 +1 @@",
+      "+const a = 1;",
+    ].join("\r\n");
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      {
+        oldPath: null,
+        newPath: "new.js",
+        path: "new.js",
+        hunks: [
+          {
+            header: "@@ -0,0 +1 @@",
+            oldStart: 0,
+            oldLines: 0,
+            newStart: 1,
+            newLines: 1,
+            lines: [{ kind: "added", content: "const a = 1;", oldLine: null, newLine: 1 }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("uses the hunk counts to tell a removed '-- ' line from a file header", () => {
+    const diff = [
+      "--- a/query.sql",
+      "+++ b/query.sql",
+      "@@ -1,2 +1 @@",
+      "--- old comment",
+      "+++ new comment",
+      "-SELECT 1;",
+    ].join("\n");
+    const [file] = parseUnifiedDiff(diff);
+
+    expect(file.hunks[0].lines.map((line) => [line.kind, line.content])).toEqual([
+      ["removed", "-- old comment"],
+      ["added", "++ new comment"],
+      ["removed", "SELECT 1;"],
+    ]);
+  });
+
+  it("drops files without hunks, such as binary changes", () => {
+    const diff = [
+      "diff --git a/logo.png b/logo.png",
+      "Binary files a/logo.png and b/logo.png differ",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(diff)).toEqual([]);
+  });
+});
+
+describe("analyzeDiff", () => {
+  it("scores only the added lines", async () => {
+    const result = await analyzeDiff(GIT_DIFF, { ngramModel: null });
+    const [app] = result.files;
+
+    expect(app.language).toBe("python");
+    expect(app.addedLines).toBe(2);
+    expect(app.hunks[0].lines.map((line) => line.analysis !== null)).toEqual([
+      false,
+      false,
+      true,
+      true,
+      false,
+    ]);
+    expect(result.addedLines).toBe(2);
+  });
+
+  it("rejects input that holds no file changes", async () => {
+    await expect(analyzeDiff("just some text")).rejects.toThrow(
+      "No file changes found; expected a unified diff"
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { analyzeCode } from "./aiDetection";
+import type { AnalysisOptions, LineAnalysis } from "./aiDetection";
+import { detectLanguage, getLanguageFromPath } from "./languageDetection";
+
+// Analyzes what a unified diff adds. Each hunk's new side (context plus added
+// lines) is analyzed so rules and smoothing see the surrounding code, but
+// only the added lines are scored and counted.
+
+export type DiffLineKind = "added" | "removed" | "context";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  // Without the leading +, - or space
+  content: string;
+  // Line numbers from the hunk header; null on the side the line is absent
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  // "@@ -10,7 +10,9 @@ function name"
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  // null for added (old) or deleted (new) files
+  oldPath: string | null;
+  newPath: string | null;
+  // The new path, or the old one for deleted files
+  path: string;
+  hunks: DiffHunk[];
+}
+
+export interface DiffStats {
+  // Non-empty added lines
+  addedLines: number;
+  aiLines: number;
+  humanLines: number;
+  uncertainLines: number;
+  aiPercentage: number;
+  humanPercentage: number;
+  uncertainPercentage: number;
+  overallConfidence: number;
+}
+
+export interface DiffLineAnalysis extends DiffLine {
+  // Set for added lines only
+  analysis: LineAnalysis | null;
+}
+
+export interface DiffHunkAnalysis extends Omit<DiffHunk, "lines"> {
+  lines: DiffLineAnalysis[];
+}
+
+export interface DiffFileAnalysis extends DiffStats {
+  path: string;
+  language: string;
+  hunks: DiffHunkAnalysis[];
+}
+
+export interface DiffAnalysis extends DiffStats {
+  files: DiffFileAnalysis[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// "a/src/x.ts" -> "src/x.ts"; null for /dev/null
+function diffPath(raw: string): string | null {
+  const path = raw.replace(/\t.*$/, "").trim();
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+}
+
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  let file: DiffFile | null = null;
+
+  const startFile = (oldPath: string | null, newPath: string | null) => {
+    const started: DiffFile = {
+      oldPath,
+      newPath,
+      path: newPath ?? oldPath ?? "",
+      hunks: [],
+    };
+    files.push(started);
+    return started;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitHeader) {
+      file = startFile(gitHeader[1], gitHeader[2]);
+      continue;
+    }
+
+    // ---/+++ pair: completes a git header or starts a plain diff
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = diffPath(line.slice(4));
+      const newPath = diffPath(lines[i + 1].slice(4));
+      if (file && file.hunks.length === 0) {
+        file.oldPath = oldPath;
+        file.newPath = newPath;
+        file.path = newPath ?? oldPath ?? file.path;
+      } else {
+        file = startFile(oldPath, newPath);
+      }
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (!header || !file) continue;
+
+    const hunk: DiffHunk = {
+      header: line,
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    file.hunks.push(hunk);
+
+    // The header's counts say where the hunk ends, so a removed line that
+    // reads "-- " is not mistaken for a file header
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+    while (
+      (oldLine < hunk.oldStart + hunk.oldLines ||
+        newLine < hunk.newStart + hunk.newLines) &&
+      i + 1 < lines.length
+    ) {
+      const body = lines[++i];
+      if (body.startsWith("\\")) continue; // "\ No newline at end of file"
+      const marker = body[0];
+      const content = body.slice(1);
+      if (marker === "+") {
+        hunk.lines.push({ kind: "added", content, oldLine: null, newLine });
+        newLine++;
+      } else if (marker === "-") {
+        hunk.lines.push({ kind: "removed", content, oldLine, newLine: null });
+        oldLine++;
+      } else {
+        // Editors often strip the space of empty context lines
+        hunk.lines.push({ kind: "context", content, oldLine, newLine });
+        oldLine++;
+        newLine++;
+      }
+    }
+  }
+
+  return files.filter((f) => f.hunks.length > 0);
+}
+
+function statsFor(lines: LineAnalysis[]): DiffStats {
+  const scored = lines.filter((line) => line.content.trim());
+  const addedLines = scored.length;
+  const aiLines = scored.filter((line) => line.verdict === "ai").length;
+  const humanLines = scored.filter((line) => line.verdict === "human").length;
+  const uncertainLines = addedLines - aiLines - humanLines;
+  const percentage = (count: number) =>
+    addedLines > 0 ? (count / addedLines) * 100 : 0;
+
+  return {
+    addedLines,
+    aiLines,
+    humanLines,
+    uncertainLines,
+    aiPercentage: percentage(aiLines),
+    humanPercentage: percentage(humanLines),
+    uncertainPercentage: percentage(uncertainLines),
+    overallConfidence:
+      addedLines > 0
+        ? scored.reduce((sum, line) => sum + line.confidence, 0) / addedLines
+        : 0.5,
+  };
+}
+
+export async function analyzeDiff(
+  diff: string,
+  options: AnalysisOptions = {}
+): Promise<DiffAnalysis> {
+  const files = parseUnifiedDiff(diff);
+  if (files.length === 0) {
+    throw new Error("No file changes found; expected a unified diff");
+  }
+  // One diff is one analysis; don't wait once per hunk
+  const hunkOptions = { ...options, simulateDelay: false };
+
+  const analyzedFiles: DiffFileAnalysis[] = [];
+  for (const file of files) {
+    const newSide = (hunk: DiffHunk) =>
+      hunk.lines.filter((line) => line.kind !== "removed");
+
+    let language = getLanguageFromPath(file.path);
+    if (language === "text") {
+      const added = file.hunks.flatMap(newSide).map((line) => line.content);
+      language = detectLanguage(added.join("\n"), file.path).language;
+    }
+
+    const hunks: DiffHunkAnalysis[] = [];
+    for (const hunk of file.hunks) {
+      const context = newSide(hunk);
+      const result = await analyzeCode(
+        context.map((line) => line.content).join("\n"),
+        language,
+        hunkOptions
+      );
+      const byLine = new Map(
+        context.map((line, index) => [line, result.lineAnalysis[index]])
+      );
+      hunks.push({
+        ...hunk,
+        lines: hunk.lines.map((line) => ({
+          ...line,
+          analysis: line.kind === "added" ? byLine.get(line) ?? null : null,
+        })),
+      });
+    }
+
+    const added = hunks.flatMap((hunk) =>
+      hunk.lines.flatMap((line) => (line.analysis ? [line.analysis] : []))
+    );
+    analyzedFiles.push({
+      path: file.path,
+      language,
+      hunks,
+      ...statsFor(added),
+    });
+  }
+
+  const allAdded = analyzedFiles.flatMap((file) =>
+    file.hunks.flatMap((hunk) =>
+      hunk.lines.flatMap((line) => (line.analysis ? [line.analysis] : []))
+    )
+  );
+  return { files: analyzedFiles, ...statsFor(allAdded) };
+}
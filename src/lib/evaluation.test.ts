@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult } from "./aiDetection";
+import {
+  checkThresholds,
+  computeMetrics,
+  computeRocAuc,
+  fileScore,
+} from "./evaluation";
+import type { EvaluationReport } from "./evaluation";
+
+function analysis(aiLines: number, humanLines: number) {
+  return { aiLines, humanLines } as AnalysisResult;
+}
+
+describe("fileScore", () => {
+  it("is the share of decided lines that are AI", () => {
+    expect(fileScore(analysis(3, 1))).toBe(0.75);
+  });
+
+  it("is 0.5 when no line was decided", () => {
+    expect(fileScore(analysis(0, 0))).toBe(0.5);
+  });
+});
+
+describe("computeRocAuc", () => {
+  it("is 1 when every AI sample outscores every human one", () => {
+    expect(
+      computeRocAuc([
+        { score: 0.9, isAI: true },
+        { score: 0.6, isAI: true },
+        { score: 0.4, isAI: false },
+      ])
+    ).toBe(1);
+  });
+
+  it("counts ties as half a win", () => {
+    expect(
+      computeRocAuc([
+        { score: 0.5, isAI: true },
+        { score: 0.5, isAI: false },
+      ])
+    ).toBe(0.5);
+  });
+
+  it("is NaN with only one class", () => {
+    expect(computeRocAuc([{ score: 0.9, isAI: true }])).toBeNaN();
+  });
+});
+
+describe("computeMetrics", () => {
+  const metrics = computeMetrics([
+    { score: 0.9, isAI: true },
+    { score: 0.2, isAI: true },
+    { score: 0.7, isAI: false },
+    { score: 0.1, isAI: false },
+  ]);
+
+  it("fills the confusion matrix at the 0.5 threshold", () => {
+    expect(metrics.confusionMatrix).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      trueNegatives: 1,
+      falseNegatives: 1,
+    });
+  });
+
+  it("derives accuracy, precision, recall, specificity, F1 and ROC-AUC", () => {
+    expect(metrics).toMatchObject({
+      sampleCount: 4,
+      accuracy: 0.5,
+      precision: 0.5,
+      recall: 0.5,
+      specificity: 0.5,
+      f1: 0.5,
+      rocAuc: 0.75,
+    });
+  });
+
+  it("measures each class's recall separately", () => {
+    const allAI = computeMetrics([
+      { score: 0.9, isAI: true },
+      { score: 0.8, isAI: false },
+      { score: 0.7, isAI: false },
+    ]);
+
+    expect(allAI.recall).toBe(1);
+    expect(allAI.specificity).toBe(0);
+  });
+
+  it("reports 0 rather than NaN when nothing is predicted AI", () => {
+    const none = computeMetrics([{ score: 0.1, isAI: true }]);
+
+    expect(none.precision).toBe(0);
+    expect(none.f1).toBe(0);
+  });
+});
+
+describe("checkThresholds", () => {
+  const report: EvaluationReport = {
+    overall: computeMetrics([
+      { score: 0.9, isAI: true },
+      { score: 0.1, isAI: false },
+    ]),
+    byLanguage: {
+      go: computeMetrics([{ score: 0.9, isAI: true }]),
+    },
+    files: [],
+  };
+
+  it("passes when every metric meets its minimum", () => {
+    expect(
+      checkThresholds(report, { overall: { accuracy: 1, rocAuc: 1 } })
+    ).toEqual([]);
+  });
+
+  it("describes metrics below their minimum", () => {
+    expect(
+      checkThresholds(report, { byLanguage: { go: { accuracy: 1, rocAuc: 0.5 } } })
+    ).toEqual(["go rocAuc n/a is below 0.5"]);
+  });
+
+  it("fails languages missing from the report", () => {
+    expect(
+      checkThresholds(report, { byLanguage: { rust: { accuracy: 0.5 } } })
+    ).toEqual(["rust accuracy n/a is below 0.5"]);
+  });
+});
@@ -0,0 +1,189 @@
+import { analyzeCode } from "./aiDetection";
+import type { AnalysisOptions, AnalysisResult } from "./aiDetection";
+import type { LabeledSource } from "./calibration";
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+// AI is the positive class throughout
+export interface ClassificationMetrics {
+  sampleCount: number;
+  accuracy: number;
+  precision: number;
+  // Share of AI samples classified AI
+  recall: number;
+  // Share of human samples classified human, the recall of the human class
+  specificity: number;
+  f1: number;
+  // NaN when only one class is present
+  rocAuc: number;
+  confusionMatrix: ConfusionMatrix;
+}
+
+export interface FileEvaluation {
+  path?: string;
+  language: string;
+  isAI: boolean;
+  score: number;
+  predictedAI: boolean;
+}
+
+export interface EvaluationReport {
+  overall: ClassificationMetrics;
+  byLanguage: Record<string, ClassificationMetrics>;
+  files: FileEvaluation[];
+}
+
+export type MetricThresholds = Partial<
+  Pick<
+    ClassificationMetrics,
+    "accuracy" | "precision" | "recall" | "specificity" | "f1" | "rocAuc"
+  >
+>;
+
+// Minimum scores a detector change must keep, overall and per language
+export interface EvaluationThresholds {
+  overall?: MetricThresholds;
+  byLanguage?: Record<string, MetricThresholds>;
+}
+
+interface ScoredSample {
+  score: number;
+  isAI: boolean;
+}
+
+// Share of the decided (non-uncertain) lines that are AI; 0.5 if none are
+export function fileScore(analysis: AnalysisResult): number {
+  const decidedLines = analysis.aiLines + analysis.humanLines;
+  return decidedLines > 0 ? analysis.aiLines / decidedLines : 0.5;
+}
+
+export function computeMetrics(
+  samples: ScoredSample[],
+  threshold: number = 0.5
+): ClassificationMetrics {
+  const confusionMatrix: ConfusionMatrix = {
+    truePositives: 0,
+    falsePositives: 0,
+    trueNegatives: 0,
+    falseNegatives: 0,
+  };
+
+  for (const sample of samples) {
+    const predictedAI = sample.score >= threshold;
+    if (predictedAI && sample.isAI) confusionMatrix.truePositives++;
+    else if (predictedAI) confusionMatrix.falsePositives++;
+    else if (sample.isAI) confusionMatrix.falseNegatives++;
+    else confusionMatrix.trueNegatives++;
+  }
+
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } =
+    confusionMatrix;
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    sampleCount: samples.length,
+    accuracy: ratio(truePositives + trueNegatives, samples.length),
+    precision,
+    recall,
+    specificity: ratio(trueNegatives, trueNegatives + falsePositives),
+    f1: ratio(2 * precision * recall, precision + recall),
+    rocAuc: computeRocAuc(samples),
+    confusionMatrix,
+  };
+}
+
+// Probability that a random AI sample outscores a random human one (ties
+// count half), which equals the area under the ROC curve
+export function computeRocAuc(samples: ScoredSample[]): number {
+  const positives = samples.filter((sample) => sample.isAI);
+  const negatives = samples.filter((sample) => !sample.isAI);
+  if (positives.length === 0 || negatives.length === 0) return NaN;
+
+  let wins = 0;
+  for (const positive of positives) {
+    for (const negative of negatives) {
+      if (positive.score > negative.score) wins += 1;
+      else if (positive.score === negative.score) wins += 0.5;
+    }
+  }
+
+  return wins / (positives.length * negatives.length);
+}
+
+export async function evaluateCorpus(
+  sources: LabeledSource[],
+  options: AnalysisOptions = {}
+): Promise<EvaluationReport> {
+  const files: FileEvaluation[] = [];
+
+  for (const source of sources) {
+    const analysis = await analyzeCode(source.code, source.language, {
+      simulateDelay: false,
+      ...options,
+    });
+    const score = fileScore(analysis);
+    files.push({
+      path: source.path,
+      language: source.language,
+      isAI: source.isAI,
+      score,
+      predictedAI: score >= 0.5,
+    });
+  }
+
+  const byLanguage: Record<string, ClassificationMetrics> = {};
+  for (const language of new Set(files.map((file) => file.language))) {
+    byLanguage[language] = computeMetrics(
+      files.filter((file) => file.language === language)
+    );
+  }
+
+  return { overall: computeMetrics(files), byLanguage, files };
+}
+
+// Describes every metric that fell below its threshold; empty when all pass
+export function checkThresholds(
+  report: EvaluationReport,
+  thresholds: EvaluationThresholds
+): string[] {
+  const failures: string[] = [];
+
+  const check = (
+    label: string,
+    metrics: ClassificationMetrics | undefined,
+    minimums: MetricThresholds = {}
+  ) => {
+    for (const [metric, minimum] of Object.entries(minimums)) {
+      const value = metrics?.[metric as keyof MetricThresholds];
+      // NaN (e.g. ROC-AUC without both classes) never passes
+      if (value === undefined || !(value >= minimum)) {
+        failures.push(
+          `${label} ${metric} ${formatMetric(value)} is below ${minimum}`
+        );
+      }
+    }
+  };
+
+  check("overall", report.overall, thresholds.overall);
+  for (const [language, minimums] of Object.entries(
+    thresholds.byLanguage || {}
+  )) {
+    check(language, report.byLanguage[language], minimums);
+  }
+
+  return failures;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function formatMetric(value: number | undefined): string {
+  return value === undefined || Number.isNaN(value) ? "n/a" : value.toFixed(3);
+}
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analyzeGitHubRepository, parseGitHubUrl } from "./githubAnalyzer";
+
+// Serves canned GitHub API responses by URL suffix; anything else is a 404
+function stubGitHub(routes: Record<string, unknown>) {
+  vi.stubGlobal("fetch", async (url: string) => {
+    const path = url.replace("https://api.github.com/repos/o/r", "");
+    const match = Object.keys(routes).find((route) => path === route || path.startsWith(`${route}?`));
+    if (match === undefined) {
+      return { ok: false, status: 404, statusText: "Not Found", json: async () => ({}), text: async () => "" };
+    }
+    const body = routes[match];
+    return {
+      ok: true,
+      status: 200,
+      json: async () => body,
+      text: async () => (typeof body === "string" ? body : JSON.stringify(body)),
+    };
+  });
+}
+
+const PATCH = [
+  "@@ -1,2 +1,3 @@",
+  " import { sum } from './math';",
+  "+export const total = (items) => sum(items);",
+  " export default total;",
+].join("\n");
+
+function commit(sha: string, message: string) {
+  const person = { name: "Dev", email: "dev@example.com", date: "2024-03-01T10:00:00Z" };
+  return { sha, html_url: `https://github.com/o/r/commit/${sha}`, commit: { message, author: person, committer: person } };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("analyzeGitHubRepository with a pull request URL", () => {
+  const body = [
+    "This fixes the totals on the checkout page, which were off by one when the cart was empty.",
+    "",
+    "I tested it by hand with an empty cart and with three items.",
+  ].join("\n");
+
+  it("scores the title without the long-message rule and the body as prose", async () => {
+    stubGitHub({
+      "/pulls/7": {
+        number: 7,
+        title: "Fix checkout totals for empty carts and carts with a single discounted item in them",
+        body,
+        html_url: "https://github.com/o/r/pull/7",
+        state: "closed",
+        merged_at: "2024-03-02T00:00:00Z",
+        user: { login: "dev" },
+        base: { ref: "main" },
+        head: { ref: "fix-totals", sha: "abcdef1234567" },
+        changed_files: 2,
+      },
+      "/pulls/7/files": [
+        { filename: "src/total.js", status: "modified", additions: 1, deletions: 0, patch: PATCH },
+        { filename: "logo.png", status: "added", additions: 1, deletions: 0 },
+      ],
+      "/pulls/7/commits": [commit("c1", "fix totals")],
+      "/commits/c1": {
+        ...commit("c1", "fix totals"),
+        stats: { additions: 1, deletions: 0, total: 1 },
+        files: [{ filename: "src/total.js", status: "modified", additions: 1, deletions: 0, patch: PATCH }],
+      },
+    });
+
+    const result = await analyzeGitHubRepository("https://github.com/o/r/pull/7");
+    const pullRequest = result.pullRequest!;
+
+    expect(pullRequest.state).toBe("merged");
+    expect(pullRequest.titleAnalysis.reasons.map((reason) => reason.ruleId)).not.toContain(
+      "commit/long-message"
+    );
+    expect(pullRequest.bodyAnalysis!.totalSentences).toBe(2);
+    expect(pullRequest.skippedFiles).toEqual(["logo.png"]);
+    expect(pullRequest.stats.addedLines).toBe(1);
+    expect(pullRequest.commits.map((c) => [c.sha, c.diff?.addedLines])).toEqual([["c1", 1]]);
+    expect(result.listingComplete).toBe(true);
+  });
+});
+
+describe("parseGitHubUrl", () => {
+  it("reads a pull request URL", () => {
+    expect(parseGitHubUrl("https://github.com/o/r/pull/42/files")).toEqual({
+      kind: "pull",
+      owner: "o",
+      repo: "r",
+      number: 42,
+    });
+  });
+
+  it("reads a repository URL without a tree", () => {
+    expect(parseGitHubUrl("https://github.com/o/r")).toEqual({ kind: "repository", owner: "o", repo: "r" });
+  });
+
+  it("decodes the segments after /tree/ and ignores the query and fragment", () => {
+    expect(parseGitHubUrl("https://github.com/o/r/tree/feature%2Bx/login/src/?tab=readme#top")).toEqual({
+      kind: "repository",
+      owner: "o",
+      repo: "r",
+      treeSegments: ["feature+x", "login", "src"],
+    });
+  });
+
+  it("rejects URLs that are not on GitHub", () => {
+    expect(() => parseGitHubUrl("https://gitlab.com/o/r")).toThrow("Invalid GitHub repository URL");
+  });
+});
+
+describe("analyzeGitHubRepository with a tree URL", () => {
+  it("takes the shortest ref GitHub resolves and analyzes only the subtree at that commit", async () => {
+    stubGitHub({
+      // "feature" alone is not a ref, "feature/login" is
+      "/commits/feature%2Flogin": "abc123",
+      "/git/trees/abc123": { tree: [{ path: "src", type: "tree", sha: "srcsha" }], truncated: false },
+      "/git/trees/srcsha": { tree: [{ path: "app.py", type: "blob", sha: "f1", size: 24 }], truncated: false },
+      "https://raw.githubusercontent.com/o/r/abc123/src/app.py": "def add(a, b):\n    return a + b\n",
+    });
+
+    const result = await analyzeGitHubRepository("https://github.com/o/r/tree/feature/login/src", undefined, false);
+
+    expect(result.scope).toEqual({ ref: "feature/login", sha: "abc123", path: "src" });
+    expect(result.totalBranches).toBe(1);
+    expect(result.files.map((file) => [file.path, file.language])).toEqual([["src/app.py", "python"]]);
+    expect(result.isForked).toBe(false);
+  });
+
+  it("fails when no leading part of the path is a ref", async () => {
+    stubGitHub({});
+
+    await expect(analyzeGitHubRepository("https://github.com/o/r/tree/nope/src")).rejects.toThrow(
+      "No branch, tag or commit of o/r matches nope/src"
+    );
+  });
+});
+
+describe("analyzeGitHubRepository with a repository URL", () => {
+  it("finds platform instruction files in skipped directories from the tree listing", async () => {
+    stubGitHub({
+      "": { default_branch: "main", fork: false },
+      "/branches": [{ name: "main", commit: { sha: "head1" } }],
+      "/git/trees/head1": {
+        tree: [
+          { path: ".github", type: "tree", sha: "gh" },
+          { path: ".github/copilot-instructions.md", type: "blob", sha: "c1", size: 40 },
+          { path: ".github/workflows/ci.yml", type: "blob", sha: "c2", size: 40 },
+          { path: "app.py", type: "blob", sha: "a1", size: 24 },
+        ],
+        truncated: false,
+      },
+      "https://raw.githubusercontent.com/o/r/head1/app.py": "def add(a, b):\n    return a + b\n",
+    });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await analyzeGitHubRepository("https://github.com/o/r", undefined, false);
+
+    expect(result.files.map((file) => file.path)).toEqual(["app.py"]);
+    expect(result.platforms.find((platform) => platform.id === "copilot")?.evidence).toContainEqual(
+      expect.objectContaining({ detail: ".github/copilot-instructions.md" })
+    );
+    expect(error).not.toHaveBeenCalled();
+  });
+});
+
+describe("analyzeGitHubRepository with a truncated tree listing", () => {
+  it("walks subtrees one by one, skipping skipped directories, and flags a failed subtree", async () => {
+    stubGitHub({
+      "": { default_branch: "main", fork: false },
+      "/branches": [{ name: "main", commit: { sha: "head1" } }],
+      "/git/trees/head1?recursive=1": { tree: [], truncated: true },
+      "/git/trees/head1": {
+        tree: [
+          { path: "app.py", type: "blob", sha: "a1", size: 24 },
+          { path: "src", type: "tree", sha: "srcsha" },
+          { path: "node_modules", type: "tree", sha: "modulessha" },
+          // Not served, so listing it fails
+          { path: "lib", type: "tree", sha: "libsha" },
+        ],
+        truncated: false,
+      },
+      "/git/trees/srcsha": { tree: [{ path: "util.py", type: "blob", sha: "u1", size: 24 }], truncated: false },
+      "https://raw.githubusercontent.com/o/r/head1/app.py": "def add(a, b):\n    return a + b\n",
+      "https://raw.githubusercontent.com/o/r/head1/src/util.py": "def sub(a, b):\n    return a - b\n",
+    });
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await analyzeGitHubRepository("https://github.com/o/r", undefined, false);
+    const requested = fetchSpy.mock.calls.map(([url]) => String(url));
+
+    expect(result.files.map((file) => file.path).sort()).toEqual(["app.py", "src/util.py"]);
+    expect(requested).toContain("https://api.github.com/repos/o/r/git/trees/srcsha?recursive=1");
+    expect(requested.some((url) => url.includes("modulessha"))).toBe(false);
+    expect(result.listingComplete).toBe(false);
+  });
+});
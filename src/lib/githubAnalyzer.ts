@@ -1,11 +1,39 @@
-import { analyzeCode } from './aiDetection';
-import type { AnalysisResult, LineAnalysis } from './aiDetection';
+import { analyzeCode, findMatchSpans, hasReason } from './aiDetection';
+import type { AnalysisResult, DetectionReason, LineAnalysis } from './aiDetection';
+import { analyzeDiff } from './diffAnalysis';
+import type { DiffAnalysis, DiffFileAnalysis, DiffStats } from './diffAnalysis';
+import { findUndeclaredImports, isDependencyManifest, parseManifest } from './dependencyCheck';
+import type { DependencyManifest, UndeclaredImport } from './dependencyCheck';
+import { detectLanguage, getLanguageFromPath } from './languageDetection';
+import { analyzeNotebook, isNotebookFile } from './notebookAnalysis';
+import type { NotebookAnalysis } from './notebookAnalysis';
+import { detectPlatforms } from './platformFingerprints';
+import type { DetectedPlatform } from './platformFingerprints';
+import { analyzeProse, isProseFile } from './proseAnalysis';
+import type { ProseAnalysis } from './proseAnalysis';
+import { INVISIBLE_CHARACTERS } from './unicodeForensics';
 
 export interface FileAnalysis {
   path: string;
   language: string;
   analysis: AnalysisResult;
   size: number;
+  // Imports of packages the repository's manifests don't declare
+  undeclaredImports: UndeclaredImport[];
+}
+
+// A Jupyter notebook with results per cell
+export interface NotebookFileAnalysis {
+  path: string;
+  analysis: NotebookAnalysis;
+  size: number;
+}
+
+// A README or documentation file, judged sentence by sentence
+export interface DocumentAnalysis {
+  path: string;
+  analysis: ProseAnalysis;
+  size: number;
 }
 
 export interface CommitAnalysis {
@@ -28,10 +56,46 @@ export interface CommitAnalysis {
   };
   isAI: boolean;
   confidence: number;
-  reasons: string[];
+  reasons: DetectionReason[];
   url: string;
 }
 
+// A commit of a pull request, with the added lines of its own changes scored
+export interface PullRequestCommit extends CommitAnalysis {
+  // null when the commit adds no analyzeable lines
+  diff: DiffStats | null;
+}
+
+export interface PullRequestAnalysis {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: string;
+  state: 'open' | 'closed' | 'merged';
+  baseRef: string;
+  headRef: string;
+  headSha: string;
+  // The title, judged like a commit subject but without the length check
+  titleAnalysis: {
+    isAI: boolean;
+    confidence: number;
+    reasons: DetectionReason[];
+  };
+  // The body, judged sentence by sentence like documentation; null when the
+  // pull request has no description
+  bodyAnalysis: ProseAnalysis | null;
+  changedFiles: number;
+  // Changed files whose added lines were scored
+  files: DiffFileAnalysis[];
+  // Changed files with additions that were not scored: no patch (binary or
+  // too large), excluded paths, documentation and notebooks
+  skippedFiles: string[];
+  // Over the added lines of all scored files
+  stats: DiffStats;
+  commits: PullRequestCommit[];
+}
+
 export interface ContributorStats {
   name: string;
   email: string;
@@ -55,6 +119,23 @@ export interface TimelineStats {
   contributors: string[];
 }
 
+// The ref and subdirectory of a /tree/ URL, pinned to the commit the ref
+// resolved to so the analysis can be repeated
+export interface RepositoryScope {
+  // Branch, tag or SHA as written in the URL
+  ref: string;
+  sha: string;
+  // Subdirectory; '' for the whole tree
+  path: string;
+}
+
+// What an analysis URL points at. For /tree/ URLs treeSegments holds the
+// decoded path after /tree/; which leading part is the ref is only known
+// once GitHub resolves it.
+export type GitHubUrl =
+  | { kind: 'pull'; owner: string; repo: string; number: number }
+  | { kind: 'repository'; owner: string; repo: string; treeSegments?: string[] };
+
 export interface RepositoryAnalysis {
   repositoryUrl: string;
   originalRepositoryUrl?: string;
@@ -62,16 +143,41 @@ export interface RepositoryAnalysis {
   totalFiles: number;
   analyzedFiles: number;
   totalBranches: number;
+  // False when some directories could not be listed, so files may be missing
+  listingComplete: boolean;
+  // Set for /tree/<ref>/<path> URLs; only that ref and subtree are analyzed
+  scope?: RepositoryScope;
   files: FileAnalysis[];
+  // Notebooks; their code cells count towards overallStats
+  notebooks: NotebookFileAnalysis[];
+  // Markdown and text files, reported apart from the code
+  documents: DocumentAnalysis[];
+  documentStats: {
+    totalSentences: number;
+    aiSentences: number;
+    humanSentences: number;
+    uncertainSentences: number;
+    aiPercentage: number;
+    humanPercentage: number;
+    uncertainPercentage: number;
+  };
   overallStats: {
     totalLines: number;
     aiLines: number;
     humanLines: number;
+    uncertainLines: number;
     aiPercentage: number;
     humanPercentage: number;
+    uncertainPercentage: number;
     overallConfidence: number;
   };
-  hasLovableLabel: boolean;
+  // AI coding platforms and agents the repository shows traces of
+  platforms: DetectedPlatform[];
+  // Paths of the manifests imports were checked against
+  dependencyManifests: string[];
+  // Set for pull request URLs; the report then covers the pull request's
+  // changes and commits instead of the repository's trees
+  pullRequest?: PullRequestAnalysis;
   commitAnalysis?: {
     totalCommits: number;
     commits: CommitAnalysis[];
@@ -93,6 +199,22 @@ interface GitHubFile {
   branch?: string;
 }
 
+interface GitHubTreeEntry {
+  // Relative to the listed tree
+  path: string;
+  // 'commit' entries are submodules
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  // Blobs only
+  size?: number;
+}
+
+interface GitHubTree {
+  sha: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+}
+
 interface GitHubBranch {
   name: string;
   commit: {
@@ -129,52 +251,52 @@ interface GitHubCommit {
     deletions: number;
     total: number;
   };
+  // Only in single-commit responses
+  files?: GitHubChangedFile[];
 }
 
-// Language detection based on file extensions
-const LANGUAGE_MAP: Record<string, string> = {
-  '.js': 'javascript',
-  '.jsx': 'jsx',
-  '.ts': 'typescript',
-  '.tsx': 'tsx',
-  '.py': 'python',
-  '.java': 'java',
-  '.cpp': 'cpp',
-  '.cc': 'cpp',
-  '.cxx': 'cpp',
-  '.c++': 'cpp',
-  '.cs': 'csharp',
-  '.go': 'go',
-  '.rs': 'rust',
-  '.php': 'php',
-  '.rb': 'ruby',
-  '.swift': 'swift',
-  '.kt': 'kotlin',
-  '.scala': 'scala',
-  '.sh': 'bash',
-  '.sql': 'sql',
-  '.html': 'html',
-  '.css': 'css',
-  '.scss': 'scss',
-  '.sass': 'sass',
-  '.json': 'json',
-  '.yaml': 'yaml',
-  '.yml': 'yaml',
-  '.xml': 'xml',
-  '.md': 'markdown'
-};
+// A file in a pull request or commit; patch holds the hunks without the
+// diff headers and is missing for binary and very large changes
+interface GitHubChangedFile {
+  filename: string;
+  previous_filename?: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
 
-function getLanguageFromPath(filePath: string): string {
-  const ext = filePath.toLowerCase().match(/\.[^.]*$/)?.[0];
-  return ext ? LANGUAGE_MAP[ext] || 'text' : 'text';
+interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged_at: string | null;
+  user: {
+    login: string;
+  };
+  base: {
+    ref: string;
+  };
+  head: {
+    ref: string;
+    sha: string;
+  };
+  changed_files: number;
 }
 
+// Build and tooling files that are conventionally named without an extension
+const EXTENSIONLESS_FILES = /^(?:dockerfile(?:\.[\w-]+)?|containerfile|(?:gnu)?makefile|gemfile|rakefile|vagrantfile)$/i;
+
 function shouldAnalyzeFile(filePath: string): boolean {
   // Skip files in node_modules
   if (filePath.includes('node_modules/')) return false;
   
-  const ext = filePath.toLowerCase().match(/\.[^.]*$/)?.[0];
-  if (!ext) return false;
+  const fileName = filePath.split('/').pop() || '';
+  const isKnownExtensionless = EXTENSIONLESS_FILES.test(fileName);
+  const ext = fileName.toLowerCase().match(/\.[^.]*$/)?.[0];
+  if (!ext && !isKnownExtensionless) return false;
   
   // Analyze all text-based files including markdown, code, config files, etc.
   const textExtensions = [
@@ -187,9 +309,9 @@ function shouldAnalyzeFile(filePath: string): boolean {
     '.pp', '.dpr', '.dfm', '.inc', '.asm', '.s', '.S', '.dockerfile', '.cmake',
     '.mk', '.makefile', '.gradle', '.sbt', '.pom', '.csproj', '.fsproj', '.vbproj',
     '.vcxproj', '.pbxproj', '.xcconfig', '.plist', '.ini', '.cfg', '.conf', '.config',
-    '.toml', '.lock', '.env', '.gitignore', '.gitattributes', '.editorconfig'
+    '.toml', '.lock', '.env', '.gitignore', '.gitattributes', '.editorconfig', '.ipynb'
   ];
-  if (!textExtensions.includes(ext)) return false;
+  if (ext && !isKnownExtensionless && !textExtensions.includes(ext)) return false;
   
   // Skip framework-provided and generated files
   const excludePatterns = [
@@ -268,28 +390,6 @@ function shouldAnalyzeFile(filePath: string): boolean {
   return true;
 }
 
-async function fetchGitHubContents(owner: string, repo: string, path: string = '', branch: string = 'main'): Promise<GitHubFile[]> {
-  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}?ref=${branch}`;
-  
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      // Try 'master' branch if 'main' fails
-      if (branch === 'main') {
-        return fetchGitHubContents(owner, repo, path, 'master');
-      }
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    const files = Array.isArray(data) ? data : [data];
-    return files.map(file => ({ ...file, branch }));
-  } catch (error) {
-    console.error(`Error fetching GitHub contents for ${owner}/${repo}/${path} (branch: ${branch}):`, error);
-    throw error;
-  }
-}
-
 async function fetchGitHubRepo(owner: string, repo: string): Promise<GitHubRepo> {
   const url = `https://api.github.com/repos/${owner}/${repo}`;
   
@@ -390,33 +490,139 @@ function shouldSkipDirectory(dirPath: string, dirName: string): boolean {
   return false;
 }
 
-async function getAllFiles(owner: string, repo: string, path: string = '', maxDepth: number = 4, branch: string = 'main'): Promise<GitHubFile[]> {
-  if (maxDepth <= 0) return [];
+// Config directories the analysis skips but that platforms keep their
+// instruction files in
+const PLATFORM_CONFIG_DIRECTORIES = ['.github', '.github/instructions'];
+
+function platformConfigPaths(files: GitHubFile[]): string[] {
+  return files
+    .map(file => file.path)
+    .filter(path => PLATFORM_CONFIG_DIRECTORIES.includes(path.split('/').slice(0, -1).join('/')));
+}
+
+// Whether a file lies in a directory the analysis skips; directories at or
+// above root (the folder the listing started from) are not checked
+function isInSkippedDirectory(filePath: string, root: string = ''): boolean {
+  const directories = filePath.split('/').slice(0, -1);
+  const rootDepth = root ? root.split('/').length : 0;
+  return directories.some((name, i) =>
+    i >= rootDepth && shouldSkipDirectory(directories.slice(0, i + 1).join('/'), name)
+  );
+}
+
+async function fetchGitHubTree(owner: string, repo: string, treeSha: string, recursive: boolean): Promise<GitHubTree> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${treeSha}${recursive ? '?recursive=1' : ''}`;
   
-  const contents = await fetchGitHubContents(owner, repo, path, branch);
-  const allFiles: GitHubFile[] = [];
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error(`Error fetching tree ${treeSha} of ${owner}/${repo}:`, error);
+    throw error;
+  }
+}
+
+function rawFileUrl(owner: string, repo: string, ref: string, path: string): string {
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Lists every file under a tree in one request. GitHub truncates recursive
+// listings of very large trees (over 100,000 entries or 7MB); a truncated
+// tree is walked one level down and each subdirectory is listed the same way.
+// complete is false when a level was itself truncated or failed to load.
+async function listTreeFiles(
+  owner: string,
+  repo: string,
+  treeSha: string,
+  ref: string,
+  prefix: string = ''
+): Promise<{ files: GitHubFile[]; complete: boolean }> {
+  const toFile = (entry: GitHubTreeEntry): GitHubFile => {
+    const path = prefix + entry.path;
+    return {
+      name: path.split('/').pop()!,
+      path,
+      type: 'file',
+      download_url: rawFileUrl(owner, repo, ref, path),
+      size: entry.size ?? 0
+    };
+  };
   
-  for (const item of contents) {
-    if (item.type === 'file') {
-      allFiles.push(item);
-    } else if (item.type === 'dir' && !shouldSkipDirectory(item.path, item.name)) {
-      // Recursively fetch directory contents
-      try {
-        const subFiles = await getAllFiles(owner, repo, item.path, maxDepth - 1, branch);
-        allFiles.push(...subFiles);
-      } catch (error) {
-        console.warn(`Skipping directory ${item.path} on branch ${branch}:`, error);
-      }
+  const tree = await fetchGitHubTree(owner, repo, treeSha, true);
+  if (!tree.truncated) {
+    return { files: tree.tree.filter(entry => entry.type === 'blob').map(toFile), complete: true };
+  }
+  
+  console.warn(`Tree listing of ${prefix || '/'} was truncated, listing its directories one by one`);
+  const level = await fetchGitHubTree(owner, repo, treeSha, false);
+  const files: GitHubFile[] = level.tree.filter(entry => entry.type === 'blob').map(toFile);
+  let complete = !level.truncated;
+  
+  for (const entry of level.tree) {
+    const path = prefix + entry.path;
+    // Platform config directories are listed for fingerprinting and dropped
+    // from the analysis later
+    if (entry.type !== 'tree' || (shouldSkipDirectory(path, entry.path) && !PLATFORM_CONFIG_DIRECTORIES.includes(path))) continue;
+    
+    try {
+      const subtree = await listTreeFiles(owner, repo, entry.sha, ref, `${path}/`);
+      files.push(...subtree.files);
+      complete = complete && subtree.complete;
+    } catch (error) {
+      console.warn(`Skipping directory ${path}:`, error);
+      complete = false;
     }
   }
   
-  return allFiles;
+  return { files, complete };
 }
 
-async function getAllFilesFromAllBranches(owner: string, repo: string): Promise<{ files: GitHubFile[]; totalBranches: number }> {
+// Finds the tree of a directory at a commit, one level per path segment
+async function resolveSubtree(owner: string, repo: string, commitSha: string, path: string): Promise<string> {
+  let treeSha = commitSha;
+  for (const name of path.split('/')) {
+    const level = await fetchGitHubTree(owner, repo, treeSha, false);
+    const entry = level.tree.find(item => item.path === name && item.type === 'tree');
+    if (!entry) {
+      throw new Error(`${path} is not a directory at ${commitSha.slice(0, 7)}`);
+    }
+    treeSha = entry.sha;
+  }
+  return treeSha;
+}
+
+// Platform instruction files at the root of a commit, for listings of one of
+// its directories; the tree of .github is only read when the root has one
+async function listPlatformConfigFiles(owner: string, repo: string, commitSha: string): Promise<string[]> {
+  const root = await fetchGitHubTree(owner, repo, commitSha, false);
+  const entry = root.tree.find(item => item.path === '.github' && item.type === 'tree');
+  if (!entry) return [];
+  const { files } = await listTreeFiles(owner, repo, entry.sha, commitSha, '.github/');
+  return platformConfigPaths(files);
+}
+
+// Lists the files of one commit, or of one of its directories, along with the
+// platform instruction files the listing skips
+async function getAllFiles(owner: string, repo: string, commitSha: string, path: string = ''): Promise<{ files: GitHubFile[]; complete: boolean; platformConfigPaths: string[] }> {
+  const treeSha = path ? await resolveSubtree(owner, repo, commitSha, path) : commitSha;
+  const { files, complete } = await listTreeFiles(owner, repo, treeSha, commitSha, path ? `${path}/` : '');
+  return {
+    files: files.filter(file => !isInSkippedDirectory(file.path, path)),
+    complete,
+    platformConfigPaths: path ? await listPlatformConfigFiles(owner, repo, commitSha) : platformConfigPaths(files)
+  };
+}
+
+async function getAllFilesFromAllBranches(owner: string, repo: string): Promise<{ files: GitHubFile[]; totalBranches: number; complete: boolean; platformConfigPaths: string[] }> {
   const branches = await fetchGitHubBranches(owner, repo);
   const allFiles: GitHubFile[] = [];
   const seenFiles = new Set<string>();
+  const configPaths = new Set<string>();
+  let complete = true;
   
   // Prioritize main/master branch
   const sortedBranches = branches.sort((a, b) => {
@@ -427,9 +633,11 @@ async function getAllFilesFromAllBranches(owner: string, repo: string): Promise<
   
   for (const branch of sortedBranches) {
     try {
-      const branchFiles = await getAllFiles(owner, repo, '', 4, branch.name);
+      const listing = await getAllFiles(owner, repo, branch.commit.sha);
+      complete = complete && listing.complete;
+      listing.platformConfigPaths.forEach(path => configPaths.add(path));
       
-      for (const file of branchFiles) {
+      for (const file of listing.files.map(file => ({ ...file, branch: branch.name }))) {
         const fileKey = `${file.path}-${file.size}`;
         
         // Only add if we haven't seen this exact file before
@@ -440,57 +648,84 @@ async function getAllFilesFromAllBranches(owner: string, repo: string): Promise<
       }
     } catch (error) {
       console.warn(`Failed to fetch files from branch ${branch.name}:`, error);
+      complete = false;
     }
   }
   
-  return { files: allFiles, totalBranches: branches.length };
+  return { files: allFiles, totalBranches: branches.length, complete, platformConfigPaths: [...configPaths] };
 }
 
-async function checkForLovableKeyword(owner: string, repo: string, allFiles: GitHubFile[]): Promise<boolean> {
-  // Check index.html and package.json in root
-  const specialFiles = ['index.html', 'package.json'];
-  
-  for (const fileName of specialFiles) {
-    const file = allFiles.find(f => f.name === fileName && f.path === fileName);
-    if (file && file.download_url) {
-      try {
-        const content = await fetchFileContent(file.download_url);
-        if (content.toLowerCase().includes('lovable')) {
-          return true;
-        }
-      } catch (error) {
-        console.warn(`Failed to check ${fileName} for lovable keyword:`, error);
-      }
+// Reads every dependency manifest in the repository; when a manifest exists
+// on several branches the first copy (main/master) is used
+async function fetchDependencyManifests(allFiles: GitHubFile[]): Promise<DependencyManifest[]> {
+  const manifests: DependencyManifest[] = [];
+  const seenPaths = new Set<string>();
+
+  for (const file of allFiles) {
+    if (!isDependencyManifest(file.path) || !file.download_url || seenPaths.has(file.path)) {
+      continue;
     }
-  }
-  
-  // Check src folder files
-  const srcFiles = allFiles.filter(file => file.path.startsWith('src/'));
-  
-  for (const file of srcFiles) {
-    if (file.download_url) {
-      try {
-        const content = await fetchFileContent(file.download_url);
-        if (content.toLowerCase().includes('lovable')) {
-          return true;
-        }
-      } catch (error) {
-        console.warn(`Failed to check ${file.path} for lovable keyword:`, error);
-      }
+    seenPaths.add(file.path);
+
+    try {
+      const manifest = parseManifest(file.path, await fetchFileContent(file.download_url));
+      if (manifest) manifests.push(manifest);
+    } catch (error) {
+      console.warn(`Failed to read manifest ${file.path}:`, error);
     }
   }
-  
-  return false;
+
+  return manifests;
 }
 
-async function analyzeCommitMessage(message: string): Promise<{ isAI: boolean; confidence: number; reasons: string[] }> {
-  const reasons: string[] = [];
+// AI-generated commit message patterns
+const COMMIT_AI_PATTERNS: { id: string; pattern: RegExp }[] = [
+  // Perfect formatting patterns
+  { id: 'commit/conventional-prefix', pattern: /^(feat|fix|docs|style|refactor|test|chore|ci|build|perf)(\(.+\))?\:\s.+$/i },
+  { id: 'commit/imperative-verb', pattern: /^(add|update|implement|create|fix|remove|delete|improve)\s/i },
+  
+  // Too formal/structured patterns
+  { id: 'commit/initial-commit', pattern: /^(initial commit|first commit)$/i },
+  { id: 'commit/update-docs', pattern: /update\s+(readme|documentation)/i },
+  { id: 'commit/resolve-issue', pattern: /^(resolve|address)\s+issue/i },
+  
+  // Generic AI phrases
+  { id: 'commit/minor-changes', pattern: /minor\s+(changes|updates|fixes)/i },
+  { id: 'commit/code-cleanup', pattern: /code\s+(cleanup|optimization|refactoring)/i },
+  { id: 'commit/improve-generic', pattern: /improve\s+(performance|functionality|user\s+experience)/i },
+  { id: 'commit/enhance-generic', pattern: /enhance\s+(feature|component|ui)/i },
+  { id: 'commit/update-dependencies', pattern: /update\s+(dependencies|packages)/i },
+];
+
+// Perfect grammar indicators
+const COMMIT_GRAMMAR_PATTERNS: { id: string; pattern: RegExp }[] = [
+  { id: 'commit/sentence-punctuation', pattern: /^\w[^.!?]*[.!?]$/ },  // Starts with capital, ends with punctuation
+  { id: 'commit/formal-verbs', pattern: /\b(implement|establish|utilize|facilitate|optimize)\b/i },
+  { id: 'commit/formal-connectives', pattern: /\b(furthermore|additionally|moreover|consequently)\b/i },
+];
+
+// checkLength: false turns off the long-message rule for text that is not a
+// commit message and is long by nature, such as a pull request title
+async function analyzeCommitMessage(
+  message: string,
+  { checkLength = true }: { checkLength?: boolean } = {}
+): Promise<{ isAI: boolean; confidence: number; reasons: DetectionReason[] }> {
+  const reasons: DetectionReason[] = [];
   let confidence = 0;
   
+  const addReason = (ruleId: string, text: string, weight: number, pattern?: RegExp) => {
+    reasons.push({
+      ruleId,
+      message: text,
+      polarity: 'ai',
+      weight,
+      spans: pattern ? findMatchSpans(pattern, message) : []
+    });
+  };
+  
   // Check for invisible Unicode characters
-  const invisibleChars = /[\u200B-\u200D\uFEFF\u2060\u180E\u2061-\u2064]/;
-  if (invisibleChars.test(message)) {
-    reasons.push('Contains invisible Unicode characters');
+  if (INVISIBLE_CHARACTERS.test(message)) {
+    addReason('commit/invisible-unicode', 'Contains invisible Unicode characters', 1.0, INVISIBLE_CHARACTERS);
     confidence = 1.0;
     return { isAI: true, confidence, reasons };
   }
@@ -498,34 +733,15 @@ async function analyzeCommitMessage(message: string): Promise<{ isAI: boolean; c
   // Check for emojis
   const emojiRegex = /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u;
   if (emojiRegex.test(message)) {
-    reasons.push('Contains emojis');
+    addReason('commit/emoji', 'Contains emojis', 0.9, emojiRegex);
     confidence = Math.max(confidence, 0.9);
   }
   
-  // AI-generated commit message patterns
-  const aiPatterns = [
-    // Perfect formatting patterns
-    /^(feat|fix|docs|style|refactor|test|chore|ci|build|perf)(\(.+\))?\:\s.+$/i,
-    /^(add|update|implement|create|fix|remove|delete|improve)\s/i,
-    
-    // Too formal/structured patterns
-    /^(initial commit|first commit)$/i,
-    /update\s+(readme|documentation)/i,
-    /^(resolve|address)\s+issue/i,
-    
-    // Generic AI phrases
-    /minor\s+(changes|updates|fixes)/i,
-    /code\s+(cleanup|optimization|refactoring)/i,
-    /improve\s+(performance|functionality|user\s+experience)/i,
-    /enhance\s+(feature|component|ui)/i,
-    /update\s+(dependencies|packages)/i,
-  ];
-  
   let patternMatches = 0;
-  for (const pattern of aiPatterns) {
+  for (const { id, pattern } of COMMIT_AI_PATTERNS) {
     if (pattern.test(message)) {
       patternMatches++;
-      reasons.push(`Matches AI pattern: ${pattern.source}`);
+      addReason(id, `Matches AI pattern: ${pattern.source}`, 0.15, pattern);
     }
   }
   
@@ -534,23 +750,16 @@ async function analyzeCommitMessage(message: string): Promise<{ isAI: boolean; c
   }
   
   // Length patterns
-  if (message.length > 100) {
-    reasons.push('Unusually long commit message');
+  if (checkLength && message.length > 100) {
+    addReason('commit/long-message', 'Unusually long commit message', 0.6);
     confidence = Math.max(confidence, 0.6);
   }
   
-  // Perfect grammar indicators
-  const perfectGrammarIndicators = [
-    /^\w[^.!?]*[.!?]$/,  // Starts with capital, ends with punctuation
-    /\b(implement|establish|utilize|facilitate|optimize)\b/i,
-    /\b(furthermore|additionally|moreover|consequently)\b/i,
-  ];
-  
   let grammarScore = 0;
-  for (const indicator of perfectGrammarIndicators) {
-    if (indicator.test(message)) {
+  for (const { id, pattern } of COMMIT_GRAMMAR_PATTERNS) {
+    if (pattern.test(message)) {
       grammarScore++;
-      reasons.push('Perfect grammar/formal language');
+      addReason(id, 'Perfect grammar/formal language', 0.1, pattern);
     }
   }
   
@@ -602,14 +811,16 @@ function estimateWorkHours(commits: CommitAnalysis[], timeWindow: number = 4): n
   return Math.round(totalHours * 10) / 10; // Round to 1 decimal place
 }
 
-async function fetchGitHubCommits(owner: string, repo: string): Promise<GitHubCommit[]> {
+async function fetchGitHubCommits(owner: string, repo: string, scope?: RepositoryScope): Promise<GitHubCommit[]> {
   const commits: GitHubCommit[] = [];
   let page = 1;
   const perPage = 100;
+  // History of the scoped commit, limited to the subtree
+  const scopeQuery = scope ? `&sha=${scope.sha}${scope.path ? `&path=${encodeURIComponent(scope.path)}` : ''}` : '';
   
   try {
     while (page <= 10) { // Limit to 1000 commits max
-      const url = `https://api.github.com/repos/${owner}/${repo}/commits?page=${page}&per_page=${perPage}`;
+      const url = `https://api.github.com/repos/${owner}/${repo}/commits?page=${page}&per_page=${perPage}${scopeQuery}`;
       const response = await fetch(url);
       
       if (!response.ok) {
@@ -653,18 +864,13 @@ async function fetchGitHubCommits(owner: string, repo: string): Promise<GitHubCo
   return commits;
 }
 
-async function analyzeCommitHistory(owner: string, repo: string): Promise<{
-  totalCommits: number;
-  commits: CommitAnalysis[];
-  contributors: ContributorStats[];
-  timeline: TimelineStats[];
-  totalEstimatedHours: number;
-  aiCommitPercentage: number;
-  projectStartDate: string;
-  projectEndDate: string;
-}> {
-  const githubCommits = await fetchGitHubCommits(owner, repo);
-  
+type CommitHistory = NonNullable<RepositoryAnalysis['commitAnalysis']>;
+
+async function analyzeCommitHistory(owner: string, repo: string, scope?: RepositoryScope): Promise<CommitHistory> {
+  return summarizeCommits(await fetchGitHubCommits(owner, repo, scope));
+}
+
+async function summarizeCommits(githubCommits: GitHubCommit[]): Promise<CommitHistory> {
   if (githubCommits.length === 0) {
     return {
       totalCommits: 0,
@@ -807,54 +1013,298 @@ async function analyzeCommitHistory(owner: string, repo: string): Promise<{
   };
 }
 
+export function parseGitHubUrl(url: string): GitHubUrl {
+  const pullMatch = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+  if (pullMatch) {
+    const [, owner, repo, number] = pullMatch;
+    return { kind: 'pull', owner, repo, number: Number(number) };
+  }
+
+  const urlMatch = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+  if (!urlMatch) {
+    throw new Error('Invalid GitHub repository URL. Please use format: https://github.com/owner/repo');
+  }
+
+  const [, owner, repo] = urlMatch;
+  const treeMatch = url.split(/[?#]/)[0].match(/github\.com\/[^/]+\/[^/]+\/tree\/(.+)$/);
+  if (!treeMatch) {
+    return { kind: 'repository', owner, repo };
+  }
+  const treeSegments = treeMatch[1].split('/').filter(Boolean).map(decodeURIComponent);
+  return { kind: 'repository', owner, repo, treeSegments };
+}
+
+// In "/tree/feature/login/src" the ref may itself contain slashes, so the
+// shortest leading part that GitHub resolves to a commit is taken as the ref
+// and the rest as the path
+async function resolveTreeScope(owner: string, repo: string, segments: string[]): Promise<RepositoryScope> {
+  for (let i = 1; i <= segments.length; i++) {
+    const ref = segments.slice(0, i).join('/');
+    const url = `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+    // The sha media type returns just the commit SHA
+    const response = await fetch(url, { headers: { Accept: 'application/vnd.github.sha' } });
+    
+    if (response.ok) {
+      return { ref, sha: (await response.text()).trim(), path: segments.slice(i).join('/') };
+    }
+    if (response.status !== 404 && response.status !== 422) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+  }
+  
+  throw new Error(`No branch, tag or commit of ${owner}/${repo} matches ${segments.join('/')}`);
+}
+
+async function fetchGitHubPullRequest(owner: string, repo: string, number: number): Promise<GitHubPullRequest> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/pulls/${number}`;
+  
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error(`Error fetching pull request ${owner}/${repo}#${number}:`, error);
+    throw error;
+  }
+}
+
+// Pages through a pull request list endpoint (files or commits)
+async function fetchPullRequestList<T>(owner: string, repo: string, number: number, list: 'files' | 'commits', maxPages: number): Promise<T[]> {
+  const items: T[] = [];
+  const perPage = 100;
+  
+  for (let page = 1; page <= maxPages; page++) {
+    const url = `https://api.github.com/repos/${owner}/${repo}/pulls/${number}/${list}?page=${page}&per_page=${perPage}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+    
+    const data = await response.json();
+    items.push(...data);
+    if (data.length < perPage) break;
+  }
+  
+  return items;
+}
+
+async function fetchCommitDetails(owner: string, repo: string, sha: string): Promise<GitHubCommit> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+// Rebuilds a unified diff from the files whose added lines can be scored;
+// the rest are returned as skipped
+function patchesToDiff(files: GitHubChangedFile[]): { diff: string; skipped: string[] } {
+  const patches: string[] = [];
+  const skipped: string[] = [];
+  
+  for (const file of files) {
+    // Deletions and pure renames add nothing
+    if (file.additions === 0) continue;
+    
+    if (!file.patch || !shouldAnalyzeFile(file.filename) || isProseFile(file.filename) || isNotebookFile(file.filename)) {
+      skipped.push(file.filename);
+      continue;
+    }
+    
+    const oldPath = file.status === 'added' ? '/dev/null' : `a/${file.previous_filename ?? file.filename}`;
+    patches.push(`--- ${oldPath}\n+++ b/${file.filename}\n${file.patch}\n`);
+  }
+  
+  return { diff: patches.join(''), skipped };
+}
+
+const EMPTY_DIFF_STATS: DiffStats = {
+  addedLines: 0,
+  aiLines: 0,
+  humanLines: 0,
+  uncertainLines: 0,
+  aiPercentage: 0,
+  humanPercentage: 0,
+  uncertainPercentage: 0,
+  overallConfidence: 0.5
+};
+
+async function analyzePullRequest(
+  owner: string,
+  repo: string,
+  number: number,
+  repositoryUrl: string,
+  onProgress?: (current: number, total: number, currentFile: string) => void
+): Promise<RepositoryAnalysis> {
+  onProgress?.(0, 1, `Fetching pull request #${number}...`);
+  const pullRequest = await fetchGitHubPullRequest(owner, repo, number);
+  // The files endpoint stops at 3000 files, the commits endpoint at 250 commits
+  const changedFiles = await fetchPullRequestList<GitHubChangedFile>(owner, repo, number, 'files', 30);
+  const prCommits = await fetchPullRequestList<GitHubCommit>(owner, repo, number, 'commits', 3);
+  
+  onProgress?.(0, prCommits.length + 1, 'Analyzing added lines...');
+  const { diff, skipped } = patchesToDiff(changedFiles);
+  const diffAnalysis = diff ? await analyzeDiff(diff) : null;
+  
+  // Each commit's own patches give its share of the added lines
+  const detailedCommits: GitHubCommit[] = [];
+  const commitDiffs = new Map<string, DiffStats | null>();
+  for (let i = 0; i < prCommits.length; i++) {
+    const commit = prCommits[i];
+    onProgress?.(i + 1, prCommits.length + 1, `Analyzing commit ${commit.sha.slice(0, 7)}`);
+    try {
+      const details = await fetchCommitDetails(owner, repo, commit.sha);
+      detailedCommits.push(details);
+      const commitDiff = patchesToDiff(details.files ?? []).diff;
+      commitDiffs.set(commit.sha, commitDiff ? await analyzeDiff(commitDiff) : null);
+    } catch (error) {
+      console.warn(`Failed to analyze commit ${commit.sha}:`, error);
+      detailedCommits.push(commit);
+      commitDiffs.set(commit.sha, null);
+    }
+  }
+  const commitAnalysis = await summarizeCommits(detailedCommits);
+  
+  const body = pullRequest.body ?? '';
+  const titleAnalysis = await analyzeCommitMessage(pullRequest.title, { checkLength: false });
+  const bodyAnalysis = body.trim() ? analyzeProse(body) : null;
+  const { files: scoredFiles, ...stats }: DiffAnalysis = diffAnalysis ?? { files: [], ...EMPTY_DIFF_STATS };
+  
+  const report: PullRequestAnalysis = {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    body,
+    url: pullRequest.html_url,
+    author: pullRequest.user.login,
+    state: pullRequest.merged_at ? 'merged' : pullRequest.state,
+    baseRef: pullRequest.base.ref,
+    headRef: pullRequest.head.ref,
+    headSha: pullRequest.head.sha,
+    titleAnalysis,
+    bodyAnalysis,
+    changedFiles: pullRequest.changed_files,
+    files: scoredFiles.sort((a, b) => b.aiPercentage - a.aiPercentage),
+    skippedFiles: skipped,
+    stats,
+    commits: commitAnalysis.commits.map(commit => ({ ...commit, diff: commitDiffs.get(commit.sha) ?? null }))
+  };
+  
+  const platforms = detectPlatforms({
+    filePaths: changedFiles.map(file => file.filename),
+    manifests: [],
+    contents: [{ path: `#${pullRequest.number}`, content: `${pullRequest.title}\n\n${body}` }],
+    commits: commitAnalysis.commits
+  });
+  
+  return {
+    repositoryUrl,
+    isForked: false,
+    totalFiles: pullRequest.changed_files,
+    analyzedFiles: report.files.length,
+    totalBranches: 0,
+    listingComplete: changedFiles.length >= pullRequest.changed_files,
+    files: [],
+    notebooks: [],
+    documents: [],
+    documentStats: {
+      totalSentences: 0,
+      aiSentences: 0,
+      humanSentences: 0,
+      uncertainSentences: 0,
+      aiPercentage: 0,
+      humanPercentage: 0,
+      uncertainPercentage: 0
+    },
+    overallStats: {
+      totalLines: stats.addedLines,
+      aiLines: stats.aiLines,
+      humanLines: stats.humanLines,
+      uncertainLines: stats.uncertainLines,
+      aiPercentage: stats.aiPercentage,
+      humanPercentage: stats.humanPercentage,
+      uncertainPercentage: stats.uncertainPercentage,
+      overallConfidence: stats.overallConfidence
+    },
+    platforms,
+    dependencyManifests: [],
+    pullRequest: report,
+    commitAnalysis
+  };
+}
+
 export async function analyzeGitHubRepository(
   repositoryUrl: string,
   onProgress?: (current: number, total: number, currentFile: string) => void,
   includeCommitHistory: boolean = true
 ): Promise<RepositoryAnalysis> {
-  // Parse GitHub URL
-  const urlMatch = repositoryUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-  if (!urlMatch) {
-    throw new Error('Invalid GitHub repository URL. Please use format: https://github.com/owner/repo');
+  // Pull requests are analyzed on their own: only what they change, and
+  // always with their commits
+  const target = parseGitHubUrl(repositoryUrl);
+  if (target.kind === 'pull') {
+    return analyzePullRequest(target.owner, target.repo, target.number, repositoryUrl, onProgress);
   }
-  
-  let [, owner, repo] = urlMatch;
+
+  let { owner, repo } = target;
   let originalRepositoryUrl: string | undefined;
   let isForked = false;
-  
-  // Check if repository is a fork
-  onProgress?.(0, 1, 'Checking repository info...');
-  try {
-    const repoInfo = await fetchGitHubRepo(owner, repo);
-    
-    if (repoInfo.fork && repoInfo.parent) {
-      // This is a fork, analyze the original repository instead
-      isForked = true;
-      originalRepositoryUrl = repoInfo.parent.html_url;
+  let scope: RepositoryScope | undefined;
+
+  if (target.treeSegments) {
+    // A ref the user picked is analyzed where it is, fork or not
+    onProgress?.(0, 1, 'Resolving ref...');
+    scope = await resolveTreeScope(owner, repo, target.treeSegments);
+  } else {
+    // Check if repository is a fork
+    onProgress?.(0, 1, 'Checking repository info...');
+    try {
+      const repoInfo = await fetchGitHubRepo(owner, repo);
       
-      const parentMatch = repoInfo.parent.full_name.match(/([^\/]+)\/([^\/]+)/);
-      if (parentMatch) {
-        [, owner, repo] = parentMatch;
-        onProgress?.(0, 1, `Fork detected, analyzing original repository: ${repoInfo.parent.full_name}`);
+      if (repoInfo.fork && repoInfo.parent) {
+        // This is a fork, analyze the original repository instead
+        isForked = true;
+        originalRepositoryUrl = repoInfo.parent.html_url;
+        
+        const parentMatch = repoInfo.parent.full_name.match(/([^\/]+)\/([^\/]+)/);
+        if (parentMatch) {
+          [, owner, repo] = parentMatch;
+          onProgress?.(0, 1, `Fork detected, analyzing original repository: ${repoInfo.parent.full_name}`);
+        }
       }
+    } catch (error) {
+      console.warn('Failed to fetch repository info, proceeding with original URL:', error);
     }
-  } catch (error) {
-    console.warn('Failed to fetch repository info, proceeding with original URL:', error);
   }
   
-  // Fetch all files from all branches in the repository
-  onProgress?.(0, 1, 'Fetching files from all branches...');
-  const { files: allFiles, totalBranches } = await getAllFilesFromAllBranches(owner, repo);
+  let allFiles: GitHubFile[];
+  let totalBranches: number;
+  let listingComplete: boolean;
+  let configPaths: string[];
+  if (scope) {
+    // Only the scoped subtree, read at the resolved commit; all files come
+    // from that one commit, so they aren't labelled with a branch
+    onProgress?.(0, 1, `Fetching files from ${scope.ref}${scope.path ? `/${scope.path}` : ''}...`);
+    ({ files: allFiles, complete: listingComplete, platformConfigPaths: configPaths } = await getAllFiles(owner, repo, scope.sha, scope.path));
+    totalBranches = 1;
+  } else {
+    // Fetch all files from all branches in the repository
+    onProgress?.(0, 1, 'Fetching files from all branches...');
+    ({ files: allFiles, totalBranches, complete: listingComplete, platformConfigPaths: configPaths } = await getAllFilesFromAllBranches(owner, repo));
+  }
   
-  // Check for lovable keyword in src files, index.html, and package.json
-  onProgress?.(0, 1, 'Checking for Lovable keyword...');
-  const hasLovableLabel = await checkForLovableKeyword(owner, repo, allFiles);
+  onProgress?.(0, 1, 'Reading dependency manifests...');
+  const manifests = await fetchDependencyManifests(allFiles);
+  const project = { manifests, filePaths: allFiles.map(file => file.path) };
   
   // Filter files we can analyze
   const analyzeableFiles = allFiles.filter(file => 
     shouldAnalyzeFile(file.path) && 
     file.size && 
-    file.size < 1024 * 1024 && // Skip files larger than 1MB
+    // Skip files larger than 1MB; notebooks get more room for their outputs
+    file.size < (isNotebookFile(file.path) ? 5 : 1) * 1024 * 1024 &&
     file.download_url
   );
   
@@ -863,9 +1313,13 @@ export async function analyzeGitHubRepository(
   }
   
   const fileAnalyses: FileAnalysis[] = [];
+  const notebookAnalyses: NotebookFileAnalysis[] = [];
+  const documentAnalyses: DocumentAnalysis[] = [];
+  const fileContents: { path: string; content: string }[] = [];
   let totalLines = 0;
   let totalAiLines = 0;
   let totalHumanLines = 0;
+  let totalUncertainLines = 0;
   let totalConfidence = 0;
   let analyzedCount = 0;
   
@@ -877,10 +1331,39 @@ export async function analyzeGitHubRepository(
     
     try {
       const content = await fetchFileContent(file.download_url!);
-      const language = getLanguageFromPath(file.path);
+      let language = getLanguageFromPath(file.path);
       
       // Skip empty files
       if (!content.trim()) continue;
+      fileContents.push({ path: file.path, content });
+
+      // Documentation gets the prose detector and stays out of the code stats
+      if (isProseFile(file.path)) {
+        documentAnalyses.push({
+          path: file.path,
+          analysis: analyzeProse(content),
+          size: file.size || 0
+        });
+        continue;
+      }
+
+      if (isNotebookFile(file.path)) {
+        const analysis = await analyzeNotebook(content);
+        notebookAnalyses.push({ path: file.path, analysis, size: file.size || 0 });
+
+        totalLines += analysis.totalLines;
+        totalAiLines += analysis.aiLines;
+        totalHumanLines += analysis.humanLines;
+        totalUncertainLines += analysis.uncertainLines;
+        totalConfidence += analysis.overallConfidence;
+        analyzedCount++;
+        continue;
+      }
+      
+      // Fall back to content-based detection for extensionless files
+      if (language === 'text') {
+        language = detectLanguage(content, file.path).language;
+      }
       
       const analysis = await analyzeCode(content, language);
       
@@ -888,12 +1371,14 @@ export async function analyzeGitHubRepository(
         path: file.path,
         language,
         analysis,
-        size: file.size || 0
+        size: file.size || 0,
+        undeclaredImports: findUndeclaredImports(content, language, project)
       });
       
       totalLines += analysis.totalLines;
       totalAiLines += analysis.aiLines;
       totalHumanLines += analysis.humanLines;
+      totalUncertainLines += analysis.uncertainLines;
       totalConfidence += analysis.overallConfidence;
       analyzedCount++;
       
@@ -906,34 +1391,56 @@ export async function analyzeGitHubRepository(
     totalLines,
     aiLines: totalAiLines,
     humanLines: totalHumanLines,
+    uncertainLines: totalUncertainLines,
     aiPercentage: totalLines > 0 ? (totalAiLines / totalLines) * 100 : 0,
     humanPercentage: totalLines > 0 ? (totalHumanLines / totalLines) * 100 : 0,
+    uncertainPercentage: totalLines > 0 ? (totalUncertainLines / totalLines) * 100 : 0,
     overallConfidence: analyzedCount > 0 ? totalConfidence / analyzedCount : 0
   };
+
+  const totalSentences = documentAnalyses.reduce((sum, doc) => sum + doc.analysis.totalSentences, 0);
+  const aiSentences = documentAnalyses.reduce((sum, doc) => sum + doc.analysis.aiSentences, 0);
+  const humanSentences = documentAnalyses.reduce((sum, doc) => sum + doc.analysis.humanSentences, 0);
+  const uncertainSentences = totalSentences - aiSentences - humanSentences;
+  const documentStats = {
+    totalSentences,
+    aiSentences,
+    humanSentences,
+    uncertainSentences,
+    aiPercentage: totalSentences > 0 ? (aiSentences / totalSentences) * 100 : 0,
+    humanPercentage: totalSentences > 0 ? (humanSentences / totalSentences) * 100 : 0,
+    uncertainPercentage: totalSentences > 0 ? (uncertainSentences / totalSentences) * 100 : 0
+  };
   
-  // Sort files to prioritize those with emoji/invisible character detections
+  // Sort files to prioritize those with assistant artifacts and emoji/invisible character detections
   const sortedFiles = fileAnalyses.sort((a, b) => {
-    // Priority 1: Files with invisible characters (highest priority)
+    // Priority 1: Files with leftovers of an assistant's chat answer
+    const aHasArtifacts = a.analysis.assistantArtifacts.length > 0;
+    const bHasArtifacts = b.analysis.assistantArtifacts.length > 0;
+    if (aHasArtifacts && !bHasArtifacts) return -1;
+    if (!aHasArtifacts && bHasArtifacts) return 1;
+
+    // Priority 2: Files with invisible characters
     const aHasInvisible = a.analysis.lineAnalysis.some(line => 
-      line.isAI && line.reasons.some(r => r.includes('invisible Unicode'))
+      line.verdict === 'ai' && hasReason(line.reasons, 'core/invisible-unicode')
     );
     const bHasInvisible = b.analysis.lineAnalysis.some(line => 
-      line.isAI && line.reasons.some(r => r.includes('invisible Unicode'))
+      line.verdict === 'ai' && hasReason(line.reasons, 'core/invisible-unicode')
     );
     if (aHasInvisible && !bHasInvisible) return -1;
     if (!aHasInvisible && bHasInvisible) return 1;
     
-    // Priority 2: Files with emojis (second priority)
+    // Priority 3: Files with emojis
     const aHasEmoji = a.analysis.lineAnalysis.some(line => 
-      line.isAI && line.reasons.some(r => r.includes('emojis'))
+      line.verdict === 'ai' && hasReason(line.reasons, 'core/emoji')
     );
     const bHasEmoji = b.analysis.lineAnalysis.some(line => 
-      line.isAI && line.reasons.some(r => r.includes('emojis'))
+      line.verdict === 'ai' && hasReason(line.reasons, 'core/emoji')
     );
     if (aHasEmoji && !bHasEmoji) return -1;
     if (!aHasEmoji && bHasEmoji) return 1;
     
-    // Priority 3: Files with higher AI percentage
+    // Priority 4: Files with higher AI percentage
     return b.analysis.aiPercentage - a.analysis.aiPercentage;
   });
 
@@ -942,22 +1449,36 @@ export async function analyzeGitHubRepository(
   if (includeCommitHistory) {
     try {
       onProgress?.(analyzeableFiles.length, analyzeableFiles.length + 1, 'Analyzing commit history...');
-      commitAnalysis = await analyzeCommitHistory(owner, repo);
+      commitAnalysis = await analyzeCommitHistory(owner, repo, scope);
     } catch (error) {
       console.warn('Failed to analyze commit history:', error);
     }
   }
 
+  onProgress?.(analyzeableFiles.length, analyzeableFiles.length, 'Fingerprinting AI coding platforms...');
+  const platforms = detectPlatforms({
+    filePaths: [...allFiles.map(file => file.path), ...configPaths],
+    manifests,
+    contents: fileContents,
+    commits: commitAnalysis?.commits ?? []
+  });
+
   return {
     repositoryUrl: isForked ? originalRepositoryUrl! : repositoryUrl,
     originalRepositoryUrl: isForked ? originalRepositoryUrl : undefined,
     isForked,
     totalFiles: allFiles.length,
-    analyzedFiles: fileAnalyses.length,
+    analyzedFiles: fileAnalyses.length + notebookAnalyses.length,
     totalBranches,
+    listingComplete,
+    scope,
     files: sortedFiles,
+    notebooks: notebookAnalyses.sort((a, b) => b.analysis.aiPercentage - a.analysis.aiPercentage),
+    documents: documentAnalyses.sort((a, b) => b.analysis.aiPercentage - a.analysis.aiPercentage),
+    documentStats,
     overallStats,
-    hasLovableLabel,
+    platforms,
+    dependencyManifests: manifests.map(manifest => manifest.path),
     commitAnalysis
   };
 }
\ No newline at end of file
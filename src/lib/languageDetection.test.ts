@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguage, getLanguageFromPath } from "./languageDetection";
+
+describe("getLanguageFromPath", () => {
+  it("maps extensions case-insensitively", () => {
+    expect(getLanguageFromPath("src/App.TSX")).toBe("tsx");
+    expect(getLanguageFromPath("lib/util.cc")).toBe("cpp");
+    expect(getLanguageFromPath("config/app.yml")).toBe("yaml");
+    expect(getLanguageFromPath("archive.tar.rs")).toBe("rust");
+  });
+
+  it("returns text for unknown or missing extensions", () => {
+    expect(getLanguageFromPath("notes.xyz")).toBe("text");
+    expect(getLanguageFromPath("Dockerfile")).toBe("text");
+  });
+});
+
+describe("detectLanguage", () => {
+  it("recognises well-known extensionless files by name", () => {
+    expect(detectLanguage("", "Dockerfile")).toEqual({ language: "dockerfile", confidence: 0.95 });
+    expect(detectLanguage("", "docker/api.Dockerfile").language).toBe("dockerfile");
+    expect(detectLanguage("", "Dockerfile.dev").language).toBe("dockerfile");
+    expect(detectLanguage("", "GNUmakefile").language).toBe("makefile");
+    expect(detectLanguage("", "Gemfile").language).toBe("ruby");
+  });
+
+  it("reads the interpreter from a shebang", () => {
+    expect(detectLanguage("#!/usr/bin/env python3\nprint(1)")).toEqual({
+      language: "python",
+      confidence: 0.95,
+    });
+    expect(detectLanguage("#!/usr/bin/env node\n").language).toBe("javascript");
+    expect(detectLanguage("#!/usr/bin/env -S ts-node\n").language).toBe("typescript");
+    expect(detectLanguage("\n#!/bin/bash\necho hi").language).toBe("bash");
+  });
+
+  it("recognises JSON only when it parses", () => {
+    expect(detectLanguage('{"name": "x", "private": true}')).toEqual({
+      language: "json",
+      confidence: 0.95,
+    });
+    expect(detectLanguage("[1, 2, 3]").language).toBe("json");
+    expect(detectLanguage("{ name: 'x' }").language).not.toBe("json");
+  });
+
+  it("scores syntax markers per language", () => {
+    const go = [
+      "package main",
+      "",
+      "func main() {",
+      "  value, err := run()",
+      "  if err != nil {",
+      "    fmt.Println(err)",
+      "  }",
+      "}",
+    ].join("\n");
+    const python = [
+      "def add(a, b):",
+      "    return a + b",
+      "",
+      'if __name__ == "__main__":',
+      "    print(add(1, 2))",
+    ].join("\n");
+    const cpp = "#include <vector>\nint main() {\n  std::vector<int> v;\n}";
+
+    expect(detectLanguage(go).language).toBe("go");
+    expect(detectLanguage(python).language).toBe("python");
+    expect(detectLanguage(cpp).language).toBe("cpp");
+  });
+
+  it("refines JavaScript into TypeScript, JSX and TSX", () => {
+    const typescript = [
+      "interface User {",
+      "  name: string;",
+      "}",
+      "const greet = (user: User) => console.log(user.name);",
+    ].join("\n");
+    const tsx = [
+      "interface Props {",
+      "  label: string;",
+      "}",
+      "const Button = ({ label }: Props) => {",
+      "  return (",
+      "    <Wrapper className=\"button\" onClick={() => console.log(label)}>",
+      "      {label}",
+      "    </Wrapper>",
+      "  );",
+      "};",
+    ].join("\n");
+
+    expect(detectLanguage(typescript).language).toBe("typescript");
+    expect(detectLanguage(tsx).language).toBe("tsx");
+  });
+
+  it("grows confidence with evidence and margin over the runner-up", () => {
+    const weak = detectLanguage("x := 1");
+    const strong = detectLanguage(
+      "package main\n\nfunc main() {\n  if err != nil {\n    fmt.Println(err)\n  }\n}"
+    );
+
+    expect(weak.language).toBe("go");
+    expect(weak.confidence).toBeLessThan(strong.confidence);
+    expect(strong.confidence).toBeLessThanOrEqual(0.95);
+    expect(Number.isInteger(strong.confidence * 100)).toBe(true);
+  });
+
+  it("reports text with no confidence when nothing matches", () => {
+    expect(detectLanguage("lorem ipsum dolor sit amet")).toEqual({ language: "text", confidence: 0 });
+  });
+});
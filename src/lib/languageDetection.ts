@@ -0,0 +1,295 @@
+export interface LanguageDetection {
+  language: string;
+  confidence: number;
+}
+
+interface LanguageMarker {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Well-known files that carry no extension
+const FILENAME_LANGUAGES: [RegExp, string][] = [
+  [/^(?:[\w.-]+\.)?dockerfile(?:\.[\w-]+)?$/i, "dockerfile"],
+  [/^(?:gnu)?makefile$/i, "makefile"],
+  [/^(?:gemfile|rakefile|vagrantfile|podfile|brewfile)$/i, "ruby"],
+];
+
+// Language detection based on file extensions
+const LANGUAGE_MAP: Record<string, string> = {
+  ".js": "javascript",
+  ".jsx": "jsx",
+  ".ts": "typescript",
+  ".tsx": "tsx",
+  ".py": "python",
+  ".java": "java",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".cxx": "cpp",
+  ".c++": "cpp",
+  ".cs": "csharp",
+  ".go": "go",
+  ".rs": "rust",
+  ".php": "php",
+  ".rb": "ruby",
+  ".swift": "swift",
+  ".kt": "kotlin",
+  ".scala": "scala",
+  ".sh": "bash",
+  ".sql": "sql",
+  ".html": "html",
+  ".css": "css",
+  ".scss": "scss",
+  ".sass": "sass",
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".xml": "xml",
+  ".md": "markdown",
+};
+
+// "text" for unknown extensions; pair with detectLanguage for those
+export function getLanguageFromPath(filePath: string): string {
+  const ext = filePath.toLowerCase().match(/\.[^.]*$/)?.[0];
+  return ext ? LANGUAGE_MAP[ext] || "text" : "text";
+}
+
+const SHEBANG_LANGUAGES: [RegExp, string][] = [
+  [/^#!.*\bpython[\d.]*\b/, "python"],
+  // Before JavaScript, whose \bnode\b also matches ts-node
+  [/^#!.*\b(?:ts-node|tsx)\b/, "typescript"],
+  [/^#!.*\b(?:node|deno|bun)\b/, "javascript"],
+  [/^#!.*\b(?:bash|sh|zsh|ksh|dash)\b/, "bash"],
+  [/^#!.*\bruby\b/, "ruby"],
+  [/^#!.*\bphp\b/, "php"],
+];
+
+// Syntax markers per language; each match adds its weight (capped per marker)
+const LANGUAGE_MARKERS: Record<string, LanguageMarker[]> = {
+  python: [
+    { pattern: /^\s*def \w+\(.*\)(?:\s*->\s*[^:]+)?:\s*$/gm, weight: 3 },
+    {
+      pattern: /^\s*(?:from\s+[\w.]+\s+)?import\s+[\w.]+(?:\s+as\s+\w+)?\s*$/gm,
+      weight: 1,
+    },
+    { pattern: /^\s*(?:elif|except|finally|with)\b.*:\s*$/gm, weight: 2 },
+    { pattern: /\bself\.\w+/g, weight: 1 },
+    { pattern: /\b(?:None|True|False)\b/g, weight: 0.5 },
+    { pattern: /^if __name__ == ["']__main__["']:/gm, weight: 4 },
+  ],
+  javascript: [
+    { pattern: /\b(?:const|let|var)\s+\w+\s*=/g, weight: 1 },
+    { pattern: /=>/g, weight: 1 },
+    { pattern: /\bfunction\s*\w*\s*\(/g, weight: 1.5 },
+    { pattern: /\bconsole\.\w+\(/g, weight: 2 },
+    { pattern: /\brequire\(["'][^"']+["']\)|\bmodule\.exports\b/g, weight: 2 },
+    { pattern: /\bimport\s+.+\s+from\s+["'][^"']+["'];?/g, weight: 1.5 },
+    { pattern: /===|!==/g, weight: 1 },
+  ],
+  typescript: [
+    { pattern: /\b(?:interface|enum)\s+\w+\s*{/g, weight: 3 },
+    { pattern: /\btype\s+\w+(?:<[^>]+>)?\s*=/g, weight: 3 },
+    {
+      pattern: /\w\??:\s*(?:string|number|boolean|unknown|any|void)\b/g,
+      weight: 2,
+    },
+    { pattern: /\bimport\s+type\b|\bas\s+const\b/g, weight: 3 },
+    { pattern: /\b(?:public|private|readonly)\s+\w+\s*:/g, weight: 1.5 },
+  ],
+  jsx: [
+    { pattern: /return\s*\(\s*$|<\/?[A-Z]\w*[\s/>]/gm, weight: 2 },
+    { pattern: /\bclassName=|\bon[A-Z]\w+={/g, weight: 2 },
+  ],
+  java: [
+    { pattern: /\bpublic\s+(?:final\s+)?class\s+\w+/g, weight: 3 },
+    { pattern: /\bSystem\.(?:out|err)\.print/g, weight: 3 },
+    { pattern: /\bpublic\s+static\s+void\s+main\s*\(\s*String/g, weight: 4 },
+    { pattern: /^import\s+java(?:x)?\.[\w.*]+;/gm, weight: 4 },
+    { pattern: /@Override\b|\bprivate\s+final\s+\w+/g, weight: 1.5 },
+  ],
+  csharp: [
+    { pattern: /^using\s+System(?:\.[\w.]+)?;/gm, weight: 4 },
+    { pattern: /^\s*namespace\s+[\w.]+/gm, weight: 2 },
+    { pattern: /\bConsole\.Write(?:Line)?\(/g, weight: 3 },
+    { pattern: /{\s*get;\s*(?:private\s+)?set;\s*}/g, weight: 3 },
+    { pattern: /\basync\s+Task\b|\bstring\[\]\s+args\b/g, weight: 2 },
+  ],
+  cpp: [
+    { pattern: /^#include\s*[<"][\w./]+[>"]/gm, weight: 4 },
+    { pattern: /\bstd::\w+/g, weight: 2 },
+    { pattern: /\b(?:cout|cerr)\s*<</g, weight: 2 },
+    { pattern: /\btemplate\s*<|\bnullptr\b/g, weight: 2 },
+    { pattern: /\bint\s+main\s*\(/g, weight: 1 },
+  ],
+  go: [
+    { pattern: /^package\s+\w+\s*$/gm, weight: 4 },
+    { pattern: /^func\s+(?:\([^)]*\)\s*)?\w+\(/gm, weight: 3 },
+    { pattern: /\w\s*:=/g, weight: 1 },
+    { pattern: /\bif\s+err\s*!=\s*nil\b/g, weight: 3 },
+    { pattern: /\bfmt\.\w+\(/g, weight: 2 },
+  ],
+  rust: [
+    { pattern: /\b(?:pub\s+)?fn\s+\w+\s*(?:<[^>]*>)?\(/g, weight: 3 },
+    { pattern: /\blet\s+mut\b/g, weight: 3 },
+    { pattern: /\b(?:println|format|vec|panic)!\(/g, weight: 3 },
+    { pattern: /^\s*(?:use|mod)\s+[\w:]+/gm, weight: 1 },
+    { pattern: /\bimpl(?:<[^>]*>)?\s+\w+|&(?:mut\s+)?str\b/g, weight: 2 },
+  ],
+  php: [
+    { pattern: /<\?php/g, weight: 6 },
+    { pattern: /\$\w+\s*=/g, weight: 1.5 },
+    { pattern: /\$this->\w+/g, weight: 2 },
+    { pattern: /\becho\s+/g, weight: 0.5 },
+  ],
+  ruby: [
+    { pattern: /^\s*def\s+\w+[?!]?(?:\(.*\))?\s*$/gm, weight: 2 },
+    { pattern: /^\s*end\s*$/gm, weight: 1 },
+    { pattern: /\b(?:puts|attr_accessor|attr_reader)\b/g, weight: 2 },
+    { pattern: /^\s*require\s+["'][\w/]+["']\s*$/gm, weight: 1 },
+    { pattern: /\bdo\s*\|[^|]*\|/g, weight: 2 },
+  ],
+  bash: [
+    { pattern: /^\s*(?:fi|done|esac)\s*$/gm, weight: 2 },
+    { pattern: /\bthen\s*$|;\s*then\b|;\s*do\b/gm, weight: 2 },
+    { pattern: /\$\{\w+[^}]*\}|\$\(\s*[\w-]+/g, weight: 1.5 },
+    { pattern: /^\s*(?:echo|export|source|set\s+-[euxo])\b/gm, weight: 1 },
+  ],
+  sql: [
+    {
+      pattern:
+        /^\s*(?:SELECT\s+.+\s+FROM|INSERT\s+INTO|CREATE\s+(?:TABLE|INDEX|VIEW)|UPDATE\s+\w+\s+SET|DELETE\s+FROM|ALTER\s+TABLE)\b/gim,
+      weight: 4,
+    },
+    {
+      pattern: /\b(?:WHERE|JOIN|GROUP BY|ORDER BY|PRIMARY KEY)\b/g,
+      weight: 1.5,
+    },
+  ],
+  html: [
+    { pattern: /<!DOCTYPE\s+html>|<html[\s>]/gi, weight: 6 },
+    {
+      pattern: /<(?:div|span|head|body|script|link|meta)\b[^>]*>/g,
+      weight: 1.5,
+    },
+  ],
+  css: [
+    {
+      pattern: /^\s*[.#@]?[\w-]+(?:[\s>+~:.#[\]="\w-]*)\s*{\s*$/gm,
+      weight: 1.5,
+    },
+    { pattern: /^\s*[\w-]+\s*:\s*[^;{}]+;\s*$/gm, weight: 1 },
+    { pattern: /@media\b|!important\b/g, weight: 2 },
+  ],
+  yaml: [
+    { pattern: /^[\w-]+:(?:\s+[^{}\s][^{}]*)?\s*$/gm, weight: 1 },
+    { pattern: /^\s*-\s+[\w-]+:\s/gm, weight: 1.5 },
+    { pattern: /^---\s*$/gm, weight: 1 },
+  ],
+  markdown: [
+    { pattern: /^#{1,6}\s+\S/gm, weight: 1.5 },
+    { pattern: /^```/gm, weight: 1.5 },
+    { pattern: /\[[^\]]+\]\([^)]+\)/g, weight: 1.5 },
+  ],
+  dockerfile: [
+    { pattern: /^FROM\s+\S+/gm, weight: 4 },
+    {
+      pattern: /^(?:RUN|COPY|ADD|CMD|ENTRYPOINT|WORKDIR|EXPOSE|ENV|ARG)\s/gm,
+      weight: 2,
+    },
+  ],
+  makefile: [
+    { pattern: /^\.PHONY\s*:/gm, weight: 5 },
+    { pattern: /^[\w./%-]+\s*:(?!=)[^\n]*\n\t/gm, weight: 3 },
+    { pattern: /\$\([A-Z_]+\)|\$@|\$</g, weight: 1.5 },
+  ],
+};
+
+// Languages whose markers are a superset of another's
+const REFINEMENTS: Record<string, string> = {
+  typescript: "javascript",
+  jsx: "javascript",
+};
+
+const MAX_MATCHES_PER_MARKER = 5;
+
+export function detectLanguage(
+  code: string,
+  fileName?: string
+): LanguageDetection {
+  const baseName = fileName?.split("/").pop() || "";
+  for (const [pattern, language] of FILENAME_LANGUAGES) {
+    if (pattern.test(baseName)) {
+      return { language, confidence: 0.95 };
+    }
+  }
+
+  const firstLine = code.trimStart().split("\n", 1)[0];
+  for (const [pattern, language] of SHEBANG_LANGUAGES) {
+    if (pattern.test(firstLine)) {
+      return { language, confidence: 0.95 };
+    }
+  }
+
+  if (isJson(code)) {
+    return { language: "json", confidence: 0.95 };
+  }
+
+  const scores: Record<string, number> = {};
+  for (const [language, markers] of Object.entries(LANGUAGE_MARKERS)) {
+    scores[language] = markers.reduce(
+      (sum, marker) =>
+        sum +
+        Math.min(
+          (code.match(marker.pattern) || []).length,
+          MAX_MATCHES_PER_MARKER
+        ) *
+          marker.weight,
+      0
+    );
+  }
+
+  // TypeScript and JSX only count on top of JavaScript evidence
+  for (const [language, base] of Object.entries(REFINEMENTS)) {
+    if (scores[language] > 0) {
+      scores[language] += scores[base];
+    }
+  }
+  if (scores.typescript > scores.javascript && scores.jsx > scores.javascript) {
+    scores.tsx = scores.typescript + scores.jsx - scores.javascript;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, bestScore] = ranked[0];
+  if (bestScore === 0) {
+    return { language: "text", confidence: 0 };
+  }
+
+  // Refinements always outscore their base, so compare against the best
+  // unrelated language for the margin
+  const runnerUpScore =
+    ranked.find(
+      ([language]) =>
+        language !== best &&
+        REFINEMENTS[best] !== language &&
+        REFINEMENTS[language] !== best &&
+        !(best === "tsx" && language in REFINEMENTS) &&
+        !(language === "tsx" && best in REFINEMENTS)
+    )?.[1] || 0;
+  const margin = bestScore / (bestScore + runnerUpScore);
+  const evidence = Math.min(bestScore / 8, 1);
+  const confidence = Math.min(margin * evidence, 0.95);
+
+  return { language: best, confidence: Math.round(confidence * 100) / 100 };
+}
+
+function isJson(code: string): boolean {
+  const trimmed = code.trim();
+  if (!/^[{[]/.test(trimmed)) return false;
+
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { maskLine, tokenizeLines } from "./lexer";
+import type { LineToken, TokenKind } from "./lexer";
+
+// Each token as [kind, text] for readable expectations
+function tokenTexts(line: string, tokens: LineToken[]): [TokenKind, string][] {
+  return tokens.map((token) => [token.kind, line.slice(token.start, token.end)]);
+}
+
+function lexLines(code: string, language: string): [TokenKind, string][][] {
+  const lines = code.split("\n");
+  return tokenizeLines(code, language).map((tokens, i) => tokenTexts(lines[i], tokens));
+}
+
+describe("tokenizeLines", () => {
+  it("splits a line into code, string and comment tokens", () => {
+    expect(lexLines('const a = "x // y"; // note', "javascript")).toEqual([
+      [
+        ["code", "const a = "],
+        ["string", '"x // y"'],
+        ["code", "; "],
+        ["comment", "// note"],
+      ],
+    ]);
+  });
+
+  it("skips escaped quotes inside strings", () => {
+    expect(lexLines('s = "a \\" b" + c', "javascript")).toEqual([
+      [
+        ["code", "s = "],
+        ["string", '"a \\" b"'],
+        ["code", " + c"],
+      ],
+    ]);
+  });
+
+  it("carries block comments and template literals across lines", () => {
+    expect(lexLines("/* one\ntwo */ x = `a\nb`;", "typescript")).toEqual([
+      [["comment", "/* one"]],
+      [
+        ["comment", "two */"],
+        ["code", " x = "],
+        ["string", "`a"],
+      ],
+      [
+        ["string", "b`"],
+        ["code", ";"],
+      ],
+    ]);
+  });
+
+  it("ends line comments and ordinary strings at the end of the line", () => {
+    expect(lexLines('// a\nb = "open\nc', "javascript")).toEqual([
+      [["comment", "// a"]],
+      [
+        ["code", "b = "],
+        ["string", '"open'],
+      ],
+      [["code", "c"]],
+    ]);
+  });
+
+  it("treats Python docstrings as comments and other triple quotes as strings", () => {
+    expect(lexLines('def f():\n    """Doc\n    more"""\n    s = """x"""', "python")).toEqual([
+      [["code", "def f():"]],
+      [
+        ["code", "    "],
+        ["comment", '"""Doc'],
+      ],
+      [["comment", '    more"""']],
+      [
+        ["code", "    s = "],
+        ["string", '"""x"""'],
+      ],
+    ]);
+  });
+
+  it("only starts shell comments at a word boundary", () => {
+    expect(lexLines("echo ${#arr} # count", "bash")).toEqual([
+      [
+        ["code", "echo ${#arr} "],
+        ["comment", "# count"],
+      ],
+    ]);
+  });
+
+  it("does not open strings on Rust lifetimes", () => {
+    expect(lexLines("fn f<'a>(s: &'a str) {}", "rust")).toEqual([
+      [["code", "fn f<'a>(s: &'a str) {}"]],
+    ]);
+  });
+
+  it("treats unknown languages as plain code", () => {
+    expect(lexLines('say "hi" // there', "klingon")).toEqual([
+      [["code", 'say "hi" // there']],
+    ]);
+  });
+});
+
+describe("maskLine", () => {
+  const line = 'x = "str"; // todo: fix';
+  const [tokens] = tokenizeLines(line, "javascript");
+
+  it("blanks everything outside tokens of the given kind, keeping columns", () => {
+    expect(maskLine(line, tokens, "code", "javascript")).toBe("x =      ;".padEnd(line.length));
+    expect(maskLine(line, tokens, "string", "javascript")).toBe('    "str"'.padEnd(line.length));
+  });
+
+  it("blanks comment delimiters too", () => {
+    expect(maskLine(line, tokens, "comment", "javascript")).toBe("              todo: fix");
+  });
+});
@@ -0,0 +1,318 @@
+export type TokenKind = "code" | "comment" | "string";
+
+// Column range within a single line, end exclusive
+export interface LineToken {
+  kind: TokenKind;
+  start: number;
+  end: number;
+}
+
+export interface LanguageSyntax {
+  lineComments: string[];
+  blockComments: [string, string][];
+  // String delimiters, longest first so '"""' wins over '"'
+  strings: string[];
+  // Delimiters whose strings may continue onto the next line
+  multilineStrings?: string[];
+  // Triple-quoted strings opening a statement are docstrings (Python)
+  docstrings?: boolean;
+  // "#" only starts a comment at the start of a word (shell, YAML, Makefile)
+  hashNeedsBoundary?: boolean;
+}
+
+const C_STYLE: LanguageSyntax = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+  strings: ['"', "'"],
+};
+
+const JS_STYLE: LanguageSyntax = {
+  ...C_STYLE,
+  strings: ['"', "'", "`"],
+  multilineStrings: ["`"],
+};
+
+const HASH_STYLE: LanguageSyntax = {
+  lineComments: ["#"],
+  blockComments: [],
+  strings: ['"', "'"],
+  hashNeedsBoundary: true,
+};
+
+const MARKUP_STYLE: LanguageSyntax = {
+  lineComments: [],
+  blockComments: [["<!--", "-->"]],
+  strings: [],
+};
+
+const PLAIN_TEXT: LanguageSyntax = {
+  lineComments: [],
+  blockComments: [],
+  strings: [],
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  javascript: JS_STYLE,
+  jsx: JS_STYLE,
+  typescript: JS_STYLE,
+  tsx: JS_STYLE,
+  python: {
+    lineComments: ["#"],
+    blockComments: [],
+    strings: ['"""', "'''", '"', "'"],
+    multilineStrings: ['"""', "'''"],
+    docstrings: true,
+  },
+  java: {
+    ...C_STYLE,
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  cpp: C_STYLE,
+  csharp: {
+    ...C_STYLE,
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  go: {
+    ...C_STYLE,
+    strings: ['"', "'", "`"],
+    multilineStrings: ["`"],
+  },
+  // Single quotes are lifetimes as often as char literals, so only '"' opens a string
+  rust: { ...C_STYLE, strings: ['"'] },
+  php: {
+    lineComments: ["//", "#"],
+    blockComments: [["/*", "*/"]],
+    strings: ['"', "'"],
+  },
+  ruby: {
+    lineComments: ["#"],
+    blockComments: [["=begin", "=end"]],
+    strings: ['"', "'"],
+  },
+  swift: {
+    ...C_STYLE,
+    strings: ['"""', '"'],
+    multilineStrings: ['"""'],
+  },
+  kotlin: {
+    ...C_STYLE,
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  scala: {
+    ...C_STYLE,
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  bash: HASH_STYLE,
+  sql: {
+    lineComments: ["--"],
+    blockComments: [["/*", "*/"]],
+    strings: ["'", '"'],
+  },
+  html: MARKUP_STYLE,
+  xml: MARKUP_STYLE,
+  markdown: MARKUP_STYLE,
+  css: {
+    lineComments: [],
+    blockComments: [["/*", "*/"]],
+    strings: ['"', "'"],
+  },
+  scss: C_STYLE,
+  sass: C_STYLE,
+  json: { lineComments: [], blockComments: [], strings: ['"'] },
+  yaml: HASH_STYLE,
+  dockerfile: HASH_STYLE,
+  makefile: HASH_STYLE,
+};
+
+type LexerState =
+  | { kind: "code" }
+  | { kind: "comment"; close: string | null }
+  | { kind: "string"; close: string; multiline: boolean };
+
+const CODE_STATE: LexerState = { kind: "code" };
+
+export function getLanguageSyntax(language: string): LanguageSyntax {
+  return LANGUAGE_SYNTAX[language] || PLAIN_TEXT;
+}
+
+// Splits code into lines of code, comment and string tokens. State carries
+// across lines so block comments, docstrings and template literals are
+// classified on every line they span.
+export function tokenizeLines(code: string, language: string): LineToken[][] {
+  const syntax = getLanguageSyntax(language);
+  const result: LineToken[][] = [];
+  let state: LexerState = CODE_STATE;
+
+  for (const line of code.split("\n")) {
+    const tokens: LineToken[] = [];
+    const push = (kind: TokenKind, start: number, end: number) => {
+      if (end <= start) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.kind === kind && last.end === start) {
+        last.end = end;
+      } else {
+        tokens.push({ kind, start, end });
+      }
+    };
+
+    let segmentStart = 0;
+    let col = 0;
+
+    while (col < line.length) {
+      if (state.kind === "code") {
+        const opened = openToken(line, col, syntax);
+        if (opened) {
+          push("code", segmentStart, col);
+          segmentStart = col;
+          state = opened.state;
+          col += opened.length;
+        } else {
+          col++;
+        }
+      } else if (state.kind === "string") {
+        if (line[col] === "\\") {
+          col += 2;
+        } else if (line.startsWith(state.close, col)) {
+          col += state.close.length;
+          push("string", segmentStart, col);
+          segmentStart = col;
+          state = CODE_STATE;
+        } else {
+          col++;
+        }
+      } else if (state.close === null) {
+        col = line.length;
+      } else if (line.startsWith(state.close, col)) {
+        col += state.close.length;
+        push("comment", segmentStart, col);
+        segmentStart = col;
+        state = CODE_STATE;
+      } else {
+        col++;
+      }
+    }
+
+    push(state.kind, segmentStart, line.length);
+    result.push(tokens);
+
+    // Line comments and ordinary strings never continue onto the next line
+    if (
+      (state.kind === "comment" && state.close === null) ||
+      (state.kind === "string" && !state.multiline)
+    ) {
+      state = CODE_STATE;
+    }
+  }
+
+  return result;
+}
+
+function openToken(
+  line: string,
+  col: number,
+  syntax: LanguageSyntax
+): { state: LexerState; length: number } | null {
+  for (const [open, close] of syntax.blockComments) {
+    if (line.startsWith(open, col)) {
+      return { state: { kind: "comment", close }, length: open.length };
+    }
+  }
+
+  for (const marker of syntax.lineComments) {
+    if (!line.startsWith(marker, col)) continue;
+    if (
+      marker === "#" &&
+      syntax.hashNeedsBoundary &&
+      col > 0 &&
+      !/\s/.test(line[col - 1])
+    ) {
+      continue;
+    }
+    return { state: { kind: "comment", close: null }, length: marker.length };
+  }
+
+  for (const quote of syntax.strings) {
+    if (!line.startsWith(quote, col)) continue;
+
+    const multiline = syntax.multilineStrings?.includes(quote) ?? false;
+    if (syntax.docstrings && multiline && !line.slice(0, col).trim()) {
+      return { state: { kind: "comment", close: quote }, length: quote.length };
+    }
+    return {
+      state: { kind: "string", close: quote, multiline },
+      length: quote.length,
+    };
+  }
+
+  return null;
+}
+
+// Returns the line with every character outside tokens of the given kind
+// replaced by a space, so columns still line up with the original line. For
+// comments the delimiters are blanked too, leaving only the comment text.
+export function maskLine(
+  line: string,
+  tokens: LineToken[],
+  kind: TokenKind,
+  language: string
+): string {
+  const chars = new Array<string>(line.length).fill(" ");
+
+  for (const token of tokens) {
+    if (token.kind !== kind) continue;
+
+    let text = line.slice(token.start, token.end);
+    if (kind === "comment") {
+      text = blankCommentDelimiters(text, getLanguageSyntax(language));
+    }
+    for (let i = 0; i < text.length; i++) {
+      chars[token.start + i] = text[i];
+    }
+  }
+
+  return chars.join("");
+}
+
+function blankCommentDelimiters(text: string, syntax: LanguageSyntax): string {
+  const blank = (match: string) => " ".repeat(match.length);
+  const openers = [
+    ...syntax.lineComments,
+    ...syntax.blockComments.map(([open]) => open),
+    ...(syntax.docstrings ? syntax.multilineStrings || [] : []),
+  ];
+  const closers = [
+    ...syntax.blockComments.map(([, close]) => close),
+    ...(syntax.docstrings ? syntax.multilineStrings || [] : []),
+  ];
+
+  let result = text;
+  for (const open of openers) {
+    const leading = new RegExp(`^(\\s*)${escapeRegExp(open)}[*!/]*`);
+    if (leading.test(result)) {
+      result = result.replace(leading, blank);
+      break;
+    }
+  }
+  for (const close of closers) {
+    const trailing = new RegExp(`${escapeRegExp(close)}(\\s*)$`);
+    if (trailing.test(result)) {
+      result = result.replace(trailing, blank);
+      break;
+    }
+  }
+
+  // Leading "*" on the continuation lines of a /** ... */ block
+  if (syntax.blockComments.some(([open]) => open === "/*")) {
+    result = result.replace(/^(\s*)\*(?!\/)/, blank);
+  }
+
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
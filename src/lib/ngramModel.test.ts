@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { tokenizeLines } from "./lexer";
+import trainedNgramModel from "./models/ngram.json";
+import {
+  lineLogLikelihoodRatio,
+  modelTokens,
+  ngramReasonsByLine,
+  trainNgramModel,
+} from "./ngramModel";
+import type { NgramModel } from "./ngramModel";
+
+function reasonsFor(model: NgramModel, code: string, language: string) {
+  return ngramReasonsByLine(
+    model,
+    code.split("\n"),
+    tokenizeLines(code, language)
+  );
+}
+
+const PROTOTYPE_WORDS =
+  "// constructor tostring valueof hasownproperty isprototypeof __proto__";
+
+describe("modelTokens", () => {
+  it("reduces identifiers to their shape and keeps comment words", () => {
+    const line = 'const userName = fetchUser("x", 42); // load the user';
+    const [tokens] = tokenizeLines(line, "javascript");
+
+    expect(modelTokens(line, tokens)).toEqual([
+      "<bol>",
+      "const",
+      "<id:camel>",
+      "=",
+      "<id:camel>",
+      "(",
+      "<str>",
+      ",",
+      "<num>",
+      ")",
+      ";",
+      "<comment>",
+      "load",
+      "the",
+      "user",
+    ]);
+  });
+});
+
+describe("trainNgramModel", () => {
+  it("counts prototype-named tokens as ordinary n-grams", () => {
+    const model = trainNgramModel([
+      { path: "a.js", code: "// constructor valueof", language: "javascript", isAI: true },
+      { path: "h.js", code: "let x = 1;", language: "javascript", isAI: false },
+    ]);
+
+    expect(model.ai.counts["constructor"]).toBe(1);
+    expect(model.ai.counts["valueof"]).toBe(1);
+    expect(Object.prototype.hasOwnProperty.call(model.human.counts, "constructor")).toBe(false);
+  });
+});
+
+describe("lineLogLikelihoodRatio", () => {
+  it("stays finite for tokens named like Object.prototype members", () => {
+    const model = trainNgramModel([
+      { path: "a.js", code: "// returns the value", language: "javascript", isAI: true },
+      { path: "h.js", code: "let x = 1;", language: "javascript", isAI: false },
+    ]);
+    const [tokens] = tokenizeLines(PROTOTYPE_WORDS, "javascript");
+    const { ratio, tokenCount } = lineLogLikelihoodRatio(
+      model,
+      modelTokens(PROTOTYPE_WORDS, tokens)
+    );
+
+    expect(Number.isFinite(ratio)).toBe(true);
+    expect(tokenCount).toBe(7);
+  });
+
+  it("stays finite with the shipped model, which is a plain object", () => {
+    const code = [
+      "// constructor helper for the thing",
+      "function make() {",
+      "  return {};",
+      "}",
+    ].join("\n");
+    const reasons = reasonsFor(trainedNgramModel as NgramModel, code, "javascript");
+
+    for (const reason of reasons.flat()) {
+      expect(Number.isFinite(reason.weight)).toBe(true);
+    }
+  });
+});
+
+describe("ngramReasonsByLine", () => {
+  const model = trainNgramModel([
+    {
+      path: "a.py",
+      code: "# Initialize the result list\nresult = []\n# Return the final result\nreturn result",
+      language: "python",
+      isAI: true,
+    },
+    {
+      path: "h.py",
+      code: "xs=[]\nfor x in y: xs.append(x)\nreturn xs",
+      language: "python",
+      isAI: false,
+    },
+  ]);
+
+  it("gives lines a reason in the direction of the model they resemble", () => {
+    const [line] = reasonsFor(model, "# Initialize the result list", "python");
+
+    expect(line).toHaveLength(1);
+    expect(line[0].polarity).toBe("ai");
+    expect(line[0].weight).toBeGreaterThan(0);
+  });
+
+  it("leaves blank lines without reasons", () => {
+    expect(reasonsFor(model, "\n", "python")).toEqual([[], []]);
+  });
+});
@@ -0,0 +1,252 @@
+import type { DetectionReason } from "./aiDetection";
+import type { LabeledSource } from "./calibration";
+import { tokenizeLines } from "./lexer";
+import type { LineToken } from "./lexer";
+
+// Token n-gram language models for AI and human code. A line scores by the
+// log-likelihood ratio of its tokens under the two models, so a positive
+// ratio means the token sequence is more probable as AI output.
+
+// Counts of every n-gram of length 1..order, keyed by its tokens joined with
+// a space (tokens never contain whitespace)
+export interface NgramCounts {
+  counts: Record<string, number>;
+  // Number of n-grams of each length, index 0 for unigrams
+  totals: number[];
+}
+
+export interface NgramModel {
+  order: number;
+  vocabularySize: number;
+  ai: NgramCounts;
+  human: NgramCounts;
+}
+
+export interface NgramTrainingOptions {
+  order?: number;
+  // Higher-order n-grams seen fewer times than this are dropped to keep the
+  // serialized model small; unigrams are always kept
+  minCount?: number;
+}
+
+export interface NgramScoringOptions {
+  // Lines on each side of a line that contribute to its score
+  windowRadius?: number;
+  // Mean per-token log-likelihood ratio (nats) needed before a line gets a
+  // reason either way
+  threshold?: number;
+}
+
+const DEFAULT_ORDER = 3;
+const DEFAULT_WINDOW_RADIUS = 2;
+const DEFAULT_THRESHOLD = 0.25;
+
+// Add-k smoothing for every order; the orders are then interpolated with
+// weights that double from each order to the next
+const SMOOTHING = 0.1;
+
+// Reason weight per nat of mean log-likelihood ratio, and its cap
+const WEIGHT_PER_NAT = 0.2;
+const MAX_WEIGHT = 0.3;
+
+// Marks the start of a line so n-grams can learn how lines begin
+const LINE_START = "<bol>";
+
+const CODE_TOKEN = /[A-Za-z_$][\w$]*|\d[\w.]*|[^\sA-Za-z_$\d]/g;
+const COMMENT_WORD = /[a-z][a-z'-]*/g;
+const MAX_COMMENT_WORDS = 12;
+
+// Words kept verbatim; every other identifier is reduced to its shape so the
+// model learns style rather than one project's names
+const KEYWORDS = new Set(
+  `abstract and as assert async await break case catch class const continue
+  def default defer del do elif else enum except export extends false final
+  finally fn for from func function go if impl implements import in
+  instanceof interface is lambda let match mod mut new nil none not null or
+  package pass private protected pub public raise return self static struct
+  super switch this throw throws true try type typeof undefined use var void
+  while with yield`.split(/\s+/)
+);
+
+function identifierShape(word: string): string {
+  if (KEYWORDS.has(word) || KEYWORDS.has(word.toLowerCase())) return word;
+  if (word.length <= 2) return "<id:short>";
+  if (/^[A-Z][A-Z0-9_]+$/.test(word)) return "<id:const>";
+  if (/^[A-Z]/.test(word)) return "<id:type>";
+  if (word.includes("_")) return "<id:snake>";
+  if (/[A-Z]/.test(word)) return "<id:camel>";
+  return "<id:word>";
+}
+
+// Model tokens for one line: code tokens with identifiers reduced to their
+// shape, one token per string literal, and the first words of any comment
+export function modelTokens(line: string, tokens: LineToken[]): string[] {
+  const result: string[] = [LINE_START];
+
+  for (const token of tokens) {
+    const text = line.slice(token.start, token.end);
+    if (token.kind === "string") {
+      result.push("<str>");
+    } else if (token.kind === "comment") {
+      const words = text.toLowerCase().match(COMMENT_WORD) || [];
+      result.push("<comment>", ...words.slice(0, MAX_COMMENT_WORDS));
+    } else {
+      for (const match of text.match(CODE_TOKEN) || []) {
+        result.push(
+          /^\d/.test(match)
+            ? "<num>"
+            : /^[A-Za-z_$]/.test(match)
+              ? identifierShape(match)
+              : match
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+// Comment words are kept verbatim, so keys like "constructor" must not
+// resolve to Object.prototype members: counts are built without a prototype
+// and read through own-property checks (a loaded model is a plain object)
+function emptyCounts(order: number): NgramCounts {
+  return { counts: Object.create(null), totals: new Array(order).fill(0) };
+}
+
+function countOf(counts: NgramCounts, key: string): number {
+  return Object.prototype.hasOwnProperty.call(counts.counts, key)
+    ? counts.counts[key]
+    : 0;
+}
+
+function countLine(counts: NgramCounts, tokens: string[], order: number) {
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = 1; n <= order && i - n + 1 >= 0; n++) {
+      const key = tokens.slice(i - n + 1, i + 1).join(" ");
+      counts.counts[key] = countOf(counts, key) + 1;
+      counts.totals[n - 1]++;
+    }
+  }
+}
+
+export function trainNgramModel(
+  sources: LabeledSource[],
+  options: NgramTrainingOptions = {}
+): NgramModel {
+  const { order = DEFAULT_ORDER, minCount = 1 } = options;
+  const ai = emptyCounts(order);
+  const human = emptyCounts(order);
+
+  for (const source of sources) {
+    const lines = source.code.split("\n");
+    const tokens = tokenizeLines(source.code, source.language);
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      countLine(
+        source.isAI ? ai : human,
+        modelTokens(line, tokens[i] || []),
+        order
+      );
+    });
+  }
+
+  const vocabulary = new Set<string>();
+  for (const counts of [ai, human]) {
+    for (const [key, count] of Object.entries(counts.counts)) {
+      const isUnigram = !key.includes(" ");
+      if (isUnigram) vocabulary.add(key);
+      else if (count < minCount) delete counts.counts[key];
+    }
+  }
+
+  return { order, vocabularySize: vocabulary.size, ai, human };
+}
+
+// Interpolated, add-k smoothed probability of the token at index i given the
+// tokens before it on the same line
+function tokenProbability(
+  model: NgramModel,
+  counts: NgramCounts,
+  tokens: string[],
+  i: number
+): number {
+  const orders = Math.min(model.order, i + 1);
+  const weightTotal = 2 ** orders - 1;
+  let probability = 0;
+
+  for (let n = 1; n <= orders; n++) {
+    const lambda = 2 ** (n - 1) / weightTotal;
+    const gram = tokens.slice(i - n + 1, i + 1);
+    const count = countOf(counts, gram.join(" "));
+    const contextCount =
+      n === 1 ? counts.totals[0] : countOf(counts, gram.slice(0, -1).join(" "));
+    probability +=
+      (lambda * (count + SMOOTHING)) /
+      (contextCount + SMOOTHING * (model.vocabularySize + 1));
+  }
+
+  return probability;
+}
+
+// Log-likelihood ratio (AI over human, in nats) summed over a line's tokens
+// after the line-start marker, with the token count it covers
+export function lineLogLikelihoodRatio(
+  model: NgramModel,
+  tokens: string[]
+): { ratio: number; tokenCount: number } {
+  let ratio = 0;
+  for (let i = 1; i < tokens.length; i++) {
+    ratio +=
+      Math.log(tokenProbability(model, model.ai, tokens, i)) -
+      Math.log(tokenProbability(model, model.human, tokens, i));
+  }
+  return { ratio, tokenCount: Math.max(tokens.length - 1, 0) };
+}
+
+// Scores each non-blank line by the mean per-token ratio of the window around
+// it and turns clear leads into reasons
+export function ngramReasonsByLine(
+  model: NgramModel,
+  lines: string[],
+  tokens: LineToken[][],
+  options: NgramScoringOptions = {}
+): DetectionReason[][] {
+  const {
+    windowRadius = DEFAULT_WINDOW_RADIUS,
+    threshold = DEFAULT_THRESHOLD,
+  } = options;
+
+  const scores = lines.map((line, i) =>
+    line.trim()
+      ? lineLogLikelihoodRatio(model, modelTokens(line, tokens[i] || []))
+      : { ratio: 0, tokenCount: 0 }
+  );
+
+  return lines.map((line, i) => {
+    if (!line.trim()) return [];
+
+    let ratio = 0;
+    let tokenCount = 0;
+    const from = Math.max(0, i - windowRadius);
+    const to = Math.min(lines.length - 1, i + windowRadius);
+    for (let j = from; j <= to; j++) {
+      ratio += scores[j].ratio;
+      tokenCount += scores[j].tokenCount;
+    }
+    const meanRatio = tokenCount > 0 ? ratio / tokenCount : 0;
+    if (Math.abs(meanRatio) < threshold) return [];
+
+    const isAI = meanRatio > 0;
+    return [
+      {
+        ruleId: "ngram/token-sequence",
+        message: isAI
+          ? "Token sequence more probable under the AI model"
+          : "Token sequence more probable under the human model",
+        polarity: isAI ? "ai" : "human",
+        weight: Math.min(Math.abs(meanRatio) * WEIGHT_PER_NAT, MAX_WEIGHT),
+        spans: [],
+      },
+    ];
+  });
+}
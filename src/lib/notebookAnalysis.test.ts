@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { analyzeNotebook, isNotebookFile, parseNotebook } from "./notebookAnalysis";
+
+function notebook(cells: object[], metadata: object = {}): string {
+  return JSON.stringify({ nbformat: 4, nbformat_minor: 5, metadata, cells });
+}
+
+describe("isNotebookFile", () => {
+  it("matches .ipynb files in any case", () => {
+    expect(isNotebookFile("analysis/Explore.IPYNB")).toBe(true);
+    expect(isNotebookFile("explore.py")).toBe(false);
+  });
+});
+
+describe("parseNotebook", () => {
+  it("reads cells, joining sources stored as lists of lines", () => {
+    const parsed = parseNotebook(
+      notebook([
+        { cell_type: "markdown", source: ["# Title\n", "Intro."] },
+        { cell_type: "code", execution_count: 3, source: "x = 1" },
+        { cell_type: "code", execution_count: null, source: [] },
+        { cell_type: "raw", source: "raw text" },
+      ])
+    );
+
+    expect(parsed.cells).toEqual([
+      { index: 0, cellType: "markdown", executionCount: null, source: "# Title\nIntro." },
+      { index: 1, cellType: "code", executionCount: 3, source: "x = 1" },
+      { index: 2, cellType: "code", executionCount: null, source: "" },
+      { index: 3, cellType: "raw", executionCount: null, source: "raw text" },
+    ]);
+  });
+
+  it("takes the language from the kernel, then language_info, then python", () => {
+    const languageOf = (metadata: object) =>
+      parseNotebook(notebook([], metadata)).language;
+
+    expect(
+      languageOf({ kernelspec: { language: "R" }, language_info: { name: "python" } })
+    ).toBe("r");
+    expect(languageOf({ language_info: { name: "julia" } })).toBe("julia");
+    expect(languageOf({})).toBe("python");
+  });
+
+  it("rejects invalid JSON and older notebook formats", () => {
+    expect(() => parseNotebook("{")).toThrow("Notebook is not valid JSON");
+    expect(() => parseNotebook(JSON.stringify({ nbformat: 3, worksheets: [] }))).toThrow(
+      "Unsupported notebook format (nbformat 3); expected nbformat 4"
+    );
+  });
+});
+
+describe("analyzeNotebook", () => {
+  it("analyzes code and markdown cells and skips empty and raw ones", async () => {
+    const result = await analyzeNotebook(
+      notebook([
+        { cell_type: "markdown", source: "Some notes." },
+        { cell_type: "code", source: "x = 1\ny = 2" },
+        { cell_type: "code", source: "   " },
+        { cell_type: "raw", source: "raw text" },
+      ]),
+      { ngramModel: null }
+    );
+
+    expect(result.cells.map((cell) => [cell.index, cell.cellType])).toEqual([
+      [0, "markdown"],
+      [1, "code"],
+    ]);
+    expect(result.totalLines).toBe(2);
+    expect(result.aiLines + result.humanLines + result.uncertainLines).toBe(2);
+  });
+});
@@ -0,0 +1,151 @@
+import { analyzeCode } from "./aiDetection";
+import type { AnalysisOptions, AnalysisResult } from "./aiDetection";
+import { analyzeProse } from "./proseAnalysis";
+import type { ProseAnalysis } from "./proseAnalysis";
+
+// Jupyter notebooks are JSON; analyzing that line by line says nothing. Each
+// code cell is analyzed as code in the kernel's language and each markdown
+// cell as prose, and results are kept per cell.
+
+export type NotebookCellType = "code" | "markdown" | "raw";
+
+export interface NotebookCell {
+  // 0-based position in the notebook
+  index: number;
+  cellType: NotebookCellType;
+  // The number in "In [3]"; null for markdown and never-run code cells
+  executionCount: number | null;
+  source: string;
+}
+
+export interface ParsedNotebook {
+  // Kernel language, e.g. "python"
+  language: string;
+  cells: NotebookCell[];
+}
+
+export type CellAnalysis = Omit<NotebookCell, "cellType"> &
+  (
+    | { cellType: "code"; analysis: AnalysisResult }
+    | { cellType: "markdown"; analysis: ProseAnalysis }
+  );
+
+export interface NotebookAnalysis {
+  language: string;
+  // Code and markdown cells; raw cells are not analyzed
+  cells: CellAnalysis[];
+  // Line statistics over all code cells
+  totalLines: number;
+  aiLines: number;
+  humanLines: number;
+  uncertainLines: number;
+  aiPercentage: number;
+  humanPercentage: number;
+  uncertainPercentage: number;
+  overallConfidence: number;
+}
+
+export function isNotebookFile(path: string): boolean {
+  return /\.ipynb$/i.test(path);
+}
+
+// nbformat stores source as a string or as a list of lines that keep their
+// newlines
+function cellSource(source: unknown): string {
+  if (Array.isArray(source)) return source.join("");
+  return typeof source === "string" ? source : "";
+}
+
+// Reads an nbformat 4 notebook; throws on anything else
+export function parseNotebook(json: string): ParsedNotebook {
+  let notebook;
+  try {
+    notebook = JSON.parse(json);
+  } catch {
+    throw new Error("Notebook is not valid JSON");
+  }
+  if (!notebook || !Array.isArray(notebook.cells)) {
+    throw new Error(
+      `Unsupported notebook format${notebook?.nbformat ? ` (nbformat ${notebook.nbformat})` : ""}; expected nbformat 4`
+    );
+  }
+
+  const metadata = notebook.metadata || {};
+  const language = String(
+    metadata.kernelspec?.language || metadata.language_info?.name || "python"
+  ).toLowerCase();
+
+  const cells: NotebookCell[] = notebook.cells.map(
+    (cell: Record<string, unknown>, index: number) => ({
+      index,
+      cellType:
+        cell.cell_type === "code" || cell.cell_type === "markdown"
+          ? cell.cell_type
+          : "raw",
+      executionCount:
+        typeof cell.execution_count === "number" ? cell.execution_count : null,
+      source: cellSource(cell.source),
+    })
+  );
+
+  return { language, cells };
+}
+
+export async function analyzeNotebook(
+  json: string,
+  options: AnalysisOptions = {}
+): Promise<NotebookAnalysis> {
+  const { language, cells } = parseNotebook(json);
+  // One notebook is one analysis; don't wait once per cell
+  const cellOptions = { ...options, simulateDelay: false };
+
+  const analyzed: CellAnalysis[] = [];
+  for (const { cellType, ...cell } of cells) {
+    if (!cell.source.trim()) continue;
+    if (cellType === "code") {
+      analyzed.push({
+        ...cell,
+        cellType,
+        analysis: await analyzeCode(cell.source, language, cellOptions),
+      });
+    } else if (cellType === "markdown") {
+      analyzed.push({
+        ...cell,
+        cellType,
+        analysis: analyzeProse(cell.source, {
+          uncertaintyMargin: options.uncertaintyMargin,
+          scoringModel: options.scoringModel,
+        }),
+      });
+    }
+  }
+
+  const codeCells = analyzed.flatMap((cell) =>
+    cell.cellType === "code" ? [cell.analysis] : []
+  );
+  const sum = (pick: (analysis: AnalysisResult) => number) =>
+    codeCells.reduce((total, analysis) => total + pick(analysis), 0);
+  const totalLines = sum((a) => a.totalLines);
+  const aiLines = sum((a) => a.aiLines);
+  const humanLines = sum((a) => a.humanLines);
+  const uncertainLines = sum((a) => a.uncertainLines);
+  const percentage = (count: number) =>
+    totalLines > 0 ? (count / totalLines) * 100 : 0;
+
+  return {
+    language,
+    cells: analyzed,
+    totalLines,
+    aiLines,
+    humanLines,
+    uncertainLines,
+    aiPercentage: percentage(aiLines),
+    humanPercentage: percentage(humanLines),
+    uncertainPercentage: percentage(uncertainLines),
+    // Weighted by each cell's line count
+    overallConfidence:
+      totalLines > 0
+        ? sum((a) => a.overallConfidence * a.totalLines) / totalLines
+        : 0.5,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { detectPlatforms } from "./platformFingerprints";
+import type { PlatformSources } from "./platformFingerprints";
+
+function sources(overrides: Partial<PlatformSources>): PlatformSources {
+  return { filePaths: [], manifests: [], contents: [], commits: [], ...overrides };
+}
+
+function platformIds(overrides: Partial<PlatformSources>): string[] {
+  return detectPlatforms(sources(overrides)).map((platform) => platform.id);
+}
+
+describe("detectPlatforms", () => {
+  it("finds nothing in a repository without traces", () => {
+    expect(platformIds({ filePaths: ["src/index.ts", "README.md"] })).toEqual([]);
+  });
+
+  it("recognises config and instruction files", () => {
+    expect(
+      platformIds({
+        filePaths: [".cursorrules", ".github/copilot-instructions.md", "docs/CLAUDE.md"],
+      })
+    ).toEqual(["cursor", "copilot", "claude"]);
+  });
+
+  it("recognises packages from npm manifests", () => {
+    const detected = detectPlatforms(
+      sources({
+        manifests: [
+          {
+            path: "package.json",
+            ecosystem: "npm",
+            dependencies: ["react", "lovable-tagger"],
+            localNames: ["app"],
+          },
+        ],
+      })
+    );
+
+    expect(detected).toEqual([
+      {
+        id: "lovable",
+        name: "Lovable",
+        evidence: [{ kind: "package", detail: "lovable-tagger", source: "package.json" }],
+      },
+    ]);
+  });
+
+  it("matches Lovable's markers but not the English word", () => {
+    expect(
+      platformIds({
+        contents: [{ path: "src/About.tsx", content: "<p>A lovable little app</p>" }],
+      })
+    ).toEqual([]);
+    expect(
+      platformIds({
+        contents: [{ path: "index.html", content: '<meta content="https://lovable.dev/opengraph.png">' }],
+      })
+    ).toEqual(["lovable"]);
+  });
+
+  it("credits AGENTS.md to a generic coding agent, not Codex", () => {
+    expect(platformIds({ filePaths: ["AGENTS.md"] })).toEqual(["agents-md"]);
+  });
+
+  it("recognises commit authors and trailers", () => {
+    const detected = detectPlatforms(
+      sources({
+        commits: [
+          {
+            sha: "0123456789abcdef",
+            message: "Fix the login form\n\nCo-authored-by: Claude <noreply@anthropic.com>",
+            author: { name: "Dev", email: "dev@example.com" },
+          },
+          {
+            sha: "fedcba9876543210",
+            message: "Update App.tsx",
+            author: { name: "gpt-engineer-app[bot]", email: "bot@example.com" },
+          },
+        ],
+      })
+    );
+
+    expect(detected.map((platform) => platform.id)).toEqual(["lovable", "claude"]);
+    expect(detected[1].evidence).toEqual([
+      { kind: "commit", detail: "Fix the login form", source: "0123456" },
+    ]);
+  });
+
+  it("keeps at most three examples of each kind of evidence", () => {
+    const [cursor] = detectPlatforms(
+      sources({
+        filePaths: [".cursor/a.mdc", ".cursor/b.mdc", ".cursor/c.mdc", ".cursor/d.mdc"],
+      })
+    );
+
+    expect(cursor.evidence).toHaveLength(3);
+  });
+});
@@ -0,0 +1,205 @@
+import type { DependencyManifest } from "./dependencyCheck";
+
+// Recognises the AI coding platforms and agents a repository was built with
+// from what they leave behind: their config and instruction files, packages
+// they install, markers in generated files and the way they sign commits.
+
+export type PlatformEvidenceKind = "file" | "package" | "content" | "commit";
+
+export interface PlatformEvidence {
+  kind: PlatformEvidenceKind;
+  // What matched: a path, package name, matched text or commit subject
+  detail: string;
+  // File or commit the evidence was found in
+  source?: string;
+}
+
+export interface DetectedPlatform {
+  id: string;
+  name: string;
+  evidence: PlatformEvidence[];
+}
+
+export interface PlatformFingerprint {
+  id: string;
+  name: string;
+  // Repository-relative paths of config or instruction files
+  files?: RegExp[];
+  // Package names, matched against dependencies and the project's own name
+  packages?: RegExp[];
+  // Markers in file contents
+  content?: RegExp[];
+  // Matched against "Author Name <email>\n\nmessage"
+  commits?: RegExp[];
+}
+
+export interface PlatformCommit {
+  sha: string;
+  message: string;
+  author: { name: string; email: string };
+}
+
+export interface PlatformSources {
+  filePaths: string[];
+  manifests: DependencyManifest[];
+  contents: { path: string; content: string }[];
+  commits: PlatformCommit[];
+}
+
+export const PLATFORM_EVIDENCE_LABELS: Record<PlatformEvidenceKind, string> = {
+  file: "Config file",
+  package: "Package",
+  content: "Generated marker",
+  commit: "Commit",
+};
+
+export const PLATFORM_FINGERPRINTS: PlatformFingerprint[] = [
+  {
+    id: "lovable",
+    name: "Lovable",
+    packages: [/^lovable-tagger$/],
+    // Only Lovable's own markers; the plain word is ordinary English
+    content: [/lovable\.dev/i, /lovable-tagger/],
+    commits: [
+      /gpt-engineer-app\[bot\]/i,
+      /lovable-dev\[bot\]/i,
+      /^Use tech stack vite_react_shadcn_ts/m,
+    ],
+  },
+  {
+    id: "bolt",
+    name: "Bolt",
+    files: [/^\.bolt\//],
+    content: [/bolt\.new/i],
+  },
+  {
+    id: "v0",
+    name: "v0",
+    packages: [/^my-v0-project$/],
+    content: [/v0\.dev/i, /\bGenerated by v0\b/i],
+    commits: [/\bv0\[bot\]/i],
+  },
+  {
+    id: "replit",
+    name: "Replit Agent",
+    files: [/^\.replit$/, /^replit\.(?:nix|md)$/],
+    packages: [/^@replit\/vite-plugin-/],
+    commits: [/@users\.noreply\.replit\.com/i],
+  },
+  {
+    id: "cursor",
+    name: "Cursor",
+    files: [/^\.cursorrules$/, /^\.cursor\//],
+    commits: [/cursoragent@cursor\.com/i, /\bcursor\[bot\]/i],
+  },
+  {
+    id: "copilot",
+    name: "GitHub Copilot",
+    files: [
+      /^\.github\/copilot-instructions\.md$/,
+      /^\.github\/instructions\/.+\.instructions\.md$/,
+    ],
+    commits: [/copilot-swe-agent\[bot\]/i, /^Co-authored-by: Copilot\b/im],
+  },
+  {
+    id: "claude",
+    name: "Claude Code",
+    files: [/(?:^|\/)CLAUDE\.md$/, /^\.claude\//],
+    commits: [
+      /Generated with \[?Claude Code\]?/i,
+      /^Co-authored-by: Claude\b.*<noreply@anthropic\.com>/im,
+    ],
+  },
+  {
+    id: "windsurf",
+    name: "Windsurf",
+    files: [/^\.windsurfrules$/, /^\.windsurf\//],
+  },
+  {
+    id: "aider",
+    name: "Aider",
+    files: [/^\.aider[^/]*$/],
+    commits: [/^\S.*\(aider\) </, /^aider: /m],
+  },
+  {
+    id: "cline",
+    name: "Cline / Roo Code",
+    files: [/^\.clinerules/, /^\.roo(?:modes|rules)?(?:\/|$)/],
+  },
+  {
+    id: "gemini",
+    name: "Gemini CLI",
+    files: [/(?:^|\/)GEMINI\.md$/, /^\.gemini\//],
+  },
+  {
+    id: "codex",
+    name: "OpenAI Codex",
+    commits: [/chatgpt-codex-connector\[bot\]/i],
+  },
+  {
+    id: "devin",
+    name: "Devin",
+    commits: [/devin-ai-integration\[bot\]/i],
+  },
+  {
+    // AGENTS.md is read by Codex, Cursor, Jules, Amp and others, so it says
+    // a coding agent was used but not which one
+    id: "agents-md",
+    name: "Coding agent (AGENTS.md)",
+    files: [/(?:^|\/)AGENTS\.md$/],
+  },
+];
+
+// Examples kept per evidence kind, so one platform doesn't list every file
+// it touched
+const MAX_EXAMPLES_PER_KIND = 3;
+
+function matchAny(patterns: RegExp[] | undefined, text: string) {
+  return patterns?.map((pattern) => text.match(pattern)).find(Boolean) ?? null;
+}
+
+export function detectPlatforms(sources: PlatformSources): DetectedPlatform[] {
+  const packageNames = sources.manifests.flatMap((manifest) =>
+    manifest.ecosystem === "npm"
+      ? [...manifest.dependencies, ...manifest.localNames].map((name) => ({
+          name,
+          manifest: manifest.path,
+        }))
+      : []
+  );
+
+  return PLATFORM_FINGERPRINTS.flatMap((fingerprint) => {
+    const evidence: PlatformEvidence[] = [];
+    const add = (item: PlatformEvidence) => {
+      const sameKind = evidence.filter((e) => e.kind === item.kind).length;
+      if (sameKind < MAX_EXAMPLES_PER_KIND) evidence.push(item);
+    };
+
+    for (const path of sources.filePaths) {
+      if (matchAny(fingerprint.files, path)) add({ kind: "file", detail: path });
+    }
+    for (const { name, manifest } of packageNames) {
+      if (matchAny(fingerprint.packages, name)) {
+        add({ kind: "package", detail: name, source: manifest });
+      }
+    }
+    for (const { path, content } of sources.contents) {
+      const match = matchAny(fingerprint.content, content);
+      if (match) add({ kind: "content", detail: match[0], source: path });
+    }
+    for (const commit of sources.commits) {
+      const signed = `${commit.author.name} <${commit.author.email}>\n\n${commit.message}`;
+      if (matchAny(fingerprint.commits, signed)) {
+        add({
+          kind: "commit",
+          detail: commit.message.split("\n")[0],
+          source: commit.sha.slice(0, 7),
+        });
+      }
+    }
+
+    return evidence.length > 0
+      ? [{ id: fingerprint.id, name: fingerprint.name, evidence }]
+      : [];
+  });
+}
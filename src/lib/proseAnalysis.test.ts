@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { analyzeProse, isProseFile } from "./proseAnalysis";
+
+function ruleIds(text: string): string[][] {
+  return analyzeProse(text).sentences.map((sentence) =>
+    sentence.reasons.map((reason) => reason.ruleId)
+  );
+}
+
+describe("isProseFile", () => {
+  it("accepts Markdown and plain text", () => {
+    expect(isProseFile("docs/README.md")).toBe(true);
+    expect(isProseFile("notes.TXT")).toBe(true);
+    expect(isProseFile("src/readme.ts")).toBe(false);
+  });
+});
+
+describe("analyzeProse", () => {
+  it("splits headings, list items and sentences with their lines", () => {
+    const text = [
+      "# Title",
+      "",
+      "First sentence. Second one",
+      "wraps here.",
+      "- an item",
+    ].join("\n");
+
+    expect(
+      analyzeProse(text).sentences.map(({ line, kind, text }) => [line, kind, text])
+    ).toEqual([
+      [1, "heading", "Title"],
+      [3, "paragraph", "First sentence."],
+      [3, "paragraph", "Second one wraps here."],
+      [5, "list-item", "an item"],
+    ]);
+  });
+
+  it("skips front matter, fenced code, tables and badges", () => {
+    const text = [
+      "---",
+      "title: Notes",
+      "---",
+      "```sh",
+      "npm install",
+      "```",
+      "| a | b |",
+      "[![build](https://example.com/badge.svg)](https://example.com)",
+      "Only this.",
+    ].join("\n");
+
+    expect(analyzeProse(text).sentences.map((s) => s.text)).toEqual(["Only this."]);
+  });
+
+  it("judges generated vocabulary as AI and informal first person as human", () => {
+    const { sentences } = analyzeProse(
+      "This tool seamlessly integrates with a robust pipeline.\n\ni wrote this because I needed it, tbh."
+    );
+
+    expect(sentences[0].reasons.map((r) => r.ruleId)).toEqual(["prose/ai-vocabulary"]);
+    expect(sentences[0].reasons[0].spans).toHaveLength(2);
+    expect(sentences[0].verdict).toBe("ai");
+    expect(sentences[1].reasons.map((r) => r.ruleId)).toEqual([
+      "prose/informal",
+      "prose/first-person",
+      "prose/lowercase-start",
+    ]);
+    expect(sentences[1].verdict).toBe("human");
+  });
+
+  it("applies block-specific signals only to their block kinds", () => {
+    expect(ruleIds("## 🚀 Launch\n\n🚀 Launch day.\n\n- **Fast**: really")).toEqual([
+      ["prose/emoji-marker"],
+      [],
+      ["prose/bold-lead-bullet"],
+    ]);
+  });
+
+  it("counts README template structure in every sentence", () => {
+    const text = [
+      "# Features",
+      "# Installation",
+      "# Usage",
+      "# License",
+      "Plain words.",
+    ].join("\n");
+    const { documentReasons, sentences } = analyzeProse(text);
+
+    expect(documentReasons.map((r) => r.ruleId)).toEqual(["prose/readme-template"]);
+    expect(sentences[4].reasons.map((r) => r.ruleId)).toEqual(["prose/readme-template"]);
+    // Too weak on its own to decide a sentence
+    expect(sentences[4].verdict).toBe("uncertain");
+  });
+
+  it("reports an empty document as neutral", () => {
+    expect(analyzeProse("")).toMatchObject({
+      totalSentences: 0,
+      aiPercentage: 0,
+      overallConfidence: 0.5,
+      documentReasons: [],
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import {
+  DEFAULT_UNCERTAINTY_MARGIN,
+  findMatchSpans,
+  verdictFor,
+} from "./aiDetection";
+import type { DetectionReason, Verdict } from "./aiDetection";
+import { DEFAULT_SCORING_MODEL, scoreReasons } from "./scoringModel";
+import type { ScoringModel } from "./scoringModel";
+
+// Sentence-level detector for README and documentation files. Code rules make
+// no sense on prose, so Markdown and plain text are split into headings, list
+// items and paragraph sentences and judged on vocabulary and structure.
+
+export type ProseBlockKind = "heading" | "list-item" | "paragraph";
+
+export interface ProseSentence {
+  // 1-based line the sentence starts on
+  line: number;
+  kind: ProseBlockKind;
+  text: string;
+  verdict: Verdict;
+  aiProbability: number;
+  confidence: number;
+  // Spans are relative to text
+  reasons: DetectionReason[];
+}
+
+export interface ProseAnalysis {
+  totalSentences: number;
+  aiSentences: number;
+  humanSentences: number;
+  uncertainSentences: number;
+  aiPercentage: number;
+  humanPercentage: number;
+  uncertainPercentage: number;
+  overallConfidence: number;
+  sentences: ProseSentence[];
+  // Structure of the document as a whole, also counted in every sentence
+  documentReasons: DetectionReason[];
+}
+
+export interface ProseOptions {
+  uncertaintyMargin?: number;
+  scoringModel?: ScoringModel;
+}
+
+interface ProseSignal {
+  ruleId: string;
+  message: string;
+  aiIndicator: boolean;
+  weight: number;
+  pattern: RegExp;
+  // Block kinds the signal applies to; all when omitted
+  kinds?: ProseBlockKind[];
+}
+
+const PROSE_FILE = /\.(?:md|mdx|markdown|txt)$/i;
+
+// Headings of the README template assistants fill in
+const TEMPLATE_HEADINGS =
+  /^(?:(?:key )?features|getting started|prerequisites|installation|usage|contributing|license|acknowledge?ments|tech(?:nical)? stack|project structure|roadmap|table of contents|overview|support|show your support|authors?|quick ?start|deployment|configuration|how to contribute)$/i;
+
+const LEADING_EMOJI = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})/u;
+
+const PROSE_SIGNALS: ProseSignal[] = [
+  {
+    ruleId: "prose/ai-vocabulary",
+    message: "Vocabulary typical of generated text (seamless, robust, leverage...)",
+    aiIndicator: true,
+    weight: 0.4,
+    pattern:
+      /\b(?:delve|seamless(?:ly)?|robust|leverag(?:e|es|ing)|comprehensive|streamlin(?:e|es|ed)|cutting-edge|empower(?:s|ing)?|elevat(?:e|es)|harness(?:es|ing)?|effortless(?:ly)?|unlock(?:s|ing)?|game[- ]changer|tailored|intuitive|showcas(?:e|es|ing)|boasts|plethora|myriad|vibrant|meticulous(?:ly)?|pivotal|tapestry|realm|ever-evolving|fast-paced|state-of-the-art|user-friendly|blazing(?:ly)? fast|supercharg(?:e|ed)|facilitat(?:e|es)|utiliz(?:e|es|ing))\b/gi,
+  },
+  {
+    ruleId: "prose/hedging",
+    message: "Hedging filler (\"it's important to note\", \"could potentially\")",
+    aiIndicator: true,
+    weight: 0.35,
+    pattern:
+      /\b(?:it(?:'s| is) (?:important|worth) (?:to note|noting|mentioning)|it should be noted|keep in mind that|could potentially|may potentially|in (?:many|most) cases|generally speaking|essentially|ultimately|arguably)\b/gi,
+  },
+  {
+    ruleId: "prose/marketing-opener",
+    message: "Template opener (\"Whether you're...\", \"Welcome to...\")",
+    aiIndicator: true,
+    weight: 0.4,
+    pattern:
+      /^(?:whether you(?:'re| are)\b|in today's (?:fast-paced|digital)|say goodbye to\b|look no further\b|welcome to\b|this (?:project|repository|app(?:lication)?) (?:is designed|aims) to\b)/gi,
+    kinds: ["paragraph", "list-item"],
+  },
+  {
+    ruleId: "prose/emoji-marker",
+    message: "Heading or bullet decorated with an emoji",
+    aiIndicator: true,
+    weight: 0.5,
+    pattern: /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})\uFE0F?/gu,
+    kinds: ["heading", "list-item"],
+  },
+  {
+    ruleId: "prose/bold-lead-bullet",
+    message: "Bullet opening with a bold term and a colon",
+    aiIndicator: true,
+    weight: 0.35,
+    pattern: /^(?:\S+\s+)?\*\*[^*]+\*\*\s*(?::|\s[-\u2013\u2014]\s)/g,
+    kinds: ["list-item"],
+  },
+  {
+    ruleId: "prose/em-dash",
+    message: "Em dash joining clauses",
+    aiIndicator: true,
+    weight: 0.2,
+    pattern: /\w\s?\u2014\s?\w/g,
+  },
+  {
+    ruleId: "prose/informal",
+    message: "Informal shorthand (imo, tbh, btw, gonna)",
+    aiIndicator: false,
+    weight: 0.4,
+    pattern:
+      /\b(?:lol|imo|imho|tbh|fwiw|afaik|btw|iirc|idk|kinda|sorta|gonna|wanna|dunno|haha|ugh|nope|yeah)\b|(?:^|\s)[:;]-?[)(pP](?=\s|$)/gi,
+  },
+  {
+    ruleId: "prose/first-person",
+    message: "First-person account (\"I wrote\", \"I needed\")",
+    aiIndicator: false,
+    weight: 0.3,
+    pattern:
+      /\bI(?:'m|'ve| am| was| had| have| wrote| made| think| needed| wanted| couldn't| got| use| just)\b/g,
+  },
+  {
+    ruleId: "prose/lowercase-start",
+    message: "Sentence starts in lowercase",
+    aiIndicator: false,
+    weight: 0.25,
+    pattern: /^[a-z][a-z']*\s/g,
+    kinds: ["paragraph"],
+  },
+  {
+    ruleId: "prose/work-note",
+    message: "Working note (TODO, FIXME, WIP)",
+    aiIndicator: false,
+    weight: 0.3,
+    pattern: /\b(?:TODO|FIXME|XXX|WIP)\b/g,
+  },
+];
+
+// Document structure signals need this many headings to say anything. They
+// are weak on purpose: they tip sentences that carry their own evidence but
+// leave plain sentences uncertain
+const MIN_SCORED_HEADINGS = 3;
+const MIN_TEMPLATE_HEADINGS = 4;
+
+export function isProseFile(path: string): boolean {
+  return PROSE_FILE.test(path);
+}
+
+interface RawSentence {
+  line: number;
+  kind: ProseBlockKind;
+  text: string;
+}
+
+// Splits after ., ! or ? when the next sentence starts with a capital, digit
+// or markup
+const SENTENCE_BREAK = /(?<=[.!?])\s+(?=[A-Z0-9"'([*_`])/g;
+
+function splitSentences(
+  text: string,
+  lineStarts: { offset: number; line: number }[],
+  kind: ProseBlockKind
+): RawSentence[] {
+  const lineAt = (offset: number) =>
+    lineStarts.filter((start) => start.offset <= offset).pop()!.line;
+
+  const sentences: RawSentence[] = [];
+  let start = 0;
+  const push = (end: number) => {
+    const sentence = text.slice(start, end).trim();
+    if (sentence) {
+      const leading = text.slice(start).search(/\S/);
+      sentences.push({ line: lineAt(start + leading), kind, text: sentence });
+    }
+  };
+  for (const match of text.matchAll(SENTENCE_BREAK)) {
+    push(match.index!);
+    start = match.index! + match[0].length;
+  }
+  push(text.length);
+  return sentences;
+}
+
+// Lines that carry no prose: tables, badges, images, HTML and MDX statements
+function isMarkupLine(line: string): boolean {
+  return /^(?:\||<|\[!\[|!\[|\[[^\]]+\]:\s|(?:import|export)\s|-{3,}$|\*{3,}$|_{3,}$)/.test(
+    line
+  );
+}
+
+function segmentProse(text: string): RawSentence[] {
+  const sentences: RawSentence[] = [];
+  const lines = text.split("\n");
+  let paragraph: { offset: number; line: number }[] = [];
+  let paragraphText = "";
+  let paragraphKind: ProseBlockKind = "paragraph";
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (paragraphText.trim()) {
+      sentences.push(...splitSentences(paragraphText, paragraph, paragraphKind));
+    }
+    paragraph = [];
+    paragraphText = "";
+    paragraphKind = "paragraph";
+  };
+  const append = (content: string, line: number) => {
+    if (paragraphText) paragraphText += " ";
+    paragraph.push({ offset: paragraphText.length, line });
+    paragraphText += content;
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+
+    // Fenced code blocks and front matter are not prose
+    const fenceMarker = line.match(/^(`{3,}|~{3,}|-{3}$)/)?.[1];
+    if (fence) {
+      if (fenceMarker && fenceMarker[0] === fence[0]) fence = null;
+      return;
+    }
+    if (fenceMarker && fenceMarker !== "---") {
+      flush();
+      fence = fenceMarker;
+      return;
+    }
+    // Front matter: "---" on the first line up to the next "---"
+    if (index === 0 && line === "---") {
+      fence = "---";
+      return;
+    }
+
+    if (!line || isMarkupLine(line)) {
+      flush();
+      return;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*?)\s*#*$/);
+    if (heading) {
+      flush();
+      sentences.push({ line: lineNumber, kind: "heading", text: heading[1] });
+      return;
+    }
+
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    if (listItem) {
+      flush();
+      paragraphKind = "list-item";
+      append(listItem[1], lineNumber);
+      return;
+    }
+
+    // Indented code starts after a blank line; otherwise it continues the
+    // paragraph
+    if (!paragraphText && /^(?: {4}|\t)/.test(raw)) return;
+
+    append(line, lineNumber);
+  });
+  flush();
+
+  return sentences;
+}
+
+function reasonFor(signal: ProseSignal, text: string): DetectionReason | null {
+  const spans = findMatchSpans(signal.pattern, text);
+  if (spans.length === 0) return null;
+  return {
+    ruleId: signal.ruleId,
+    message: signal.message,
+    polarity: signal.aiIndicator ? "ai" : "human",
+    weight: signal.weight,
+    spans,
+  };
+}
+
+// Strips emphasis and a leading emoji so "## 🚀 **Getting Started**" reads as
+// "Getting Started"
+function headingTitle(text: string): string {
+  return text
+    .replace(/[*_`]/g, "")
+    .replace(
+      /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})\uFE0F?\s*/u,
+      ""
+    )
+    .trim();
+}
+
+function documentReasonsFor(sentences: RawSentence[]): DetectionReason[] {
+  const headings = sentences.filter((sentence) => sentence.kind === "heading");
+  const reasons: DetectionReason[] = [];
+
+  const templateHeadings = headings.filter((heading) =>
+    TEMPLATE_HEADINGS.test(headingTitle(heading.text))
+  ).length;
+  if (templateHeadings >= MIN_TEMPLATE_HEADINGS) {
+    reasons.push({
+      ruleId: "prose/readme-template",
+      message: `Follows the README template (${templateHeadings} stock headings such as Features and Getting Started)`,
+      polarity: "ai",
+      weight: 0.05,
+      spans: [],
+    });
+  }
+
+  const emojiHeadings = headings.filter((heading) =>
+    LEADING_EMOJI.test(heading.text)
+  ).length;
+  if (
+    headings.length >= MIN_SCORED_HEADINGS &&
+    emojiHeadings / headings.length >= 0.5
+  ) {
+    reasons.push({
+      ruleId: "prose/emoji-headings",
+      message: "Most headings start with an emoji",
+      polarity: "ai",
+      weight: 0.05,
+      spans: [],
+    });
+  }
+
+  return reasons;
+}
+
+export function analyzeProse(
+  text: string,
+  options: ProseOptions = {}
+): ProseAnalysis {
+  const {
+    uncertaintyMargin = DEFAULT_UNCERTAINTY_MARGIN,
+    scoringModel = DEFAULT_SCORING_MODEL,
+  } = options;
+
+  const rawSentences = segmentProse(text);
+  const documentReasons = documentReasonsFor(rawSentences);
+
+  const sentences: ProseSentence[] = rawSentences.map((sentence) => {
+    const reasons = [
+      ...PROSE_SIGNALS.filter(
+        (signal) => !signal.kinds || signal.kinds.includes(sentence.kind)
+      )
+        .map((signal) => reasonFor(signal, sentence.text))
+        .filter((reason): reason is DetectionReason => reason !== null),
+      ...documentReasons,
+    ];
+    const aiProbability = scoreReasons(scoringModel, reasons);
+    return {
+      ...sentence,
+      verdict: verdictFor(aiProbability, uncertaintyMargin),
+      aiProbability,
+      confidence: Math.max(aiProbability, 1 - aiProbability),
+      reasons,
+    };
+  });
+
+  const totalSentences = sentences.length;
+  const aiSentences = sentences.filter((s) => s.verdict === "ai").length;
+  const humanSentences = sentences.filter((s) => s.verdict === "human").length;
+  const uncertainSentences = totalSentences - aiSentences - humanSentences;
+  const percentage = (count: number) =>
+    totalSentences > 0 ? (count / totalSentences) * 100 : 0;
+
+  return {
+    totalSentences,
+    aiSentences,
+    humanSentences,
+    uncertainSentences,
+    aiPercentage: percentage(aiSentences),
+    humanPercentage: percentage(humanSentences),
+    uncertainPercentage: percentage(uncertainSentences),
+    overallConfidence:
+      totalSentences > 0
+        ? sentences.reduce((sum, s) => sum + s.confidence, 0) / totalSentences
+        : 0.5,
+    sentences,
+    documentReasons,
+  };
+}
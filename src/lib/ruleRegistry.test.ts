@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  disableRule,
+  enableRule,
+  getActiveRules,
+  getRule,
+  listRules,
+  registerRule,
+  registerRules,
+  resetRules,
+  unregisterRule,
+} from "./ruleRegistry";
+import type { DetectionRule } from "./ruleRegistry";
+
+function rule(id: string, overrides: Partial<DetectionRule> = {}): DetectionRule {
+  return {
+    id,
+    category: "comments",
+    pattern: /TODO/g,
+    weight: 0.5,
+    description: `Test rule ${id}`,
+    aiIndicator: true,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  resetRules();
+});
+
+describe("registerRule", () => {
+  it("adds an enabled rule unless told otherwise", () => {
+    registerRule(rule("test/a"));
+    registerRule(rule("test/b"), { enabled: false });
+
+    expect(getRule("test/a")).toMatchObject({ id: "test/a", enabled: true });
+    expect(getRule("test/b")?.enabled).toBe(false);
+  });
+
+  it("throws on a duplicate id unless replacing", () => {
+    registerRule(rule("test/a"));
+
+    expect(() => registerRule(rule("test/a", { weight: 0.9 }))).toThrow(
+      'Detection rule "test/a" is already registered'
+    );
+    expect(getRule("test/a")?.weight).toBe(0.5);
+
+    registerRule(rule("test/a", { weight: 0.9 }), { replace: true });
+    expect(getRule("test/a")?.weight).toBe(0.9);
+  });
+
+  it("registers a batch in order with shared options", () => {
+    registerRules([rule("test/a"), rule("test/b")], { enabled: false });
+
+    const ids = listRules({ category: "comments" }).map((entry) => entry.id);
+    expect(ids.slice(-2)).toEqual(["test/a", "test/b"]);
+    expect(getRule("test/b")?.enabled).toBe(false);
+  });
+
+  it("is not affected by later changes to the registered object", () => {
+    const original = rule("test/a", { languages: ["python"] });
+    registerRule(original);
+    original.weight = 1;
+    original.languages!.push("go");
+
+    expect(getRule("test/a")).toMatchObject({ weight: 0.5, languages: ["python"] });
+  });
+});
+
+describe("getRule and listRules", () => {
+  it("return frozen rules that cannot change the registry", () => {
+    registerRule(rule("test/a", { languages: ["python"] }));
+    const registered = getRule("test/a")!;
+
+    expect(Object.isFrozen(registered)).toBe(true);
+    expect(Object.isFrozen(registered.languages)).toBe(true);
+    expect(() => {
+      (registered as { enabled: boolean }).enabled = false;
+    }).toThrow(TypeError);
+    expect(listRules().every((entry) => Object.isFrozen(entry))).toBe(true);
+    expect(getRule("test/a")?.enabled).toBe(true);
+  });
+
+  it("filters by category, scope and enabled state", () => {
+    registerRule(rule("test/line"));
+    registerRule(rule("test/file", { scope: "file" }), { enabled: false });
+
+    const ids = (filter: Parameters<typeof listRules>[0]) =>
+      listRules(filter)
+        .map((entry) => entry.id)
+        .filter((id) => id.startsWith("test/"));
+    expect(ids({ category: "comments" })).toEqual(["test/line", "test/file"]);
+    expect(ids({ scope: "file" })).toEqual(["test/file"]);
+    expect(ids({ includeDisabled: false })).toEqual(["test/line"]);
+  });
+});
+
+describe("unregisterRule", () => {
+  it("removes a rule and reports whether it existed", () => {
+    registerRule(rule("test/a"));
+
+    expect(unregisterRule("test/a")).toBe(true);
+    expect(getRule("test/a")).toBeUndefined();
+    expect(unregisterRule("test/a")).toBe(false);
+  });
+});
+
+describe("enableRule and disableRule", () => {
+  it("toggle a rule in place", () => {
+    registerRules([rule("test/a"), rule("test/b")]);
+    disableRule("test/a");
+
+    expect(getRule("test/a")?.enabled).toBe(false);
+    expect(getActiveRules("python").map((entry) => entry.id)).not.toContain("test/a");
+
+    enableRule("test/a");
+    const ids = listRules().map((entry) => entry.id);
+    expect(getRule("test/a")?.enabled).toBe(true);
+    expect(ids.indexOf("test/a")).toBeLessThan(ids.indexOf("test/b"));
+  });
+
+  it("throw for unknown rules", () => {
+    expect(() => disableRule("test/missing")).toThrow('Unknown detection rule "test/missing"');
+  });
+});
+
+describe("getActiveRules", () => {
+  it("returns enabled rules of the scope that apply to the language", () => {
+    registerRules([
+      rule("test/any"),
+      rule("test/python", { languages: ["python"] }),
+      rule("test/file", { scope: "file" }),
+    ]);
+    const ids = (language: string, scope?: "line" | "file") =>
+      getActiveRules(language, scope)
+        .map((entry) => entry.id)
+        .filter((id) => id.startsWith("test/"));
+
+    expect(ids("python")).toEqual(["test/any", "test/python"]);
+    expect(ids("go")).toEqual(["test/any"]);
+    expect(ids("go", "file")).toEqual(["test/file"]);
+  });
+});
+
+describe("resetRules", () => {
+  it("drops custom rules and restores the built-in ones", () => {
+    const builtinIds = listRules().map((entry) => entry.id);
+    registerRule(rule("test/a"));
+    unregisterRule(builtinIds[0]);
+    disableRule(builtinIds[1]);
+
+    resetRules();
+
+    expect(listRules().map((entry) => entry.id)).toEqual(builtinIds);
+    expect(listRules().every((entry) => entry.enabled)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import type { TokenKind } from "./lexer";
+import { BUILTIN_RULES } from "./rules";
+
+export type RuleCategory =
+  | "unicode"
+  | "emoji"
+  | "comments"
+  | "error-handling"
+  | "validation"
+  | "naming"
+  | "structure"
+  | "formatting"
+  | "debugging"
+  | "language"
+  | "assistant-artifact";
+
+// "line" rules are tested against each line on its own, "file" rules against
+// the whole file so they can match across lines
+export type RuleScope = "line" | "file";
+
+// Which part of a line a rule sees: everything, or only its code, comment
+// text or string literals as classified by the lexer
+export type RuleTarget = "all" | TokenKind;
+
+export interface DetectionRule {
+  // Stable identifier, e.g. "core/invisible-unicode" or "python/debug-print"
+  id: string;
+  category: RuleCategory;
+  // Languages the rule applies to; omit to apply to every language
+  languages?: string[];
+  pattern: RegExp;
+  weight: number;
+  description: string;
+  aiIndicator: boolean;
+  // Defaults to "line"
+  scope?: RuleScope;
+  // Defaults to "all"; ignored by file-scope rules
+  target?: RuleTarget;
+  // File-scope rules only: pattern then finds a block header ending in its
+  // opening brace, and the rule matches the whole block when bodyPattern
+  // matches between that brace and the one closing it. Both see the code
+  // with comments and strings blanked out.
+  bodyPattern?: RegExp;
+}
+
+export interface RegisteredRule extends DetectionRule {
+  enabled: boolean;
+}
+
+export interface RuleFilter {
+  language?: string;
+  category?: RuleCategory;
+  scope?: RuleScope;
+  includeDisabled?: boolean;
+}
+
+// Rules are kept in registration order so reasons are reported consistently.
+// Entries are frozen copies, so a caller can neither change a registered
+// rule through the object it passed in nor through one it got back.
+const registry = new Map<string, Readonly<RegisteredRule>>();
+
+function freezeRule(
+  rule: DetectionRule,
+  enabled: boolean
+): Readonly<RegisteredRule> {
+  const languages = rule.languages && Object.freeze([...rule.languages]);
+  return Object.freeze({
+    ...rule,
+    languages: languages as string[] | undefined,
+    enabled,
+  });
+}
+
+export function registerRule(
+  rule: DetectionRule,
+  options: { enabled?: boolean; replace?: boolean } = {}
+): void {
+  if (registry.has(rule.id) && !options.replace) {
+    throw new Error(`Detection rule "${rule.id}" is already registered`);
+  }
+
+  registry.set(rule.id, freezeRule(rule, options.enabled ?? true));
+}
+
+export function registerRules(
+  rules: DetectionRule[],
+  options: { enabled?: boolean; replace?: boolean } = {}
+): void {
+  for (const rule of rules) {
+    registerRule(rule, options);
+  }
+}
+
+export function unregisterRule(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function setRuleEnabled(id: string, enabled: boolean): void {
+  const rule = registry.get(id);
+  if (!rule) {
+    throw new Error(`Unknown detection rule "${id}"`);
+  }
+  // Setting an existing key keeps the rule's place in the order
+  registry.set(id, freezeRule(rule, enabled));
+}
+
+export function enableRule(id: string): void {
+  setRuleEnabled(id, true);
+}
+
+export function disableRule(id: string): void {
+  setRuleEnabled(id, false);
+}
+
+export function getRule(id: string): Readonly<RegisteredRule> | undefined {
+  return registry.get(id);
+}
+
+export function listRules(
+  filter: RuleFilter = {}
+): Readonly<RegisteredRule>[] {
+  const includeDisabled = filter.includeDisabled ?? true;
+
+  return Array.from(registry.values()).filter(
+    (rule) =>
+      (includeDisabled || rule.enabled) &&
+      (!filter.category || rule.category === filter.category) &&
+      (!filter.scope || (rule.scope ?? "line") === filter.scope) &&
+      (!filter.language || appliesToLanguage(rule, filter.language))
+  );
+}
+
+// Rules consumed by the detector for a given language
+export function getActiveRules(
+  language: string,
+  scope: RuleScope = "line"
+): Readonly<RegisteredRule>[] {
+  return listRules({ language, scope, includeDisabled: false });
+}
+
+// Drops all custom rules and restores the built-in rule set
+export function resetRules(): void {
+  registry.clear();
+  registerRules(BUILTIN_RULES);
+}
+
+function appliesToLanguage(rule: DetectionRule, language: string): boolean {
+  return !rule.languages || rule.languages.includes(language);
+}
+
+resetRules();
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCode } from "../aiDetection";
+import { ASSISTANT_ARTIFACT_RULES } from "./assistant";
+
+function matches(ruleId: string, line: string): boolean {
+  const rule = ASSISTANT_ARTIFACT_RULES.find(
+    (candidate) => candidate.id === ruleId
+  )!;
+  return new RegExp(rule.pattern.source, rule.pattern.flags).test(line);
+}
+
+describe("assistant/chat-preamble", () => {
+  it("matches a whole-line reply and the here's-the-code form", () => {
+    expect(matches("assistant/chat-preamble", "Certainly!")).toBe(true);
+    expect(matches("assistant/chat-preamble", "// Sure!")).toBe(true);
+    expect(matches("assistant/chat-preamble", "/* Absolutely! */")).toBe(true);
+    expect(
+      matches("assistant/chat-preamble", "Sure! Here's the updated code:")
+    ).toBe(true);
+    expect(
+      matches("assistant/chat-preamble", "# Of course, here is the complete script")
+    ).toBe(true);
+    expect(matches("assistant/chat-preamble", "Here is your function:")).toBe(true);
+  });
+
+  it("ignores the same words in ordinary comments", () => {
+    expect(
+      matches(
+        "assistant/chat-preamble",
+        "# Of course, this breaks on negative input; fix later"
+      )
+    ).toBe(false);
+    expect(
+      matches("assistant/chat-preamble", "// Sure, callers could pass null here")
+    ).toBe(false);
+    expect(
+      matches("assistant/chat-preamble", "// Absolutely no allocation in this loop")
+    ).toBe(false);
+    expect(
+      matches("assistant/chat-preamble", "// Here's the trick: swap before sorting")
+    ).toBe(false);
+  });
+
+  it("does not report a human comment as an assistant artifact", async () => {
+    const result = await analyzeCode(
+      "# Of course, this breaks on negative input; fix later\nprint(x)",
+      "python",
+      { ngramModel: null, simulateDelay: false }
+    );
+
+    expect(result.assistantArtifacts).toEqual([]);
+  });
+});
+
+describe("assistant/chat-closing", () => {
+  it("matches an assistant sign-off", () => {
+    expect(matches("assistant/chat-closing", "// I hope this helps!")).toBe(true);
+    expect(
+      matches("assistant/chat-closing", "Let me know if you need any changes.")
+    ).toBe(true);
+    expect(
+      matches("assistant/chat-closing", "# Feel free to modify the thresholds")
+    ).toBe(true);
+    expect(matches("assistant/chat-closing", "Happy coding!")).toBe(true);
+  });
+
+  it("ignores comments that only share words with one", () => {
+    expect(
+      matches("assistant/chat-closing", "// Let me know the retry count first")
+    ).toBe(false);
+    expect(matches("assistant/chat-closing", "# hope the cache is warm")).toBe(false);
+  });
+});
+
+describe("assistant/markdown-fence", () => {
+  it("matches a bare or tagged fence on its own line", () => {
+    expect(matches("assistant/markdown-fence", "```")).toBe(true);
+    expect(matches("assistant/markdown-fence", "```typescript")).toBe(true);
+    expect(matches("assistant/markdown-fence", "  ```c++  ")).toBe(true);
+  });
+
+  it("ignores backticks inside code", () => {
+    expect(matches("assistant/markdown-fence", "const fence = '```';")).toBe(false);
+    expect(matches("assistant/markdown-fence", "```js console.log(1)")).toBe(false);
+  });
+
+  it("only applies to source languages", () => {
+    const rule = ASSISTANT_ARTIFACT_RULES.find(
+      (candidate) => candidate.id === "assistant/markdown-fence"
+    )!;
+
+    expect(rule.languages).toContain("python");
+    expect(rule.languages).not.toContain("markdown");
+  });
+});
+
+describe("assistant/elided-code", () => {
+  it("matches a line standing in for left-out code", () => {
+    expect(matches("assistant/elided-code", "// ... rest of your code")).toBe(true);
+    expect(
+      matches("assistant/elided-code", "# existing imports remain unchanged")
+    ).toBe(true);
+    expect(matches("assistant/elided-code", "/* ...same as before... */")).toBe(
+      true
+    );
+    expect(matches("assistant/elided-code", "  // (other methods)")).toBe(true);
+  });
+
+  it("ignores comments that go on to say more", () => {
+    expect(
+      matches(
+        "assistant/elided-code",
+        "// the rest of the file is generated by protoc"
+      )
+    ).toBe(false);
+    expect(
+      matches("assistant/elided-code", "// other methods must hold the lock")
+    ).toBe(false);
+  });
+});
+
+describe("assistant/ellipsis-comment", () => {
+  it("matches a comment that is only an ellipsis", () => {
+    expect(matches("assistant/ellipsis-comment", "    // ...")).toBe(true);
+    expect(matches("assistant/ellipsis-comment", "# …")).toBe(true);
+    expect(matches("assistant/ellipsis-comment", "/* ... */")).toBe(true);
+  });
+
+  it("ignores ellipses outside a comment or followed by text", () => {
+    expect(matches("assistant/ellipsis-comment", "...args")).toBe(false);
+    expect(matches("assistant/ellipsis-comment", "// ... and so on")).toBe(false);
+  });
+});
+
+describe("assistant/placeholder-value", () => {
+  it("matches a value waiting to be filled in", () => {
+    expect(
+      matches("assistant/placeholder-value", 'apiKey: "your-api-key-here",')
+    ).toBe(true);
+    expect(
+      matches("assistant/placeholder-value", "TOKEN = 'YOUR_ACCESS_TOKEN'")
+    ).toBe(true);
+    expect(
+      matches("assistant/placeholder-value", "url = <your database url>")
+    ).toBe(true);
+  });
+
+  it("ignores real configuration names", () => {
+    expect(
+      matches("assistant/placeholder-value", "const apiKey = process.env.API_KEY;")
+    ).toBe(false);
+    expect(
+      matches("assistant/placeholder-value", "// read your token from the keychain")
+    ).toBe(false);
+  });
+});
+
+describe("assistant/fill-in-comment", () => {
+  it("matches a template's fill-in instruction", () => {
+    expect(matches("assistant/fill-in-comment", "// Add more routes as needed")).toBe(
+      true
+    );
+    expect(
+      matches("assistant/fill-in-comment", "# implement your logic here")
+    ).toBe(true);
+    expect(matches("assistant/fill-in-comment", "// Your code goes here")).toBe(
+      true
+    );
+    expect(
+      matches("assistant/fill-in-comment", "// Replace this with your own key")
+    ).toBe(true);
+  });
+
+  it("ignores ordinary to-do comments", () => {
+    expect(
+      matches("assistant/fill-in-comment", "// add retries once the API is stable")
+    ).toBe(false);
+    expect(
+      matches("assistant/fill-in-comment", "# grow the buffer as needed")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+// Languages where a Markdown fence can only be a paste accident; Markdown,
+// HTML and plain text legitimately contain them
+const SOURCE_LANGUAGES = [
+  "javascript",
+  "jsx",
+  "typescript",
+  "tsx",
+  "python",
+  "java",
+  "cpp",
+  "c",
+  "csharp",
+  "go",
+  "rust",
+  "php",
+  "ruby",
+  "swift",
+  "kotlin",
+  "scala",
+  "bash",
+  "sql",
+  "css",
+  "yaml",
+  "json",
+  "dockerfile",
+  "makefile",
+];
+
+// Text left behind when an assistant's chat answer is pasted into a file.
+// Nobody writes these by hand, so they carry the highest weight. The rules
+// see whole lines: a pasted fence opens a template literal in JS, which would
+// hide everything after it from comment-only rules.
+export const ASSISTANT_ARTIFACT_RULES: DetectionRule[] = [
+  {
+    id: "assistant/chat-preamble",
+    category: "assistant-artifact",
+    // "Of course," is everyday prose, so the interjections count only as a
+    // whole-line reply or in front of "Here's the code"
+    pattern:
+      /^\s*(?:\/\/|#|\/?\*+|--)?\s*(?:(?:Certainly|Sure|Of course|Absolutely)!\s*(?:\*\/)?\s*$|(?:(?:Certainly|Sure|Of course|Absolutely)[!,.]\s*)?Here(?:'s| is) (?:the|your|an?) (?:(?:updated|complete|full|revised|modified|corrected|final|improved|refactored|fixed)\s+)?(?:code|version|implementation|script|solution|function|example|snippet)\b)/gi,
+    weight: 1.0,
+    description:
+      "Assistant reply phrasing (\"Here's the updated code\", \"Certainly!\") left in the source",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/chat-closing",
+    category: "assistant-artifact",
+    pattern:
+      /\b(?:I hope this helps|Hope this helps|Let me know if you (?:need|have|want|would)|Feel free to (?:ask|modify|adjust|customize)|Happy coding!?)\b/gi,
+    weight: 1.0,
+    description:
+      "Assistant sign-off (\"I hope this helps\", \"Let me know if...\") left in the source",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/markdown-fence",
+    category: "assistant-artifact",
+    languages: SOURCE_LANGUAGES,
+    pattern: /^\s*```[\w+#-]*\s*$/g,
+    weight: 1.0,
+    description: "Markdown code fence pasted into a source file",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/elided-code",
+    category: "assistant-artifact",
+    pattern:
+      /^\s*(?:\/\/|#|--|\/?\*+)?\s*(?:\.{3}|\u2026)?\s*\(?\s*(?:(?:the )?rest of (?:the|your) (?:code|implementation|file|function|class|component|logic)|(?:your |the )?(?:existing|previous|other|remaining) (?:code|logic|methods|functions|imports|implementation|routes|fields)|same as before)(?:\s+(?:goes |is )?(?:here|remains? (?:the same|unchanged)|stays the same|unchanged))?\s*\)?\s*(?:\.{3}|\u2026)?\s*(?:\*\/)?\s*$/gi,
+    weight: 1.0,
+    description:
+      "Elided body (\"... rest of your code\") from an assistant's partial answer",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/ellipsis-comment",
+    category: "assistant-artifact",
+    pattern: /^\s*(?:\/\/|#|--|\/?\*+)\s*(?:\.{3}|\u2026)\s*(?:\*\/)?\s*$/g,
+    weight: 0.8,
+    description: "Comment that only says \"...\" where code was left out",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/placeholder-value",
+    category: "assistant-artifact",
+    pattern:
+      /\b(?:your[-_ ]?(?:api[-_ ]?key|access[-_ ]?token|token|secret(?:[-_ ]?key)?|password|username|email|domain|project[-_ ]?id|client[-_ ]?(?:id|secret)|database[-_ ]?url)[-_ ]?here|YOUR_[A-Z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|ID|URL)(?:_HERE)?|(?:api[-_ ]?key|token|secret)[-_ ]here)\b|<your[-_ ][^>]+>/gi,
+    weight: 0.9,
+    description:
+      "Placeholder value (\"your-api-key-here\") waiting to be filled in",
+    aiIndicator: true,
+  },
+  {
+    id: "assistant/fill-in-comment",
+    category: "assistant-artifact",
+    pattern:
+      /\b(?:add (?:more|additional|other|your)\b.{0,40}?\b(?:as|if) needed|(?:add|implement|put|insert) your (?:own )?(?:logic|code|implementation|routes|handlers)(?: here)?|your (?:code|logic|implementation) (?:goes )?here|replace (?:this )?with your (?:own|actual))\b/gi,
+    weight: 0.9,
+    description:
+      "Fill-in instruction (\"Add more as needed\", \"your logic here\") from a template answer",
+    aiIndicator: true,
+  },
+];
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCode } from "../aiDetection";
+
+// 1-based lines carrying a reason from the rule
+async function linesWith(ruleId: string, code: string): Promise<number[]> {
+  const result = await analyzeCode(code, "javascript", {
+    ngramModel: null,
+    simulateDelay: false,
+  });
+  return result.lineAnalysis.flatMap((line, i) =>
+    line.reasons.some((reason) => reason.ruleId === ruleId) ? [i + 1] : []
+  );
+}
+
+describe("core/try-catch-console", () => {
+  it("matches the catch block that logs", async () => {
+    const code = [
+      "try {",
+      "  run();",
+      "} catch (error) {",
+      "  console.error(error);",
+      "  cleanup();",
+      "}",
+      "done();",
+    ].join("\n");
+
+    expect(await linesWith("core/try-catch-console", code)).toEqual([3, 4, 5, 6]);
+  });
+
+  it("does not run past the catch block to a later console.log", async () => {
+    const code = [
+      "try {",
+      "  run();",
+      "} catch (error) {",
+      "  if (error.fatal) {",
+      "    throw error;",
+      "  }",
+      "}",
+      "",
+      "function report(total) {",
+      "  console.log(total);",
+      "}",
+    ].join("\n");
+
+    expect(await linesWith("core/try-catch-console", code)).toEqual([]);
+  });
+
+  it("ignores console calls in comments and strings of the catch block", async () => {
+    const code = [
+      "try {",
+      "  run();",
+      "} catch (error) {",
+      "  // console.log(error) was too noisy",
+      '  throw new Error("see console.log output");',
+      "}",
+    ].join("\n");
+
+    expect(await linesWith("core/try-catch-console", code)).toEqual([]);
+  });
+});
+
+describe("core/exhaustive-switch", () => {
+  it("matches a switch with a default case", async () => {
+    const code = [
+      "switch (kind) {",
+      '  case "a":',
+      "    return 1;",
+      "  default:",
+      "    return 0;",
+      "}",
+    ].join("\n");
+
+    expect(await linesWith("core/exhaustive-switch", code)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("does not reach the default case of a later switch", async () => {
+    const code = [
+      "switch (kind) {",
+      '  case "a":',
+      "    return 1;",
+      "}",
+      "switch (other) {",
+      "  default:",
+      "    return 0;",
+      "}",
+    ].join("\n");
+
+    expect(await linesWith("core/exhaustive-switch", code)).toEqual([5, 6, 7, 8]);
+  });
+});
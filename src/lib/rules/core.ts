@@ -0,0 +1,222 @@
+import type { DetectionRule } from "../ruleRegistry";
+import { INVISIBLE_CHARACTERS } from "../unicodeForensics";
+
+// AI detection patterns based on real AI vs human coding characteristics
+export const CORE_RULES: DetectionRule[] = [
+  // CRITICAL: Invisible/untypable Unicode characters (impossible to type by humans)
+  {
+    id: "core/invisible-unicode",
+    category: "unicode",
+    pattern: INVISIBLE_CHARACTERS,
+    weight: 1.0,
+    description:
+      "Contains invisible Unicode characters (untypable by humans) - definitive AI signature",
+    aiIndicator: true,
+  },
+
+  // HIGH CONFIDENCE: Emoji usage in code (AI commonly adds emojis)
+  {
+    id: "core/emoji",
+    category: "emoji",
+    pattern:
+      /[\u{1F300}-\u{1F9FF}\u{1F600}-\u{1F64F}\u{1F680}-\u{1F6FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/u,
+    weight: 0.9,
+    description: "Contains emojis in code - strong AI indicator",
+    aiIndicator: true,
+  },
+
+  // ChatGPT signature: Sectioned comments with dashes
+  {
+    id: "core/section-dash-comment",
+    category: "comments",
+    pattern: /^\s*---\s*.*\s*---\s*$/g,
+    weight: 0.9,
+    description:
+      "Section-based comments with dashes — signature of AI structure",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // ChatGPT signature: Perfect formatting comment
+  {
+    id: "core/generated-with-ai-comment",
+    category: "comments",
+    pattern: /Generated with.*ChatGPT|AI Code Style Guide/gi,
+    weight: 1.0,
+    description: "Explicit AI generation comment",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // Step-by-step comments (very common in AI code)
+  {
+    id: "core/step-comment",
+    category: "comments",
+    pattern: /^\s*Step\s*\d+:|^\s*\d+\./gi,
+    weight: 0.8,
+    description: "Contains step-by-step comments typical of AI explanations",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // Overly descriptive comments explaining obvious code
+  {
+    id: "core/verbose-comment",
+    category: "comments",
+    pattern:
+      /^\s*(Get|Parse|Check|Validate|Perform|Display|Calculate|Initialize|Handle|Process)\b.*$/g,
+    weight: 0.6,
+    description:
+      "Contains verbose explanatory comments typical of AI generation",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // Generic error messages with examples
+  {
+    id: "core/structured-error-message",
+    category: "error-handling",
+    pattern: /(Usage:|Example:|Error:).*$/g,
+    weight: 0.7,
+    description: "Contains structured error messages with examples",
+    aiIndicator: true,
+    target: "string",
+  },
+
+  // ChatGPT signature: try/catch in CLI/sync contexts
+  {
+    id: "core/try-catch-console",
+    category: "error-handling",
+    pattern: /\bcatch\s*\([^)]*\)\s*{/g,
+    bodyPattern: /console\.(error|log)|process\.exit/,
+    weight: 0.6,
+    description:
+      "try/catch with console output in CLI context — typical ChatGPT pattern",
+    aiIndicator: true,
+    scope: "file",
+  },
+
+  // Perfect input validation patterns (enhanced)
+  {
+    id: "core/input-validation",
+    category: "validation",
+    pattern:
+      /(process\.exit\(1\)|isNaN\(|\.length\s*[!=]=|args\.length|Missing\s+(argument|parameter))/g,
+    weight: 0.7,
+    description:
+      "Contains comprehensive input validation typical of AI first-draft code",
+    aiIndicator: true,
+  },
+
+  // ChatGPT signature: Polite error handling with usage examples
+  {
+    id: "core/polite-error-message",
+    category: "error-handling",
+    pattern: /(Usage:\s*|Example:\s*|Please\s+(provide|ensure|check))/gi,
+    weight: 0.8,
+    description: "Polite, structured error messages with usage examples",
+    aiIndicator: true,
+    target: "string",
+  },
+
+  // Overly descriptive variable names
+  {
+    id: "core/descriptive-names",
+    category: "naming",
+    pattern:
+      /\b(commandLineArguments|userInput|calculationResult|operatorSymbol)\b/gi,
+    weight: 0.6,
+    description: "Uses overly descriptive variable names",
+    aiIndicator: true,
+    target: "code",
+  },
+
+  // Perfect switch/case structure with all cases
+  {
+    id: "core/exhaustive-switch",
+    category: "structure",
+    pattern: /\bswitch\s*\([^)]+\)\s*{/g,
+    bodyPattern: /\bdefault\s*:/,
+    weight: 0.4,
+    description: "Contains comprehensive switch statement with default case",
+    aiIndicator: true,
+    scope: "file",
+  },
+
+  // AI-style shebang and perfect formatting
+  {
+    id: "core/shebang",
+    category: "structure",
+    pattern: /^#!/,
+    weight: 0.3,
+    description: "Includes shebang line typical of AI-generated scripts",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+
+  // Debug console logs left in code
+  {
+    id: "core/debug-console-log",
+    category: "debugging",
+    pattern: /console\.log\((?!.*Result:|.*Error:|.*Usage:)/g,
+    weight: 0.6,
+    description: "Contains debug console.log statements",
+    aiIndicator: false,
+  },
+
+  // TODO/FIXME comments (humans leave these)
+  {
+    id: "core/todo-comment",
+    category: "comments",
+    pattern: /(TODO|FIXME|HACK|XXX):/gi,
+    weight: 0.7,
+    description: "Contains TODO/FIXME comments indicating human planning",
+    aiIndicator: false,
+    target: "comment",
+  },
+
+  // Terse or minimal comments
+  {
+    id: "core/terse-comment",
+    category: "comments",
+    pattern: /^\s*[a-z][^.]*$/g,
+    weight: 0.3,
+    description: "Contains short, terse comments typical of human code",
+    aiIndicator: false,
+    target: "comment",
+  },
+
+  // Abbreviated variable names
+  {
+    id: "core/abbreviated-names",
+    category: "naming",
+    pattern:
+      /\b(btn|txt|img|nav|auth|cfg|opts|params|ctx|req|res|db|api|temp|tmp|val|str|num|arr|obj)\b/gi,
+    weight: 0.4,
+    description: "Uses abbreviated variable names common in human code",
+    aiIndicator: false,
+    target: "code",
+  },
+
+  // Inconsistent spacing or formatting
+  {
+    id: "core/inconsistent-spacing",
+    category: "formatting",
+    pattern: /\s{3,}(?!\s*\/\/)|[;}]\s*[;}]|\t\s+|\s+\t/g,
+    weight: 0.5,
+    description: "Has inconsistent spacing typical of human editing",
+    aiIndicator: false,
+  },
+
+  // Quick and dirty solutions (missing error handling)
+  {
+    id: "core/unvalidated-functional",
+    category: "structure",
+    pattern: /\[[^\]]*\]\.map\(|\.filter\(|\.reduce\(/g,
+    weight: 0.2,
+    description: "Uses functional programming without extensive validation",
+    aiIndicator: false,
+    target: "code",
+  },
+];
@@ -0,0 +1,43 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const CPP_RULES: DetectionRule[] = [
+  {
+    id: "cpp/doxygen-tag",
+    category: "comments",
+    languages: ["cpp"],
+    pattern: /^\s*[@\\](?:brief|param|return|returns|throws)\b/g,
+    weight: 0.4,
+    description: "Doxygen @brief/@param tags",
+    aiIndicator: true,
+    target: "comment",
+  },
+  {
+    id: "cpp/cerr-error-message",
+    category: "error-handling",
+    languages: ["cpp"],
+    pattern: /\bstd::cerr\s*<<\s*"(?:Error|Failed to|Unable to)\b/g,
+    weight: 0.4,
+    description: "Structured std::cerr error messages",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+  {
+    id: "cpp/using-namespace-std",
+    category: "structure",
+    languages: ["cpp"],
+    pattern: /^using\s+namespace\s+std\s*;/g,
+    weight: 0.3,
+    description: "Uses the using namespace std shortcut",
+    aiIndicator: false,
+  },
+  {
+    id: "cpp/disabled-block",
+    category: "debugging",
+    languages: ["cpp"],
+    pattern: /^#\s*if\s+0\b/g,
+    weight: 0.5,
+    description: "Code disabled with #if 0",
+    aiIndicator: false,
+  },
+];
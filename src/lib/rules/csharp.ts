@@ -0,0 +1,58 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const CSHARP_RULES: DetectionRule[] = [
+  {
+    id: "csharp/xml-doc",
+    category: "comments",
+    languages: ["csharp"],
+    pattern: /^\/\/\/\s*<(?:summary|param|returns|exception|remarks)\b/g,
+    weight: 0.4,
+    description: "XML documentation comments",
+    aiIndicator: true,
+  },
+
+  // <summary> block directly above an auto-property
+  {
+    id: "csharp/xml-doc-on-property",
+    category: "comments",
+    languages: ["csharp"],
+    pattern:
+      /\/\/\/\s*<summary>[^\n]*\n(?:\s*\/\/\/[^\n]*\n)*\s*(?:public|protected|internal|private)\s+[^\n(=]*{\s*get;/g,
+    weight: 0.5,
+    description: "XML <summary> documentation on an auto-property",
+    aiIndicator: true,
+    scope: "file",
+  },
+  {
+    id: "csharp/argument-guard",
+    category: "validation",
+    languages: ["csharp"],
+    pattern:
+      /\bArgumentNullException\.ThrowIfNull\(|\bthrow\s+new\s+Argument(?:Null|OutOfRange)?Exception\(\s*nameof\(/g,
+    weight: 0.4,
+    description: "Guards every argument with ArgumentNullException checks",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+  {
+    id: "csharp/console-debug",
+    category: "debugging",
+    languages: ["csharp"],
+    pattern: /\b(?:Console|Debug)\.Write(?:Line)?\(/g,
+    weight: 0.4,
+    description: "Contains Console/Debug.WriteLine debug output",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "csharp/empty-catch",
+    category: "error-handling",
+    languages: ["csharp"],
+    pattern: /\bcatch\s*(?:\([^)]*\))?\s*{\s*}/g,
+    weight: 0.4,
+    description: "Swallows exceptions in an empty catch block",
+    aiIndicator: false,
+    target: "code",
+  },
+];
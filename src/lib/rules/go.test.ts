@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { GO_RULES } from "./go";
+
+function matches(ruleId: string, line: string): boolean {
+  const rule = GO_RULES.find((candidate) => candidate.id === ruleId)!;
+  return new RegExp(rule.pattern.source, rule.pattern.flags).test(line);
+}
+
+describe("go/discarded-error", () => {
+  it("matches a call whose error is assigned to _", () => {
+    expect(matches("go/discarded-error", "n, _ := strconv.Atoi(s)")).toBe(true);
+    expect(matches("go/discarded-error", "data, _ = ioutil.ReadAll(r.Body)")).toBe(true);
+    expect(matches("go/discarded-error", "f, _ := open(path)")).toBe(true);
+  });
+
+  it("ignores blank identifiers that drop no error", () => {
+    expect(matches("go/discarded-error", "for k, _ := range m {")).toBe(false);
+    expect(matches("go/discarded-error", "v, _ := m[key]")).toBe(false);
+    expect(matches("go/discarded-error", "s, _ := v.(string)")).toBe(false);
+    expect(matches("go/discarded-error", "v, _ := <-ch")).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const GO_RULES: DetectionRule[] = [
+  // "failed to ...: %w" wrapping on every returned error
+  {
+    id: "go/wrapped-error-message",
+    category: "error-handling",
+    languages: ["go"],
+    pattern:
+      /\bfmt\.Errorf\(\s*"(?:failed to|unable to|could not|error) [^"]*:\s*%w"/gi,
+    weight: 0.5,
+    description: 'Wraps errors with uniform "failed to ...: %w" messages',
+    aiIndicator: true,
+  },
+  {
+    id: "go/err-check-wrap",
+    category: "error-handling",
+    languages: ["go"],
+    pattern:
+      /if\s+err\s*!=\s*nil\s*{\s*\n\s*return\b[^\n]*\bfmt\.Errorf\([^\n]*%w/g,
+    weight: 0.3,
+    description: "if err != nil block returning a wrapped fmt.Errorf",
+    aiIndicator: true,
+    scope: "file",
+  },
+
+  // "// FuncName returns ..." doc comments on every declaration
+  {
+    id: "go/doc-comment",
+    category: "comments",
+    languages: ["go"],
+    pattern:
+      /^\s*[A-Z]\w* (?:returns|creates|represents|handles|initializes|is|checks|validates|provides)\b/g,
+    weight: 0.3,
+    description: "Formal doc comment naming the declaration it documents",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // Human indicators
+  {
+    id: "go/debug-print",
+    category: "debugging",
+    languages: ["go"],
+    pattern: /\bfmt\.Print(?:ln|f)?\(/g,
+    weight: 0.3,
+    description: "Contains debug fmt.Println statements",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "go/discarded-error",
+    category: "error-handling",
+    languages: ["go"],
+    // A call on the right: "k, _ := range m", "v, _ := m[k]" and
+    // "v, _ := x.(T)" drop an index or ok flag, not an error
+    pattern: /\b\w+\s*,\s*_\s*:?=\s*[\w.]*\w\(/g,
+    weight: 0.4,
+    description: "Discards a returned error with _",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "go/panic-err",
+    category: "error-handling",
+    languages: ["go"],
+    pattern: /\bpanic\(\s*err\s*\)/g,
+    weight: 0.4,
+    description: "Handles errors with a bare panic(err)",
+    aiIndicator: false,
+    target: "code",
+  },
+];
@@ -0,0 +1,25 @@
+import type { DetectionRule } from "../ruleRegistry";
+import { ASSISTANT_ARTIFACT_RULES } from "./assistant";
+import { CORE_RULES } from "./core";
+import { CPP_RULES } from "./cpp";
+import { CSHARP_RULES } from "./csharp";
+import { GO_RULES } from "./go";
+import { JAVA_RULES } from "./java";
+import { JAVASCRIPT_RULES, TYPESCRIPT_RULES } from "./javascript";
+import { PYTHON_RULES } from "./python";
+import { RUST_RULES } from "./rust";
+
+// Built-in rule set, registered in this order: language-independent rules
+// first, then the language packs
+export const BUILTIN_RULES: DetectionRule[] = [
+  ...CORE_RULES,
+  ...ASSISTANT_ARTIFACT_RULES,
+  ...JAVASCRIPT_RULES,
+  ...PYTHON_RULES,
+  ...TYPESCRIPT_RULES,
+  ...GO_RULES,
+  ...RUST_RULES,
+  ...JAVA_RULES,
+  ...CSHARP_RULES,
+  ...CPP_RULES,
+];
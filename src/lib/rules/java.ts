@@ -0,0 +1,69 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const JAVA_RULES: DetectionRule[] = [
+  {
+    id: "java/javadoc-tag",
+    category: "comments",
+    languages: ["java"],
+    pattern: /^\s*@(?:param|return|throws|exception)\b/g,
+    weight: 0.4,
+    description: "Javadoc @param/@return tags",
+    aiIndicator: true,
+    target: "comment",
+  },
+
+  // Javadoc block directly above a one-line getter, setter or constructor
+  {
+    id: "java/javadoc-on-trivial-member",
+    category: "comments",
+    languages: ["java"],
+    pattern:
+      /\/\*\*(?:(?!\*\/)[\s\S])*\*\/\s*\n\s*(?:public|protected|private)\s+[\w<>[\], ]*\b(?:get|set|is)[A-Z]\w*\s*\([^)]*\)\s*{\s*\n?\s*(?:return\s+)?(?:this\.)?\w+(?:\s*=\s*\w+)?;\s*\n?\s*}/g,
+    weight: 0.5,
+    description: "Javadoc on a trivial getter or setter",
+    aiIndicator: true,
+    scope: "file",
+  },
+  {
+    id: "java/descriptive-exception",
+    category: "error-handling",
+    languages: ["java"],
+    pattern:
+      /\bthrow\s+new\s+\w+(?:Exception|Error)\(\s*"[A-Z][^"]*\b(?:must|cannot|should|is required)\b/g,
+    weight: 0.4,
+    description: "Throws exceptions with full-sentence validation messages",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+  {
+    id: "java/system-out",
+    category: "debugging",
+    languages: ["java"],
+    pattern: /\bSystem\.(?:out|err)\.print(?:ln|f)?\(/g,
+    weight: 0.4,
+    description: "Contains System.out debug printing",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "java/print-stack-trace",
+    category: "error-handling",
+    languages: ["java"],
+    pattern: /\.printStackTrace\(\)/g,
+    weight: 0.5,
+    description: "Handles exceptions with printStackTrace()",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "java/empty-catch",
+    category: "error-handling",
+    languages: ["java"],
+    pattern: /\bcatch\s*\([^)]*\)\s*{\s*}/g,
+    weight: 0.4,
+    description: "Swallows exceptions in an empty catch block",
+    aiIndicator: false,
+    target: "code",
+  },
+];
@@ -0,0 +1,37 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const JAVASCRIPT_RULES: DetectionRule[] = [
+  {
+    id: "javascript/debug-console-log",
+    category: "debugging",
+    languages: ["javascript"],
+    pattern: /console\.log\([^)]*\)/g,
+    weight: 0.2,
+    description: "Contains debug console.log statements",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "javascript/function-declaration",
+    category: "language",
+    languages: ["javascript"],
+    pattern: /function\s+\w+\s*\([^)]*\)\s*{/g,
+    weight: 0.1,
+    description: "Uses function declarations",
+    aiIndicator: true,
+    target: "code",
+  },
+];
+
+export const TYPESCRIPT_RULES: DetectionRule[] = [
+  {
+    id: "typescript/explicit-type-annotation",
+    category: "language",
+    languages: ["typescript"],
+    pattern: /:\s*(string|number|boolean|any|unknown|void|never)\b/g,
+    weight: 0.2,
+    description: "Contains explicit type annotations",
+    aiIndicator: true,
+    target: "code",
+  },
+];
@@ -0,0 +1,106 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const PYTHON_RULES: DetectionRule[] = [
+  {
+    id: "python/debug-print",
+    category: "debugging",
+    languages: ["python"],
+    pattern: /print\([^)]*\)/g,
+    weight: 0.2,
+    description: "Contains debug print statements",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "python/function-definition",
+    category: "language",
+    languages: ["python"],
+    pattern: /def\s+\w+\s*\([^)]*\):/g,
+    weight: 0.1,
+    description: "Uses function definitions",
+    aiIndicator: true,
+    target: "code",
+  },
+
+  // Google-style (Args:/Returns:) or NumPy-style (Parameters/-------) sections
+  {
+    id: "python/structured-docstring",
+    category: "comments",
+    languages: ["python"],
+    pattern:
+      /("""|''')[^\n]*\n(?:(?!\1)[\s\S])*?^\s*(?:(?:Args|Arguments|Returns|Raises|Yields|Examples?|Attributes):\s*$|(?:Parameters|Returns|Raises|Yields|Examples?)\s*\n\s*-{3,}\s*$)(?:(?!\1)[\s\S])*?\1/gm,
+    weight: 0.5,
+    description:
+      "Docstring with formal Args/Returns sections typical of AI generation",
+    aiIndicator: true,
+    scope: "file",
+  },
+
+  // A sectioned docstring followed by a one-statement body
+  {
+    id: "python/docstring-on-trivial-function",
+    category: "comments",
+    languages: ["python"],
+    pattern:
+      /^([ \t]*)def\s+\w+\s*\([^)]*\)[^:\n]*:[ \t]*\n([ \t]+)("""|''')(?:(?!\3)[\s\S])*?\b(?:Args|Parameters|Returns):?(?:(?!\3)[\s\S])*?\3[ \t]*\n\2(?:return|pass)\b[^\n]*$(?!\n\2\S)/gm,
+    weight: 0.4,
+    description:
+      "Exhaustive docstring on a trivial one-line function — typical AI over-documentation",
+    aiIndicator: true,
+    scope: "file",
+  },
+  {
+    id: "python/main-guard",
+    category: "structure",
+    languages: ["python"],
+    pattern: /^if\s+__name__\s*==\s*["']__main__["']\s*:/g,
+    weight: 0.3,
+    description: 'Uses "if __name__ == "__main__":" script boilerplate',
+    aiIndicator: true,
+  },
+  {
+    id: "python/argparse-help",
+    category: "validation",
+    languages: ["python"],
+    pattern:
+      /\badd_argument\([^)]*\bhelp\s*=|\bArgumentParser\([^)]*\bdescription\s*=/g,
+    weight: 0.5,
+    description: "argparse arguments with complete help text",
+    aiIndicator: true,
+  },
+
+  // Every parameter (other than self/cls) annotated, plus a return annotation
+  {
+    id: "python/complete-type-hints",
+    category: "language",
+    languages: ["python"],
+    pattern:
+      /\bdef\s+\w+\s*\(\s*(?:(?:self|cls)\s*(?:,\s*|(?=\))))?(?:\*{0,2}\w+\s*:\s*(?:[^,()[\]]|\[[^\]]*\])+(?:,\s*|(?=\))))+\)\s*->\s*[^:]+:/g,
+    weight: 0.4,
+    description: "Type hints on every parameter and the return value",
+    aiIndicator: true,
+    target: "code",
+  },
+  {
+    id: "python/fstring-error-message",
+    category: "error-handling",
+    languages: ["python"],
+    pattern: /\braise\s+\w*(?:Error|Exception)\(\s*f["']/g,
+    weight: 0.5,
+    description: "Raises exceptions with formatted f-string messages",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+  {
+    id: "python/debugger-call",
+    category: "debugging",
+    languages: ["python"],
+    pattern:
+      /\bimport\s+i?pdb\b|\bi?pdb\.set_trace\(\)|\bbreakpoint\(\)|\bimport\s+code\b.*\binteract\b/g,
+    weight: 0.8,
+    description: "Leftover pdb / breakpoint() debugger call",
+    aiIndicator: false,
+    target: "code",
+  },
+];
@@ -0,0 +1,66 @@
+import type { DetectionRule } from "../ruleRegistry";
+
+export const RUST_RULES: DetectionRule[] = [
+  {
+    id: "rust/expect-failed-to",
+    category: "error-handling",
+    languages: ["rust"],
+    pattern:
+      /\.expect\(\s*"(?:Failed to|Unable to|Could not|Should)\b[^"]*"\s*\)/g,
+    weight: 0.5,
+    description: 'Uses .expect("Failed to ...") on every fallible call',
+    aiIndicator: true,
+  },
+  {
+    id: "rust/doc-comment",
+    category: "comments",
+    languages: ["rust"],
+    pattern: /^\/\/[/!]\s+[A-Z]/g,
+    weight: 0.3,
+    description: "Formal /// doc comment",
+    aiIndicator: true,
+  },
+
+  // "# Examples", "# Errors", "# Panics" rustdoc sections
+  {
+    id: "rust/doc-section",
+    category: "comments",
+    languages: ["rust"],
+    pattern:
+      /^\/\/[/!]\s*#\s*(?:Examples|Errors|Panics|Arguments|Returns|Safety)\b/g,
+    weight: 0.5,
+    description: "Rustdoc with formal # Examples / # Errors sections",
+    aiIndicator: true,
+  },
+
+  // Human indicators
+  {
+    id: "rust/unwrap",
+    category: "error-handling",
+    languages: ["rust"],
+    pattern: /\.unwrap\(\)/g,
+    weight: 0.4,
+    description: "Uses bare .unwrap() instead of handling errors",
+    aiIndicator: false,
+    target: "code",
+  },
+  {
+    id: "rust/debug-macro",
+    category: "debugging",
+    languages: ["rust"],
+    pattern: /\bdbg!\(|\beprintln!\(\s*"\{:\?\}"|\bprintln!\(\s*"\{:\?\}"/g,
+    weight: 0.6,
+    description: "Contains dbg! / {:?} debug printing",
+    aiIndicator: false,
+  },
+  {
+    id: "rust/todo-macro",
+    category: "structure",
+    languages: ["rust"],
+    pattern: /\b(?:todo|unimplemented)!\(/g,
+    weight: 0.5,
+    description: "Leaves todo!() / unimplemented!() placeholders",
+    aiIndicator: false,
+    target: "code",
+  },
+];
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeText } from "./sanitizer";
+
+describe("sanitizeText", () => {
+  it("removes invisible characters and replaces odd spaces and dashes", () => {
+    const result = sanitizeText("const a\u200b = 1; // one — two", undefined, {
+      language: "javascript",
+    });
+
+    expect(result.text).toBe("const a = 1; // one - two");
+    expect(result.changes).toHaveLength(3);
+    expect(result.lines).toEqual([
+      {
+        line: 1,
+        before: "const a\u200b = 1; // one — two",
+        after: "const a = 1; // one - two",
+      },
+    ]);
+  });
+
+  it("keeps smart quotes inside string literals so the code still parses", () => {
+    const code = 'const s = "He said “hi”";';
+    const result = sanitizeText(code, undefined, { language: "javascript" });
+
+    expect(result.text).toBe(code);
+    expect(result.changes).toEqual([]);
+  });
+
+  it("replaces smart quotes in code and comments", () => {
+    const code = "print(“hello”)  # it’s fine";
+    const result = sanitizeText(code, undefined, { language: "python" });
+
+    expect(result.text).toBe("print(\"hello\")  # it's fine");
+  });
+
+  it("keeps smart quotes in strings that span lines", () => {
+    const code = 'doc = """\nThe “fast” path\n"""\nx = ‘a’';
+    const result = sanitizeText(code, undefined, { language: "python" });
+
+    expect(result.text).toBe('doc = """\nThe “fast” path\n"""\nx = \'a\'');
+  });
+
+  it("treats text without a language as prose", () => {
+    expect(sanitizeText('"He said “hi”"').text).toBe('"He said "hi""');
+  });
+
+  it("leaves homoglyphs alone unless asked", () => {
+    const code = "const \u0430ccount = 1;";
+
+    expect(sanitizeText(code, undefined, { language: "javascript" }).text).toBe(code);
+    expect(
+      sanitizeText(code, undefined, { language: "javascript", categories: ["homoglyph"] }).text
+    ).toBe("const account = 1;");
+  });
+});
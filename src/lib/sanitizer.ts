@@ -0,0 +1,120 @@
+import { tokenizeLines } from "./lexer";
+import { findUnicodeFindings } from "./unicodeForensics";
+import type { UnicodeCategory, UnicodeFinding } from "./unicodeForensics";
+
+// One character the sanitizer removed or replaced
+export interface SanitizeChange {
+  finding: UnicodeFinding;
+  // "" when the character is removed
+  replacement: string;
+}
+
+// A line before and after sanitizing; line numbers are 1-based
+export interface SanitizedLine {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface SanitizeResult {
+  text: string;
+  changes: SanitizeChange[];
+  lines: SanitizedLine[];
+}
+
+export interface SanitizeOptions {
+  // Categories to clean; homoglyphs are left alone by default because
+  // replacing a letter renames the identifier it belongs to
+  categories?: UnicodeCategory[];
+  // Language of the text, so string literals can be told apart; "text"
+  // (the default) treats everything as prose
+  language?: string;
+}
+
+export const DEFAULT_SANITIZED_CATEGORIES: UnicodeCategory[] = [
+  "invisible",
+  "bidi-control",
+  "non-breaking-space",
+  "unusual-whitespace",
+  "smart-quote",
+  "dash",
+];
+
+const SINGLE_QUOTES = new Set([0x2018, 0x2019, 0x201a, 0x201b, 0x2032]);
+
+// What a finding is replaced with: invisible and bidi characters go, spaces
+// become plain spaces and punctuation its ASCII counterpart
+function replacementFor(finding: UnicodeFinding): string {
+  switch (finding.category) {
+    case "invisible":
+    case "bidi-control":
+      return "";
+    case "non-breaking-space":
+    case "unusual-whitespace":
+      return " ";
+    case "smart-quote":
+      return SINGLE_QUOTES.has(finding.codePoint) ? "'" : '"';
+    case "dash":
+      return "-";
+    case "homoglyph":
+      return finding.lookalike ?? "";
+  }
+}
+
+// Removes or replaces the characters the Unicode forensics found; pass the
+// findings from an earlier analysis to avoid scanning the text again
+export function sanitizeText(
+  text: string,
+  findings: UnicodeFinding[] = findUnicodeFindings(text),
+  options: SanitizeOptions = {}
+): SanitizeResult {
+  const categories = new Set(
+    options.categories ?? DEFAULT_SANITIZED_CATEGORIES
+  );
+  // A smart quote inside a string literal is text the program prints, and an
+  // ASCII quote in its place could end the literal, so those are kept
+  const tokens = tokenizeLines(text, options.language ?? "text");
+  const inString = (finding: UnicodeFinding) =>
+    (tokens[finding.line - 1] || []).some(
+      (token) =>
+        token.kind === "string" &&
+        finding.column - 1 >= token.start &&
+        finding.column - 1 < token.end
+    );
+
+  const changes: SanitizeChange[] = findings
+    .filter((finding) => categories.has(finding.category))
+    .filter(
+      (finding) => finding.category !== "smart-quote" || !inString(finding)
+    )
+    .map((finding) => ({ finding, replacement: replacementFor(finding) }));
+
+  const byLine = new Map<number, SanitizeChange[]>();
+  for (const change of changes) {
+    const lineChanges = byLine.get(change.finding.line) || [];
+    lineChanges.push(change);
+    byLine.set(change.finding.line, lineChanges);
+  }
+
+  const textLines = text.split("\n");
+  const lines: SanitizedLine[] = [];
+  for (const [line, lineChanges] of byLine) {
+    const before = textLines[line - 1];
+    // Right to left so earlier columns stay valid
+    let after = before;
+    for (const { finding, replacement } of [...lineChanges].sort(
+      (a, b) => b.finding.column - a.finding.column
+    )) {
+      const index = finding.column - 1;
+      after = after.slice(0, index) + replacement + after.slice(index + 1);
+    }
+    textLines[line - 1] = after;
+    lines.push({ line, before, after });
+  }
+
+  return {
+    text: textLines.join("\n"),
+    changes,
+    lines: lines.sort((a, b) => a.line - b.line),
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { DetectionReason } from "./aiDetection";
+import {
+  DEFAULT_SCORING_MODEL,
+  calibrateProbability,
+  coefficientFor,
+  fitPlattScaling,
+  fitScoringModel,
+  scoreReasons,
+  sigmoid,
+} from "./scoringModel";
+import type { TrainingExample } from "./scoringModel";
+
+function reason(
+  ruleId: string,
+  polarity: DetectionReason["polarity"],
+  weight: number
+): DetectionReason {
+  return { ruleId, message: ruleId, polarity, weight, spans: [] };
+}
+
+describe("coefficientFor", () => {
+  it("scales the weight, positive for AI rules and negative for human ones", () => {
+    expect(coefficientFor(DEFAULT_SCORING_MODEL, reason("a", "ai", 0.5))).toBe(1.5);
+    expect(coefficientFor(DEFAULT_SCORING_MODEL, reason("h", "human", 0.5))).toBe(-1.5);
+  });
+
+  it("uses a fitted per-rule scale when there is one", () => {
+    const model = { ...DEFAULT_SCORING_MODEL, coefficients: { a: 2 } };
+
+    expect(coefficientFor(model, reason("a", "ai", 0.5))).toBe(1);
+    expect(coefficientFor(model, reason("a", "human", 0.25))).toBe(-0.5);
+  });
+});
+
+describe("scoreReasons", () => {
+  it("is the sigmoid of the bias with no reasons", () => {
+    expect(scoreReasons({ ...DEFAULT_SCORING_MODEL, bias: 1 }, [])).toBe(sigmoid(1));
+  });
+
+  it("ignores neutral and weightless reasons", () => {
+    expect(
+      scoreReasons(DEFAULT_SCORING_MODEL, [
+        reason("context", "neutral", 0.5),
+        reason("a", "ai", 0),
+      ])
+    ).toBe(0.5);
+  });
+
+  it("sums the coefficients of the contributing reasons", () => {
+    expect(
+      scoreReasons(DEFAULT_SCORING_MODEL, [
+        reason("a", "ai", 0.5),
+        reason("h", "human", 0.2),
+      ])
+    ).toBeCloseTo(sigmoid(1.5 - 0.6));
+  });
+});
+
+describe("fitScoringModel", () => {
+  it("returns a copy of the base model without examples", () => {
+    expect(fitScoringModel([])).toEqual(DEFAULT_SCORING_MODEL);
+  });
+
+  it("raises the scale of a rule that separates the labels", () => {
+    const examples: TrainingExample[] = [
+      ...Array.from({ length: 10 }, () => ({
+        reasons: [reason("a", "ai", 0.2)],
+        isAI: true,
+      })),
+      ...Array.from({ length: 10 }, () => ({ reasons: [], isAI: false })),
+    ];
+    const model = fitScoringModel(examples);
+
+    expect(model.coefficients.a).toBeGreaterThan(DEFAULT_SCORING_MODEL.weightScale);
+    expect(model.bias).toBeLessThan(0);
+    expect(scoreReasons(model, [reason("a", "ai", 0.2)])).toBeGreaterThan(
+      scoreReasons(DEFAULT_SCORING_MODEL, [reason("a", "ai", 0.2)])
+    );
+  });
+
+  it("fits one scale for a rule that fires with either polarity", () => {
+    const examples: TrainingExample[] = [
+      ...Array.from({ length: 10 }, () => ({
+        reasons: [reason("ngram", "ai", 0.4)],
+        isAI: true,
+      })),
+      ...Array.from({ length: 10 }, () => ({
+        reasons: [reason("ngram", "human", 0.4)],
+        isAI: false,
+      })),
+    ];
+    const model = fitScoringModel(examples);
+
+    expect(model.coefficients.ngram).toBeGreaterThan(0);
+    expect(scoreReasons(model, [reason("ngram", "ai", 0.4)])).toBeGreaterThan(0.5);
+    expect(scoreReasons(model, [reason("ngram", "human", 0.4)])).toBeLessThan(0.5);
+  });
+
+  it("counts a rule once per line, whatever its number of matches", () => {
+    const once = fitScoringModel([
+      { reasons: [reason("a", "ai", 0.3)], isAI: true },
+      { reasons: [], isAI: false },
+    ]);
+    const twice = fitScoringModel([
+      { reasons: [reason("a", "ai", 0.3), reason("a", "ai", 0.3)], isAI: true },
+      { reasons: [], isAI: false },
+    ]);
+
+    expect(twice).toEqual(once);
+  });
+});
+
+describe("calibrateProbability", () => {
+  it("leaves the probability alone without a calibration", () => {
+    expect(calibrateProbability(DEFAULT_SCORING_MODEL, 0.9)).toBe(0.9);
+  });
+
+  it("applies the slope and intercept to the logit", () => {
+    const model = {
+      ...DEFAULT_SCORING_MODEL,
+      calibration: { slope: 0.5, intercept: -1 },
+    };
+
+    expect(calibrateProbability(model, sigmoid(4))).toBeCloseTo(sigmoid(1));
+  });
+});
+
+describe("fitPlattScaling", () => {
+  it("is the identity without predictions", () => {
+    expect(fitPlattScaling([])).toEqual({ slope: 1, intercept: 0 });
+  });
+
+  it("shrinks overconfident predictions towards their observed rate", () => {
+    // Predicted 90% AI either way, but only 70% of each group matches
+    const predictions = [
+      ...Array.from({ length: 10 }, (_, i) => ({ aiProbability: 0.9, isAI: i < 7 })),
+      ...Array.from({ length: 10 }, (_, i) => ({ aiProbability: 0.1, isAI: i >= 7 })),
+    ];
+    const calibration = fitPlattScaling(predictions);
+    const model = { ...DEFAULT_SCORING_MODEL, calibration };
+
+    expect(calibration.slope).toBeLessThan(1);
+    expect(calibrateProbability(model, 0.9)).toBeCloseTo(0.7, 2);
+    expect(calibrateProbability(model, 0.1)).toBeCloseTo(0.3, 2);
+  });
+});
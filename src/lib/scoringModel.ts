@@ -0,0 +1,201 @@
+import type { DetectionReason } from "./aiDetection";
+
+// Logistic model over the rules that fired on a line:
+// P(ai) = sigmoid(bias + sum of the coefficients of every contributing rule)
+// A rule's coefficient is its weight times a scale, positive for AI rules
+// and negative for human ones
+export interface ScoringModel {
+  bias: number;
+  // Scale for rules without a fitted one
+  weightScale: number;
+  // Fitted per-rule scales, keyed by rule id. Scaling the weight rather than
+  // replacing it keeps reasons whose weight and polarity vary from line to
+  // line (ngram/token-sequence) meaningful
+  coefficients: Record<string, number>;
+  // Platt scaling of each line's final probability, applied after sequence
+  // smoothing; omit to leave the probabilities as they are
+  calibration?: PlattScaling;
+}
+
+// Calibrated P(ai) = sigmoid(slope * logit(P(ai)) + intercept)
+export interface PlattScaling {
+  slope: number;
+  intercept: number;
+}
+
+export interface TrainingExample {
+  reasons: DetectionReason[];
+  isAI: boolean;
+}
+
+export interface FitOptions {
+  iterations?: number;
+  learningRate?: number;
+  // L2 penalty pulling fitted coefficients back towards their rule weights
+  regularization?: number;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  bias: 0,
+  weightScale: 3,
+  coefficients: {},
+};
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Reasons that act as model features; contextual and neutral reasons carry
+// no weight and only explain the verdict
+function isFeature(reason: DetectionReason): boolean {
+  return reason.polarity !== "neutral" && reason.weight > 0;
+}
+
+function signedWeight(reason: DetectionReason): number {
+  return (reason.polarity === "ai" ? 1 : -1) * reason.weight;
+}
+
+function scaleFor(model: ScoringModel, ruleId: string): number {
+  return model.coefficients[ruleId] ?? model.weightScale;
+}
+
+export function coefficientFor(
+  model: ScoringModel,
+  reason: DetectionReason
+): number {
+  return signedWeight(reason) * scaleFor(model, reason.ruleId);
+}
+
+export function scoreReasons(
+  model: ScoringModel,
+  reasons: DetectionReason[]
+): number {
+  const logit = reasons
+    .filter(isFeature)
+    .reduce((sum, reason) => sum + coefficientFor(model, reason), model.bias);
+  return sigmoid(logit);
+}
+
+// Maps a line's final probability through the model's Platt scaling
+export function calibrateProbability(
+  model: ScoringModel,
+  probability: number
+): number {
+  if (!model.calibration) return probability;
+  const { slope, intercept } = model.calibration;
+  return sigmoid(slope * logit(probability) + intercept);
+}
+
+function logit(probability: number): number {
+  const p = Math.min(Math.max(probability, 1e-6), 1 - 1e-6);
+  return Math.log(p / (1 - p));
+}
+
+// Fits the bias and per-rule scales by gradient descent on the log loss,
+// starting from (and regularized towards) the base model. The result is
+// uncalibrated; see fitPlattScaling
+export function fitScoringModel(
+  examples: TrainingExample[],
+  base: ScoringModel = DEFAULT_SCORING_MODEL,
+  options: FitOptions = {}
+): ScoringModel {
+  const {
+    iterations = 500,
+    learningRate = 0.5,
+    regularization = 0.01,
+  } = options;
+
+  if (examples.length === 0) {
+    return { ...base };
+  }
+
+  // Each rule counts once per line, whatever its number of matches
+  const features = examples.map((example) => {
+    const seen = new Map<string, DetectionReason>();
+    for (const reason of example.reasons.filter(isFeature)) {
+      seen.set(reason.ruleId, reason);
+    }
+    return [...seen.values()];
+  });
+
+  const priors = new Map<string, number>();
+  for (const reasons of features) {
+    for (const reason of reasons) {
+      priors.set(reason.ruleId, scaleFor(base, reason.ruleId));
+    }
+  }
+
+  let bias = base.bias;
+  const coefficients = new Map(priors);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let biasGradient = 0;
+    const gradients = new Map<string, number>();
+
+    features.forEach((reasons, i) => {
+      const logit = reasons.reduce(
+        (sum, reason) =>
+          sum + signedWeight(reason) * coefficients.get(reason.ruleId)!,
+        bias
+      );
+      const error = sigmoid(logit) - (examples[i].isAI ? 1 : 0);
+      biasGradient += error;
+      for (const reason of reasons) {
+        gradients.set(
+          reason.ruleId,
+          (gradients.get(reason.ruleId) || 0) + error * signedWeight(reason)
+        );
+      }
+    });
+
+    bias -= (learningRate * biasGradient) / examples.length;
+    for (const [ruleId, prior] of priors) {
+      const coefficient = coefficients.get(ruleId)!;
+      const gradient =
+        (gradients.get(ruleId) || 0) / examples.length +
+        regularization * (coefficient - prior);
+      coefficients.set(ruleId, coefficient - learningRate * gradient);
+    }
+  }
+
+  return {
+    bias,
+    weightScale: base.weightScale,
+    coefficients: { ...base.coefficients, ...Object.fromEntries(coefficients) },
+  };
+}
+
+// Fits Platt scaling to predictions the model made on lines it was not fitted
+// on. In-sample predictions would look calibrated already and leave the
+// model as overconfident on new code as it was.
+export function fitPlattScaling(
+  predictions: { aiProbability: number; isAI: boolean }[],
+  options: Omit<FitOptions, "regularization"> = {}
+): PlattScaling {
+  const { iterations = 2000, learningRate = 0.5 } = options;
+  let slope = 1;
+  let intercept = 0;
+
+  if (predictions.length === 0) {
+    return { slope, intercept };
+  }
+
+  const logits = predictions.map(({ aiProbability }) => logit(aiProbability));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let slopeGradient = 0;
+    let interceptGradient = 0;
+
+    logits.forEach((value, i) => {
+      const error =
+        sigmoid(slope * value + intercept) - (predictions[i].isAI ? 1 : 0);
+      slopeGradient += error * value;
+      interceptGradient += error;
+    });
+
+    slope -= (learningRate * slopeGradient) / predictions.length;
+    intercept -= (learningRate * interceptGradient) / predictions.length;
+  }
+
+  return { slope, intercept };
+}
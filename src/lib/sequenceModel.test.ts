@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SEQUENCE_MODEL, smoothSequence } from "./sequenceModel";
+
+describe("smoothSequence", () => {
+  it("returns nothing for a file without observations", () => {
+    expect(smoothSequence([null, null])).toEqual({
+      posteriors: [null, null],
+      states: [null, null],
+      segments: [],
+    });
+  });
+
+  it("keeps a lone line's probability under a neutral prior", () => {
+    const { posteriors, states } = smoothSequence([0.8]);
+
+    expect(posteriors[0]).toBeCloseTo(0.8);
+    expect(states).toEqual(["ai"]);
+  });
+
+  it("leaves lines independent when switching is a coin flip", () => {
+    const probabilities = [0.9, 0.2, 0.7, 0.4];
+    const { posteriors } = smoothSequence(probabilities, {
+      ...DEFAULT_SEQUENCE_MODEL,
+      switchProbability: 0.5,
+    });
+
+    posteriors.forEach((posterior, i) =>
+      expect(posterior).toBeCloseTo(probabilities[i])
+    );
+  });
+
+  it("pulls a weak AI line into the surrounding human region", () => {
+    const { posteriors, states, segments } = smoothSequence([
+      0.1, 0.15, 0.1, 0.6, 0.1, 0.15, 0.1,
+    ]);
+
+    expect(posteriors[3]).toBeLessThan(0.5);
+    expect(states.every((state) => state === "human")).toBe(true);
+    expect(segments).toHaveLength(1);
+  });
+
+  it("keeps two strongly evidenced regions apart", () => {
+    const { states, segments } = smoothSequence([0.95, 0.9, 0.95, 0.05, 0.1, 0.05]);
+
+    expect(states).toEqual(["ai", "ai", "ai", "human", "human", "human"]);
+    expect(segments.map(({ label, startLine, endLine }) => [label, startLine, endLine])).toEqual([
+      ["ai", 1, 3],
+      ["human", 4, 6],
+    ]);
+  });
+
+  it("skips blank lines without breaking a segment", () => {
+    const { posteriors, states, segments } = smoothSequence([0.9, null, 0.9]);
+
+    expect(posteriors[1]).toBeNull();
+    expect(states).toEqual(["ai", null, "ai"]);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ label: "ai", startLine: 1, endLine: 3 });
+  });
+
+  it("reports a segment's confidence as the mean posterior of its label", () => {
+    const { posteriors, segments } = smoothSequence([0.2, 0.3]);
+    const mean = (2 - posteriors[0]! - posteriors[1]!) / 2;
+
+    expect(segments[0].label).toBe("human");
+    expect(segments[0].confidence).toBeCloseTo(mean);
+  });
+});
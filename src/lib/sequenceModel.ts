@@ -0,0 +1,170 @@
+// Two-state hidden Markov model (AI / human) over the lines of a file. Each
+// line's own AI probability is its emission, and a small switch probability
+// keeps neighbouring lines in the same region unless the evidence is strong.
+
+export type SegmentLabel = "ai" | "human";
+
+export interface SequenceModel {
+  // Chance of moving between an AI and a human region from one line to the next
+  switchProbability: number;
+  // Prior that a file starts in an AI region
+  initialAIProbability: number;
+  // Lines at least this confident on their own keep their verdict
+  anchorConfidence: number;
+}
+
+// A run of lines in the same region; line numbers are 1-based and inclusive
+export interface Segment {
+  label: SegmentLabel;
+  startLine: number;
+  endLine: number;
+  // Mean posterior probability of the label over the segment's lines
+  confidence: number;
+}
+
+export interface SequenceResult {
+  // Smoothed P(ai) per line, null for lines without an observation
+  posteriors: (number | null)[];
+  // Most likely region per line (Viterbi path)
+  states: (SegmentLabel | null)[];
+  segments: Segment[];
+}
+
+export const DEFAULT_SEQUENCE_MODEL: SequenceModel = {
+  switchProbability: 0.1,
+  initialAIProbability: 0.5,
+  anchorConfidence: 0.85,
+};
+
+// Keeps a single line from ever being certain on its own
+const MIN_EMISSION = 0.01;
+
+// States are indexed 0 = AI, 1 = human
+function emissions(probability: number): [number, number] {
+  const p = Math.min(Math.max(probability, MIN_EMISSION), 1 - MIN_EMISSION);
+  return [p, 1 - p];
+}
+
+// Lines with a null probability (blank lines) are skipped: they neither
+// emit nor count as a step between regions
+export function smoothSequence(
+  probabilities: (number | null)[],
+  model: SequenceModel = DEFAULT_SEQUENCE_MODEL
+): SequenceResult {
+  const observed = probabilities
+    .map((probability, index) => ({ probability, index }))
+    .filter(
+      (entry): entry is { probability: number; index: number } =>
+        entry.probability !== null
+    );
+
+  const posteriors: (number | null)[] = probabilities.map(() => null);
+  const states: (SegmentLabel | null)[] = probabilities.map(() => null);
+  if (observed.length === 0) {
+    return { posteriors, states, segments: [] };
+  }
+
+  const stay = 1 - model.switchProbability;
+  const transition = [
+    [stay, model.switchProbability],
+    [model.switchProbability, stay],
+  ];
+  const initial = [model.initialAIProbability, 1 - model.initialAIProbability];
+  const emitted = observed.map((entry) => emissions(entry.probability));
+
+  // Forward-backward with per-step normalisation
+  const forward: number[][] = [];
+  for (let t = 0; t < observed.length; t++) {
+    const alpha = [0, 1].map((state) => {
+      const prior =
+        t === 0
+          ? initial[state]
+          : forward[t - 1][0] * transition[0][state] +
+            forward[t - 1][1] * transition[1][state];
+      return prior * emitted[t][state];
+    });
+    const total = alpha[0] + alpha[1];
+    forward.push([alpha[0] / total, alpha[1] / total]);
+  }
+
+  const backward: number[][] = new Array(observed.length);
+  backward[observed.length - 1] = [1, 1];
+  for (let t = observed.length - 2; t >= 0; t--) {
+    const beta = [0, 1].map(
+      (state) =>
+        transition[state][0] * emitted[t + 1][0] * backward[t + 1][0] +
+        transition[state][1] * emitted[t + 1][1] * backward[t + 1][1]
+    );
+    const total = beta[0] + beta[1];
+    backward[t] = [beta[0] / total, beta[1] / total];
+  }
+
+  observed.forEach((entry, t) => {
+    const ai = forward[t][0] * backward[t][0];
+    const human = forward[t][1] * backward[t][1];
+    posteriors[entry.index] = ai / (ai + human);
+  });
+
+  // Viterbi in log space for the single most likely segmentation
+  const logTransition = transition.map((row) => row.map(Math.log));
+  let scores = [0, 1].map(
+    (state) => Math.log(initial[state]) + Math.log(emitted[0][state])
+  );
+  const backPointers: number[][] = [];
+  for (let t = 1; t < observed.length; t++) {
+    const pointers: number[] = [];
+    scores = [0, 1].map((state) => {
+      const fromAI = scores[0] + logTransition[0][state];
+      const fromHuman = scores[1] + logTransition[1][state];
+      pointers.push(fromAI >= fromHuman ? 0 : 1);
+      return Math.max(fromAI, fromHuman) + Math.log(emitted[t][state]);
+    });
+    backPointers.push(pointers);
+  }
+
+  const path: number[] = new Array(observed.length);
+  path[observed.length - 1] = scores[0] >= scores[1] ? 0 : 1;
+  for (let t = observed.length - 1; t > 0; t--) {
+    path[t - 1] = backPointers[t - 1][path[t]];
+  }
+  observed.forEach((entry, t) => {
+    states[entry.index] = path[t] === 0 ? "ai" : "human";
+  });
+
+  return {
+    posteriors,
+    states,
+    segments: buildSegments(observed, path, posteriors),
+  };
+}
+
+function buildSegments(
+  observed: { index: number }[],
+  path: number[],
+  posteriors: (number | null)[]
+): Segment[] {
+  const segments: Segment[] = [];
+  let start = 0;
+
+  for (let t = 1; t <= observed.length; t++) {
+    if (t < observed.length && path[t] === path[start]) continue;
+
+    const label: SegmentLabel = path[start] === 0 ? "ai" : "human";
+    const lines = observed.slice(start, t);
+    const confidence =
+      lines.reduce((sum, { index }) => {
+        const posterior = posteriors[index]!;
+        return sum + (label === "ai" ? posterior : 1 - posterior);
+      }, 0) / lines.length;
+
+    segments.push({
+      label,
+      startLine: lines[0].index + 1,
+      endLine: lines[lines.length - 1].index + 1,
+      confidence,
+    });
+    start = t;
+  }
+
+  return segments;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { tokenizeLines } from "./lexer";
+import {
+  analyzeStylometry,
+  extractStyleFeatures,
+  styleReasonsByLine,
+} from "./stylometry";
+
+// Features of comment-free lines, where the code view is the line itself
+function featuresOf(lines: string[]) {
+  return extractStyleFeatures(lines, lines, lines.map(() => ""));
+}
+
+describe("extractStyleFeatures", () => {
+  it("is all zeros for no lines", () => {
+    const features = featuresOf([]);
+
+    expect(Object.values(features).every((value) => value === 0)).toBe(true);
+  });
+
+  it("measures identifiers, leaving out keywords", () => {
+    const features = featuresOf(["let total_count = a + b", "const userName = x"]);
+
+    expect(features.lineCount).toBe(2);
+    expect(features.identifierCount).toBe(5);
+    expect(features.meanIdentifierLength).toBeCloseTo((11 + 1 + 1 + 8 + 1) / 5);
+    expect(features.shortIdentifierRatio).toBeCloseTo(3 / 5);
+    // One camelCase and one snake_case name
+    expect(features.namingMixRatio).toBe(0.5);
+  });
+
+  it("scores token entropy against the number of distinct tokens", () => {
+    expect(featuresOf(["a a a a"]).tokenEntropy).toBe(0);
+    expect(featuresOf(["a b a b"]).tokenEntropy).toBeCloseTo(1);
+  });
+
+  it("measures blank-line rhythm only once there are enough paragraphs", () => {
+    expect(featuresOf(["a", "b", "", "c", "d"]).blankLineRhythm).toBe(0);
+    expect(featuresOf(["a", "b", "", "c", "d", "", "e", "f"]).blankLineRhythm).toBe(0);
+    expect(
+      featuresOf(["a", "", "b", "c", "d", "", "e", "f"]).blankLineRhythm
+    ).toBeGreaterThan(0.4);
+  });
+});
+
+describe("analyzeStylometry", () => {
+  it("counts comments and how many sit aligned above code", () => {
+    const code = ["function f() {", "  // Sum", "  return a + b; // why", "}"].join("\n");
+    const { file } = analyzeStylometry(code, "javascript", tokenizeLines(code, "javascript"));
+
+    expect(file.commentRatio).toBe(0.5);
+    // The own-line comment is aligned, the trailing one is not
+    expect(file.commentAlignment).toBe(0.5);
+  });
+
+  it("folds a short remainder into the last window", () => {
+    const code = Array.from({ length: 45 }, (_, i) => `x${i} = ${i}`).join("\n");
+    const { windows } = analyzeStylometry(code, "python", tokenizeLines(code, "python"));
+
+    expect(windows.map((w) => [w.startLine, w.endLine])).toEqual([
+      [1, 20],
+      [21, 45],
+    ]);
+  });
+});
+
+describe("styleReasonsByLine", () => {
+  it("attaches a window's signals to each of its lines", () => {
+    const quiet = featuresOf([]);
+    const terse = { ...quiet, identifierCount: 20, shortIdentifierRatio: 0.5 };
+    const reasons = styleReasonsByLine(
+      {
+        file: quiet,
+        windows: [
+          { startLine: 1, endLine: 2, features: terse },
+          { startLine: 3, endLine: 3, features: quiet },
+        ],
+      },
+      3
+    );
+
+    expect(reasons.map((line) => line.map((r) => r.ruleId))).toEqual([
+      ["style/terse-identifiers"],
+      ["style/terse-identifiers"],
+      [],
+    ]);
+    expect(reasons[0][0].polarity).toBe("human");
+  });
+});
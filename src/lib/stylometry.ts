@@ -0,0 +1,324 @@
+import type { DetectionReason } from "./aiDetection";
+import { maskLine } from "./lexer";
+import type { LineToken } from "./lexer";
+
+// Style measurements over a run of lines. Ratios are 0 when there is nothing
+// to measure; check the counts before trusting them on short inputs.
+export interface StyleFeatures {
+  // Non-blank lines the features were computed from
+  lineCount: number;
+  identifierCount: number;
+  meanIdentifierLength: number;
+  identifierLengthStdDev: number;
+  // Share of identifiers of one or two characters (i, x, ok)
+  shortIdentifierRatio: number;
+  // Share of multi-word identifiers written in the minority convention
+  // (camelCase vs snake_case): 0 is consistent, 0.5 an even mix
+  namingMixRatio: number;
+  meanLineLength: number;
+  lineLengthVariance: number;
+  // Shannon entropy of the code tokens divided by its maximum for the number
+  // of distinct tokens; lower values mean more repetitive code
+  tokenEntropy: number;
+  // Coefficient of variation of the runs of lines between blank lines; low
+  // values mean evenly sized paragraphs
+  blankLineRhythm: number;
+  // Share of non-blank lines carrying a comment
+  commentRatio: number;
+  // Share of comments that sit on their own directly above code at the same
+  // indentation, as opposed to trailing or stray comments
+  commentAlignment: number;
+}
+
+// Features for lines startLine..endLine (1-based, inclusive)
+export interface StyleWindow {
+  startLine: number;
+  endLine: number;
+  features: StyleFeatures;
+}
+
+export interface StylometryReport {
+  file: StyleFeatures;
+  windows: StyleWindow[];
+}
+
+// Lines per window; a shorter remainder joins the window before it
+const DEFAULT_WINDOW_SIZE = 20;
+
+// Below these counts a feature is too noisy to score
+const MIN_SCORED_LINES = 12;
+const MIN_SCORED_IDENTIFIERS = 10;
+const MIN_SCORED_PARAGRAPHS = 3;
+
+// Keywords shared by the supported languages; they say nothing about how
+// the author names things
+const KEYWORDS = new Set(
+  `abstract and as async await break case catch class const continue def del
+  default defer do elif else enum except export extends false final finally fn
+  for from func function go if impl implements import in instanceof interface
+  is let match mod mut new nil none not null or package pass private protected
+  pub public raise return self static struct super switch this throw throws
+  true try type typeof undefined use var void while with yield`.split(/\s+/)
+);
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+const CODE_TOKEN = /[A-Za-z_$][\w$]*|\d[\w.]*|\S/g;
+const CAMEL_CASE = /^[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+$/;
+const SNAKE_CASE = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/;
+
+// Computes the style features of the whole file and of consecutive windows,
+// so mixed files can be judged region by region
+export function analyzeStylometry(
+  code: string,
+  language: string,
+  tokens: LineToken[][],
+  windowSize: number = DEFAULT_WINDOW_SIZE
+): StylometryReport {
+  const lines = code.split("\n");
+  const codeLines = lines.map((line, i) =>
+    maskLine(line, tokens[i] || [], "code", language)
+  );
+  const commentLines = lines.map((line, i) =>
+    maskLine(line, tokens[i] || [], "comment", language)
+  );
+
+  const windows: StyleWindow[] = [];
+  for (let start = 0; start < lines.length; start += windowSize) {
+    let end = Math.min(start + windowSize, lines.length);
+    if (lines.length - end < windowSize / 2) end = lines.length;
+    windows.push({
+      startLine: start + 1,
+      endLine: end,
+      features: extractStyleFeatures(
+        lines.slice(start, end),
+        codeLines.slice(start, end),
+        commentLines.slice(start, end)
+      ),
+    });
+    if (end === lines.length) break;
+  }
+
+  return {
+    file: extractStyleFeatures(lines, codeLines, commentLines),
+    windows,
+  };
+}
+
+// codeLines and commentLines are the lexer's code-only and comment-only
+// views of the lines (see maskLine)
+export function extractStyleFeatures(
+  lines: string[],
+  codeLines: string[],
+  commentLines: string[]
+): StyleFeatures {
+  const nonBlank = lines.filter((line) => line.trim());
+  const lengths = nonBlank.map((line) => line.trim().length);
+
+  const identifiers = codeLines.flatMap((line) =>
+    (line.match(IDENTIFIER) || []).filter(
+      (word) => !KEYWORDS.has(word.toLowerCase())
+    )
+  );
+  const identifierLengths = identifiers.map((word) => word.length);
+
+  const camelCount = identifiers.filter((word) => CAMEL_CASE.test(word)).length;
+  const snakeCount = identifiers.filter((word) => SNAKE_CASE.test(word)).length;
+
+  const codeTokens = codeLines.flatMap((line) => line.match(CODE_TOKEN) || []);
+
+  return {
+    lineCount: nonBlank.length,
+    identifierCount: identifiers.length,
+    meanIdentifierLength: mean(identifierLengths),
+    identifierLengthStdDev: Math.sqrt(variance(identifierLengths)),
+    shortIdentifierRatio: ratio(
+      identifierLengths.filter((length) => length <= 2).length,
+      identifiers.length
+    ),
+    namingMixRatio: ratio(
+      Math.min(camelCount, snakeCount),
+      camelCount + snakeCount
+    ),
+    meanLineLength: mean(lengths),
+    lineLengthVariance: variance(lengths),
+    tokenEntropy: normalizedEntropy(codeTokens),
+    blankLineRhythm: coefficientOfVariation(paragraphLengths(lines)),
+    commentRatio: ratio(
+      commentLines.filter((line) => line.trim()).length,
+      nonBlank.length
+    ),
+    commentAlignment: commentAlignment(lines, codeLines, commentLines),
+  };
+}
+
+interface StyleSignal {
+  ruleId: string;
+  message: string;
+  aiIndicator: boolean;
+  weight: number;
+  applies: (features: StyleFeatures) => boolean;
+}
+
+// Thresholds were read off the labeled corpus. Line-length variance, token
+// entropy and comment alignment did not separate AI from human code there,
+// so they are reported but not scored. Weights stay small because each
+// signal reaches every line of its window.
+const STYLE_SIGNALS: StyleSignal[] = [
+  {
+    ruleId: "style/descriptive-identifiers",
+    message: "Long, descriptive identifiers throughout the region",
+    aiIndicator: true,
+    weight: 0.1,
+    applies: (f) =>
+      f.identifierCount >= MIN_SCORED_IDENTIFIERS &&
+      f.meanIdentifierLength >= 6.5 &&
+      f.shortIdentifierRatio < 0.12,
+  },
+  {
+    ruleId: "style/terse-identifiers",
+    message: "Many one- and two-letter identifiers in the region",
+    aiIndicator: false,
+    weight: 0.15,
+    applies: (f) =>
+      f.identifierCount >= MIN_SCORED_IDENTIFIERS &&
+      f.shortIdentifierRatio >= 0.25,
+  },
+  {
+    ruleId: "style/mixed-naming",
+    message: "Mixes camelCase and snake_case names",
+    aiIndicator: false,
+    weight: 0.15,
+    applies: (f) =>
+      f.identifierCount >= MIN_SCORED_IDENTIFIERS && f.namingMixRatio >= 0.2,
+  },
+  {
+    ruleId: "style/regular-paragraphs",
+    message: "Blank lines split the region into evenly sized paragraphs",
+    aiIndicator: true,
+    weight: 0.1,
+    applies: (f) =>
+      f.lineCount >= MIN_SCORED_LINES &&
+      f.blankLineRhythm > 0 &&
+      f.blankLineRhythm < 0.4,
+  },
+];
+
+// Reasons for every line of each window whose style is telling
+export function styleReasonsByLine(
+  report: StylometryReport,
+  lineCount: number
+): DetectionReason[][] {
+  const reasonsByLine: DetectionReason[][] = Array.from(
+    { length: lineCount },
+    () => []
+  );
+
+  for (const window of report.windows) {
+    const reasons: DetectionReason[] = STYLE_SIGNALS.filter((signal) =>
+      signal.applies(window.features)
+    ).map((signal) => ({
+      ruleId: signal.ruleId,
+      message: signal.message,
+      polarity: signal.aiIndicator ? "ai" : "human",
+      weight: signal.weight,
+      spans: [],
+    }));
+    for (let line = window.startLine; line <= window.endLine; line++) {
+      reasonsByLine[line - 1].push(...reasons);
+    }
+  }
+
+  return reasonsByLine;
+}
+
+// Lengths of the runs of non-blank lines between blank lines
+function paragraphLengths(lines: string[]): number[] {
+  const lengths: number[] = [];
+  let current = 0;
+  for (const line of lines) {
+    if (line.trim()) {
+      current++;
+    } else if (current > 0) {
+      lengths.push(current);
+      current = 0;
+    }
+  }
+  if (current > 0) lengths.push(current);
+  return lengths.length >= MIN_SCORED_PARAGRAPHS ? lengths : [];
+}
+
+function commentAlignment(
+  lines: string[],
+  codeLines: string[],
+  commentLines: string[]
+): number {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  let comments = 0;
+  let aligned = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const hasCode = codeLines[i].trim() !== "";
+    if (!commentLines[i].trim()) continue;
+
+    // Trailing comments never count as aligned
+    if (hasCode) {
+      comments++;
+      continue;
+    }
+
+    // A run of comment-only lines counts once, judged by the line below it
+    let end = i;
+    while (
+      end + 1 < lines.length &&
+      commentLines[end + 1].trim() &&
+      !codeLines[end + 1].trim()
+    ) {
+      end++;
+    }
+    comments++;
+    const next = lines[end + 1];
+    if (
+      next !== undefined &&
+      codeLines[end + 1].trim() &&
+      indentOf(next) === indentOf(lines[i])
+    ) {
+      aligned++;
+    }
+    i = end;
+  }
+
+  return ratio(aligned, comments);
+}
+
+function normalizedEntropy(tokens: string[]): number {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+  if (counts.size < 2) return 0;
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / tokens.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy / Math.log2(counts.size);
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const average = mean(values);
+  return average > 0 ? Math.sqrt(variance(values)) / average : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function variance(values: number[]): number {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
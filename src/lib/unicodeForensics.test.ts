@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { findUnicodeFindings, formatCodePoint } from "./unicodeForensics";
+
+describe("formatCodePoint", () => {
+  it("pads to four uppercase hex digits", () => {
+    expect(formatCodePoint(0x200b)).toBe("U+200B");
+    expect(formatCodePoint(0xa0)).toBe("U+00A0");
+  });
+});
+
+describe("findUnicodeFindings", () => {
+  it("finds nothing in plain ASCII", () => {
+    expect(findUnicodeFindings('const a = "b"; // c\n')).toEqual([]);
+  });
+
+  it("reports each character with its category, severity and position", () => {
+    const findings = findUnicodeFindings("let a\u200b = 1;\nx = \u201cy\u201d");
+
+    expect(
+      findings.map(({ category, severity, name, line, column }) => [
+        category,
+        severity,
+        name,
+        line,
+        column,
+      ])
+    ).toEqual([
+      ["invisible", "medium", "ZERO WIDTH SPACE", 1, 6],
+      ["smart-quote", "low", "LEFT DOUBLE QUOTATION MARK", 2, 5],
+      ["smart-quote", "low", "RIGHT DOUBLE QUOTATION MARK", 2, 7],
+    ]);
+  });
+
+  it("rates bidi controls as high severity", () => {
+    const [finding] = findUnicodeFindings('s = "\u202eabc"');
+
+    expect(finding).toMatchObject({
+      category: "bidi-control",
+      severity: "high",
+      codePoint: 0x202e,
+    });
+  });
+
+  it("ignores a byte order mark at the start of the file only", () => {
+    expect(findUnicodeFindings("\ufeffx = 1")).toEqual([]);
+    expect(findUnicodeFindings("x = 1\n\ufeffy = 2")).toHaveLength(1);
+  });
+
+  it("flags look-alike letters in identifiers that mix in Latin", () => {
+    // U+0430 CYRILLIC SMALL LETTER A in place of the Latin "a"
+    const findings = findUnicodeFindings("if (is\u0430dmin) {}");
+
+    expect(findings).toEqual([
+      {
+        category: "homoglyph",
+        severity: "high",
+        codePoint: 0x0430,
+        name: "CYRILLIC SMALL LETTER A",
+        line: 1,
+        column: 7,
+        identifier: "is\u0430dmin",
+        lookalike: "a",
+      },
+    ]);
+  });
+
+  it("leaves words written wholly in another script alone", () => {
+    expect(findUnicodeFindings("// привет")).toEqual([]);
+  });
+});
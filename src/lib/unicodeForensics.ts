@@ -0,0 +1,232 @@
+// Finds Unicode characters that have no business in source code or that an
+// editor hides: invisible and bidi control characters, look-alike letters
+// from other scripts, and typographic punctuation and spaces that usually
+// arrive by pasting generated or word-processed text.
+
+export type UnicodeCategory =
+  | "invisible"
+  | "bidi-control"
+  | "homoglyph"
+  | "non-breaking-space"
+  | "unusual-whitespace"
+  | "smart-quote"
+  | "dash";
+
+// high: can change what the code does or how it reads (Trojan Source,
+// spoofed names); medium: hidden but inert; low: typographic leftovers
+export type UnicodeSeverity = "high" | "medium" | "low";
+
+export interface UnicodeFinding {
+  category: UnicodeCategory;
+  severity: UnicodeSeverity;
+  codePoint: number;
+  // Unicode character name, e.g. "ZERO WIDTH SPACE"
+  name: string;
+  // 1-based position of the character
+  line: number;
+  column: number;
+  // For homoglyphs: the identifier containing the character and the Latin
+  // letter it imitates
+  identifier?: string;
+  lookalike?: string;
+}
+
+// Invisible formatting characters; shared by the line rules and the commit
+// message check
+export const INVISIBLE_CHARACTERS =
+  /[\u200B\u200C\u200D\uFEFF\u2060\u180E\u2061\u2062\u2063\u2064]/;
+
+const CATEGORY_SEVERITY: Record<UnicodeCategory, UnicodeSeverity> = {
+  "bidi-control": "high",
+  homoglyph: "high",
+  invisible: "medium",
+  "unusual-whitespace": "medium",
+  "non-breaking-space": "low",
+  "smart-quote": "low",
+  dash: "low",
+};
+
+export const UNICODE_CATEGORY_LABELS: Record<UnicodeCategory, string> = {
+  "bidi-control": "Bidirectional control",
+  homoglyph: "Homoglyph in identifier",
+  invisible: "Invisible character",
+  "unusual-whitespace": "Unusual whitespace",
+  "non-breaking-space": "Non-breaking space",
+  "smart-quote": "Smart quote",
+  dash: "Typographic dash",
+};
+
+const CHARACTERS: Record<number, [UnicodeCategory, string]> = {
+  0x200b: ["invisible", "ZERO WIDTH SPACE"],
+  0x200c: ["invisible", "ZERO WIDTH NON-JOINER"],
+  0x200d: ["invisible", "ZERO WIDTH JOINER"],
+  0xfeff: ["invisible", "ZERO WIDTH NO-BREAK SPACE"],
+  0x2060: ["invisible", "WORD JOINER"],
+  0x180e: ["invisible", "MONGOLIAN VOWEL SEPARATOR"],
+  0x2061: ["invisible", "FUNCTION APPLICATION"],
+  0x2062: ["invisible", "INVISIBLE TIMES"],
+  0x2063: ["invisible", "INVISIBLE SEPARATOR"],
+  0x2064: ["invisible", "INVISIBLE PLUS"],
+  0x00ad: ["invisible", "SOFT HYPHEN"],
+
+  0x202a: ["bidi-control", "LEFT-TO-RIGHT EMBEDDING"],
+  0x202b: ["bidi-control", "RIGHT-TO-LEFT EMBEDDING"],
+  0x202c: ["bidi-control", "POP DIRECTIONAL FORMATTING"],
+  0x202d: ["bidi-control", "LEFT-TO-RIGHT OVERRIDE"],
+  0x202e: ["bidi-control", "RIGHT-TO-LEFT OVERRIDE"],
+  0x2066: ["bidi-control", "LEFT-TO-RIGHT ISOLATE"],
+  0x2067: ["bidi-control", "RIGHT-TO-LEFT ISOLATE"],
+  0x2068: ["bidi-control", "FIRST STRONG ISOLATE"],
+  0x2069: ["bidi-control", "POP DIRECTIONAL ISOLATE"],
+  0x200e: ["bidi-control", "LEFT-TO-RIGHT MARK"],
+  0x200f: ["bidi-control", "RIGHT-TO-LEFT MARK"],
+  0x061c: ["bidi-control", "ARABIC LETTER MARK"],
+
+  0x00a0: ["non-breaking-space", "NO-BREAK SPACE"],
+  0x202f: ["non-breaking-space", "NARROW NO-BREAK SPACE"],
+  0x2007: ["non-breaking-space", "FIGURE SPACE"],
+
+  0x2000: ["unusual-whitespace", "EN QUAD"],
+  0x2001: ["unusual-whitespace", "EM QUAD"],
+  0x2002: ["unusual-whitespace", "EN SPACE"],
+  0x2003: ["unusual-whitespace", "EM SPACE"],
+  0x2004: ["unusual-whitespace", "THREE-PER-EM SPACE"],
+  0x2005: ["unusual-whitespace", "FOUR-PER-EM SPACE"],
+  0x2006: ["unusual-whitespace", "SIX-PER-EM SPACE"],
+  0x2008: ["unusual-whitespace", "PUNCTUATION SPACE"],
+  0x2009: ["unusual-whitespace", "THIN SPACE"],
+  0x200a: ["unusual-whitespace", "HAIR SPACE"],
+  0x205f: ["unusual-whitespace", "MEDIUM MATHEMATICAL SPACE"],
+  0x3000: ["unusual-whitespace", "IDEOGRAPHIC SPACE"],
+  0x1680: ["unusual-whitespace", "OGHAM SPACE MARK"],
+  0x2028: ["unusual-whitespace", "LINE SEPARATOR"],
+  0x2029: ["unusual-whitespace", "PARAGRAPH SEPARATOR"],
+  0x0085: ["unusual-whitespace", "NEXT LINE"],
+  0x000b: ["unusual-whitespace", "LINE TABULATION"],
+
+  0x2018: ["smart-quote", "LEFT SINGLE QUOTATION MARK"],
+  0x2019: ["smart-quote", "RIGHT SINGLE QUOTATION MARK"],
+  0x201a: ["smart-quote", "SINGLE LOW-9 QUOTATION MARK"],
+  0x201b: ["smart-quote", "SINGLE HIGH-REVERSED-9 QUOTATION MARK"],
+  0x201c: ["smart-quote", "LEFT DOUBLE QUOTATION MARK"],
+  0x201d: ["smart-quote", "RIGHT DOUBLE QUOTATION MARK"],
+  0x201e: ["smart-quote", "DOUBLE LOW-9 QUOTATION MARK"],
+  0x201f: ["smart-quote", "DOUBLE HIGH-REVERSED-9 QUOTATION MARK"],
+  0x2032: ["smart-quote", "PRIME"],
+  0x2033: ["smart-quote", "DOUBLE PRIME"],
+
+  0x2010: ["dash", "HYPHEN"],
+  0x2011: ["dash", "NON-BREAKING HYPHEN"],
+  0x2012: ["dash", "FIGURE DASH"],
+  0x2013: ["dash", "EN DASH"],
+  0x2014: ["dash", "EM DASH"],
+  0x2015: ["dash", "HORIZONTAL BAR"],
+  0x2212: ["dash", "MINUS SIGN"],
+};
+
+// Cyrillic and Greek letters that render like Latin ones: [name, lookalike]
+const HOMOGLYPHS: Record<number, [string, string]> = {
+  0x0430: ["CYRILLIC SMALL LETTER A", "a"],
+  0x0435: ["CYRILLIC SMALL LETTER IE", "e"],
+  0x043e: ["CYRILLIC SMALL LETTER O", "o"],
+  0x0440: ["CYRILLIC SMALL LETTER ER", "p"],
+  0x0441: ["CYRILLIC SMALL LETTER ES", "c"],
+  0x0443: ["CYRILLIC SMALL LETTER U", "y"],
+  0x0445: ["CYRILLIC SMALL LETTER HA", "x"],
+  0x0455: ["CYRILLIC SMALL LETTER DZE", "s"],
+  0x0456: ["CYRILLIC SMALL LETTER BYELORUSSIAN-UKRAINIAN I", "i"],
+  0x0458: ["CYRILLIC SMALL LETTER JE", "j"],
+  0x0501: ["CYRILLIC SMALL LETTER KOMI DE", "d"],
+  0x0410: ["CYRILLIC CAPITAL LETTER A", "A"],
+  0x0412: ["CYRILLIC CAPITAL LETTER VE", "B"],
+  0x0415: ["CYRILLIC CAPITAL LETTER IE", "E"],
+  0x041a: ["CYRILLIC CAPITAL LETTER KA", "K"],
+  0x041c: ["CYRILLIC CAPITAL LETTER EM", "M"],
+  0x041d: ["CYRILLIC CAPITAL LETTER EN", "H"],
+  0x041e: ["CYRILLIC CAPITAL LETTER O", "O"],
+  0x0420: ["CYRILLIC CAPITAL LETTER ER", "P"],
+  0x0421: ["CYRILLIC CAPITAL LETTER ES", "C"],
+  0x0422: ["CYRILLIC CAPITAL LETTER TE", "T"],
+  0x0425: ["CYRILLIC CAPITAL LETTER HA", "X"],
+  0x0405: ["CYRILLIC CAPITAL LETTER DZE", "S"],
+  0x0406: ["CYRILLIC CAPITAL LETTER BYELORUSSIAN-UKRAINIAN I", "I"],
+  0x0408: ["CYRILLIC CAPITAL LETTER JE", "J"],
+  0x03b1: ["GREEK SMALL LETTER ALPHA", "a"],
+  0x03bf: ["GREEK SMALL LETTER OMICRON", "o"],
+  0x03bd: ["GREEK SMALL LETTER NU", "v"],
+  0x03c1: ["GREEK SMALL LETTER RHO", "p"],
+  0x0391: ["GREEK CAPITAL LETTER ALPHA", "A"],
+  0x0392: ["GREEK CAPITAL LETTER BETA", "B"],
+  0x0395: ["GREEK CAPITAL LETTER EPSILON", "E"],
+  0x0396: ["GREEK CAPITAL LETTER ZETA", "Z"],
+  0x0397: ["GREEK CAPITAL LETTER ETA", "H"],
+  0x0399: ["GREEK CAPITAL LETTER IOTA", "I"],
+  0x039a: ["GREEK CAPITAL LETTER KAPPA", "K"],
+  0x039c: ["GREEK CAPITAL LETTER MU", "M"],
+  0x039d: ["GREEK CAPITAL LETTER NU", "N"],
+  0x039f: ["GREEK CAPITAL LETTER OMICRON", "O"],
+  0x03a1: ["GREEK CAPITAL LETTER RHO", "P"],
+  0x03a4: ["GREEK CAPITAL LETTER TAU", "T"],
+  0x03a5: ["GREEK CAPITAL LETTER UPSILON", "Y"],
+  0x03a7: ["GREEK CAPITAL LETTER CHI", "X"],
+};
+
+// Letters, digits and joiners that make up a word or identifier
+const WORD = /[\p{L}\p{N}_$]+/gu;
+const LATIN_LETTER = /[A-Za-z]/;
+
+// "U+200B"
+export function formatCodePoint(codePoint: number): string {
+  return `U+${codePoint.toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+export function findUnicodeFindings(text: string): UnicodeFinding[] {
+  const findings: UnicodeFinding[] = [];
+
+  text.split("\n").forEach((line, index) => {
+    const lineNumber = index + 1;
+
+    for (let column = 0; column < line.length; column++) {
+      const codePoint = line.codePointAt(column)!;
+      const known = CHARACTERS[codePoint];
+      // A byte order mark opening the file is an encoding artifact
+      if (!known || (codePoint === 0xfeff && index === 0 && column === 0)) {
+        continue;
+      }
+      const [category, name] = known;
+      findings.push({
+        category,
+        severity: CATEGORY_SEVERITY[category],
+        codePoint,
+        name,
+        line: lineNumber,
+        column: column + 1,
+      });
+    }
+
+    // Only words that mix Latin letters with look-alikes are suspicious;
+    // text written wholly in Cyrillic or Greek is left alone
+    for (const match of line.matchAll(WORD)) {
+      const word = match[0];
+      if (!LATIN_LETTER.test(word)) continue;
+
+      for (let offset = 0; offset < word.length; offset++) {
+        const codePoint = word.codePointAt(offset)!;
+        const homoglyph = HOMOGLYPHS[codePoint];
+        if (!homoglyph) continue;
+        findings.push({
+          category: "homoglyph",
+          severity: CATEGORY_SEVERITY.homoglyph,
+          codePoint,
+          name: homoglyph[0],
+          line: lineNumber,
+          column: match.index! + offset + 1,
+          identifier: word,
+          lookalike: homoglyph[1],
+        });
+      }
+    }
+  });
+
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}